@@ -0,0 +1,264 @@
+/**
+ * CID Utilities
+ *
+ * Just enough of the multiformats specs to check that bytes returned by a
+ * gateway are the content a CID names, without adding a dependency:
+ * - CIDv0 ("Qm...", base58btc) and CIDv1 (multibase b / B / z / f)
+ * - sha2-256 and identity multihashes
+ * - raw, dag-pb (UnixFS) and JSON codecs
+ *
+ * dag-pb content can only be re-derived when it fits in one block: a file of
+ * at most 256 KiB added with the default chunker (what Pinata and `ipfs add`
+ * produce for metadata JSON). Larger files are reported as unverifiable.
+ */
+
+import { createHash } from "crypto";
+
+export const CODEC_RAW = 0x55;
+export const CODEC_DAG_PB = 0x70;
+const CODEC_JSON = 0x0200;
+const CODEC_DAG_JSON = 0x0129;
+
+const MULTIHASH_IDENTITY = 0x00;
+const MULTIHASH_SHA2_256 = 0x12;
+
+// Default chunk size of `ipfs add` and Pinata uploads
+const DEFAULT_CHUNK_SIZE = 256 * 1024;
+
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+export interface ParsedCid {
+  cid: string; // As given
+  version: 0 | 1;
+  codec: number;
+  hashCode: number;
+  digest: Uint8Array;
+}
+
+export type CidVerification = "verified" | "mismatch" | "unverifiable";
+
+function decodeBase58(value: string): Uint8Array | null {
+  const bytes: number[] = []; // Little-endian
+  for (const char of value) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) return null;
+
+    let carry = digit;
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  // Each leading "1" is a leading zero byte
+  let zeros = 0;
+  while (value[zeros] === "1") zeros++;
+  return Uint8Array.from([...new Array<number>(zeros).fill(0), ...bytes.reverse()]);
+}
+
+function decodeBase32(value: string): Uint8Array | null {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of value) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) return null;
+    buffer = (buffer << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+function encodeBase32(bytes: Uint8Array): string {
+  let output = "";
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      output += BASE32_ALPHABET[(buffer >> bits) & 31];
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function readVarint(bytes: Uint8Array, offset: number): [value: number, next: number] | null {
+  let value = 0;
+  let shift = 0;
+  for (let i = offset; i < bytes.length && shift < 49; i++) {
+    value += (bytes[i] & 0x7f) * 2 ** shift;
+    if ((bytes[i] & 0x80) === 0) {
+      return [value, i + 1];
+    }
+    shift += 7;
+  }
+  return null;
+}
+
+function encodeVarint(value: number): number[] {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return bytes;
+}
+
+function parseMultihash(
+  bytes: Uint8Array,
+  offset: number
+): { hashCode: number; digest: Uint8Array } | null {
+  const code = readVarint(bytes, offset);
+  if (!code) return null;
+  const length = readVarint(bytes, code[1]);
+  if (!length || length[1] + length[0] !== bytes.length) return null;
+  return { hashCode: code[0], digest: bytes.slice(length[1]) };
+}
+
+/**
+ * Parse a CID string
+ *
+ * @returns null if the string is not a CID in a supported encoding
+ */
+export function parseCid(cid: string): ParsedCid | null {
+  if (cid.length === 46 && cid.startsWith("Qm")) {
+    const bytes = decodeBase58(cid);
+    const multihash = bytes && parseMultihash(bytes, 0);
+    return multihash ? { cid, version: 0, codec: CODEC_DAG_PB, ...multihash } : null;
+  }
+
+  let bytes: Uint8Array | null = null;
+  const [prefix, body] = [cid[0], cid.slice(1)];
+  if (prefix === "b") bytes = decodeBase32(body);
+  else if (prefix === "B") bytes = decodeBase32(body.toLowerCase());
+  else if (prefix === "z") bytes = decodeBase58(body);
+  else if (prefix === "f" && /^([0-9a-f]{2})+$/.test(body)) bytes = Buffer.from(body, "hex");
+  if (!bytes) return null;
+
+  const version = readVarint(bytes, 0);
+  if (!version || version[0] !== 1) return null;
+  const codec = readVarint(bytes, version[1]);
+  if (!codec) return null;
+  const multihash = parseMultihash(bytes, codec[1]);
+  return multihash ? { cid, version: 1, codec: codec[0], ...multihash } : null;
+}
+
+/**
+ * Pull the CID (and any path inside it) out of a reference:
+ * "Qm...", "ipfs://Qm.../meta.json", "https://gateway/ipfs/bafy...", ...
+ *
+ * @returns null if the reference does not name IPFS content
+ */
+export function extractCid(ref: string): { cid: string; path: string } | null {
+  const trimmed = ref.trim();
+  const match =
+    /^ipfs:\/\/(?:ipfs\/)?([^/?#]+)([^?#]*)/.exec(trimmed) ??
+    /^https?:\/\/[^/]+\/ipfs\/([^/?#]+)([^?#]*)/.exec(trimmed) ??
+    /^https?:\/\/([^./]+)\.ipfs\.[^/]+([^?#]*)/.exec(trimmed) ??
+    /^\/?(?:ipfs\/)?([^/?#:]+)([^?#]*)$/.exec(trimmed);
+
+  if (!match || !parseCid(match[1])) {
+    return null;
+  }
+  return { cid: match[1], path: match[2].replace(/^\/+$/, "") };
+}
+
+/**
+ * sha2-256 (or identity) digest of bytes, per the CID's hash function
+ */
+function digestOf(hashCode: number, bytes: Uint8Array): Uint8Array | null {
+  if (hashCode === MULTIHASH_SHA2_256) {
+    return createHash("sha256").update(bytes).digest();
+  }
+  if (hashCode === MULTIHASH_IDENTITY) {
+    return bytes;
+  }
+  return null;
+}
+
+/**
+ * Encode file content as a single-block UnixFS dag-pb node (what `ipfs add`
+ * produces for files up to one chunk)
+ */
+function encodeUnixFsFile(content: Uint8Array): Uint8Array {
+  // UnixFS Data { Type = File (2), Data, filesize }
+  const unixfs = [0x08, 0x02];
+  if (content.length > 0) {
+    unixfs.push(0x12, ...encodeVarint(content.length));
+  }
+  const tail = [0x18, ...encodeVarint(content.length)];
+
+  // PBNode { Data } (no links)
+  const dataLength = unixfs.length + content.length + tail.length;
+  return Buffer.concat([
+    Uint8Array.from([0x0a, ...encodeVarint(dataLength), ...unixfs]),
+    content,
+    Uint8Array.from(tail),
+  ]);
+}
+
+const sameBytes = (a: Uint8Array, b: Uint8Array): boolean =>
+  a.length === b.length && Buffer.from(a).equals(Buffer.from(b));
+
+/**
+ * Check that content is what a CID names
+ */
+export function verifyCidContent(cid: ParsedCid, content: Uint8Array): CidVerification {
+  let block: Uint8Array;
+
+  switch (cid.codec) {
+    case CODEC_RAW:
+    case CODEC_JSON:
+    case CODEC_DAG_JSON:
+      block = content;
+      break;
+    case CODEC_DAG_PB:
+      if (content.length > DEFAULT_CHUNK_SIZE) {
+        return "unverifiable";
+      }
+      block = encodeUnixFsFile(content);
+      break;
+    default:
+      return "unverifiable";
+  }
+
+  const digest = digestOf(cid.hashCode, block);
+  if (!digest) {
+    return "unverifiable";
+  }
+  return sameBytes(digest, cid.digest) ? "verified" : "mismatch";
+}
+
+/**
+ * CIDv1 (raw codec, sha2-256, base32) of content, as Pinata and
+ * `ipfs add --cid-version=1` produce for single-block files
+ */
+export function computeRawCid(content: Uint8Array): string {
+  const digest = createHash("sha256").update(content).digest();
+  const bytes = Uint8Array.from([
+    0x01,
+    CODEC_RAW,
+    MULTIHASH_SHA2_256,
+    digest.length,
+    ...digest,
+  ]);
+  return `b${encodeBase32(bytes)}`;
+}
@@ -0,0 +1,199 @@
+/**
+ * IPFS Gateway Fetcher
+ *
+ * Reads IPFS content without trusting any single gateway:
+ * 1. The configured provider is asked first (local providers and our own
+ *    Kubo node hold content that public gateways may not have yet)
+ * 2. Otherwise all gateways are raced; each request has its own timeout and
+ *    the losers are aborted once one gateway answers
+ * 3. Content is checked against the CID before it is returned. A gateway
+ *    that returns different bytes is treated as failed and the race goes on.
+ *
+ * Content that cannot be re-derived from its CID (a path inside a directory,
+ * large chunked files, unknown codecs, plain HTTP URLs) is returned flagged
+ * as "unverifiable".
+ *
+ * Environment:
+ * - IPFS_GATEWAYS: comma-separated gateway URLs (default: IPFS_GATEWAY or
+ *   the Pinata gateway, then ipfs.io and dweb.link)
+ * - IPFS_GATEWAY_TIMEOUT_MS: per-gateway timeout (default: 10000)
+ */
+
+import { extractCid, parseCid, verifyCidContent, type CidVerification } from "./cid.js";
+import { getIpfsProvider } from "./ipfsProvider.js";
+
+const DEFAULT_GATEWAY = "https://tomato-causal-partridge-743.mypinata.cloud/ipfs/";
+const PUBLIC_GATEWAYS = ["https://ipfs.io/ipfs/", "https://dweb.link/ipfs/"];
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+export interface IpfsFetchResult {
+  content: Uint8Array;
+  cid: string | null; // null for references without a CID (plain HTTP URLs)
+  source: string; // Provider name or gateway URL that served the content
+  verification: Exclude<CidVerification, "mismatch">;
+}
+
+export class IpfsFetchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IpfsFetchError";
+  }
+}
+
+/**
+ * Normalize a gateway to "https://host/ipfs/"
+ */
+function normalizeGateway(gateway: string): string {
+  const base = gateway.trim().replace(/\/+$/, "");
+  return base.endsWith("/ipfs") ? `${base}/` : `${base}/ipfs/`;
+}
+
+/**
+ * Configured gateways, in order of preference
+ */
+export function getGateways(): string[] {
+  const configured = process.env.IPFS_GATEWAYS?.split(",").filter((g) => g.trim());
+  const gateways = configured?.length
+    ? configured
+    : [process.env.IPFS_GATEWAY || DEFAULT_GATEWAY, ...PUBLIC_GATEWAYS];
+  return [...new Set(gateways.map(normalizeGateway))];
+}
+
+export function getGatewayTimeoutMs(): number {
+  const timeout = Number(process.env.IPFS_GATEWAY_TIMEOUT_MS);
+  return timeout > 0 ? timeout : DEFAULT_TIMEOUT_MS;
+}
+
+/**
+ * HTTP URL of an IPFS reference on the preferred gateway
+ * HTTP URLs are returned as-is
+ */
+export function toGatewayUrl(ref: string, gateway = getGateways()[0]): string {
+  if (/^https?:\/\//.test(ref)) {
+    return ref;
+  }
+  const parsed = extractCid(ref);
+  if (parsed) {
+    return `${gateway}${parsed.cid}${parsed.path}`;
+  }
+  return `${gateway}${ref.replace(/^ipfs:\/\/(?:ipfs\/)?/, "")}`;
+}
+
+/**
+ * GET a URL, aborting after the timeout or when the shared signal fires
+ */
+async function fetchBytes(
+  url: string,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<Uint8Array> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort);
+
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new IpfsFetchError(`HTTP ${response.status}`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  } catch (error) {
+    if (controller.signal.aborted && !signal?.aborted) {
+      throw new IpfsFetchError(`Timed out after ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Fetch IPFS content by CID, ipfs:// URI or gateway URL
+ *
+ * @throws IpfsFetchError if no source returned content matching the CID
+ */
+export async function fetchIpfs(
+  ref: string,
+  options: { timeoutMs?: number } = {}
+): Promise<IpfsFetchResult> {
+  const timeoutMs = options.timeoutMs ?? getGatewayTimeoutMs();
+  const target = extractCid(ref);
+
+  // No CID to race or verify: fetch the URL itself (or the reference from
+  // the preferred gateway, as before CIDs were parsed)
+  if (!target) {
+    const url = toGatewayUrl(ref);
+    const content = await fetchBytes(url, timeoutMs);
+    return { content, cid: null, source: url, verification: "unverifiable" };
+  }
+
+  const { cid, path } = target;
+  const parsed = parseCid(cid)!;
+
+  // A path names a file inside a directory, not the CID's own content
+  const verify = (content: Uint8Array): CidVerification =>
+    path ? "unverifiable" : verifyCidContent(parsed, content);
+
+  // 1. The provider (content we added ourselves)
+  if (!path) {
+    const provider = await getIpfsProvider().catch(() => null);
+    const content = await provider?.get?.(cid).catch(() => null);
+    if (content) {
+      const verification = verify(content);
+      if (verification !== "mismatch") {
+        return { content, cid, source: provider!.name, verification };
+      }
+      console.warn(`⚠️  IPFS provider ${provider!.name} returned content not matching ${cid}`);
+    }
+  }
+
+  // 2. Race the gateways; the first verified (or unverifiable) answer wins
+  const gateways = getGateways();
+  const race = new AbortController();
+
+  try {
+    return await Promise.any(
+      gateways.map(async (gateway): Promise<IpfsFetchResult> => {
+        const content = await fetchBytes(`${gateway}${cid}${path}`, timeoutMs, race.signal);
+        const verification = verify(content);
+        if (verification === "mismatch") {
+          console.warn(`⚠️  Gateway ${gateway} returned content not matching ${cid}`);
+          throw new IpfsFetchError("Content does not match CID");
+        }
+        return { content, cid, source: gateway, verification };
+      })
+    );
+  } catch (error) {
+    const reasons = error instanceof AggregateError ? error.errors : [error];
+    throw new IpfsFetchError(
+      `Failed to fetch ${cid}${path} from ${gateways.length} gateways: ` +
+        reasons
+          .map((reason, index) => {
+            const message = reason instanceof Error ? reason.message : String(reason);
+            return `${new URL(gateways[index]).host}: ${message}`;
+          })
+          .join("; ")
+    );
+  } finally {
+    race.abort();
+  }
+}
+
+/**
+ * Fetch and parse an IPFS JSON document
+ *
+ * @throws IpfsFetchError if the content cannot be fetched or is not JSON
+ */
+export async function fetchIpfsJson<T = unknown>(
+  ref: string,
+  options: { timeoutMs?: number } = {}
+): Promise<IpfsFetchResult & { data: T }> {
+  const result = await fetchIpfs(ref, options);
+  try {
+    return { ...result, data: JSON.parse(new TextDecoder().decode(result.content)) as T };
+  } catch {
+    throw new IpfsFetchError(`Content of ${ref} is not valid JSON`);
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * IPFS Provider
+ *
+ * Adds (pins) content to IPFS behind one interface, so uploads work the same
+ * with a pinning service, our own node and in local tests.
+ *
+ * Providers (IPFS_PROVIDER):
+ * - pinata: Pinata pinning service (PINATA_JWT)
+ * - kubo: any node exposing the Kubo HTTP RPC API (KUBO_API_URL, e.g. a local
+ *   `ipfs daemon` on http://127.0.0.1:5001, or a hosted RPC endpoint)
+ * - memory: in-process store (tests)
+ * - filesystem: files under IPFS_LOCAL_DIR (default: {DATA_DIR}/ipfs), for
+ *   local development without a node
+ * If unset, Pinata is used when PINATA_JWT is set, Kubo when KUBO_API_URL is
+ * set, and uploads are disabled otherwise.
+ *
+ * Content is read back through gatewayFetcher.ts, which asks the provider
+ * first (local providers are not reachable through public gateways).
+ */
+
+export type IpfsProviderName = "pinata" | "kubo" | "memory" | "filesystem";
+
+export interface IpfsAddResult {
+  cid: string;
+  size: number; // Bytes
+}
+
+export interface IpfsAddOptions {
+  name?: string; // Shown in the pinning service's dashboard
+  contentType?: string;
+}
+
+export interface IpfsProvider {
+  readonly name: IpfsProviderName;
+
+  /**
+   * Add and pin a JSON document
+   */
+  addJson(data: unknown, options?: IpfsAddOptions): Promise<IpfsAddResult>;
+
+  /**
+   * Add and pin raw file content
+   */
+  addFile(content: Uint8Array, options?: IpfsAddOptions): Promise<IpfsAddResult>;
+
+  /**
+   * Read content directly from the provider, bypassing gateways
+   * @returns null if the provider does not hold the CID
+   */
+  get?(cid: string): Promise<Uint8Array | null>;
+}
+
+export class IpfsProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IpfsProviderError";
+  }
+}
+
+const PROVIDER_NAMES: IpfsProviderName[] = ["pinata", "kubo", "memory", "filesystem"];
+
+let provider: Promise<IpfsProvider | null> | null = null;
+
+/**
+ * Resolve the configured provider
+ * @returns null if no provider is configured
+ */
+export function getIpfsProviderName(): IpfsProviderName | null {
+  const configured = process.env.IPFS_PROVIDER;
+  if (configured) {
+    if (!PROVIDER_NAMES.includes(configured as IpfsProviderName)) {
+      throw new IpfsProviderError(
+        `Invalid IPFS_PROVIDER: ${configured}. Valid options: ${PROVIDER_NAMES.join(", ")}`
+      );
+    }
+    return configured as IpfsProviderName;
+  }
+
+  if (process.env.PINATA_JWT) return "pinata";
+  if (process.env.KUBO_API_URL) return "kubo";
+  return null;
+}
+
+/**
+ * Get the configured provider (created once per process)
+ * Providers are imported lazily so the Pinata SDK is only loaded when used
+ *
+ * @returns null if no provider is configured
+ */
+export function getIpfsProvider(): Promise<IpfsProvider | null> {
+  if (!provider) {
+    provider = (async (): Promise<IpfsProvider | null> => {
+      switch (getIpfsProviderName()) {
+        case "pinata": {
+          const { PinataIpfsProvider } = await import("./pinataIpfsProvider.js");
+          return PinataIpfsProvider.fromEnv();
+        }
+        case "kubo": {
+          const { KuboIpfsProvider } = await import("./kuboIpfsProvider.js");
+          return KuboIpfsProvider.fromEnv();
+        }
+        case "memory": {
+          const { MemoryIpfsProvider } = await import("./localIpfsProvider.js");
+          return new MemoryIpfsProvider();
+        }
+        case "filesystem": {
+          const { FilesystemIpfsProvider } = await import("./localIpfsProvider.js");
+          return FilesystemIpfsProvider.fromEnv();
+        }
+        case null:
+          return null;
+      }
+    })();
+
+    // Allow a retry after a configuration error
+    provider.catch(() => {
+      provider = null;
+    });
+  }
+  return provider;
+}
+
+/**
+ * JSON documents are stored compactly, as Pinata stores them
+ */
+export function encodeJson(data: unknown): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(data));
+}
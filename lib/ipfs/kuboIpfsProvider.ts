@@ -0,0 +1,103 @@
+/**
+ * Kubo IPFS Provider
+ *
+ * Adds content through the Kubo HTTP RPC API (/api/v0), served by a local
+ * `ipfs daemon` and by hosted RPC endpoints (Infura, Filebase, ...).
+ *
+ * Environment:
+ * - KUBO_API_URL: RPC endpoint, e.g. http://127.0.0.1:5001
+ * - KUBO_API_AUTH: Authorization header value (optional), e.g. "Basic ..."
+ */
+
+import {
+  IpfsProviderError,
+  encodeJson,
+  type IpfsAddOptions,
+  type IpfsAddResult,
+  type IpfsProvider,
+} from "./ipfsProvider.js";
+
+const REQUEST_TIMEOUT_MS = 30_000;
+
+export class KuboIpfsProvider implements IpfsProvider {
+  readonly name = "kubo" as const;
+
+  constructor(
+    private readonly apiUrl: string,
+    private readonly authorization?: string
+  ) {}
+
+  static fromEnv(): KuboIpfsProvider {
+    const apiUrl = process.env.KUBO_API_URL;
+    if (!apiUrl) {
+      throw new IpfsProviderError("IPFS_PROVIDER=kubo requires KUBO_API_URL");
+    }
+    return new KuboIpfsProvider(apiUrl.replace(/\/+$/, ""), process.env.KUBO_API_AUTH);
+  }
+
+  // The RPC API only accepts POST
+  private async rpc(
+    command: string,
+    params: Record<string, string>,
+    body?: FormData
+  ): Promise<Response> {
+    const url = `${this.apiUrl}/api/v0/${command}?${new URLSearchParams(params)}`;
+    const response = await fetch(url, {
+      method: "POST",
+      headers: this.authorization ? { Authorization: this.authorization } : undefined,
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      throw new IpfsProviderError(
+        `Kubo ${command} failed: HTTP ${response.status}${text ? ` ${text.slice(0, 200)}` : ""}`
+      );
+    }
+    return response;
+  }
+
+  async addJson(data: unknown, options: IpfsAddOptions = {}): Promise<IpfsAddResult> {
+    return this.addFile(encodeJson(data), {
+      name: options.name || `json-${Date.now()}.json`,
+      contentType: "application/json",
+    });
+  }
+
+  async addFile(content: Uint8Array, options: IpfsAddOptions = {}): Promise<IpfsAddResult> {
+    const form = new FormData();
+    form.append(
+      "file",
+      new Blob([new Uint8Array(content)], { type: options.contentType || "application/octet-stream" }),
+      options.name || `file-${Date.now()}`
+    );
+
+    // CIDv1 with raw leaves matches what Pinata returns for the same content
+    const response = await this.rpc(
+      "add",
+      { "cid-version": "1", "raw-leaves": "true", pin: "true" },
+      form
+    );
+
+    // One JSON object per line (a single line for a single file)
+    const lines = (await response.text()).trim().split("\n");
+    const result = JSON.parse(lines[lines.length - 1]) as { Hash?: string; Size?: string };
+    if (!result.Hash) {
+      throw new IpfsProviderError("Kubo add returned no CID");
+    }
+
+    return { cid: result.Hash, size: Number(result.Size ?? content.length) };
+  }
+
+  async get(cid: string): Promise<Uint8Array | null> {
+    try {
+      // Offline: only blocks the node holds; the network is the gateways' job
+      const response = await this.rpc("cat", { arg: cid, offline: "true" });
+      return new Uint8Array(await response.arrayBuffer());
+    } catch {
+      // Not pinned on the node (or the node is down): fall back to gateways
+      return null;
+    }
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Local IPFS Providers
+ *
+ * Stand-ins for a pinning service in tests and local development. Content is
+ * addressed by its real CIDv1 (raw codec, sha2-256), so CIDs match what
+ * Pinata or Kubo return for the same single-block content, but nothing is
+ * published to the network: only this process (memory) or this machine
+ * (filesystem) can read it back.
+ *
+ * Filesystem directory: IPFS_LOCAL_DIR, or {DATA_DIR}/ipfs
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { getDataDir } from "../storage/jsonFileStore.js";
+import { computeRawCid } from "./cid.js";
+import {
+  encodeJson,
+  type IpfsAddResult,
+  type IpfsProvider,
+} from "./ipfsProvider.js";
+
+export class MemoryIpfsProvider implements IpfsProvider {
+  readonly name = "memory" as const;
+
+  private blocks = new Map<string, Uint8Array>();
+
+  async addJson(data: unknown): Promise<IpfsAddResult> {
+    return this.addFile(encodeJson(data));
+  }
+
+  async addFile(content: Uint8Array): Promise<IpfsAddResult> {
+    const cid = computeRawCid(content);
+    this.blocks.set(cid, Uint8Array.from(content));
+    return { cid, size: content.length };
+  }
+
+  async get(cid: string): Promise<Uint8Array | null> {
+    return this.blocks.get(cid) ?? null;
+  }
+}
+
+export class FilesystemIpfsProvider implements IpfsProvider {
+  readonly name = "filesystem" as const;
+
+  constructor(private readonly rootDir: string) {}
+
+  static fromEnv(): FilesystemIpfsProvider {
+    return new FilesystemIpfsProvider(
+      process.env.IPFS_LOCAL_DIR || path.join(getDataDir(), "ipfs")
+    );
+  }
+
+  async addJson(data: unknown): Promise<IpfsAddResult> {
+    return this.addFile(encodeJson(data));
+  }
+
+  async addFile(content: Uint8Array): Promise<IpfsAddResult> {
+    const cid = computeRawCid(content);
+    const filepath = path.join(this.rootDir, cid);
+
+    // Content-addressed: an existing file already holds these bytes
+    if (!fs.existsSync(filepath)) {
+      const tmpPath = `${filepath}.${process.pid}.${Date.now()}.tmp`;
+      await fs.promises.mkdir(this.rootDir, { recursive: true });
+      await fs.promises.writeFile(tmpPath, content);
+      await fs.promises.rename(tmpPath, filepath);
+    }
+
+    return { cid, size: content.length };
+  }
+
+  async get(cid: string): Promise<Uint8Array | null> {
+    // CIDs are base32/base58; reject anything that could escape the directory
+    if (!/^[A-Za-z0-9]+$/.test(cid)) {
+      return null;
+    }
+    try {
+      return new Uint8Array(await fs.promises.readFile(path.join(this.rootDir, cid)));
+    } catch (error: any) {
+      if (error?.code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
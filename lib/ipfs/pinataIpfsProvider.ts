@@ -0,0 +1,50 @@
+/**
+ * Pinata IPFS Provider
+ *
+ * Pins content with the Pinata SDK (public network).
+ *
+ * Environment: PINATA_JWT, PINATA_GATEWAY (optional, dedicated gateway domain)
+ */
+
+import { PinataSDK } from "pinata";
+import {
+  IpfsProviderError,
+  type IpfsAddOptions,
+  type IpfsAddResult,
+  type IpfsProvider,
+} from "./ipfsProvider.js";
+
+export class PinataIpfsProvider implements IpfsProvider {
+  readonly name = "pinata" as const;
+
+  constructor(private readonly client: PinataSDK) {}
+
+  static fromEnv(): PinataIpfsProvider {
+    const jwt = process.env.PINATA_JWT;
+    if (!jwt) {
+      throw new IpfsProviderError("IPFS_PROVIDER=pinata requires PINATA_JWT");
+    }
+    return new PinataIpfsProvider(
+      new PinataSDK({
+        pinataJwt: jwt,
+        pinataGateway: process.env.PINATA_GATEWAY,
+      })
+    );
+  }
+
+  async addJson(data: unknown, options: IpfsAddOptions = {}): Promise<IpfsAddResult> {
+    const upload = await this.client.upload.public
+      .json(data as object)
+      .name(options.name || `json-${Date.now()}.json`);
+    return { cid: upload.cid, size: upload.size };
+  }
+
+  async addFile(content: Uint8Array, options: IpfsAddOptions = {}): Promise<IpfsAddResult> {
+    const name = options.name || `file-${Date.now()}`;
+    const file = new File([new Uint8Array(content)], name, {
+      type: options.contentType || "application/octet-stream",
+    });
+    const upload = await this.client.upload.public.file(file).name(name);
+    return { cid: upload.cid, size: upload.size };
+  }
+}
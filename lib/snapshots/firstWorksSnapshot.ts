@@ -14,11 +14,26 @@
  * - Store complete ownership mapping in JSON
  * - API reads from cached snapshot instantly
  * - Update snapshot every 24 hours
+ * - Updates replay Transfer logs since the previous snapshot's block instead
+ *   of re-reading every token
+ *
+ * Multiple collections:
+ * Every collection in GATING_COLLECTIONS (default: FirstWorks alone) is
+ * snapshotted separately and kept under `collections`. The top-level
+ * holderIndex merges them into weighted gating token IDs (see
+ * gatingCollections.ts), which is what the Merkle tree is built from.
  */
 
 import { createPublicClient, http } from "viem";
-import { mainnet } from "viem/chains";
+import { base, baseSepolia, mainnet, sepolia } from "viem/chains";
 import { AbrahamFirstWorks } from "../abi/firstWorks.js";
+import {
+  FIRSTWORKS_COLLECTION_ID,
+  buildWeightedHolderIndex,
+  getGatingCollections,
+  type GatingChain,
+  type GatingCollection,
+} from "./gatingCollections.js";
 import * as fs from "fs";
 import * as path from "path";
 import { fileURLToPath } from "url";
@@ -36,30 +51,56 @@ if (process.env.NODE_ENV !== "production") {
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-// FirstWorks contract address
-const FIRSTWORKS_ADDRESS =
-  (process.env.FIRSTWORKS_CONTRACT_ADDRESS as `0x${string}`) ||
-  "0x8F814c7C75C5E9e0EDe0336F535604B1915C1985";
-const FIRSTWORKS_RPC_URL = process.env.FIRSTWORKS_RPC_URL;
+const CHAINS = { mainnet, sepolia, base, baseSepolia } as const;
+
+// Alchemy NFT API network per chain
+const ALCHEMY_NETWORKS: Record<GatingChain, string> = {
+  mainnet: "eth-mainnet",
+  sepolia: "eth-sepolia",
+  base: "base-mainnet",
+  baseSepolia: "base-sepolia",
+};
+
+// Max blocks per eth_getLogs request (many providers cap the range)
+const LOG_BLOCK_RANGE = BigInt(
+  Number(process.env.FIRSTWORKS_LOG_BLOCK_RANGE) || 2000
+);
+
+// Ownership strategy: "auto" (default), "transfer-logs", "alchemy" or "rpc"
+const SNAPSHOT_STRATEGY = (
+  process.env.FIRSTWORKS_SNAPSHOT_STRATEGY || "auto"
+).toLowerCase();
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+const TRANSFER_EVENT = {
+  type: "event",
+  name: "Transfer",
+  inputs: [
+    { indexed: true, name: "from", type: "address" },
+    { indexed: true, name: "to", type: "address" },
+    { indexed: true, name: "tokenId", type: "uint256" },
+  ],
+} as const;
 
 /**
  * Validate environment variables (only when running as script)
  */
 function validateEnvironmentVariables(): void {
-  if (!FIRSTWORKS_ADDRESS) {
-    console.error("❌ Error: FIRSTWORKS_CONTRACT_ADDRESS is not set");
-    console.error(
-      "   Please add it to your .env.local file or Vercel environment variables"
-    );
+  let collections: GatingCollection[];
+  try {
+    collections = getGatingCollections();
+  } catch (error) {
+    console.error(`❌ Error: ${error instanceof Error ? error.message : String(error)}`);
     process.exit(1);
   }
 
-  if (
-    !FIRSTWORKS_RPC_URL ||
-    FIRSTWORKS_RPC_URL === "your_ethereum_rpc_url_here"
-  ) {
+  const missingRpc = collections.find(
+    (c) => !c.rpcUrl || c.rpcUrl === "your_ethereum_rpc_url_here"
+  );
+  if (missingRpc) {
     console.error(
-      "❌ Error: FIRSTWORKS_RPC_URL is not set or using placeholder"
+      `❌ Error: No RPC URL for the ${missingRpc.name} collection (${missingRpc.chain})`
     );
     console.error(
       "   Please add a valid Ethereum RPC URL to your .env.local file"
@@ -68,6 +109,7 @@ function validateEnvironmentVariables(): void {
     console.error(
       "   Example: FIRSTWORKS_RPC_URL=https://eth-mainnet.g.alchemy.com/v2/YOUR_API_KEY"
     );
+    console.error("   Or set rpcUrl for the collection in GATING_COLLECTIONS");
     console.error("\n   Get a free RPC URL from:");
     console.error("   - Alchemy: https://www.alchemy.com/");
     console.error("   - Infura: https://www.infura.io/");
@@ -85,65 +127,169 @@ export interface HolderData {
 }
 
 /**
- * Interface for the complete snapshot
+ * Ownership of one gating collection
  */
-export interface FirstWorksSnapshot {
+export interface CollectionSnapshot {
+  id: string;
+  name: string;
   contractAddress: string;
   contractName: string;
+  chain: GatingChain;
+  weight: number;
   totalSupply: number;
+  blockNumber: number; // Block number on the collection's chain
+  totalHolders: number;
+  // address -> tokenIds in this collection
+  holderIndex: Record<string, number[]>;
+}
+
+/**
+ * Interface for the complete snapshot
+ */
+export interface FirstWorksSnapshot {
+  contractAddress: string; // First gating collection
+  contractName: string;
+  totalSupply: number; // NFTs across all gating collections
   timestamp: string; // ISO timestamp of snapshot creation
-  blockNumber: number; // Block number at snapshot time
-  holders: HolderData[];
+  blockNumber: number; // Block number at snapshot time (first collection's chain)
+  holders: HolderData[]; // balance = eligibility units
   totalHolders: number;
-  // Index for fast lookups: address -> tokenIds
+  // Index for fast lookups: address -> gating token IDs (weighted)
   holderIndex: Record<string, number[]>;
+  // Per-collection ownership (absent in snapshots taken before multi-collection gating)
+  collections?: CollectionSnapshot[];
 }
 
 /**
- * Create viem client for reading contract
+ * Create viem client for reading a collection's contract
  */
-function createClient() {
+function createClient(collection: GatingCollection) {
   return createPublicClient({
-    chain: mainnet,
-    transport: http(FIRSTWORKS_RPC_URL),
+    chain: CHAINS[collection.chain],
+    transport: http(collection.rpcUrl),
   });
 }
 
+type SnapshotClient = ReturnType<typeof createClient>;
+
+/**
+ * Options for generating a snapshot
+ */
+export interface SnapshotOptions {
+  /** Snapshot ownership as of this block instead of the chain head */
+  blockNumber?: number;
+}
+
+/**
+ * A collection's ownership in a previous snapshot
+ */
+interface PreviousOwnership {
+  holderIndex: Record<string, number[]>;
+  blockNumber: number;
+}
+
+/**
+ * Per-collection ownership in a snapshot
+ * Snapshots taken before multi-collection gating hold FirstWorks alone
+ */
+export function getCollectionSnapshots(
+  snapshot: FirstWorksSnapshot
+): CollectionSnapshot[] {
+  if (snapshot.collections) {
+    return snapshot.collections;
+  }
+
+  return [
+    {
+      id: FIRSTWORKS_COLLECTION_ID,
+      name: "FirstWorks",
+      contractAddress: snapshot.contractAddress,
+      contractName: snapshot.contractName,
+      chain: "mainnet",
+      weight: 1,
+      totalSupply: snapshot.totalSupply,
+      blockNumber: snapshot.blockNumber,
+      totalHolders: snapshot.totalHolders,
+      holderIndex: snapshot.holderIndex,
+    },
+  ];
+}
+
+/**
+ * Find a collection's ownership in a previous snapshot (to replay Transfer logs onto)
+ */
+function getPreviousOwnership(
+  snapshot: FirstWorksSnapshot | null,
+  collection: GatingCollection
+): PreviousOwnership | null {
+  if (!snapshot) {
+    return null;
+  }
+
+  const previous = getCollectionSnapshots(snapshot).find(
+    (c) =>
+      c.contractAddress.toLowerCase() === collection.address.toLowerCase() &&
+      c.chain === collection.chain
+  );
+  return previous
+    ? { holderIndex: previous.holderIndex, blockNumber: previous.blockNumber }
+    : null;
+}
+
+/**
+ * Directory where snapshot files are written
+ * On Vercel, use /tmp (only writable location)
+ * Locally, use the snapshots directory
+ */
+export function getSnapshotDirectory(): string {
+  return process.env.VERCEL ? '/tmp' : __dirname;
+}
+
 /**
  * Main snapshot generation class
  */
 export class FirstWorksSnapshotGenerator {
-  private client;
+  private clients = new Map<string, SnapshotClient>();
   private snapshotDir: string;
 
   constructor() {
-    this.client = createClient();
-    // On Vercel, use /tmp (only writable location)
-    // Locally, use the snapshots directory
-    this.snapshotDir = process.env.VERCEL ? '/tmp' : __dirname;
+    this.snapshotDir = getSnapshotDirectory();
+  }
+
+  private getClient(collection: GatingCollection): SnapshotClient {
+    let client = this.clients.get(collection.id);
+    if (!client) {
+      client = createClient(collection);
+      this.clients.set(collection.id, client);
+    }
+    return client;
   }
 
   /**
    * Step 1: Get contract metadata
    */
-  private async getContractMetadata() {
-    console.log("=� Getting FirstWorks contract metadata...");
+  private async getContractMetadata(collection: GatingCollection, blockNumber: bigint) {
+    console.log(`=� Getting ${collection.name} contract metadata...`);
 
+    const client = this.getClient(collection);
     const [name, symbol, totalSupply] = await Promise.all([
-      this.client.readContract({
-        address: FIRSTWORKS_ADDRESS,
+      client.readContract({
+        address: collection.address,
         abi: AbrahamFirstWorks,
         functionName: "name",
+        blockNumber,
       }),
-      this.client.readContract({
-        address: FIRSTWORKS_ADDRESS,
+      client.readContract({
+        address: collection.address,
         abi: AbrahamFirstWorks,
         functionName: "symbol",
+        blockNumber,
       }),
-      this.client.readContract({
-        address: FIRSTWORKS_ADDRESS,
+      client.readContract({
+        address: collection.address,
         abi: AbrahamFirstWorks,
         functionName: "totalSupply",
+        blockNumber,
       }),
     ]);
 
@@ -158,30 +304,80 @@ export class FirstWorksSnapshotGenerator {
   }
 
   /**
-   * Step 2: Get all token ownership using Alchemy NFT API (FAST)
-   * Falls back to RPC calls if Alchemy is not available
+   * Step 2: Get all token ownership
+   * 1. Replay Transfer logs onto the previous snapshot (FAST, any RPC)
+   * 2. Alchemy NFT API (FAST, Alchemy only)
+   * 3. ownerOf for every token (SLOW, any RPC)
+   * Each strategy falls back to the next one if it fails
    */
   private async getAllOwners(
-    totalSupply: number
+    collection: GatingCollection,
+    totalSupply: number,
+    blockNumber: bigint,
+    previous: PreviousOwnership | null,
+    isHistorical: boolean
   ): Promise<Map<string, number[]>> {
-    console.log("\n⚡ Fetching token ownership...");
+    console.log(`\n⚡ Fetching ${collection.name} token ownership...`);
 
     // Debug: Log the RPC URL (masked for security)
-    const maskedUrl = FIRSTWORKS_RPC_URL
-      ? FIRSTWORKS_RPC_URL.replace(/\/([^/]{10})[^/]*$/, '/$1***')
+    const rpcUrl = collection.rpcUrl;
+    const maskedUrl = rpcUrl
+      ? rpcUrl.replace(/\/([^/]{10})[^/]*$/, '/$1***')
       : 'NOT SET';
     console.log(`   RPC URL: ${maskedUrl}`);
+    console.log(`   Strategy: ${SNAPSHOT_STRATEGY}`);
 
-    // Try Alchemy NFT API first (much faster - completes in seconds)
-    const isAlchemy = FIRSTWORKS_RPC_URL &&
-      (FIRSTWORKS_RPC_URL.includes('alchemy.com') || FIRSTWORKS_RPC_URL.includes('alchemyapi.io'));
+    // Try replaying Transfer logs first (only needs eth_getLogs)
+    const replayBase =
+      SNAPSHOT_STRATEGY === "auto" || SNAPSHOT_STRATEGY === "transfer-logs"
+        ? this.getReplayBase(collection, previous, blockNumber)
+        : null;
+
+    if (replayBase) {
+      try {
+        console.log(
+          `   Replaying Transfer logs from block ${replayBase.fromBlock} (incremental method)...`
+        );
+        const holders = await this.getAllOwnersViaTransferLogs(
+          collection,
+          replayBase.holderIndex,
+          replayBase.fromBlock,
+          blockNumber
+        );
+
+        // Guard against missed logs: every token must have exactly one owner
+        const tokenCount = Array.from(holders.values()).reduce(
+          (sum, tokenIds) => sum + tokenIds.length,
+          0
+        );
+        if (tokenCount !== totalSupply) {
+          throw new Error(
+            `Replayed ownership covers ${tokenCount} tokens, but totalSupply is ${totalSupply}`
+          );
+        }
+
+        return holders;
+      } catch (error) {
+        console.warn("   ⚠️ Transfer log replay failed, falling back to a full scan...");
+        console.warn(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    } else if (SNAPSHOT_STRATEGY === "transfer-logs") {
+      console.warn(
+        "   ⚠️ No previous snapshot or deployment block to replay from, falling back to a full scan..."
+      );
+    }
+
+    // Try Alchemy NFT API next (much faster than RPC - completes in seconds)
+    const isAlchemy = rpcUrl &&
+      (rpcUrl.includes('alchemy.com') || rpcUrl.includes('alchemyapi.io'));
 
     console.log(`   Alchemy detected: ${isAlchemy}`);
 
-    if (isAlchemy) {
+    // Alchemy only reports current ownership
+    if (isAlchemy && SNAPSHOT_STRATEGY !== "rpc" && !isHistorical) {
       try {
         console.log("   Using Alchemy NFT API (fast method)...");
-        return await this.getAllOwnersViaAlchemy();
+        return await this.getAllOwnersViaAlchemy(collection);
       } catch (error) {
         console.warn("   ⚠️ Alchemy API failed, falling back to RPC calls...");
         console.warn(`   Error: ${error instanceof Error ? error.message : String(error)}`);
@@ -193,25 +389,117 @@ export class FirstWorksSnapshotGenerator {
 
     // Fallback to traditional RPC method (slower but works with any RPC)
     console.log("   Using RPC calls (slower method)...");
-    return await this.getAllOwnersViaRPC(totalSupply);
+    return await this.getAllOwnersViaRPC(collection, totalSupply, blockNumber);
+  }
+
+  /**
+   * Pick the ownership state to replay Transfer logs onto:
+   * - The collection in the previous snapshot, if it is not newer than the target block
+   * - Otherwise an empty collection at its deployment block (if configured)
+   */
+  private getReplayBase(
+    collection: GatingCollection,
+    previous: PreviousOwnership | null,
+    blockNumber: bigint
+  ): { holderIndex: Record<string, number[]>; fromBlock: bigint } | null {
+    if (previous && BigInt(previous.blockNumber) <= blockNumber) {
+      console.log(`   Previous snapshot at block: ${previous.blockNumber}`);
+      return {
+        holderIndex: previous.holderIndex,
+        fromBlock: BigInt(previous.blockNumber) + 1n,
+      };
+    }
+
+    if (
+      collection.deploymentBlock !== undefined &&
+      collection.deploymentBlock <= blockNumber
+    ) {
+      return { holderIndex: {}, fromBlock: collection.deploymentBlock };
+    }
+
+    return null;
+  }
+
+  /**
+   * Get all owners by applying Transfer logs to a previous ownership state
+   * (FAST - one eth_getLogs call per LOG_BLOCK_RANGE blocks)
+   */
+  private async getAllOwnersViaTransferLogs(
+    collection: GatingCollection,
+    holderIndex: Record<string, number[]>,
+    fromBlock: bigint,
+    toBlock: bigint
+  ): Promise<Map<string, number[]>> {
+    // tokenId -> owner
+    const owners = new Map<number, string>();
+    for (const [address, tokenIds] of Object.entries(holderIndex)) {
+      for (const tokenId of tokenIds) {
+        owners.set(tokenId, address.toLowerCase());
+      }
+    }
+
+    let transferCount = 0;
+
+    for (let start = fromBlock; start <= toBlock; start += LOG_BLOCK_RANGE) {
+      const end =
+        start + LOG_BLOCK_RANGE - 1n > toBlock
+          ? toBlock
+          : start + LOG_BLOCK_RANGE - 1n;
+
+      // Logs are returned in (blockNumber, logIndex) order, so later transfers win
+      const logs = await this.getClient(collection).getLogs({
+        address: collection.address,
+        event: TRANSFER_EVENT,
+        fromBlock: start,
+        toBlock: end,
+      });
+
+      for (const log of logs) {
+        const { to, tokenId } = log.args;
+        if (to === undefined || tokenId === undefined) continue;
+
+        if (to.toLowerCase() === ZERO_ADDRESS) {
+          owners.delete(Number(tokenId)); // Burned
+        } else {
+          owners.set(Number(tokenId), to.toLowerCase());
+        }
+      }
+
+      transferCount += logs.length;
+    }
+
+    const holders = new Map<string, number[]>();
+    for (const [tokenId, owner] of owners) {
+      if (!holders.has(owner)) {
+        holders.set(owner, []);
+      }
+      holders.get(owner)!.push(tokenId);
+    }
+
+    console.log(
+      `   ✅ Applied ${transferCount} transfers from blocks ${fromBlock}-${toBlock} (${holders.size} holders)`
+    );
+    return holders;
   }
 
   /**
    * Get all owners using Alchemy's NFT API (FAST - ~2-5 seconds)
    */
-  private async getAllOwnersViaAlchemy(): Promise<Map<string, number[]>> {
+  private async getAllOwnersViaAlchemy(
+    collection: GatingCollection
+  ): Promise<Map<string, number[]>> {
     const holders = new Map<string, number[]>();
 
     // Extract Alchemy API key from RPC URL
-    const alchemyKey = FIRSTWORKS_RPC_URL!.split('/').pop();
-    const alchemyBaseUrl = `https://eth-mainnet.g.alchemy.com/nft/v3/${alchemyKey}`;
+    const alchemyKey = collection.rpcUrl!.split('/').pop();
+    const alchemyBaseUrl = `https://${ALCHEMY_NETWORKS[collection.chain]}.g.alchemy.com/nft/v3/${alchemyKey}`;
 
     let pageKey: string | undefined;
     let totalFetched = 0;
 
     do {
       const url = new URL(`${alchemyBaseUrl}/getOwnersForContract`);
-      url.searchParams.set('contractAddress', FIRSTWORKS_ADDRESS);
+      url.searchParams.set('contractAddress', collection.address);
       url.searchParams.set('withTokenBalances', 'true');
       if (pageKey) {
         url.searchParams.set('pageKey', pageKey);
@@ -254,7 +542,9 @@ export class FirstWorksSnapshotGenerator {
    * Get all owners using RPC calls (SLOW - fallback method)
    */
   private async getAllOwnersViaRPC(
-    totalSupply: number
+    collection: GatingCollection,
+    totalSupply: number,
+    blockNumber: bigint
   ): Promise<Map<string, number[]>> {
     const holders = new Map<string, number[]>();
     const batchSize = 50; // Process 50 tokens at a time
@@ -270,12 +560,13 @@ export class FirstWorksSnapshotGenerator {
       const batchPromises = [];
       for (let tokenId = start; tokenId <= end; tokenId++) {
         batchPromises.push(
-          this.client
+          this.getClient(collection)
             .readContract({
-              address: FIRSTWORKS_ADDRESS,
+              address: collection.address,
               abi: AbrahamFirstWorks,
               functionName: "ownerOf",
               args: [BigInt(tokenId)],
+              blockNumber,
             })
             .then((owner) => ({
               tokenId,
@@ -322,55 +613,131 @@ export class FirstWorksSnapshotGenerator {
     return holders;
   }
 
+  /**
+   * Snapshot one gating collection
+   */
+  private async generateCollectionSnapshot(
+    collection: GatingCollection,
+    options: SnapshotOptions,
+    baseSnapshot: FirstWorksSnapshot | null
+  ): Promise<CollectionSnapshot> {
+    console.log(`\n=� ${collection.name} (${collection.chain}, weight ${collection.weight})`);
+
+    // Get the target block number; all reads below are pinned to it
+    const head = await this.getClient(collection).getBlockNumber();
+    const isHistorical = options.blockNumber !== undefined;
+    const blockNumber = isHistorical ? BigInt(options.blockNumber!) : head;
+    if (blockNumber > head) {
+      throw new Error(`Block ${blockNumber} is ahead of the chain head (${head})`);
+    }
+    console.log(`   Snapshot at block: ${blockNumber}${isHistorical ? " (point-in-time)" : ""}`);
+
+    // Get contract metadata
+    const metadata = await this.getContractMetadata(collection, blockNumber);
+
+    // Get all token owners
+    const holdersMap = await this.getAllOwners(
+      collection,
+      metadata.totalSupply,
+      blockNumber,
+      getPreviousOwnership(baseSnapshot, collection),
+      isHistorical
+    );
+
+    // Create fast lookup index (holders with the most tokens first)
+    const holderIndex: Record<string, number[]> = {};
+    Array.from(holdersMap.entries())
+      .map(([address, tokenIds]) => ({
+        address,
+        tokenIds: tokenIds.sort((a, b) => a - b), // Sort token IDs
+      }))
+      .sort((a, b) => b.tokenIds.length - a.tokenIds.length)
+      .forEach((holder) => {
+        holderIndex[holder.address] = holder.tokenIds;
+      });
+
+    return {
+      id: collection.id,
+      name: collection.name,
+      contractAddress: collection.address,
+      contractName: metadata.name,
+      chain: collection.chain,
+      weight: collection.weight,
+      totalSupply: metadata.totalSupply,
+      blockNumber: Number(blockNumber),
+      totalHolders: Object.keys(holderIndex).length,
+      holderIndex,
+    };
+  }
+
   /**
    * Step 3: Generate snapshot
+   * Pass options.blockNumber for a point-in-time snapshot (ownerOf scans need an archive node)
    */
-  async generateSnapshot(): Promise<FirstWorksSnapshot> {
+  async generateSnapshot(options: SnapshotOptions = {}): Promise<FirstWorksSnapshot> {
     console.log("=� Starting FirstWorks snapshot generation...\n");
 
     try {
-      // Get contract metadata
-      const metadata = await this.getContractMetadata();
+      const gatingCollections = getGatingCollections();
+
+      // Block numbers are per chain, so a historical block only makes sense on one chain
+      if (
+        options.blockNumber !== undefined &&
+        gatingCollections.some((c) => c.chain !== gatingCollections[0].chain)
+      ) {
+        throw new Error(
+          "Point-in-time snapshots require all gating collections to be on the same chain"
+        );
+      }
 
-      // Get current block number for snapshot metadata
-      const blockNumber = await this.client.getBlockNumber();
-      console.log(`   Snapshot at block: ${blockNumber}`);
+      // Previous snapshot to replay Transfer logs onto
+      const baseSnapshot =
+        SNAPSHOT_STRATEGY === "auto" || SNAPSHOT_STRATEGY === "transfer-logs"
+          ? await loadLatestSnapshot()
+          : null;
 
-      // Get all token owners
-      const holdersMap = await this.getAllOwners(metadata.totalSupply);
+      const collections: CollectionSnapshot[] = [];
+      for (const collection of gatingCollections) {
+        collections.push(
+          await this.generateCollectionSnapshot(collection, options, baseSnapshot)
+        );
+      }
 
-      // Convert map to array format
-      const holders: HolderData[] = Array.from(holdersMap.entries())
+      // Merge into one weighted index (the Merkle tree is built from it)
+      const holderIndex = buildWeightedHolderIndex(collections);
+
+      // Convert to array format
+      const holders: HolderData[] = Object.entries(holderIndex)
         .map(([address, tokenIds]) => ({
           address,
           balance: tokenIds.length,
-          tokenIds: tokenIds.sort((a, b) => a - b), // Sort token IDs
+          tokenIds,
         }))
         .sort((a, b) => b.balance - a.balance); // Sort by balance descending
 
-      // Create fast lookup index
-      const holderIndex: Record<string, number[]> = {};
-      holders.forEach((holder) => {
-        holderIndex[holder.address] = holder.tokenIds;
-      });
-
       // Build final snapshot
       const snapshot: FirstWorksSnapshot = {
-        contractAddress: FIRSTWORKS_ADDRESS,
-        contractName: metadata.name,
-        totalSupply: metadata.totalSupply,
+        contractAddress: collections[0].contractAddress,
+        contractName: collections[0].contractName,
+        totalSupply: collections.reduce((sum, c) => sum + c.totalSupply, 0),
         timestamp: new Date().toISOString(),
-        blockNumber: Number(blockNumber),
+        blockNumber: collections[0].blockNumber,
         holders,
         totalHolders: holders.length,
         holderIndex,
+        collections,
       };
 
       console.log("\n=� Snapshot Summary:");
+      for (const collection of collections) {
+        console.log(
+          `   ${collection.name}: ${collection.totalHolders} holders, ${collection.totalSupply} NFTs (weight ${collection.weight})`
+        );
+      }
       console.log(`   Total Holders: ${snapshot.totalHolders}`);
       console.log(`   Total NFTs: ${snapshot.totalSupply}`);
       console.log(
-        `   Top Holder: ${holders[0]?.address} (${holders[0]?.balance} NFTs)`
+        `   Top Holder: ${holders[0]?.address} (${holders[0]?.balance} units)`
       );
 
       return snapshot;
@@ -381,41 +748,41 @@ export class FirstWorksSnapshotGenerator {
   }
 
   /**
-   * Step 4: Save snapshot to file and upload to Vercel Blob
+   * Step 4: Save snapshot locally and publish it to the snapshot store
+   * The local latest.json is the working copy the merkle generator reads
    */
   async saveSnapshot(snapshot: FirstWorksSnapshot): Promise<string> {
-    const filename = `snapshot-${Date.now()}.json`;
-    const filepath = path.join(this.snapshotDir, filename);
-
-    // Save full snapshot locally
-    await fs.promises.writeFile(filepath, JSON.stringify(snapshot, null, 2));
-    console.log(`\n=� Snapshot saved: ${filepath}`);
-
-    // Also save as "latest" for easy access
     const latestPath = path.join(this.snapshotDir, "latest.json");
     await fs.promises.writeFile(latestPath, JSON.stringify(snapshot, null, 2));
-    console.log(`=� Latest snapshot: ${latestPath}`);
+    console.log(`\n=� Latest snapshot: ${latestPath}`);
 
-    // Upload to Vercel Blob storage (if configured)
-    try {
-      const { uploadToBlob, cleanupOldBlobs, isBlobStorageConfigured } = await import("../storage/blobStorage.js");
+    // Publish a new version and move the "latest" pointer
+    const { getSnapshotStore } = await import("../storage/snapshotStore.js");
+    const store = await getSnapshotStore();
 
-      if (isBlobStorageConfigured()) {
-        console.log("\n☁️  Uploading snapshot to Vercel Blob storage...");
-        await uploadToBlob(snapshot, 'snapshot');
+    console.log(`\n☁️  Publishing snapshot to ${store.backend} snapshot store...`);
+    await store.publish("snapshot", snapshot);
+    await store.applyRetention("snapshot");
 
-        // Clean up old snapshots (keep last 5 versions)
-        await cleanupOldBlobs('snapshot', 5);
+    return latestPath;
+  }
 
-        console.log("✓ Snapshot uploaded and old versions cleaned up");
-      } else {
-        console.log("\n⚠️  Blob storage not configured (BLOB_READ_WRITE_TOKEN missing)");
-        console.log("   Skipping upload to blob storage");
-      }
-    } catch (error) {
-      console.error("⚠️  Failed to upload to blob storage:", error);
-      console.log("   Continuing with local snapshot only");
-    }
+  /**
+   * Save a point-in-time snapshot alongside (not replacing) the latest one
+   */
+  async saveSnapshotAtBlock(snapshot: FirstWorksSnapshot): Promise<string> {
+    const filepath = path.join(
+      this.snapshotDir,
+      getSnapshotAtBlockFilename(snapshot.blockNumber)
+    );
+    await fs.promises.writeFile(filepath, JSON.stringify(snapshot, null, 2));
+    console.log(`\n=� Point-in-time snapshot saved: ${filepath}`);
+
+    const { getSnapshotStore } = await import("../storage/snapshotStore.js");
+    const store = await getSnapshotStore();
+
+    console.log(`\n☁️  Storing point-in-time snapshot in ${store.backend} snapshot store...`);
+    await store.saveAtBlock("snapshot", snapshot.blockNumber, snapshot);
 
     return filepath;
   }
@@ -437,44 +804,49 @@ export class FirstWorksSnapshotGenerator {
   }
 }
 
+/**
+ * Filename of a point-in-time snapshot's local working copy
+ */
+export function getSnapshotAtBlockFilename(blockNumber: number): string {
+  return `snapshot-block-${blockNumber}.json`;
+}
+
+/**
+ * Helper function to load a point-in-time snapshot from the snapshot store
+ */
+export async function loadSnapshotAtBlock(
+  blockNumber: number
+): Promise<FirstWorksSnapshot | null> {
+  const { getSnapshotStore } = await import("../storage/snapshotStore.js");
+  const store = await getSnapshotStore();
+  return store.loadAtBlock<FirstWorksSnapshot>("snapshot", blockNumber);
+}
+
 /**
  * Helper function to load the latest snapshot
  * Priority order:
- * 1. Vercel Blob storage (if configured and on Vercel)
- * 2. Local /tmp directory (if on Vercel and file exists)
- * 3. Committed snapshot from source
+ * 1. Snapshot store (local filesystem, S3 or Vercel Blob)
+ * 2. Committed snapshot from source (bootstraps an empty store)
  */
 export async function loadLatestSnapshot(): Promise<FirstWorksSnapshot | null> {
   try {
-    // Try Vercel Blob storage first (if configured)
     try {
-      const { downloadFromBlob, isBlobStorageConfigured } = await import("../storage/blobStorage.js");
-
-      if (isBlobStorageConfigured()) {
-        console.log("Attempting to load snapshot from Vercel Blob storage...");
-        const blobData = await downloadFromBlob('snapshot');
-        if (blobData) {
-          console.log("✓ Loaded snapshot from Vercel Blob storage");
-          return blobData;
-        }
+      const { getSnapshotStore } = await import("../storage/snapshotStore.js");
+      const store = await getSnapshotStore();
+      const snapshot = await store.loadLatest<FirstWorksSnapshot>("snapshot");
+      if (snapshot) {
+        console.log(`✓ Loaded snapshot from ${store.backend} snapshot store`);
+        return snapshot;
       }
     } catch (error) {
-      console.log("Blob storage not available, falling back to local files");
+      console.error("Snapshot store not available, falling back to committed snapshot:", error);
     }
 
-    // Fallback to local files
-    // On Vercel, check /tmp first (if snapshot was just generated)
-    // Otherwise use the committed snapshot from source
-    const paths = process.env.VERCEL
-      ? ["/tmp/latest.json", path.join(__dirname, "latest.json")]
-      : [path.join(__dirname, "latest.json")];
-
-    for (const latestPath of paths) {
-      if (fs.existsSync(latestPath)) {
-        const data = await fs.promises.readFile(latestPath, "utf-8");
-        console.log(`Loaded snapshot from ${latestPath}`);
-        return JSON.parse(data);
-      }
+    const committedPath = path.join(__dirname, "latest.json");
+    if (fs.existsSync(committedPath)) {
+      const data = await fs.promises.readFile(committedPath, "utf-8");
+      console.log(`Loaded snapshot from ${committedPath}`);
+      return JSON.parse(data);
     }
 
     console.log("No snapshot found");
@@ -486,7 +858,58 @@ export async function loadLatestSnapshot(): Promise<FirstWorksSnapshot | null> {
 }
 
 /**
- * Helper function to get NFTs for a specific address
+ * NFTs an address holds in one gating collection
+ */
+export interface CollectionHolding {
+  collection: string; // Collection id
+  name: string;
+  contractAddress: string;
+  weight: number;
+  tokenIds: number[];
+  units: number; // tokenIds.length * weight
+}
+
+/**
+ * Helper function to get an address's holdings per gating collection
+ * Collections the address holds nothing in are omitted
+ */
+export function getHoldingsForAddress(
+  snapshot: FirstWorksSnapshot,
+  address: string
+): CollectionHolding[] {
+  const addressLower = address.toLowerCase();
+
+  return getCollectionSnapshots(snapshot).flatMap((collection) => {
+    const tokenIds = collection.holderIndex[addressLower] || [];
+    if (tokenIds.length === 0) return [];
+    return [
+      {
+        collection: collection.id,
+        name: collection.name,
+        contractAddress: collection.contractAddress,
+        weight: collection.weight,
+        tokenIds,
+        units: tokenIds.length * collection.weight,
+      },
+    ];
+  });
+}
+
+/**
+ * Helper function to get an address's NFTs in one gating collection
+ */
+export function getCollectionTokenIds(
+  snapshot: FirstWorksSnapshot,
+  collectionId: string,
+  address: string
+): number[] {
+  const collection = getCollectionSnapshots(snapshot).find((c) => c.id === collectionId);
+  return collection?.holderIndex[address.toLowerCase()] || [];
+}
+
+/**
+ * Helper function to get the weighted gating token IDs for a specific address
+ * Its length is the address's eligibility units (NFTs x collection weight)
  */
 export function getNFTsForAddress(
   snapshot: FirstWorksSnapshot,
@@ -0,0 +1,210 @@
+/**
+ * Gating Collections
+ *
+ * NFT collections that grant blessing and commandment rights, each with a
+ * weight (eligibility units per NFT). Configured with GATING_COLLECTIONS:
+ *
+ *   GATING_COLLECTIONS='[
+ *     { "id": "firstworks", "name": "FirstWorks", "address": "0x8F81...", "chain": "mainnet", "weight": 3 },
+ *     { "id": "seeds-winners", "name": "Seeds Winners", "address": "0x...", "chain": "base", "weight": 1 }
+ *   ]'
+ *
+ * Defaults to FirstWorks alone (FIRSTWORKS_CONTRACT_ADDRESS, weight 1).
+ *
+ * Weighted gating token IDs:
+ * The contracts count eligibility as tokenIds.length in the Merkle leaf, so
+ * every NFT is expanded into `weight` gating token IDs:
+ *
+ *   gatingTokenId = collectionIndex * 2^40 + unit * 2^32 + tokenId
+ *
+ * The first collection at weight 1 maps every token to itself, so the
+ * default configuration produces the same leaves as plain FirstWorks.
+ * Collections are identified by position: append new ones to the end.
+ * Any change to the list changes the Merkle root, which the next
+ * update-snapshot run pushes on-chain.
+ */
+
+import { z } from "zod/v4";
+import type { Address } from "viem";
+
+export type GatingChain = "mainnet" | "sepolia" | "base" | "baseSepolia";
+
+export interface GatingCollection {
+  id: string; // Short slug, e.g. "firstworks"
+  name: string;
+  address: Address;
+  chain: GatingChain;
+  rpcUrl?: string;
+  weight: number; // Eligibility units per NFT
+  deploymentBlock?: bigint; // Enables rebuilding ownership from Transfer logs alone
+}
+
+export const FIRSTWORKS_COLLECTION_ID = "firstworks";
+
+const DEFAULT_FIRSTWORKS_ADDRESS = "0x8F814c7C75C5E9e0EDe0336F535604B1915C1985";
+
+// Encoding limits (gating token IDs must stay below Number.MAX_SAFE_INTEGER)
+const UNIT_FACTOR = 2 ** 32;
+const COLLECTION_FACTOR = 2 ** 40;
+export const MAX_COLLECTION_WEIGHT = 256;
+const MAX_COLLECTIONS = 8192;
+
+const GatingCollectionConfig = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "Use lowercase letters, digits and dashes"),
+  name: z.string().min(1),
+  address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid address"),
+  chain: z.enum(["mainnet", "sepolia", "base", "baseSepolia"]).default("mainnet"),
+  rpcUrl: z.string().url().optional(),
+  weight: z.number().int().min(1).max(MAX_COLLECTION_WEIGHT).default(1),
+  deploymentBlock: z.number().int().nonnegative().optional(),
+});
+
+const GatingCollectionsConfig = z
+  .array(GatingCollectionConfig)
+  .min(1)
+  .max(MAX_COLLECTIONS)
+  .refine(
+    (collections) => new Set(collections.map((c) => c.id)).size === collections.length,
+    "Collection ids must be unique"
+  );
+
+/**
+ * Default RPC URL for a chain (collections can override it with rpcUrl)
+ */
+function getDefaultRpcUrl(chain: GatingChain, id: string): string | undefined {
+  switch (chain) {
+    case "mainnet":
+      return id === FIRSTWORKS_COLLECTION_ID
+        ? process.env.FIRSTWORKS_RPC_URL || process.env.MAINNET_RPC_URL
+        : process.env.MAINNET_RPC_URL || process.env.FIRSTWORKS_RPC_URL;
+    case "sepolia":
+      return process.env.SEPOLIA_RPC_URL;
+    case "base":
+      return process.env.BASE_MAINNET_RPC_URL;
+    case "baseSepolia":
+      return process.env.BASE_SEPOLIA_RPC_URL;
+  }
+}
+
+let collections: GatingCollection[] | null = null;
+
+/**
+ * Get the configured gating collections (parsed once per process)
+ * Throws if GATING_COLLECTIONS is invalid
+ */
+export function getGatingCollections(): GatingCollection[] {
+  if (collections) {
+    return collections;
+  }
+
+  const raw = process.env.GATING_COLLECTIONS;
+
+  if (!raw) {
+    collections = [
+      {
+        id: FIRSTWORKS_COLLECTION_ID,
+        name: "FirstWorks",
+        address: (process.env.FIRSTWORKS_CONTRACT_ADDRESS ||
+          DEFAULT_FIRSTWORKS_ADDRESS) as Address,
+        chain: "mainnet",
+        rpcUrl: getDefaultRpcUrl("mainnet", FIRSTWORKS_COLLECTION_ID),
+        weight: 1,
+        deploymentBlock: process.env.FIRSTWORKS_DEPLOYMENT_BLOCK
+          ? BigInt(process.env.FIRSTWORKS_DEPLOYMENT_BLOCK)
+          : undefined,
+      },
+    ];
+    return collections;
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    throw new Error("GATING_COLLECTIONS must be a JSON array");
+  }
+
+  const result = GatingCollectionsConfig.safeParse(json);
+  if (!result.success) {
+    throw new Error(`Invalid GATING_COLLECTIONS: ${z.prettifyError(result.error)}`);
+  }
+
+  collections = result.data.map((config) => ({
+    id: config.id,
+    name: config.name,
+    address: config.address as Address,
+    chain: config.chain,
+    rpcUrl: config.rpcUrl || getDefaultRpcUrl(config.chain, config.id),
+    weight: config.weight,
+    deploymentBlock:
+      config.deploymentBlock !== undefined ? BigInt(config.deploymentBlock) : undefined,
+  }));
+  return collections;
+}
+
+/**
+ * Human-readable list of gating collections, e.g. "FirstWorks or Seeds Winners"
+ */
+export function getGatingCollectionLabel(): string {
+  const names = getGatingCollections().map((c) => c.name);
+  return names.length <= 2
+    ? names.join(" or ")
+    : `${names.slice(0, -1).join(", ")} or ${names[names.length - 1]}`;
+}
+
+/**
+ * Encode one weight unit of an NFT as a gating token ID
+ */
+export function encodeGatingTokenId(
+  collectionIndex: number,
+  unit: number,
+  tokenId: number
+): number {
+  if (!Number.isSafeInteger(tokenId) || tokenId < 0 || tokenId >= UNIT_FACTOR) {
+    throw new Error(`Token ID ${tokenId} is out of range for gating (max ${UNIT_FACTOR - 1})`);
+  }
+  return collectionIndex * COLLECTION_FACTOR + unit * UNIT_FACTOR + tokenId;
+}
+
+/**
+ * Decode a gating token ID
+ */
+export function decodeGatingTokenId(gatingTokenId: number): {
+  collectionIndex: number;
+  unit: number;
+  tokenId: number;
+} {
+  return {
+    collectionIndex: Math.floor(gatingTokenId / COLLECTION_FACTOR),
+    unit: Math.floor((gatingTokenId % COLLECTION_FACTOR) / UNIT_FACTOR),
+    tokenId: gatingTokenId % UNIT_FACTOR,
+  };
+}
+
+/**
+ * Merge per-collection holder indexes into one weighted holder index
+ *
+ * @param holderIndexes - address -> token IDs, one per collection, in config order
+ * @returns address -> gating token IDs (sorted)
+ */
+export function buildWeightedHolderIndex(
+  holderIndexes: Array<{ weight: number; holderIndex: Record<string, number[]> }>
+): Record<string, number[]> {
+  const merged: Record<string, number[]> = {};
+
+  holderIndexes.forEach(({ weight, holderIndex }, collectionIndex) => {
+    for (const [address, tokenIds] of Object.entries(holderIndex)) {
+      const gatingTokenIds = (merged[address.toLowerCase()] ??= []);
+      for (const tokenId of tokenIds) {
+        for (let unit = 0; unit < weight; unit++) {
+          gatingTokenIds.push(encodeGatingTokenId(collectionIndex, unit, tokenId));
+        }
+      }
+    }
+  });
+
+  for (const gatingTokenIds of Object.values(merged)) {
+    gatingTokenIds.sort((a, b) => a - b);
+  }
+  return merged;
+}
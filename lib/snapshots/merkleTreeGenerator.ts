@@ -1,11 +1,22 @@
 import { readFileSync, writeFileSync } from "fs";
 import { keccak256, encodePacked, encodeAbiParameters } from "viem";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+import type { StandardMerkleTreeData } from "@openzeppelin/merkle-tree/dist/standard.js";
 
 /**
  * Merkle Tree Generator for FirstWorks NFT Ownership
  *
  * Generates a Merkle tree from FirstWorks snapshot data to enable
  * trustless ownership verification on L2 for voting.
+ *
+ * Both formats use the same leaf (matching the gating contracts):
+ *   keccak256(bytes.concat(keccak256(abi.encode(address owner, uint256[] tokenIds))))
+ *
+ * Formats (MERKLE_TREE_FORMAT):
+ * - "legacy" (default): leaves in snapshot order, odd nodes duplicated,
+ *   every proof stored in the JSON file
+ * - "openzeppelin": OpenZeppelin StandardMerkleTree dump (sorted leaves,
+ *   complete tree); proofs and multi-proofs are derived from the dump
  */
 
 interface SnapshotHolder {
@@ -31,10 +42,46 @@ interface MerkleNode {
   right?: MerkleNode;
 }
 
-interface MerkleProof {
+export type MerkleTreeFormat = "legacy" | "openzeppelin";
+
+/**
+ * Leaf value: [owner address, token IDs as decimal strings]
+ */
+export type OwnershipLeafValue = [string, string[]];
+
+export const LEAF_ENCODING = ["address", "uint256[]"];
+
+export interface MerkleProof {
   root: string;
-  proofs: Record<string, string[]>;
-  leaves: Record<string, string>;
+  format?: MerkleTreeFormat; // Missing in files written before formats existed (= legacy)
+  proofs?: Record<string, string[]>; // Legacy only
+  leaves?: Record<string, string>; // Legacy only
+  tree?: StandardMerkleTreeData<OwnershipLeafValue>; // OpenZeppelin only
+}
+
+export interface HolderProof {
+  leaf: string;
+  proof: string[];
+  tokenIds?: number[]; // OpenZeppelin only (the leaf value stores them)
+}
+
+export interface OwnershipMultiProof {
+  leaves: { address: string; tokenIds: number[] }[];
+  proof: string[];
+  proofFlags: boolean[];
+}
+
+/**
+ * Merkle tree format for newly generated trees
+ */
+export function getMerkleTreeFormat(): MerkleTreeFormat {
+  const format = (process.env.MERKLE_TREE_FORMAT || "legacy").toLowerCase();
+  if (format !== "legacy" && format !== "openzeppelin") {
+    throw new Error(
+      `Invalid MERKLE_TREE_FORMAT: ${format}. Valid options: legacy, openzeppelin`
+    );
+  }
+  return format;
 }
 
 /**
@@ -123,10 +170,8 @@ function generateProof(leaves: string[], leafIndex: number): string[] {
       // If current index is at this pair, add sibling to proof
       if (i === currentIndex || i + 1 === currentIndex) {
         if (currentIndex % 2 === 0) {
-          // Current is left, add right
-          if (i + 1 < currentLevel.length) {
-            proof.push(right);
-          }
+          // Current is left, add right (itself when the last node is duplicated)
+          proof.push(right);
         } else {
           // Current is right, add left
           proof.push(left);
@@ -146,16 +191,23 @@ function generateProof(leaves: string[], leafIndex: number): string[] {
 /**
  * Generate Merkle tree from snapshot
  */
-export function generateMerkleTree(snapshotPath: string): MerkleProof {
+export function generateMerkleTree(
+  snapshotPath: string,
+  format: MerkleTreeFormat = getMerkleTreeFormat()
+): MerkleProof {
   // Load snapshot
   const snapshotData: SnapshotData = JSON.parse(
     readFileSync(snapshotPath, "utf-8")
   );
 
   console.log(
-    `Generating Merkle tree for ${snapshotData.totalHolders} holders...`
+    `Generating ${format} Merkle tree for ${snapshotData.totalHolders} holders...`
   );
 
+  if (format === "openzeppelin") {
+    return generateStandardMerkleTree(snapshotData);
+  }
+
   // Generate leaves
   const holders: SnapshotHolder[] = snapshotData.holders;
   const leaves: string[] = [];
@@ -204,13 +256,168 @@ export function generateMerkleTree(snapshotPath: string): MerkleProof {
 
   return {
     root,
+    format: "legacy",
     proofs,
     leaves: leavesMap,
   };
 }
 
+/**
+ * Generate an OpenZeppelin StandardMerkleTree from snapshot data
+ */
+function generateStandardMerkleTree(snapshotData: SnapshotData): MerkleProof {
+  const values: OwnershipLeafValue[] = snapshotData.holders.map((holder) => [
+    holder.address.toLowerCase(),
+    holder.tokenIds.map(String),
+  ]);
+
+  const tree = StandardMerkleTree.of(values, LEAF_ENCODING);
+
+  console.log(`Generated ${values.length} leaves`);
+  console.log(`Merkle Root: ${tree.root}`);
+
+  return {
+    root: tree.root,
+    format: "openzeppelin",
+    tree: tree.dump(),
+  };
+}
+
+// Loaded OpenZeppelin trees and their address -> value index, per merkle data object
+const standardTrees = new WeakMap<
+  MerkleProof,
+  { tree: StandardMerkleTree<OwnershipLeafValue>; indexByAddress: Map<string, number> }
+>();
+
+function loadStandardTree(merkle: MerkleProof) {
+  if (!merkle.tree) {
+    throw new Error("Merkle data has no OpenZeppelin tree dump");
+  }
+
+  let loaded = standardTrees.get(merkle);
+  if (!loaded) {
+    const tree = StandardMerkleTree.load(merkle.tree);
+    const indexByAddress = new Map<string, number>();
+    for (const [index, [address]] of tree.entries()) {
+      indexByAddress.set(address.toLowerCase(), index);
+    }
+    loaded = { tree, indexByAddress };
+    standardTrees.set(merkle, loaded);
+  }
+  return loaded;
+}
+
+/**
+ * Leaf hash and proof for a holder (null if the address is not in the tree)
+ */
+export function getHolderProof(
+  merkle: MerkleProof,
+  address: string
+): HolderProof | null {
+  const addressLower = address.toLowerCase();
+
+  if (merkle.format === "openzeppelin") {
+    const { tree, indexByAddress } = loadStandardTree(merkle);
+    const index = indexByAddress.get(addressLower);
+    if (index === undefined) return null;
+
+    const value = tree.at(index)!;
+    return {
+      leaf: tree.leafHash(value),
+      proof: tree.getProof(index),
+      tokenIds: value[1].map(Number),
+    };
+  }
+
+  const leaf = merkle.leaves?.[addressLower];
+  if (!leaf) return null;
+
+  return { leaf, proof: merkle.proofs?.[addressLower] || [] };
+}
+
+/**
+ * Addresses (holders) in the tree
+ */
+export function getTreeAddresses(merkle: MerkleProof): string[] {
+  return merkle.format === "openzeppelin"
+    ? (merkle.tree?.values || []).map(({ value }) => value[0].toLowerCase())
+    : Object.keys(merkle.leaves || {});
+}
+
+/**
+ * Number of leaves (holders) in the tree
+ */
+export function getLeafCount(merkle: MerkleProof): number {
+  return getTreeAddresses(merkle).length;
+}
+
+/**
+ * Multi-proof for several holders at once (OpenZeppelin format only)
+ * Verify on-chain with MerkleProof.multiProofVerify(proof, proofFlags, root, leafHashes)
+ */
+export function getMultiProof(
+  merkle: MerkleProof,
+  addresses: string[]
+): OwnershipMultiProof {
+  if (merkle.format !== "openzeppelin") {
+    throw new Error("Multi-proofs require MERKLE_TREE_FORMAT=openzeppelin");
+  }
+
+  const { tree, indexByAddress } = loadStandardTree(merkle);
+  const indices = addresses.map((address) => {
+    const index = indexByAddress.get(address.toLowerCase());
+    if (index === undefined) {
+      throw new Error(`Address not in merkle tree: ${address}`);
+    }
+    return index;
+  });
+
+  const multiProof = tree.getMultiProof(indices);
+
+  return {
+    leaves: multiProof.leaves.map(([address, tokenIds]) => ({
+      address,
+      tokenIds: tokenIds.map(Number),
+    })),
+    proof: multiProof.proof,
+    proofFlags: multiProof.proofFlags,
+  };
+}
+
+/**
+ * Verify a multi-proof against a root
+ */
+export function verifyMultiProof(
+  root: string,
+  multiProof: OwnershipMultiProof
+): boolean {
+  return StandardMerkleTree.verifyMultiProof<OwnershipLeafValue>(
+    root,
+    LEAF_ENCODING,
+    {
+      leaves: multiProof.leaves.map(({ address, tokenIds }) => [
+        address,
+        tokenIds.map(String),
+      ]),
+      proof: multiProof.proof,
+      proofFlags: multiProof.proofFlags,
+    }
+  );
+}
+
+/**
+ * Encode a proof as the gating module's `bytes proof` argument (abi.encode(bytes32[]))
+ */
+export function encodeProof(proof: string[]): `0x${string}` {
+  return encodeAbiParameters(
+    [{ type: "bytes32[]" }],
+    [proof as `0x${string}`[]]
+  );
+}
+
 /**
  * Verify a Merkle proof
+ * Works for both formats (sorted-pair hashing, like OpenZeppelin's MerkleProof.verify)
  */
 export function verifyProof(
   proof: string[],
@@ -227,27 +434,23 @@ export function verifyProof(
 }
 
 /**
- * Helper function to load merkle tree from blob storage or local file
+ * Helper function to load merkle tree from the snapshot store or local file
  * Priority order:
- * 1. Vercel Blob storage (if configured)
- * 2. Local file
+ * 1. Snapshot store (local filesystem, S3 or Vercel Blob)
+ * 2. Committed merkle tree (bootstraps an empty store)
  */
 export async function loadMerkleTree(): Promise<MerkleProof | null> {
   try {
-    // Try Vercel Blob storage first (if configured)
     try {
-      const { downloadFromBlob, isBlobStorageConfigured } = await import("../storage/blobStorage.js");
-
-      if (isBlobStorageConfigured()) {
-        console.log("Attempting to load merkle tree from Vercel Blob storage...");
-        const blobData = await downloadFromBlob('merkle');
-        if (blobData) {
-          console.log("✓ Loaded merkle tree from Vercel Blob storage");
-          return blobData;
-        }
+      const { getSnapshotStore } = await import("../storage/snapshotStore.js");
+      const store = await getSnapshotStore();
+      const merkleTree = await store.loadLatest<MerkleProof>("merkle");
+      if (merkleTree) {
+        console.log(`✓ Loaded merkle tree from ${store.backend} snapshot store`);
+        return merkleTree;
       }
     } catch (error) {
-      console.log("Blob storage not available, falling back to local file");
+      console.error("Snapshot store not available, falling back to local file:", error);
     }
 
     // Fallback to local file
@@ -286,15 +489,16 @@ async function main() {
 
     // Print stats
     console.log("\n=== Statistics ===");
-    console.log(`Total Leaves: ${Object.keys(merkleData.leaves).length}`);
-    console.log(`Total Proofs: ${Object.keys(merkleData.proofs).length}`);
+    console.log(`Format: ${merkleData.format}`);
+    console.log(`Total Leaves: ${getLeafCount(merkleData)}`);
     console.log(`Merkle Root: ${merkleData.root}`);
 
     // Verify a random proof
-    const randomHolder = Object.keys(merkleData.proofs)[0];
-    const randomProof = merkleData.proofs[randomHolder];
-    const randomLeaf = merkleData.leaves[randomHolder];
-    const isValid = verifyProof(randomProof, merkleData.root, randomLeaf);
+    const randomHolder = getTreeAddresses(merkleData)[0];
+    const holderProof = getHolderProof(merkleData, randomHolder);
+    const isValid =
+      !!holderProof &&
+      verifyProof(holderProof.proof, merkleData.root, holderProof.leaf);
 
     console.log("\n=== Verification Test ===");
     console.log(`Testing holder: ${randomHolder}`);
@@ -0,0 +1,253 @@
+/**
+ * FirstWorks Snapshot Diff
+ *
+ * Purpose: Explain ownership changes between two snapshot versions, e.g. why
+ * a wallet suddenly lost blessing power after the nightly update-snapshot run
+ *
+ * Versions are the snapshots published to the snapshot store by
+ * FirstWorksSnapshotGenerator.saveSnapshot. Only the versions kept by the
+ * retention policy (SNAPSHOT_RETENTION_VERSIONS, default 5) can be compared.
+ */
+
+import {
+  getCollectionSnapshots,
+  loadLatestSnapshot,
+  type FirstWorksSnapshot,
+} from "./firstWorksSnapshot.js";
+import {
+  getSnapshotStore,
+  type SnapshotStoreBackend,
+} from "../storage/snapshotStore.js";
+
+export interface SnapshotVersion {
+  id: string; // Publish timestamp, e.g. "1731024000000"
+  createdAt: string; // ISO timestamp
+  source: SnapshotStoreBackend;
+  hash: string | null; // SHA-256 of the stored JSON
+  size?: number; // Bytes
+  location: string; // File path, s3:// URI or blob URL
+}
+
+export interface SnapshotSummary {
+  version: string;
+  timestamp: string;
+  blockNumber: number;
+  totalHolders: number;
+  totalSupply: number;
+}
+
+// Collection id -> token IDs, e.g. { "firstworks": [12, 57] }
+export type CollectionTokens = Record<string, number[]>;
+
+export interface HolderTokens {
+  address: string;
+  tokens: CollectionTokens;
+}
+
+export interface HolderBalanceChange {
+  address: string;
+  balanceBefore: number; // Weighted eligibility units
+  balanceAfter: number;
+  gained: CollectionTokens;
+  lost: CollectionTokens;
+}
+
+export interface TokenTransfer {
+  collection: string;
+  tokenId: number;
+  from: string | null; // null = not in the older snapshot (minted)
+  to: string | null; // null = not in the newer snapshot (burned)
+}
+
+export interface SnapshotDiff {
+  from: SnapshotSummary;
+  to: SnapshotSummary;
+  addedHolders: HolderTokens[]; // Held nothing before, hold tokens now
+  removedHolders: HolderTokens[]; // Held tokens before, hold nothing now
+  changedHolders: HolderBalanceChange[]; // Held tokens in both, but not the same ones
+  transfers: TokenTransfer[];
+  summary: {
+    addedHolders: number;
+    removedHolders: number;
+    changedHolders: number;
+    transfers: number;
+  };
+}
+
+/**
+ * List snapshot versions, newest first
+ */
+export async function listSnapshotVersions(): Promise<SnapshotVersion[]> {
+  const store = await getSnapshotStore();
+  const versions = await store.listVersions("snapshot");
+
+  return versions.map((version) => ({
+    id: version.id,
+    createdAt: version.createdAt,
+    source: store.backend,
+    hash: version.hash,
+    size: version.size,
+    location: version.location,
+  }));
+}
+
+/**
+ * Load a snapshot version by ID ("latest" for the snapshot the API is serving)
+ */
+export async function loadSnapshotVersion(
+  id: string
+): Promise<FirstWorksSnapshot | null> {
+  if (id === "latest") {
+    return loadLatestSnapshot();
+  }
+
+  const store = await getSnapshotStore();
+  return store.loadVersion<FirstWorksSnapshot>("snapshot", id);
+}
+
+/**
+ * Map each token to its owner, per collection
+ */
+function getTokenOwners(
+  snapshot: FirstWorksSnapshot
+): Map<string, Map<number, string>> {
+  const owners = new Map<string, Map<number, string>>();
+  for (const collection of getCollectionSnapshots(snapshot)) {
+    const collectionOwners = new Map<number, string>();
+    for (const [address, tokenIds] of Object.entries(collection.holderIndex)) {
+      for (const tokenId of tokenIds) {
+        collectionOwners.set(tokenId, address.toLowerCase());
+      }
+    }
+    owners.set(collection.id, collectionOwners);
+  }
+  return owners;
+}
+
+/**
+ * Tokens a holder owns in each collection (collections they hold nothing in are omitted)
+ */
+function getHolderTokens(
+  owners: Map<string, Map<number, string>>,
+  address: string
+): CollectionTokens {
+  const tokens: CollectionTokens = {};
+  for (const [collectionId, collectionOwners] of owners) {
+    const tokenIds = [...collectionOwners]
+      .filter(([, owner]) => owner === address)
+      .map(([tokenId]) => tokenId)
+      .sort((a, b) => a - b);
+    if (tokenIds.length > 0) {
+      tokens[collectionId] = tokenIds;
+    }
+  }
+  return tokens;
+}
+
+function addToken(
+  holders: Map<string, CollectionTokens>,
+  address: string,
+  transfer: TokenTransfer
+): void {
+  const tokens = holders.get(address) || {};
+  (tokens[transfer.collection] ??= []).push(transfer.tokenId);
+  holders.set(address, tokens);
+}
+
+function summarize(
+  version: string,
+  snapshot: FirstWorksSnapshot
+): SnapshotSummary {
+  return {
+    version,
+    timestamp: snapshot.timestamp,
+    blockNumber: snapshot.blockNumber,
+    totalHolders: snapshot.totalHolders,
+    totalSupply: snapshot.totalSupply,
+  };
+}
+
+/**
+ * Compare two snapshots
+ *
+ * @param address - Only report changes involving this wallet (optional)
+ */
+export function diffSnapshots(
+  from: { version: string; snapshot: FirstWorksSnapshot },
+  to: { version: string; snapshot: FirstWorksSnapshot },
+  address?: string
+): SnapshotDiff {
+  const filter = address?.toLowerCase();
+  const ownersBefore = getTokenOwners(from.snapshot);
+  const ownersAfter = getTokenOwners(to.snapshot);
+
+  // Per-token transfers, collection by collection
+  const transfers: TokenTransfer[] = [];
+  const collectionIds = new Set([...ownersBefore.keys(), ...ownersAfter.keys()]);
+  for (const collection of collectionIds) {
+    const before = ownersBefore.get(collection) || new Map<number, string>();
+    const after = ownersAfter.get(collection) || new Map<number, string>();
+    const tokenIds = new Set([...before.keys(), ...after.keys()]);
+    for (const tokenId of [...tokenIds].sort((a, b) => a - b)) {
+      const previousOwner = before.get(tokenId) ?? null;
+      const newOwner = after.get(tokenId) ?? null;
+      if (previousOwner === newOwner) continue;
+      if (filter && previousOwner !== filter && newOwner !== filter) continue;
+      transfers.push({ collection, tokenId, from: previousOwner, to: newOwner });
+    }
+  }
+
+  // Per-holder changes, derived from the transfers
+  const gained = new Map<string, CollectionTokens>();
+  const lost = new Map<string, CollectionTokens>();
+  for (const transfer of transfers) {
+    if (transfer.to) {
+      addToken(gained, transfer.to, transfer);
+    }
+    if (transfer.from) {
+      addToken(lost, transfer.from, transfer);
+    }
+  }
+
+  const addedHolders: HolderTokens[] = [];
+  const removedHolders: HolderTokens[] = [];
+  const changedHolders: HolderBalanceChange[] = [];
+
+  const holders = new Set([...gained.keys(), ...lost.keys()]);
+  for (const holder of [...holders].sort()) {
+    if (filter && holder !== filter) continue;
+
+    // Balances are weighted, so they match what the contracts see
+    const before = from.snapshot.holderIndex[holder] || [];
+    const after = to.snapshot.holderIndex[holder] || [];
+
+    if (before.length === 0) {
+      addedHolders.push({ address: holder, tokens: getHolderTokens(ownersAfter, holder) });
+    } else if (after.length === 0) {
+      removedHolders.push({ address: holder, tokens: getHolderTokens(ownersBefore, holder) });
+    } else {
+      changedHolders.push({
+        address: holder,
+        balanceBefore: before.length,
+        balanceAfter: after.length,
+        gained: gained.get(holder) || {},
+        lost: lost.get(holder) || {},
+      });
+    }
+  }
+
+  return {
+    from: summarize(from.version, from.snapshot),
+    to: summarize(to.version, to.snapshot),
+    addedHolders,
+    removedHolders,
+    changedHolders,
+    transfers,
+    summary: {
+      addedHolders: addedHolders.length,
+      removedHolders: removedHolders.length,
+      changedHolders: changedHolders.length,
+      transfers: transfers.length,
+    },
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * JSON File Store
+ *
+ * Small persistence helper for API state that must survive restarts
+ * (indexed chain events, queues, delivery logs, ...) without requiring a
+ * database server.
+ *
+ * Features:
+ * - Atomic writes (write to temp file, then rename)
+ * - BigInt-safe serialization (viem returns bigint for most chain values)
+ * - Data directory configurable via DATA_DIR
+ *
+ * Storage location:
+ * - DATA_DIR if set
+ * - /tmp/abraham-data on Vercel (only writable location)
+ * - ./data locally
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+const BIGINT_TAG = "__bigint";
+
+// Distinguishes temp files of concurrent writes within the same millisecond
+let writeCounter = 0;
+
+/**
+ * Get the directory used for persisted API state
+ */
+export function getDataDir(): string {
+  if (process.env.DATA_DIR) {
+    return process.env.DATA_DIR;
+  }
+  return process.env.VERCEL ? "/tmp/abraham-data" : "./data";
+}
+
+/**
+ * Serialize a value to JSON, preserving bigint values
+ */
+export function stringifyWithBigInt(data: unknown): string {
+  return JSON.stringify(
+    data,
+    (_key, value) =>
+      typeof value === "bigint" ? { [BIGINT_TAG]: value.toString() } : value,
+    2
+  );
+}
+
+/**
+ * Parse JSON produced by stringifyWithBigInt
+ */
+export function parseWithBigInt<T>(text: string): T {
+  return JSON.parse(text, (_key, value) =>
+    value && typeof value === "object" && typeof value[BIGINT_TAG] === "string"
+      ? BigInt(value[BIGINT_TAG])
+      : value
+  ) as T;
+}
+
+/**
+ * Read a JSON file from the data directory
+ *
+ * @param name - File name relative to the data directory
+ * @returns Parsed data or null if the file does not exist
+ */
+export async function readJsonFile<T>(name: string): Promise<T | null> {
+  const filepath = path.join(getDataDir(), name);
+
+  try {
+    const data = await fs.promises.readFile(filepath, "utf-8");
+    return parseWithBigInt<T>(data);
+  } catch (error: any) {
+    if (error?.code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a JSON file to the data directory atomically
+ *
+ * @param name - File name relative to the data directory
+ * @param data - Data to persist
+ */
+export async function writeJsonFile(name: string, data: unknown): Promise<void> {
+  const filepath = path.join(getDataDir(), name);
+  const tmpPath = `${filepath}.${process.pid}.${Date.now()}.${writeCounter++}.tmp`;
+
+  await fs.promises.mkdir(path.dirname(filepath), { recursive: true });
+  await fs.promises.writeFile(tmpPath, stringifyWithBigInt(data));
+  await fs.promises.rename(tmpPath, filepath);
+}
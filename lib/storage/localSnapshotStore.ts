@@ -0,0 +1,92 @@
+/**
+ * Local Filesystem Snapshot Store
+ *
+ * Keeps snapshots in a directory on disk. Used when neither Vercel Blob nor
+ * S3 is configured: self-hosted servers, local development and tests.
+ *
+ * Directory: SNAPSHOT_STORE_DIR, or {DATA_DIR}/snapshots
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { getDataDir } from "./jsonFileStore.js";
+import { ObjectSnapshotStore, type StoredObject } from "./snapshotStore.js";
+
+// Distinguishes temp files of concurrent writes within the same millisecond
+let writeCounter = 0;
+
+export class LocalSnapshotStore extends ObjectSnapshotStore {
+  readonly backend = "local" as const;
+
+  constructor(private readonly rootDir: string) {
+    super();
+  }
+
+  static fromEnv(): LocalSnapshotStore {
+    return new LocalSnapshotStore(
+      process.env.SNAPSHOT_STORE_DIR || path.join(getDataDir(), "snapshots")
+    );
+  }
+
+  private resolve(key: string): string {
+    return path.join(this.rootDir, ...key.split("/"));
+  }
+
+  protected async putObject(key: string, body: string): Promise<StoredObject> {
+    const filepath = this.resolve(key);
+    const tmpPath = `${filepath}.${process.pid}.${Date.now()}.${writeCounter++}.tmp`;
+
+    // rename() replaces the target atomically, so readers see old or new, never partial
+    await fs.promises.mkdir(path.dirname(filepath), { recursive: true });
+    await fs.promises.writeFile(tmpPath, body);
+    await fs.promises.rename(tmpPath, filepath);
+
+    return { key, size: Buffer.byteLength(body), location: filepath };
+  }
+
+  protected async getObject(key: string): Promise<string | null> {
+    try {
+      return await fs.promises.readFile(this.resolve(key), "utf-8");
+    } catch (error: any) {
+      if (error?.code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  protected async listObjects(prefix: string): Promise<StoredObject[]> {
+    // Prefixes are folders ("snapshots/"); versions live directly inside them
+    const dir = this.resolve(prefix);
+
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch (error: any) {
+      if (error?.code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    return Promise.all(
+      entries
+        .filter((entry) => entry.isFile() && entry.name.endsWith(".json"))
+        .map(async (entry) => {
+          const location = path.join(dir, entry.name);
+          const stats = await fs.promises.stat(location);
+          return { key: `${prefix}${entry.name}`, size: stats.size, location };
+        })
+    );
+  }
+
+  protected async deleteObject(key: string): Promise<void> {
+    try {
+      await fs.promises.unlink(this.resolve(key));
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") {
+        throw error;
+      }
+    }
+  }
+}
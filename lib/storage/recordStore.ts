@@ -0,0 +1,240 @@
+/**
+ * Record Store
+ *
+ * Keyed JSON records (elevation jobs, webhook deliveries, relayer
+ * transactions, ...) that every instance of the API must see.
+ *
+ * Implementations (STATE_STORE):
+ * - file    One JSON file per collection in DATA_DIR (single instance only).
+ *           On Vercel DATA_DIR is /tmp: per instance and wiped on cold start,
+ *           so a cron request usually starts with an empty store.
+ * - redis   One hash per collection via REDIS_URL (shared by all instances)
+ * - memory  Per process, lost on restart
+ *
+ * Default: redis if REDIS_URL is set, otherwise file.
+ *
+ * Records are bigint-safe. claim() lets one worker own a record for a while
+ * (e.g. while sending a webhook delivery), across instances with redis.
+ */
+
+import { randomUUID } from "crypto";
+import {
+  parseWithBigInt,
+  readJsonFile,
+  stringifyWithBigInt,
+  writeJsonFile,
+} from "./jsonFileStore.js";
+import { getRedisClient, selectStoreType, type Redis } from "./redisClient.js";
+
+export interface RecordStore<T> {
+  readonly name: string;
+  get(id: string): Promise<T | null>;
+  /** All records, in no particular order */
+  list(): Promise<T[]>;
+  set(id: string, record: T): Promise<void>;
+  delete(ids: string[]): Promise<void>;
+  /**
+   * Claim a record for exclusive work until ttlMs passes
+   *
+   * @returns false if another worker holds the claim
+   */
+  claim(id: string, ttlMs: number): Promise<boolean>;
+  /** Give up a claim held by this process */
+  unclaim(id: string): Promise<void>;
+}
+
+export interface RecordStoreOptions<T> {
+  /** Collection name, used in Redis keys (e.g. "elevation-jobs") */
+  collection: string;
+  /** File used by the file backend, relative to DATA_DIR */
+  filename: string;
+  /** Field holding the record array in that file (e.g. "jobs") */
+  field: string;
+  id: (record: T) => string;
+}
+
+/**
+ * In-memory store (lost on restart)
+ */
+export class MemoryRecordStore<T> implements RecordStore<T> {
+  readonly name: string = "memory";
+  protected records = new Map<string, T>();
+  private claims = new Map<string, number>(); // ID -> expiry (ms since epoch)
+
+  async get(id: string): Promise<T | null> {
+    return this.records.get(id) ?? null;
+  }
+
+  async list(): Promise<T[]> {
+    return [...this.records.values()];
+  }
+
+  async set(id: string, record: T): Promise<void> {
+    this.records.set(id, record);
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.records.delete(id);
+    }
+  }
+
+  async claim(id: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    if ((this.claims.get(id) ?? 0) > now) {
+      return false;
+    }
+    this.claims.set(id, now + ttlMs);
+    return true;
+  }
+
+  async unclaim(id: string): Promise<void> {
+    this.claims.delete(id);
+  }
+}
+
+/**
+ * JSON file store (persisted in the data directory)
+ * Writes are serialized in-process; not safe across instances
+ */
+export class JsonFileRecordStore<T> extends MemoryRecordStore<T> {
+  readonly name = "file";
+  private loaded: Promise<void> | null = null;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly options: RecordStoreOptions<T>) {
+    super();
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= readJsonFile<Record<string, T[]>>(this.options.filename).then(
+      (data) => {
+        for (const record of data?.[this.options.field] || []) {
+          this.records.set(this.options.id(record), record);
+        }
+      }
+    );
+    return this.loaded;
+  }
+
+  private write(fn: () => Promise<void>): Promise<void> {
+    const run = async () => {
+      await this.load();
+      await fn();
+      await writeJsonFile(this.options.filename, {
+        [this.options.field]: [...this.records.values()],
+      });
+    };
+
+    const result = this.lock.then(run, run);
+    this.lock = result.catch(() => undefined);
+    return result;
+  }
+
+  async get(id: string): Promise<T | null> {
+    await this.load();
+    return super.get(id);
+  }
+
+  async list(): Promise<T[]> {
+    await this.load();
+    return super.list();
+  }
+
+  async set(id: string, record: T): Promise<void> {
+    return this.write(() => super.set(id, record));
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    return this.write(() => super.delete(ids));
+  }
+}
+
+// Delete a claim only if this process still holds it
+const LUA_UNCLAIM = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Redis store (one hash per collection, shared by all instances)
+ */
+export class RedisRecordStore<T> implements RecordStore<T> {
+  readonly name = "redis";
+  private readonly key: string;
+  private claimTokens = new Map<string, string>();
+
+  constructor(
+    private readonly client: Redis,
+    collection: string,
+    prefix = "abraham:state:"
+  ) {
+    this.key = `${prefix}${collection}`;
+  }
+
+  private claimKey(id: string): string {
+    return `${this.key}:claim:${id}`;
+  }
+
+  async get(id: string): Promise<T | null> {
+    const value = await this.client.hget(this.key, id);
+    return value !== null ? parseWithBigInt<T>(value) : null;
+  }
+
+  async list(): Promise<T[]> {
+    const values = await this.client.hvals(this.key);
+    return values.map((value) => parseWithBigInt<T>(value));
+  }
+
+  async set(id: string, record: T): Promise<void> {
+    await this.client.hset(this.key, id, stringifyWithBigInt(record));
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length > 0) {
+      await this.client.hdel(this.key, ...ids);
+    }
+  }
+
+  async claim(id: string, ttlMs: number): Promise<boolean> {
+    const token = randomUUID();
+    const reply = await this.client.set(this.claimKey(id), token, "PX", ttlMs, "NX");
+    if (reply !== "OK") {
+      return false;
+    }
+    this.claimTokens.set(id, token);
+    return true;
+  }
+
+  async unclaim(id: string): Promise<void> {
+    const token = this.claimTokens.get(id);
+    if (token) {
+      this.claimTokens.delete(id);
+      await this.client.eval(LUA_UNCLAIM, 1, this.claimKey(id), token);
+    }
+  }
+}
+
+/**
+ * Create the store for a collection from STATE_STORE / REDIS_URL
+ */
+export function createRecordStore<T>(options: RecordStoreOptions<T>): RecordStore<T> {
+  const storeType = selectStoreType("STATE_STORE", "file");
+  const redis = getRedisClient();
+
+  if (storeType === "redis" && redis) {
+    return new RedisRecordStore<T>(redis, options.collection);
+  }
+  if (storeType === "memory") {
+    return new MemoryRecordStore<T>();
+  }
+
+  if (process.env.VERCEL) {
+    console.warn(
+      `⚠️  ${options.collection} are kept in /tmp on this instance only - set REDIS_URL to share them across instances and cold starts`
+    );
+  }
+  return new JsonFileRecordStore<T>(options);
+}
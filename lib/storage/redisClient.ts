@@ -0,0 +1,65 @@
+/**
+ * Redis Connection
+ *
+ * One shared ioredis connection to REDIS_URL for state that has to be shared
+ * by all instances (quotas, metadata cache, ...). Any Redis-protocol server
+ * works (Redis, Valkey, KeyDB, Upstash, Dragonfly); use rediss:// for TLS.
+ *
+ * ioredis connects on the first command, reconnects with backoff and queues
+ * commands while reconnecting.
+ */
+
+import { Redis } from "ioredis";
+
+export type { Redis };
+
+let client: Redis | null = null;
+
+/**
+ * Get the shared connection
+ *
+ * @returns The client, or null if REDIS_URL is not set
+ */
+export function getRedisClient(): Redis | null {
+  const url = process.env.REDIS_URL;
+  if (!url) {
+    return null;
+  }
+
+  if (!client) {
+    client = new Redis(url, { lazyConnect: true, maxRetriesPerRequest: 3 });
+    client.on("error", (error: Error) => {
+      console.error("❌ Redis connection error:", error.message);
+    });
+  }
+  return client;
+}
+
+/**
+ * Pick the backend for a store from its environment variable
+ *
+ * "redis" without REDIS_URL is reported and replaced by the fallback, so a
+ * misconfiguration shows up in the startup logs instead of failing every
+ * import of the store.
+ *
+ * @param variable - Environment variable naming the backend (e.g. QUOTA_STORE)
+ * @param defaultType - Backend when the variable is not set and there is no REDIS_URL
+ * @param fallback - Backend to use when redis is requested without REDIS_URL
+ */
+export function selectStoreType(
+  variable: string,
+  defaultType: string,
+  fallback: string = defaultType
+): string {
+  const storeType = (
+    process.env[variable] || (process.env.REDIS_URL ? "redis" : defaultType)
+  ).toLowerCase();
+
+  if (storeType === "redis" && !process.env.REDIS_URL) {
+    console.error(
+      `❌ ${variable}=redis requires REDIS_URL - using the ${fallback} store instead`
+    );
+    return fallback;
+  }
+  return storeType;
+}
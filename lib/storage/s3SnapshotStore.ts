@@ -0,0 +1,262 @@
+/**
+ * S3-Compatible Snapshot Store
+ *
+ * Keeps snapshots in an S3 bucket: AWS S3, Cloudflare R2, MinIO, Backblaze B2,
+ * ... Requests are signed with AWS Signature V4 directly, without adding the
+ * AWS SDK as a dependency. Path-style URLs are used so custom endpoints work.
+ *
+ * Configuration:
+ * - SNAPSHOT_S3_BUCKET (required)
+ * - SNAPSHOT_S3_REGION (default: AWS_REGION or us-east-1; "auto" for R2)
+ * - SNAPSHOT_S3_ENDPOINT (default: https://s3.{region}.amazonaws.com)
+ * - SNAPSHOT_S3_ACCESS_KEY_ID / SNAPSHOT_S3_SECRET_ACCESS_KEY
+ *   (default: AWS_ACCESS_KEY_ID / AWS_SECRET_ACCESS_KEY)
+ * - SNAPSHOT_S3_PREFIX: key prefix inside the bucket (optional)
+ */
+
+import { createHash, createHmac } from "crypto";
+import {
+  ObjectSnapshotStore,
+  SnapshotStoreError,
+  type StoredObject,
+} from "./snapshotStore.js";
+
+export interface S3SnapshotStoreConfig {
+  bucket: string;
+  region: string;
+  endpoint: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  prefix?: string;
+}
+
+const sha256Hex = (data: string): string =>
+  createHash("sha256").update(data).digest("hex");
+
+const hmac = (key: string | Buffer, data: string): Buffer =>
+  createHmac("sha256", key).update(data).digest();
+
+/**
+ * RFC 3986 encoding required by SigV4 (encodeURIComponent leaves !'()* alone)
+ */
+const encodeRfc3986 = (value: string): string =>
+  encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+
+const decodeXml = (value: string): string =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+export class S3SnapshotStore extends ObjectSnapshotStore {
+  readonly backend = "s3" as const;
+
+  private readonly REQUEST_TIMEOUT_MS = 30000;
+
+  constructor(private readonly config: S3SnapshotStoreConfig) {
+    super();
+  }
+
+  static fromEnv(): S3SnapshotStore {
+    const bucket = process.env.SNAPSHOT_S3_BUCKET;
+    const accessKeyId =
+      process.env.SNAPSHOT_S3_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID;
+    const secretAccessKey =
+      process.env.SNAPSHOT_S3_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY;
+
+    if (!bucket) {
+      throw new SnapshotStoreError("SNAPSHOT_S3_BUCKET not configured");
+    }
+    if (!accessKeyId || !secretAccessKey) {
+      throw new SnapshotStoreError(
+        "S3 credentials not configured. Set SNAPSHOT_S3_ACCESS_KEY_ID and SNAPSHOT_S3_SECRET_ACCESS_KEY"
+      );
+    }
+
+    const region =
+      process.env.SNAPSHOT_S3_REGION || process.env.AWS_REGION || "us-east-1";
+
+    return new S3SnapshotStore({
+      bucket,
+      region,
+      endpoint: (
+        process.env.SNAPSHOT_S3_ENDPOINT || `https://s3.${region}.amazonaws.com`
+      ).replace(/\/+$/, ""),
+      accessKeyId,
+      secretAccessKey,
+      prefix: process.env.SNAPSHOT_S3_PREFIX?.replace(/^\/+|\/+$/g, ""),
+    });
+  }
+
+  private objectKey(key: string): string {
+    return this.config.prefix ? `${this.config.prefix}/${key}` : key;
+  }
+
+  private location(key: string): string {
+    return `s3://${this.config.bucket}/${this.objectKey(key)}`;
+  }
+
+  /**
+   * Send a SigV4-signed request
+   *
+   * @param key - Object key (without the configured prefix), or "" for the bucket
+   */
+  private async request(
+    method: "GET" | "PUT" | "DELETE",
+    key: string,
+    options: {
+      query?: Record<string, string>;
+      body?: string;
+      headers?: Record<string, string>;
+    } = {}
+  ): Promise<Response> {
+    const { region, bucket, endpoint, accessKeyId, secretAccessKey } = this.config;
+
+    const url = new URL(endpoint);
+    const objectPath = key ? `/${this.objectKey(key)}` : "";
+    const canonicalUri =
+      `${url.pathname.replace(/\/+$/, "")}/${encodeRfc3986(bucket)}` +
+      objectPath.split("/").map(encodeRfc3986).join("/");
+
+    const canonicalQuery = Object.entries(options.query || {})
+      .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([name, value]) => `${name}=${value}`)
+      .join("&");
+
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(options.body ?? "");
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+      ...Object.fromEntries(
+        Object.entries(options.headers || {}).map(([k, v]) => [k.toLowerCase(), v])
+      ),
+    };
+
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      canonicalUri,
+      canonicalQuery,
+      signedHeaders.map((name) => `${name}:${headers[name].trim()}\n`).join(""),
+      signedHeaders.join(";"),
+      payloadHash,
+    ].join("\n");
+
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate,
+      scope,
+      sha256Hex(canonicalRequest),
+    ].join("\n");
+
+    const signingKey = hmac(
+      hmac(hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region), "s3"),
+      "aws4_request"
+    );
+    const signature = hmac(signingKey, stringToSign).toString("hex");
+
+    const { host: _host, ...requestHeaders } = headers;
+    return fetch(
+      `${url.origin}${canonicalUri}${canonicalQuery ? `?${canonicalQuery}` : ""}`,
+      {
+        method,
+        headers: {
+          ...requestHeaders,
+          authorization:
+            `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, ` +
+            `SignedHeaders=${signedHeaders.join(";")}, Signature=${signature}`,
+        },
+        body: options.body,
+        signal: AbortSignal.timeout(this.REQUEST_TIMEOUT_MS),
+      }
+    );
+  }
+
+  private async fail(action: string, key: string, response: Response): Promise<never> {
+    const details = await response.text().catch(() => "");
+    const code = details.match(/<Code>([^<]+)<\/Code>/)?.[1];
+    throw new SnapshotStoreError(
+      `S3 ${action} failed for ${this.location(key)}: ${response.status} ${code || response.statusText}`
+    );
+  }
+
+  protected async putObject(key: string, body: string): Promise<StoredObject> {
+    // A PUT replaces the object atomically: readers get the old or new body
+    const response = await this.request("PUT", key, {
+      body,
+      headers: { "content-type": "application/json" },
+    });
+    if (!response.ok) {
+      await this.fail("upload", key, response);
+    }
+    return { key, size: Buffer.byteLength(body), location: this.location(key) };
+  }
+
+  protected async getObject(key: string): Promise<string | null> {
+    const response = await this.request("GET", key);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      await this.fail("download", key, response);
+    }
+    return response.text();
+  }
+
+  protected async listObjects(prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    const fullPrefix = this.objectKey(prefix);
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.request("GET", "", {
+        query: {
+          "list-type": "2",
+          prefix: fullPrefix,
+          ...(continuationToken ? { "continuation-token": continuationToken } : {}),
+        },
+      });
+      if (!response.ok) {
+        await this.fail("list", prefix, response);
+      }
+
+      const xml = await response.text();
+      for (const [, contents] of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+        const objectKey = decodeXml(contents.match(/<Key>([\s\S]*?)<\/Key>/)?.[1] || "");
+        const key = this.config.prefix
+          ? objectKey.slice(this.config.prefix.length + 1)
+          : objectKey;
+        objects.push({
+          key,
+          size: Number(contents.match(/<Size>(\d+)<\/Size>/)?.[1]) || undefined,
+          location: this.location(key),
+        });
+      }
+
+      continuationToken = /<IsTruncated>true<\/IsTruncated>/.test(xml)
+        ? decodeXml(xml.match(/<NextContinuationToken>([\s\S]*?)<\/NextContinuationToken>/)?.[1] || "")
+        : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  protected async deleteObject(key: string): Promise<void> {
+    const response = await this.request("DELETE", key);
+    // S3 returns 204 whether or not the object existed
+    if (!response.ok && response.status !== 404) {
+      await this.fail("delete", key, response);
+    }
+  }
+}
@@ -0,0 +1,394 @@
+/**
+ * Snapshot Store
+ *
+ * Persists FirstWorks snapshots and merkle trees behind one interface, so the
+ * API runs the same way on Vercel, on our own servers and in local tests.
+ *
+ * Backends (SNAPSHOT_STORE):
+ * - local: files under SNAPSHOT_STORE_DIR (default: {DATA_DIR}/snapshots)
+ * - s3: any S3-compatible bucket (AWS S3, Cloudflare R2, MinIO, ...)
+ * - blob: Vercel Blob
+ * If unset, Vercel Blob is used when BLOB_READ_WRITE_TOKEN is set, S3 when
+ * SNAPSHOT_S3_BUCKET is set, and the local filesystem otherwise.
+ *
+ * Features:
+ * - Content hashing: every version is named after the SHA-256 of its JSON and
+ *   verified on read. Publishing unchanged content creates no new version.
+ * - Atomic "latest" pointer: versions are immutable and written first; the
+ *   pointer naming the current version is replaced in a single write, so
+ *   readers never see a partially written snapshot.
+ * - Retention: old versions are pruned by count and age (the version the
+ *   pointer names is always kept). Point-in-time files are never pruned.
+ *
+ * Layout (same for every backend):
+ * - snapshots/latest-pointer.json (current version)
+ * - snapshots/snapshot-{timestamp}-{sha256}.json (versions)
+ * - snapshots/at-block/block-{blockNumber}.json (point-in-time snapshots)
+ * - merkle/... (same structure for merkle trees)
+ */
+
+import { createHash } from "crypto";
+
+export type SnapshotKind = "snapshot" | "merkle";
+
+export type SnapshotStoreBackend = "local" | "s3" | "blob";
+
+export interface StoredVersion {
+  id: string; // Publish timestamp (ms)
+  kind: SnapshotKind;
+  hash: string | null; // SHA-256 of the stored JSON (null for legacy versions)
+  createdAt: string; // ISO timestamp
+  size?: number; // Bytes
+  location: string; // File path, s3:// URI or blob URL
+}
+
+export interface LatestPointer {
+  id: string;
+  hash: string;
+  key: string;
+  updatedAt: string;
+}
+
+export interface RetentionPolicy {
+  keepVersions: number; // Most recent versions to keep
+  maxAgeDays?: number; // Also prune versions older than this
+}
+
+export interface SnapshotStore {
+  readonly backend: SnapshotStoreBackend;
+
+  /**
+   * Store a new version and point "latest" at it
+   */
+  publish(kind: SnapshotKind, data: unknown): Promise<StoredVersion>;
+
+  getLatestPointer(kind: SnapshotKind): Promise<LatestPointer | null>;
+  loadLatest<T>(kind: SnapshotKind): Promise<T | null>;
+  loadVersion<T>(kind: SnapshotKind, id: string): Promise<T | null>;
+
+  /**
+   * List stored versions, newest first
+   */
+  listVersions(kind: SnapshotKind): Promise<StoredVersion[]>;
+
+  /**
+   * Store a point-in-time file (does not move the "latest" pointer)
+   * @returns Location of the stored file
+   */
+  saveAtBlock(kind: SnapshotKind, blockNumber: number, data: unknown): Promise<string>;
+  loadAtBlock<T>(kind: SnapshotKind, blockNumber: number): Promise<T | null>;
+
+  /**
+   * Delete versions outside the retention policy
+   * @returns Number of versions deleted
+   */
+  applyRetention(kind: SnapshotKind, policy?: RetentionPolicy): Promise<number>;
+}
+
+export class SnapshotStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SnapshotStoreError";
+  }
+}
+
+export interface StoredObject {
+  key: string;
+  size?: number;
+  location: string;
+}
+
+const FOLDERS: Record<SnapshotKind, string> = {
+  snapshot: "snapshots",
+  merkle: "merkle",
+};
+
+const POINTER_FILE = "latest-pointer.json";
+
+// Written by the Vercel-only blob module before versions were hashed
+const LEGACY_LATEST_FILE = "latest.json";
+
+export function hashContent(body: string): string {
+  return createHash("sha256").update(body).digest("hex");
+}
+
+/**
+ * Retention policy from the environment
+ * SNAPSHOT_RETENTION_VERSIONS (default: 5), SNAPSHOT_RETENTION_DAYS (optional)
+ */
+export function getRetentionPolicy(): RetentionPolicy {
+  const keepVersions = Number(process.env.SNAPSHOT_RETENTION_VERSIONS);
+  const maxAgeDays = Number(process.env.SNAPSHOT_RETENTION_DAYS);
+  return {
+    keepVersions: Number.isInteger(keepVersions) && keepVersions > 0 ? keepVersions : 5,
+    maxAgeDays: maxAgeDays > 0 ? maxAgeDays : undefined,
+  };
+}
+
+/**
+ * Versioning, hashing, pointer and retention logic shared by all backends
+ * Backends only implement plain object storage
+ */
+export abstract class ObjectSnapshotStore implements SnapshotStore {
+  abstract readonly backend: SnapshotStoreBackend;
+
+  /**
+   * Write an object, replacing it atomically if it exists
+   */
+  protected abstract putObject(
+    key: string,
+    body: string,
+    options: { immutable: boolean }
+  ): Promise<StoredObject>;
+
+  /**
+   * Read an object
+   * @returns null if it does not exist
+   */
+  protected abstract getObject(key: string): Promise<string | null>;
+
+  /**
+   * List objects whose key starts with the prefix
+   */
+  protected abstract listObjects(prefix: string): Promise<StoredObject[]>;
+
+  protected abstract deleteObject(key: string): Promise<void>;
+
+  private versionPattern(kind: SnapshotKind): RegExp {
+    return new RegExp(`^${FOLDERS[kind]}/${kind}-(\\d+)(?:-([0-9a-f]{64}))?\\.json$`);
+  }
+
+  private atBlockKey(kind: SnapshotKind, blockNumber: number): string {
+    return `${FOLDERS[kind]}/at-block/block-${blockNumber}.json`;
+  }
+
+  private parse<T>(key: string, body: string, expectedHash: string | null): T {
+    if (expectedHash && hashContent(body) !== expectedHash) {
+      throw new SnapshotStoreError(
+        `Content hash mismatch for ${key} (${this.backend} store): expected ${expectedHash}`
+      );
+    }
+    return JSON.parse(body) as T;
+  }
+
+  async publish(kind: SnapshotKind, data: unknown): Promise<StoredVersion> {
+    const body = JSON.stringify(data, null, 2);
+    const hash = hashContent(body);
+
+    const current = await this.getLatestPointer(kind);
+    if (current?.hash === hash) {
+      console.log(`✓ ${kind} unchanged (${hash.slice(0, 12)}), keeping version ${current.id}`);
+      const version = (await this.listVersions(kind)).find((v) => v.id === current.id);
+      if (version) return version;
+    }
+
+    // 1. Write the immutable version
+    const id = String(Date.now());
+    const key = `${FOLDERS[kind]}/${kind}-${id}-${hash}.json`;
+    const stored = await this.putObject(key, body, { immutable: true });
+    console.log(`✓ Stored ${kind} version ${id}: ${stored.location}`);
+
+    // 2. Move the pointer in one write
+    const pointer: LatestPointer = {
+      id,
+      hash,
+      key,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.putObject(
+      `${FOLDERS[kind]}/${POINTER_FILE}`,
+      JSON.stringify(pointer, null, 2),
+      { immutable: false }
+    );
+    console.log(`✓ Latest ${kind} -> ${id} (${this.backend} store)`);
+
+    return {
+      id,
+      kind,
+      hash,
+      createdAt: new Date(Number(id)).toISOString(),
+      size: Buffer.byteLength(body),
+      location: stored.location,
+    };
+  }
+
+  async getLatestPointer(kind: SnapshotKind): Promise<LatestPointer | null> {
+    const body = await this.getObject(`${FOLDERS[kind]}/${POINTER_FILE}`);
+    return body ? (JSON.parse(body) as LatestPointer) : null;
+  }
+
+  async loadLatest<T>(kind: SnapshotKind): Promise<T | null> {
+    const pointer = await this.getLatestPointer(kind);
+
+    if (!pointer) {
+      // Stores written before the pointer existed kept a full copy instead
+      const legacyKey = `${FOLDERS[kind]}/${LEGACY_LATEST_FILE}`;
+      const legacy = await this.getObject(legacyKey);
+      return legacy ? this.parse<T>(legacyKey, legacy, null) : null;
+    }
+
+    const body = await this.getObject(pointer.key);
+    if (body === null) {
+      throw new SnapshotStoreError(
+        `Latest ${kind} points to missing version ${pointer.key} (${this.backend} store)`
+      );
+    }
+    return this.parse<T>(pointer.key, body, pointer.hash);
+  }
+
+  async loadVersion<T>(kind: SnapshotKind, id: string): Promise<T | null> {
+    const pattern = this.versionPattern(kind);
+    const object = (await this.listObjects(`${FOLDERS[kind]}/`)).find(
+      (o) => o.key.match(pattern)?.[1] === id
+    );
+    if (!object) return null;
+
+    const body = await this.getObject(object.key);
+    if (body === null) return null;
+    return this.parse<T>(object.key, body, object.key.match(pattern)![2] ?? null);
+  }
+
+  async listVersions(kind: SnapshotKind): Promise<StoredVersion[]> {
+    const pattern = this.versionPattern(kind);
+    const objects = await this.listObjects(`${FOLDERS[kind]}/`);
+
+    return objects
+      .flatMap((object) => {
+        const match = object.key.match(pattern);
+        if (!match) return [];
+        return [
+          {
+            id: match[1],
+            kind,
+            hash: match[2] ?? null,
+            createdAt: new Date(Number(match[1])).toISOString(),
+            size: object.size,
+            location: object.location,
+          },
+        ];
+      })
+      .sort((a, b) => Number(b.id) - Number(a.id));
+  }
+
+  async saveAtBlock(
+    kind: SnapshotKind,
+    blockNumber: number,
+    data: unknown
+  ): Promise<string> {
+    // Regenerating at the same block yields the same data, so overwriting is safe
+    const stored = await this.putObject(
+      this.atBlockKey(kind, blockNumber),
+      JSON.stringify(data, null, 2),
+      { immutable: false }
+    );
+    console.log(`✓ Stored ${kind} at block ${blockNumber}: ${stored.location}`);
+    return stored.location;
+  }
+
+  async loadAtBlock<T>(kind: SnapshotKind, blockNumber: number): Promise<T | null> {
+    const key = this.atBlockKey(kind, blockNumber);
+    const body = await this.getObject(key);
+    return body ? this.parse<T>(key, body, null) : null;
+  }
+
+  async applyRetention(
+    kind: SnapshotKind,
+    policy: RetentionPolicy = getRetentionPolicy()
+  ): Promise<number> {
+    const [versions, pointer] = await Promise.all([
+      this.listVersions(kind),
+      this.getLatestPointer(kind),
+    ]);
+
+    const cutoff = policy.maxAgeDays
+      ? Date.now() - policy.maxAgeDays * 24 * 60 * 60 * 1000
+      : null;
+
+    // Versions are sorted newest first
+    const expired = versions.filter(
+      (version, index) =>
+        version.id !== pointer?.id &&
+        (index >= policy.keepVersions ||
+          (cutoff !== null && Number(version.id) < cutoff))
+    );
+
+    if (expired.length === 0) {
+      return 0;
+    }
+
+    console.log(
+      `🧹 Pruning ${expired.length} old ${kind} versions (keep ${policy.keepVersions}` +
+        `${policy.maxAgeDays ? `, max ${policy.maxAgeDays} days` : ""})`
+    );
+
+    const pattern = this.versionPattern(kind);
+    const objects = await this.listObjects(`${FOLDERS[kind]}/`);
+    const expiredIds = new Set(expired.map((v) => v.id));
+
+    let deleted = 0;
+    for (const object of objects) {
+      const id = object.key.match(pattern)?.[1];
+      if (!id || !expiredIds.has(id)) continue;
+      try {
+        await this.deleteObject(object.key);
+        deleted++;
+      } catch (error) {
+        console.error(`   ✗ Failed to delete ${object.key}:`, error);
+      }
+    }
+
+    return deleted;
+  }
+}
+
+let store: Promise<SnapshotStore> | null = null;
+
+/**
+ * Resolve the configured backend
+ */
+export function getSnapshotStoreBackend(): SnapshotStoreBackend {
+  const configured = process.env.SNAPSHOT_STORE;
+  if (configured) {
+    if (configured !== "local" && configured !== "s3" && configured !== "blob") {
+      throw new SnapshotStoreError(
+        `Invalid SNAPSHOT_STORE: ${configured}. Valid options: local, s3, blob`
+      );
+    }
+    return configured;
+  }
+
+  if (process.env.BLOB_READ_WRITE_TOKEN) return "blob";
+  if (process.env.SNAPSHOT_S3_BUCKET) return "s3";
+  return "local";
+}
+
+/**
+ * Get the configured snapshot store (created once per process)
+ * Backends are imported lazily so @vercel/blob is only loaded when used
+ */
+export function getSnapshotStore(): Promise<SnapshotStore> {
+  if (!store) {
+    store = (async (): Promise<SnapshotStore> => {
+      switch (getSnapshotStoreBackend()) {
+        case "blob": {
+          const { VercelBlobSnapshotStore } = await import("./vercelBlobSnapshotStore.js");
+          return new VercelBlobSnapshotStore();
+        }
+        case "s3": {
+          const { S3SnapshotStore } = await import("./s3SnapshotStore.js");
+          return S3SnapshotStore.fromEnv();
+        }
+        case "local": {
+          const { LocalSnapshotStore } = await import("./localSnapshotStore.js");
+          return LocalSnapshotStore.fromEnv();
+        }
+      }
+    })();
+
+    // Allow a retry after a configuration error
+    store.catch(() => {
+      store = null;
+    });
+  }
+  return store;
+}
@@ -0,0 +1,85 @@
+/**
+ * Vercel Blob Snapshot Store
+ *
+ * Keeps snapshots in Vercel Blob (fast CDN-backed reads, no git commits).
+ * Requires BLOB_READ_WRITE_TOKEN.
+ *
+ * Setup:
+ * 1. Vercel dashboard -> Storage -> create a Blob store
+ * 2. Copy the "Read-Write Token" into BLOB_READ_WRITE_TOKEN
+ */
+
+import { put, list, del, head, BlobNotFoundError } from "@vercel/blob";
+import {
+  ObjectSnapshotStore,
+  SnapshotStoreError,
+  type StoredObject,
+} from "./snapshotStore.js";
+
+export class VercelBlobSnapshotStore extends ObjectSnapshotStore {
+  readonly backend = "blob" as const;
+
+  constructor() {
+    super();
+    if (!process.env.BLOB_READ_WRITE_TOKEN) {
+      throw new SnapshotStoreError(
+        "BLOB_READ_WRITE_TOKEN not configured. Set it in Vercel environment variables."
+      );
+    }
+  }
+
+  protected async putObject(
+    key: string,
+    body: string,
+    options: { immutable: boolean }
+  ): Promise<StoredObject> {
+    const blob = await put(key, body, {
+      access: "public",
+      addRandomSuffix: false,
+      contentType: "application/json",
+      allowOverwrite: !options.immutable,
+      // Overwritten blobs (the pointer) may be served from the CDN cache until
+      // it expires; 60 seconds is the minimum Vercel allows
+      ...(options.immutable ? {} : { cacheControlMaxAge: 60 }),
+    });
+
+    return { key, size: Buffer.byteLength(body), location: blob.url };
+  }
+
+  protected async getObject(key: string): Promise<string | null> {
+    let url: string;
+    try {
+      url = (await head(key)).url;
+    } catch (error) {
+      if (error instanceof BlobNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new SnapshotStoreError(`Failed to download ${key}: ${response.statusText}`);
+    }
+    return response.text();
+  }
+
+  protected async listObjects(prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await list({ prefix, cursor });
+      for (const blob of page.blobs) {
+        objects.push({ key: blob.pathname, size: blob.size, location: blob.url });
+      }
+      cursor = page.hasMore ? page.cursor : undefined;
+    } while (cursor);
+
+    return objects;
+  }
+
+  protected async deleteObject(key: string): Promise<void> {
+    await del(key);
+  }
+}
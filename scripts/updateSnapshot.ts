@@ -15,10 +15,24 @@
  *
  *   # Specify network (default: baseSepolia)
  *   NETWORK=base npm run update-snapshot
+ *
+ *   # Point-in-time snapshot + merkle tree as of a historical block
+ *   # Stored alongside the latest snapshot; the contract is never updated
+ *   npm run update-snapshot -- --block-number=19000000
  */
 
-import { FirstWorksSnapshotGenerator, type FirstWorksSnapshot } from "../lib/snapshots/firstWorksSnapshot.js";
-import { generateMerkleTree, verifyProof } from "../lib/snapshots/merkleTreeGenerator.js";
+import {
+  FirstWorksSnapshotGenerator,
+  type FirstWorksSnapshot,
+  type SnapshotOptions,
+} from "../lib/snapshots/firstWorksSnapshot.js";
+import {
+  generateMerkleTree,
+  getHolderProof,
+  getLeafCount,
+  getTreeAddresses,
+  verifyProof,
+} from "../lib/snapshots/merkleTreeGenerator.js";
 import { writeFileSync } from "fs";
 import { createPublicClient, createWalletClient, http, parseAbi, type Address, type Hex } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
@@ -75,14 +89,19 @@ interface UpdateResult {
 /**
  * Step 1: Generate NFT Snapshot
  */
-async function generateSnapshot(): Promise<{ path: string; data: FirstWorksSnapshot }> {
+async function generateSnapshot(
+  options: SnapshotOptions
+): Promise<{ path: string; data: FirstWorksSnapshot }> {
   console.log("\n" + "=".repeat(60));
   console.log("STEP 1: Generating FirstWorks NFT Snapshot");
   console.log("=".repeat(60) + "\n");
 
   const generator = new FirstWorksSnapshotGenerator();
-  const snapshot = await generator.generateSnapshot();
-  const filepath = await generator.saveSnapshot(snapshot);
+  const snapshot = await generator.generateSnapshot(options);
+  const filepath =
+    options.blockNumber !== undefined
+      ? await generator.saveSnapshotAtBlock(snapshot)
+      : await generator.saveSnapshot(snapshot);
 
   console.log("\n✓ Snapshot generated successfully");
   return { path: filepath, data: snapshot };
@@ -90,16 +109,25 @@ async function generateSnapshot(): Promise<{ path: string; data: FirstWorksSnaps
 
 /**
  * Step 2: Generate Merkle Tree
+ *
+ * @param blockNumber - Set for point-in-time snapshots (saved alongside the current tree)
  */
-async function generateMerkle(snapshotPath: string): Promise<{ root: string; path: string }> {
+async function generateMerkle(
+  snapshotPath: string,
+  blockNumber?: number
+): Promise<{ root: string; path: string }> {
   console.log("\n" + "=".repeat(60));
   console.log("STEP 2: Generating Merkle Tree");
   console.log("=".repeat(60) + "\n");
 
   // On Vercel, use /tmp (only writable location)
+  const filename =
+    blockNumber !== undefined
+      ? `firstWorks_merkle-block-${blockNumber}.json`
+      : "firstWorks_merkle.json";
   const outputPath = process.env.VERCEL
-    ? "/tmp/firstWorks_merkle.json"
-    : "./lib/snapshots/firstWorks_merkle.json";
+    ? `/tmp/${filename}`
+    : `./lib/snapshots/${filename}`;
 
   console.log(`Reading snapshot from: ${snapshotPath}`);
 
@@ -111,15 +139,16 @@ async function generateMerkle(snapshotPath: string): Promise<{ root: string; pat
 
   // Print stats
   console.log("\n=== Merkle Tree Statistics ===");
-  console.log(`Total Leaves: ${Object.keys(merkleData.leaves).length}`);
-  console.log(`Total Proofs: ${Object.keys(merkleData.proofs).length}`);
+  console.log(`Format: ${merkleData.format}`);
+  console.log(`Total Leaves: ${getLeafCount(merkleData)}`);
   console.log(`Merkle Root: ${merkleData.root}`);
 
   // Verify a random proof
-  const randomHolder = Object.keys(merkleData.proofs)[0];
-  const randomProof = merkleData.proofs[randomHolder];
-  const randomLeaf = merkleData.leaves[randomHolder];
-  const isValid = verifyProof(randomProof, merkleData.root, randomLeaf);
+  const randomHolder = getTreeAddresses(merkleData)[0];
+  const holderProof = getHolderProof(merkleData, randomHolder);
+  const isValid =
+    !!holderProof &&
+    verifyProof(holderProof.proof, merkleData.root, holderProof.leaf);
 
   console.log("\n=== Verification Test ===");
   console.log(`Testing holder: ${randomHolder}`);
@@ -129,25 +158,17 @@ async function generateMerkle(snapshotPath: string): Promise<{ root: string; pat
     throw new Error("Proof verification failed!");
   }
 
-  // Upload to Vercel Blob storage (if configured)
-  try {
-    const { uploadToBlob, cleanupOldBlobs, isBlobStorageConfigured } = await import("../lib/storage/blobStorage.js");
-
-    if (isBlobStorageConfigured()) {
-      console.log("\n☁️  Uploading merkle tree to Vercel Blob storage...");
-      await uploadToBlob(merkleData, 'merkle');
-
-      // Clean up old merkle trees (keep last 5 versions)
-      await cleanupOldBlobs('merkle', 5);
+  // Publish to the snapshot store
+  const { getSnapshotStore } = await import("../lib/storage/snapshotStore.js");
+  const store = await getSnapshotStore();
 
-      console.log("✓ Merkle tree uploaded and old versions cleaned up");
-    } else {
-      console.log("\n⚠️  Blob storage not configured (BLOB_READ_WRITE_TOKEN missing)");
-      console.log("   Skipping upload to blob storage");
-    }
-  } catch (error) {
-    console.error("⚠️  Failed to upload merkle tree to blob storage:", error);
-    console.log("   Continuing with local merkle tree only");
+  if (blockNumber !== undefined) {
+    console.log(`\n☁️  Storing point-in-time merkle tree in ${store.backend} snapshot store...`);
+    await store.saveAtBlock("merkle", blockNumber, merkleData);
+  } else {
+    console.log(`\n☁️  Publishing merkle tree to ${store.backend} snapshot store...`);
+    await store.publish("merkle", merkleData);
+    await store.applyRetention("merkle");
   }
 
   console.log("\n✓ Merkle tree generated successfully");
@@ -161,7 +182,7 @@ async function generateMerkle(snapshotPath: string): Promise<{ root: string; pat
  * 1. MerkleGating (new AbrahamSeeds) - Uses L2_GATING_CONTRACT env var
  * 2. TheSeeds (legacy) - Uses L2_SEEDS_CONTRACT env var
  */
-async function updateContract(merkleRoot: string): Promise<{ txHash: string; blockNumber: bigint }> {
+export async function updateContract(merkleRoot: string): Promise<{ txHash: string; blockNumber: bigint }> {
   console.log("\n" + "=".repeat(60));
   console.log("STEP 3: Updating Contract Merkle Root");
   console.log("=".repeat(60) + "\n");
@@ -302,8 +323,15 @@ async function updateContract(merkleRoot: string): Promise<{ txHash: string; blo
 
 /**
  * Main execution
+ *
+ * @param options.blockNumber - Point-in-time snapshot at this block; never updates the contract
  */
-export async function updateSnapshotAndMerkle(skipContractUpdate = false): Promise<UpdateResult> {
+export async function updateSnapshotAndMerkle(
+  skipContractUpdate = false,
+  options: SnapshotOptions = {}
+): Promise<UpdateResult> {
+  const isHistorical = options.blockNumber !== undefined;
+
   const result: UpdateResult = {
     success: false,
     steps: {
@@ -318,33 +346,45 @@ export async function updateSnapshotAndMerkle(skipContractUpdate = false): Promi
     console.log("UNIFIED SNAPSHOT & MERKLE UPDATE");
     console.log("=".repeat(60));
     console.log(`\nTimestamp: ${new Date().toISOString()}`);
-    console.log(`Skip Contract Update: ${skipContractUpdate ? "Yes" : "No"}`);
+    console.log(`Skip Contract Update: ${skipContractUpdate || isHistorical ? "Yes" : "No"}`);
+    if (isHistorical) {
+      console.log(`Point-in-time Block: ${options.blockNumber}`);
+    }
 
     // Step 1: Generate snapshot
-    const { path: snapshotPath, data: snapshotData } = await generateSnapshot();
+    const { path: snapshotPath, data: snapshotData } = await generateSnapshot(options);
     result.snapshotPath = snapshotPath;
     result.snapshot = snapshotData;
     result.steps.snapshot = true;
 
     // Step 2: Generate merkle tree
     // Use the correct path based on environment (Vercel uses /tmp, local uses ./lib/snapshots)
+    // Point-in-time snapshots are read from their own file
     const latestSnapshotPath = process.env.VERCEL
       ? "/tmp/latest.json"
       : "./lib/snapshots/latest.json";
-    const { root: merkleRoot, path: merklePath } = await generateMerkle(latestSnapshotPath);
+    const { root: merkleRoot, path: merklePath } = await generateMerkle(
+      isHistorical ? snapshotPath : latestSnapshotPath,
+      options.blockNumber
+    );
     result.merklePath = merklePath;
     result.merkleRoot = merkleRoot;
     result.steps.merkle = true;
 
     // Step 3: Update contract (unless skipped)
-    if (!skipContractUpdate) {
+    // The on-chain root must always reflect current ownership
+    if (!skipContractUpdate && !isHistorical) {
       const { txHash, blockNumber } = await updateContract(merkleRoot);
       result.txHash = txHash;
       result.blockNumber = blockNumber;
       result.steps.contract = txHash !== "0x0";
     } else {
       console.log("\n" + "=".repeat(60));
-      console.log("STEP 3: SKIPPED (Contract update disabled)");
+      console.log(
+        isHistorical
+          ? "STEP 3: SKIPPED (Point-in-time snapshot)"
+          : "STEP 3: SKIPPED (Contract update disabled)"
+      );
       console.log("=".repeat(60));
       result.steps.contract = false;
     }
@@ -360,7 +400,7 @@ export async function updateSnapshotAndMerkle(skipContractUpdate = false): Promi
     if (result.txHash && result.txHash !== "0x0") {
       console.log(`✓ Contract Updated: ${result.txHash}`);
       console.log(`✓ Block Number: ${result.blockNumber}`);
-    } else if (skipContractUpdate) {
+    } else if (skipContractUpdate || isHistorical) {
       console.log(`⚠ Contract Update Skipped`);
     } else {
       console.log(`⚠ Contract Already Up to Date`);
@@ -382,7 +422,27 @@ export async function updateSnapshotAndMerkle(skipContractUpdate = false): Promi
 if (import.meta.url === `file://${process.argv[1]}`) {
   const skipContractUpdate = process.env.SKIP_CONTRACT_UPDATE === "true";
 
-  updateSnapshotAndMerkle(skipContractUpdate)
+  // --block-number=N or --block-number N
+  const flagIndex = process.argv.findIndex((arg) => arg.startsWith("--block-number"));
+  const flagValue =
+    flagIndex === -1
+      ? undefined
+      : process.argv[flagIndex].includes("=")
+        ? process.argv[flagIndex].split("=")[1]
+        : process.argv[flagIndex + 1];
+
+  if (flagValue !== undefined && !/^\d+$/.test(flagValue)) {
+    console.error(`❌ Invalid --block-number: ${flagValue}`);
+    process.exit(1);
+  }
+  if (flagIndex !== -1 && flagValue === undefined) {
+    console.error("❌ --block-number requires a value");
+    process.exit(1);
+  }
+
+  const blockNumber = flagValue !== undefined ? Number(flagValue) : undefined;
+
+  updateSnapshotAndMerkle(skipContractUpdate, { blockNumber })
     .then(() => process.exit(0))
     .catch((error) => {
       console.error(error);
@@ -5,6 +5,11 @@ import seeds from './routes/seeds.js'
 import admin from './routes/admin.js'
 import leaderboard from './routes/leaderboard.js'
 import commandments from './routes/commandments.js'
+import stream from './routes/stream.js'
+import transactions from './routes/transactions.js'
+import rounds from './routes/rounds.js'
+import docs from './routes/docs.js'
+import { indexerService } from './services/indexerService.js'
 
 const app = new Hono()
 
@@ -12,54 +17,25 @@ const app = new Hono()
 app.use('*', cors({
   origin: '*', // In production, specify your allowed origins
   allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowHeaders: ['Content-Type', 'Authorization', 'X-Admin-Key'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Admin-Key', 'Last-Event-ID'],
 }))
 
+// Flag responses served from an index whose last sync failed
+app.use('/api/*', async (c, next) => {
+  await next()
+  if (indexerService.isStale()) {
+    c.header('X-Indexer-Stale', 'true')
+  }
+})
+
 // Health check route
 app.get('/', (c) => {
   return c.json({
     name: 'Abraham API',
     version: '1.0.0',
     status: 'healthy',
-    endpoints: {
-      // Seed Creation
-      createSeed: 'POST /api/seeds (requires X-Admin-Key)',
-      prepareSeedCreation: 'POST /api/seeds/prepare',
-      getSeed: 'GET /api/seeds/:seedId',
-      getSeedCount: 'GET /api/seeds/count',
-      checkCreatorRole: 'GET /api/seeds/creator/:address/check',
-
-      // Blessing Actions
-      performBlessing: 'POST /api/blessings',
-      checkEligibility: 'GET /api/blessings/eligibility',
-      getStats: 'GET /api/blessings/stats',
-
-      // Retrieve Blessings
-      getAllBlessings: 'GET /api/blessings/all',
-      getBlessingsByTarget: 'GET /api/blessings/target/:targetId',
-      getBlessingsByWallet: 'GET /api/blessings/wallet/:walletAddress',
-
-      // FirstWorks NFT Snapshots
-      getFirstWorksSnapshot: 'GET /api/blessings/firstworks/snapshot',
-      reloadFirstWorksSnapshot: 'POST /api/blessings/firstworks/reload-snapshot',
-
-      // Leaderboard
-      getLeaderboard: 'GET /api/leaderboard',
-      getUserRank: 'GET /api/leaderboard/user/:address',
-
-      // Commandments (Comments)
-      submitCommandment: 'POST /api/commandments',
-      getCommandmentsBySeed: 'GET /api/commandments/seed/:seedId',
-      getCommandmentsByUser: 'GET /api/commandments/user/:address',
-      getCommandmentStats: 'GET /api/commandments/stats',
-      checkCommandmentEligibility: 'GET /api/commandments/eligibility',
-      getAllCommandments: 'GET /api/commandments/all',
-
-      // Admin Operations (requires X-Admin-Key)
-      updateSnapshot: 'POST /api/admin/update-snapshot (requires X-Admin-Key)',
-      reloadSnapshot: 'POST /api/admin/reload-snapshot (requires X-Admin-Key)',
-      snapshotStatus: 'GET /api/admin/snapshot-status',
-    }
+    docs: '/api/docs',
+    openapi: '/api/openapi.json',
   })
 })
 
@@ -69,5 +45,9 @@ app.route('/api/blessings', blessings)
 app.route('/api/commandments', commandments)
 app.route('/api/leaderboard', leaderboard)
 app.route('/api/admin', admin)
+app.route('/api/stream', stream)
+app.route('/api/transactions', transactions)
+app.route('/api/rounds', rounds)
+app.route('/api', docs)
 
 export default app
@@ -0,0 +1,108 @@
+import { Context, Next } from "hono";
+import { getAuthUser } from "./auth.js";
+import { rateLimitStore } from "../services/quotaStore.js";
+
+export interface RateLimitOptions {
+  /** Name of the limit, used in the store key (e.g. "blessings") */
+  name: string;
+  /** Requests allowed per window */
+  limit: number;
+  /** Window length in milliseconds (fixed windows) */
+  windowMs: number;
+  /**
+   * What to count requests by:
+   * - "ip":   client IP (X-Forwarded-For / X-Real-IP)
+   * - "user": authenticated user (must run after withAuth; falls back to IP)
+   */
+  by: "ip" | "user";
+}
+
+/**
+ * Get the client IP from proxy headers (Vercel and most proxies set these)
+ */
+export const getClientIp = (c: Context): string => {
+  const forwarded = c.req.header("x-forwarded-for");
+  if (forwarded) {
+    return forwarded.split(",")[0].trim();
+  }
+  return c.req.header("x-real-ip") || "unknown";
+};
+
+/**
+ * Middleware to rate limit requests per IP or per user
+ * Counters live in the rate-limit store (see quotaStore.ts); with Redis
+ * they are shared by all instances, otherwise they are per process
+ *
+ * Sets X-RateLimit-Limit / X-RateLimit-Remaining / X-RateLimit-Reset and
+ * responds 429 with Retry-After when the limit is exceeded.
+ * If the store is unavailable the request is let through.
+ */
+export const rateLimit = (options: RateLimitOptions) => {
+  return async (c: Context, next: Next) => {
+    const user = options.by === "user" ? getAuthUser(c) : undefined;
+    const subject = user
+      ? `user:${(user.walletAddress || user.userId).toLowerCase()}`
+      : `ip:${getClientIp(c)}`;
+
+    const now = Date.now();
+    const resetsAt = (Math.floor(now / options.windowMs) + 1) * options.windowMs;
+
+    let result;
+    try {
+      result = await rateLimitStore.reserve(
+        `ratelimit:${options.name}:${subject}`,
+        1,
+        options.limit,
+        resetsAt,
+        options.windowMs
+      );
+    } catch (error) {
+      console.error("Rate limiter unavailable:", error);
+      await next();
+      return;
+    }
+
+    const { reservation, usage } = result;
+    const remaining = Math.max(0, options.limit - usage.used - usage.reserved);
+
+    c.header("X-RateLimit-Limit", String(options.limit));
+    c.header("X-RateLimit-Remaining", String(remaining));
+    c.header("X-RateLimit-Reset", String(Math.ceil(usage.resetsAt / 1000)));
+
+    if (!reservation) {
+      const retryAfter = Math.max(1, Math.ceil((usage.resetsAt - now) / 1000));
+      c.header("Retry-After", String(retryAfter));
+      return c.json(
+        {
+          success: false,
+          error: "Too many requests",
+          details: `Rate limit of ${options.limit} requests exceeded - retry in ${retryAfter}s`,
+        },
+        429
+      );
+    }
+
+    // Every request counts, whether or not the handler succeeds
+    await rateLimitStore.commit(reservation).catch(() => undefined);
+    await next();
+  };
+};
+
+/**
+ * Default limits (override via environment)
+ */
+export const ipRateLimit = (name: string) =>
+  rateLimit({
+    name,
+    limit: Number(process.env.RATE_LIMIT_IP_PER_MINUTE) || 60,
+    windowMs: 60 * 1000,
+    by: "ip",
+  });
+
+export const userRateLimit = (name: string) =>
+  rateLimit({
+    name,
+    limit: Number(process.env.RATE_LIMIT_USER_PER_MINUTE) || 30,
+    windowMs: 60 * 1000,
+    by: "user",
+  });
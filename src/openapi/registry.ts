@@ -0,0 +1,383 @@
+/**
+ * OpenAPI Registry
+ *
+ * Routes describe themselves with a RouteSpec (summary, auth, zod schemas for
+ * body / form / query / path params). Describing a route does two things:
+ * - Returns a middleware that validates the request against the schemas and
+ *   exposes the parsed values via c.req.valid("json" | "form" | "query" | "param")
+ * - Records the operation, so GET /api/openapi.json always matches the code
+ *
+ * Usage:
+ *   const api = openApi.group("/api/blessings", "Blessings");
+ *   blessings.post("/", withAuth, api.post("/", { summary, auth: "user", body }), handler);
+ *
+ * Invalid requests get the usual error shape with status 400:
+ *   { "success": false, "error": "Invalid request body", "details": "seedId: ..." }
+ */
+
+import type { Context, MiddlewareHandler } from "hono";
+import { z } from "zod/v4";
+
+export type RouteAuth = "user" | "admin" | "user+admin" | "none";
+
+export interface RouteSpec {
+  summary: string;
+  description?: string;
+  /**
+   * "user" = Privy token, "admin" = X-Admin-Key / CRON_SECRET,
+   * "user+admin" = Privy token and X-Admin-Key (default: none)
+   */
+  auth?: RouteAuth;
+  body?: z.ZodType;
+  /**
+   * Object schema of a multipart/form-data body (use z.file() for files)
+   * Repeated fields arrive as arrays
+   */
+  form?: z.ZodObject;
+  /** Object schema; each property becomes a query parameter */
+  query?: z.ZodObject;
+  /** Object schema; each property becomes a path parameter */
+  params?: z.ZodObject;
+  /** Schema of `data` in a successful response (default: any object) */
+  response?: z.ZodType;
+  /** Extra status codes this route responds with, e.g. { 202: "Queued", 404: "Seed not found" } */
+  responses?: Record<number, string>;
+  deprecated?: boolean;
+}
+
+type HttpMethod = "get" | "post" | "put" | "delete";
+
+/**
+ * Validated input types for c.req.valid(...), derived from the spec
+ */
+type ValidatedOutput<S extends RouteSpec> = (S["body"] extends z.ZodType
+  ? { json: z.output<S["body"]> }
+  : {}) &
+  (S["form"] extends z.ZodType ? { form: z.output<S["form"]> } : {}) &
+  (S["query"] extends z.ZodType ? { query: z.output<S["query"]> } : {}) &
+  (S["params"] extends z.ZodType ? { param: z.output<S["params"]> } : {});
+
+type ValidatingMiddleware<S extends RouteSpec> = MiddlewareHandler<
+  any,
+  any,
+  { in: {}; out: ValidatedOutput<S> }
+>;
+
+interface RegisteredOperation {
+  method: HttpMethod;
+  path: string;
+  tag: string;
+  spec: RouteSpec;
+}
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * Group of routes sharing a mount prefix and tag (one per router file)
+ */
+export class RouteGroup {
+  constructor(
+    private readonly registry: OpenApiRegistry,
+    private readonly prefix: string,
+    private readonly tag: string
+  ) {}
+
+  get<S extends RouteSpec>(path: string, spec: S): ValidatingMiddleware<S> {
+    return this.route("get", path, spec);
+  }
+
+  post<S extends RouteSpec>(path: string, spec: S): ValidatingMiddleware<S> {
+    return this.route("post", path, spec);
+  }
+
+  put<S extends RouteSpec>(path: string, spec: S): ValidatingMiddleware<S> {
+    return this.route("put", path, spec);
+  }
+
+  delete<S extends RouteSpec>(path: string, spec: S): ValidatingMiddleware<S> {
+    return this.route("delete", path, spec);
+  }
+
+  private route<S extends RouteSpec>(
+    method: HttpMethod,
+    path: string,
+    spec: S
+  ): ValidatingMiddleware<S> {
+    const fullPath = path === "/" ? this.prefix : `${this.prefix}${path}`;
+    this.registry.register({ method, path: fullPath, tag: this.tag, spec });
+    return validateRequest(spec);
+  }
+}
+
+/**
+ * Format zod issues as "path: message; path: message"
+ */
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message
+    )
+    .join("; ");
+}
+
+function invalidRequest(c: Context, error: string, zodError: z.ZodError) {
+  return c.json(
+    {
+      success: false,
+      error,
+      details: formatIssues(zodError),
+    },
+    400
+  );
+}
+
+/**
+ * Middleware to validate path params, query and JSON or form body against a spec
+ */
+function validateRequest<S extends RouteSpec>(spec: S): ValidatingMiddleware<S> {
+  return async (c, next) => {
+    if (spec.params) {
+      const result = spec.params.safeParse(c.req.param());
+      if (!result.success) {
+        return invalidRequest(c, "Invalid path parameters", result.error);
+      }
+      c.req.addValidatedData("param", result.data as {});
+    }
+
+    if (spec.query) {
+      const result = spec.query.safeParse(c.req.query());
+      if (!result.success) {
+        return invalidRequest(c, "Invalid query parameters", result.error);
+      }
+      c.req.addValidatedData("query", result.data as {});
+    }
+
+    if (spec.body) {
+      // An empty or non-JSON body is validated as undefined
+      const raw = await c.req.json().catch(() => undefined);
+      const result = spec.body.safeParse(raw);
+      if (!result.success) {
+        return invalidRequest(c, "Invalid request body", result.error);
+      }
+      c.req.addValidatedData("json", (result.data ?? {}) as {});
+    }
+
+    if (spec.form) {
+      // A body that is not multipart or urlencoded is validated as empty
+      const raw = await c.req.parseBody({ all: true }).catch(() => ({}));
+      const result = spec.form.safeParse(raw);
+      if (!result.success) {
+        return invalidRequest(c, "Invalid form data", result.error);
+      }
+      c.req.addValidatedData("form", result.data as {});
+    }
+
+    await next();
+  };
+}
+
+/**
+ * Collects route specs and renders the OpenAPI 3.1 document
+ */
+export class OpenApiRegistry {
+  private operations: RegisteredOperation[] = [];
+
+  group(prefix: string, tag: string): RouteGroup {
+    return new RouteGroup(this, prefix, tag);
+  }
+
+  register(operation: RegisteredOperation): void {
+    this.operations.push(operation);
+  }
+
+  /**
+   * Build the OpenAPI document for every registered route
+   */
+  generate(info: { title: string; version: string; description?: string }) {
+    const paths: Record<string, Record<string, unknown>> = {};
+    const tags: string[] = [];
+
+    for (const { method, path, tag, spec } of this.operations) {
+      const openApiPath = path.replace(/:(\w+)/g, "{$1}");
+      paths[openApiPath] ??= {};
+      paths[openApiPath][method] = this.buildOperation(method, path, tag, spec);
+      if (!tags.includes(tag)) tags.push(tag);
+    }
+
+    return {
+      openapi: "3.1.0",
+      info,
+      tags: tags.map((name) => ({ name })),
+      paths,
+      components: {
+        securitySchemes: {
+          privyToken: {
+            type: "http",
+            scheme: "bearer",
+            bearerFormat: "JWT",
+            description: "Privy access token",
+          },
+          adminKey: {
+            type: "apiKey",
+            in: "header",
+            name: "X-Admin-Key",
+          },
+          cronSecret: {
+            type: "http",
+            scheme: "bearer",
+            description: "CRON_SECRET (Vercel Cron)",
+          },
+        },
+        schemas: {
+          Error: {
+            type: "object",
+            properties: {
+              success: { type: "boolean", const: false },
+              error: { type: "string" },
+              details: { type: "string" },
+            },
+            required: ["success", "error"],
+          },
+        },
+      },
+    };
+  }
+
+  private buildOperation(
+    method: HttpMethod,
+    path: string,
+    tag: string,
+    spec: RouteSpec
+  ) {
+    const errorResponse = (description: string) => ({
+      description,
+      content: {
+        "application/json": { schema: { $ref: "#/components/schemas/Error" } },
+      },
+    });
+
+    const responses: Record<string, unknown> = {
+      200: {
+        description: "Success",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              properties: {
+                success: { type: "boolean", const: true },
+                data: spec.response ? toJsonSchema(spec.response) : { type: "object" },
+              },
+              required: ["success"],
+            },
+          },
+        },
+      },
+    };
+
+    if (spec.body || spec.form || spec.query || spec.params) {
+      responses[400] = errorResponse("Invalid request");
+    }
+    if (spec.auth && spec.auth !== "none") {
+      responses[401] = errorResponse("Missing or invalid credentials");
+    }
+    for (const [status, description] of Object.entries(spec.responses || {})) {
+      responses[status] =
+        Number(status) < 300 ? { description } : errorResponse(description);
+    }
+    responses[500] = errorResponse("Server error");
+
+    return {
+      tags: [tag],
+      summary: spec.summary,
+      description: spec.description,
+      operationId: toOperationId(method, path),
+      deprecated: spec.deprecated,
+      security: toSecurity(spec.auth),
+      parameters: [
+        ...toParameters("path", spec.params),
+        ...toParameters("query", spec.query),
+      ],
+      requestBody: spec.body
+        ? {
+            required: !spec.body.safeParse(undefined).success,
+            content: {
+              "application/json": { schema: toJsonSchema(spec.body) },
+            },
+          }
+        : spec.form
+          ? {
+              required: true,
+              content: {
+                "multipart/form-data": { schema: toJsonSchema(spec.form) },
+              },
+            }
+          : undefined,
+      responses,
+    };
+  }
+}
+
+/**
+ * Convert a zod schema to JSON Schema 2020-12 (the dialect of OpenAPI 3.1)
+ * Input types are used, so coerced params are described as clients send them
+ */
+function toJsonSchema(schema: z.ZodType): JsonSchema {
+  const { $schema, ...jsonSchema } = z.toJSONSchema(schema, {
+    io: "input",
+    unrepresentable: "any",
+  }) as JsonSchema;
+  return jsonSchema;
+}
+
+function toSecurity(auth?: RouteAuth) {
+  switch (auth) {
+    case "user":
+      return [{ privyToken: [] }];
+    case "admin":
+      return [{ adminKey: [] }, { cronSecret: [] }];
+    case "user+admin":
+      return [{ privyToken: [], adminKey: [] }];
+    default:
+      return undefined;
+  }
+}
+
+function toParameters(location: "path" | "query", schema?: z.ZodObject) {
+  if (!schema) return [];
+
+  const jsonSchema = toJsonSchema(schema);
+  const properties = (jsonSchema.properties || {}) as Record<string, JsonSchema>;
+  const required = (jsonSchema.required || []) as string[];
+
+  return Object.entries(properties).map(([name, { description, ...property }]) => ({
+    name,
+    in: location,
+    required: location === "path" || required.includes(name),
+    description,
+    schema: property,
+  }));
+}
+
+/**
+ * e.g. ("get", "/api/seeds/:seedId/score") -> "getSeedsBySeedIdScore"
+ */
+function toOperationId(method: HttpMethod, path: string): string {
+  const words = path
+    .replace(/^\/api\//, "")
+    .split(/[/-]/)
+    .filter(Boolean)
+    .map((segment) =>
+      segment.startsWith(":") ? `by-${segment.slice(1)}` : segment
+    )
+    .join("-")
+    .split("-");
+
+  return (
+    method +
+    words.map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join("")
+  );
+}
+
+export const openApi = new OpenApiRegistry();
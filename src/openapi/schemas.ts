@@ -0,0 +1,63 @@
+/**
+ * Shared request schemas
+ *
+ * Path and query values arrive as strings, so numeric schemas coerce.
+ */
+
+import { z } from "zod/v4";
+import type { Address, Hash } from "viem";
+
+export const AddressSchema = z
+  .string()
+  .regex(/^0x[a-fA-F0-9]{40}$/, "Invalid Ethereum address")
+  .transform((value) => value as Address)
+  .describe("Ethereum address");
+
+export const TxHashSchema = z
+  .string()
+  .regex(/^0x[a-fA-F0-9]{64}$/, "Invalid transaction hash")
+  .transform((value) => value as Hash);
+
+export const SeedIdSchema = z.coerce
+  .number()
+  .int()
+  .nonnegative()
+  .describe("Seed ID");
+
+export const RoundSchema = z.coerce
+  .number()
+  .int()
+  .positive()
+  .describe("Round number");
+
+export const TokenIdSchema = z.coerce
+  .number()
+  .int()
+  .nonnegative()
+  .describe("Token ID");
+
+/**
+ * Optional query flag: "true" / "false" (default false, anything else is rejected)
+ */
+export const QueryFlagSchema = z
+  .enum(["true", "false"])
+  .optional()
+  .transform((value) => value === "true");
+
+/**
+ * ?page=1&limit=10 (limit is capped at 100)
+ */
+export const PaginationQuery = z.object({
+  page: z.coerce.number().int().min(1).default(1).describe("Page number"),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .default(10)
+    .transform((limit) => Math.min(limit, 100))
+    .describe("Items per page (max 100)"),
+});
+
+export const SeedIdParams = z.object({ seedId: SeedIdSchema });
+export const AddressParams = z.object({ address: AddressSchema });
+export const RoundParams = z.object({ round: RoundSchema });
@@ -1,9 +1,61 @@
 import { Hono } from "hono";
-import { updateSnapshotAndMerkle } from "../../scripts/updateSnapshot.js";
+import {
+  updateContract,
+  updateSnapshotAndMerkle,
+} from "../../scripts/updateSnapshot.js";
 import { contractService } from "../services/contractService.js";
+import { blessingService } from "../services/blessingService.js";
+import { ownershipRootService } from "../services/ownershipRootService.js";
 import { abrahamService } from "../services/abrahamService.js";
+import { indexerService } from "../services/indexerService.js";
+import { blessingBatchService } from "../services/blessingBatchService.js";
+import { webhookService, WEBHOOK_EVENTS } from "../services/webhookService.js";
+import {
+  elevationJobService,
+  type ElevationJob,
+} from "../services/elevationJobService.js";
+import {
+  RELAYER_TX_STATUSES,
+  serializeRelayerTransaction,
+  type RelayerTxPurpose,
+} from "../services/relayerService.js";
+import {
+  getLeafCount,
+  loadMerkleTree,
+} from "../../lib/snapshots/merkleTreeGenerator.js";
+import { openApi, type RouteSpec } from "../openapi/registry.js";
+import {
+  AddressSchema,
+  QueryFlagSchema,
+  SeedIdSchema,
+  TokenIdSchema,
+} from "../openapi/schemas.js";
+import { z } from "zod/v4";
 
 const admin = new Hono();
+const api = openApi.group("/api/admin", "Admin");
+
+/**
+ * Contract enum given by name or index, e.g. "SKIP_ROUND" or 1 -> 1
+ */
+const contractEnumSchema = <T extends readonly [string, ...string[]]>(names: T) =>
+  z
+    .union([z.enum(names), z.number().int().min(0).max(names.length - 1)])
+    .transform((value) =>
+      typeof value === "number" ? value : names.indexOf(value)
+    );
+
+const ElevationJobParams = z.object({
+  round: z.coerce.number().int().nonnegative().describe("Round number"),
+});
+
+const WebhookIdParams = z.object({ id: z.string().min(1) });
+
+const WebhookEventsSchema = z.array(z.enum(WEBHOOK_EVENTS)).min(1);
+
+const SnapshotVersionSchema = z
+  .string()
+  .regex(/^(\d+|latest)$/, 'Expected a version ID or "latest"');
 
 /**
  * Middleware to check admin key or cron secret
@@ -59,7 +111,7 @@ function requireAdminKey(c: any, next: any) {
  * Update FirstWorks snapshot, generate merkle tree, and update contract
  *
  * This endpoint performs all three steps in one action:
- * 1. Generate FirstWorks NFT ownership snapshot (using Alchemy NFT API - fast!)
+ * 1. Generate FirstWorks NFT ownership snapshot (replaying Transfer logs - fast!)
  * 2. Generate Merkle tree from snapshot
  * 3. Update Merkle root on The Seeds contract (L2)
  *
@@ -71,6 +123,8 @@ function requireAdminKey(c: any, next: any) {
  *
  * Query Parameters:
  * - skipContract: Set to 'true' to skip contract update (optional)
+ * - blockNumber: Point-in-time snapshot + merkle tree as of this block (optional)
+ *   Stored alongside the latest snapshot, never replaces it and never updates the contract
  *
  * Request Headers:
  * - X-Admin-Key: Admin authentication key (for manual calls)
@@ -94,18 +148,38 @@ function requireAdminKey(c: any, next: any) {
  * }
  */
 
+const updateSnapshotSpec = {
+  summary: "Regenerate the FirstWorks snapshot and merkle tree, then update the on-chain root",
+  auth: "admin",
+  query: z.object({
+    skipContract: QueryFlagSchema.describe("Skip the on-chain merkle root update"),
+    blockNumber: z.coerce
+      .number()
+      .int()
+      .nonnegative()
+      .optional()
+      .describe("Snapshot as of this block (stored alongside the latest snapshot)"),
+  }),
+} satisfies RouteSpec;
+
 // Handler function for the update-snapshot endpoint
 const updateSnapshotHandler = async (c: any) => {
   try {
     console.log(`Snapshot update requested at: ${new Date().toISOString()}`);
 
     // Check if contract update should be skipped
-    const skipContract = c.req.query("skipContract") === "true";
+    const { skipContract, blockNumber } = c.req.valid("query");
+    const isHistorical = blockNumber !== undefined;
+
+    console.log(
+      `Starting snapshot update (skipContract: ${skipContract}, blockNumber: ${blockNumber ?? "latest"})...`
+    );
 
-    console.log(`Starting snapshot update (skipContract: ${skipContract})...`);
+    // Remember the current root to detect ownership changes
+    const previousRoot = (await loadMerkleTree())?.root ?? null;
 
     // Run the update process
-    const result = await updateSnapshotAndMerkle(skipContract);
+    const result = await updateSnapshotAndMerkle(skipContract, { blockNumber });
 
     if (!result.success) {
       let statusCode: 500 | 503 = 500;
@@ -123,6 +197,24 @@ const updateSnapshotHandler = async (c: any) => {
       );
     }
 
+    if (!isHistorical) {
+      // Serve proofs from the new tree and re-read the on-chain root
+      ownershipRootService.invalidate();
+      await blessingService.reloadSnapshot();
+    }
+
+    if (!isHistorical && result.merkleRoot && result.merkleRoot !== previousRoot) {
+      await webhookService.emit("snapshot.updated", {
+        previousRoot,
+        merkleRoot: result.merkleRoot,
+        totalHolders: result.snapshot?.totalHolders,
+        totalSupply: result.snapshot?.totalSupply,
+        blockNumber: result.snapshot?.blockNumber,
+        contractUpdated: result.steps.contract,
+        txHash: result.txHash,
+      });
+    }
+
     // Return success response
     return c.json({
       success: true,
@@ -136,9 +228,11 @@ const updateSnapshotHandler = async (c: any) => {
         snapshot: result.snapshot, // Include the full snapshot data
         timestamp: new Date().toISOString(),
         // Add helpful message if contract wasn't updated
-        message: !result.steps.contract
-          ? "Contract already has this merkle root (no NFT ownership changes detected)"
-          : "Snapshot updated and contract merkle root updated on-chain",
+        message: isHistorical
+          ? `Point-in-time snapshot generated at block ${blockNumber} (latest snapshot and contract unchanged)`
+          : !result.steps.contract
+            ? "Contract already has this merkle root (no NFT ownership changes detected)"
+            : "Snapshot updated and contract merkle root updated on-chain",
       },
     });
   } catch (error) {
@@ -167,8 +261,18 @@ const updateSnapshotHandler = async (c: any) => {
 };
 
 // Register both POST and GET handlers for the update-snapshot endpoint
-admin.post("/update-snapshot", requireAdminKey, updateSnapshotHandler);
-admin.get("/update-snapshot", requireAdminKey, updateSnapshotHandler);
+admin.post(
+  "/update-snapshot",
+  requireAdminKey,
+  api.post("/update-snapshot", updateSnapshotSpec),
+  updateSnapshotHandler
+);
+admin.get(
+  "/update-snapshot",
+  requireAdminKey,
+  api.get("/update-snapshot", updateSnapshotSpec),
+  updateSnapshotHandler
+);
 
 /**
  * POST /admin/reload-snapshot
@@ -184,221 +288,706 @@ admin.get("/update-snapshot", requireAdminKey, updateSnapshotHandler);
  * Request Headers:
  * - X-Admin-Key: Admin authentication key (required)
  */
-admin.post("/reload-snapshot", requireAdminKey, async (c) => {
-  try {
+admin.post(
+  "/reload-snapshot",
+  requireAdminKey,
+  api.post("/reload-snapshot", {
+    summary: "Reload the FirstWorks snapshot without updating merkle or contract",
+    auth: "admin",
+  }),
+  async (c) => {
+    try {
+
+      // Dynamically import to reload
+      const { loadLatestSnapshot } = await import("../../lib/snapshots/firstWorksSnapshot.js");
+      const snapshot = await loadLatestSnapshot();
 
-    // Dynamically import to reload
-    const { loadLatestSnapshot } = await import("../../lib/snapshots/firstWorksSnapshot.js");
-    const snapshot = await loadLatestSnapshot();
+      if (!snapshot) {
+        return c.json(
+          {
+            success: false,
+            error: "No snapshot available",
+            message: "Run POST /admin/update-snapshot to generate a snapshot",
+          },
+          404
+        );
+      }
 
-    if (!snapshot) {
+      return c.json({
+        success: true,
+        message: "FirstWorks snapshot reloaded successfully",
+        data: {
+          totalHolders: snapshot.totalHolders,
+          totalSupply: snapshot.totalSupply,
+          timestamp: snapshot.timestamp,
+          blockNumber: snapshot.blockNumber,
+        },
+      });
+    } catch (error) {
+      console.error("Error reloading snapshot:", error);
       return c.json(
         {
           success: false,
-          error: "No snapshot available",
-          message: "Run POST /admin/update-snapshot to generate a snapshot",
+          error: "Failed to reload snapshot",
+          details: error instanceof Error ? error.message : String(error),
         },
-        404
+        500
       );
     }
+  }
+);
 
-    return c.json({
-      success: true,
-      message: "FirstWorks snapshot reloaded successfully",
-      data: {
-        totalHolders: snapshot.totalHolders,
-        totalSupply: snapshot.totalSupply,
-        timestamp: snapshot.timestamp,
-        blockNumber: snapshot.blockNumber,
-      },
-    });
-  } catch (error) {
-    console.error("Error reloading snapshot:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to reload snapshot",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
+/**
+ * POST /admin/push-merkle-root
+ * Push the merkle root the API is serving proofs from to the contract
+ * Use after an update-snapshot run with skipContract=true, or when
+ * snapshot-status reports a root mismatch
+ *
+ * Authentication: X-Admin-Key header or CRON_SECRET Bearer token
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "merkleRoot": string,
+ *     "previousRoot": string | null,
+ *     "txHash": string | null,      // null if the contract already had this root
+ *     "blockNumber": string | null,
+ *     "rootConsistency": {...}
+ *   }
+ * }
+ */
+admin.post(
+  "/push-merkle-root",
+  requireAdminKey,
+  api.post("/push-merkle-root", {
+    summary: "Push the served merkle root to the gating contract",
+    auth: "admin",
+    responses: {
+      404: "No merkle tree loaded",
+    },
+  }),
+  async (c) => {
+    try {
+      // Make sure the served tree is the latest one on disk
+      await blessingService.reloadSnapshot();
+      const merkleRoot = blessingService.getMerkleRoot();
+
+      if (!merkleRoot) {
+        return c.json(
+          {
+            success: false,
+            error: "No merkle tree loaded",
+            message: "Run POST /admin/update-snapshot to generate one",
+          },
+          404
+        );
+      }
+
+      const before = await ownershipRootService.check(merkleRoot, true);
+      const { txHash, blockNumber } = await updateContract(merkleRoot);
+      const pushed = txHash !== "0x0";
+
+      ownershipRootService.invalidate();
+      const rootConsistency = await ownershipRootService.check(merkleRoot, true);
+
+      return c.json({
+        success: true,
+        message: pushed
+          ? "Merkle root updated on-chain"
+          : "Contract already has this merkle root",
+        data: {
+          merkleRoot,
+          previousRoot: before.onChainRoot,
+          txHash: pushed ? txHash : null,
+          blockNumber: pushed ? blockNumber.toString() : null,
+          rootConsistency,
+        },
+      });
+    } catch (error) {
+      console.error("Error pushing merkle root:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to push merkle root",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
+      );
+    }
   }
-});
+);
 
 /**
  * GET /admin/snapshot-status
  * Get the current status of the snapshot and merkle tree
  *
+ * collections lists the gating collections the snapshot covers, with their
+ * weights. rootConsistency compares the merkle root blessings are proven against with
+ * the on-chain root. While status is "mismatch", blessings and commandments
+ * are refused with 503.
+ *
  * Authentication: None required (public info)
  */
-admin.get("/snapshot-status", async (c) => {
-  try {
-    const { loadLatestSnapshot } = await import("../../lib/snapshots/firstWorksSnapshot.js");
-    const { readFileSync, existsSync } = await import("fs");
+admin.get(
+  "/snapshot-status",
+  api.get("/snapshot-status", {
+    summary: "Get snapshot, merkle tree and on-chain root status",
+  }),
+  async (c) => {
+    try {
+      const { loadLatestSnapshot, getCollectionSnapshots } = await import(
+        "../../lib/snapshots/firstWorksSnapshot.js"
+      );
+      const { getSnapshotStore } = await import("../../lib/storage/snapshotStore.js");
+
+      // Load snapshot
+      const snapshot = await loadLatestSnapshot();
+
+      if (!snapshot) {
+        return c.json({
+          success: true,
+          data: {
+            snapshotExists: false,
+            merkleExists: false,
+            message: "No snapshot available. Run POST /admin/update-snapshot to generate.",
+          },
+        });
+      }
+
+      // Check if merkle tree exists
+      const merkleData = await loadMerkleTree();
+      const merkleExists = !!merkleData;
+
+      let merkleInfo = null;
+      if (merkleData) {
+        merkleInfo = {
+          root: merkleData.root,
+          format: merkleData.format || "legacy",
+          totalLeaves: getLeafCount(merkleData),
+        };
+      }
 
-    // Load snapshot
-    const snapshot = await loadLatestSnapshot();
+      // Versions the store's "latest" pointers name
+      const store = await getSnapshotStore();
+      const [snapshotPointer, merklePointer] = await Promise.all([
+        store.getLatestPointer("snapshot"),
+        store.getLatestPointer("merkle"),
+      ]);
+
+      // Compare the root proofs are served from with the on-chain root
+      const rootConsistency = await ownershipRootService.check(
+        blessingService.getMerkleRoot(),
+        true
+      );
 
-    if (!snapshot) {
       return c.json({
         success: true,
         data: {
-          snapshotExists: false,
-          merkleExists: false,
-          message: "No snapshot available. Run POST /admin/update-snapshot to generate.",
+          snapshotExists: true,
+          merkleExists,
+          snapshot: {
+            totalHolders: snapshot.totalHolders,
+            totalSupply: snapshot.totalSupply,
+            timestamp: snapshot.timestamp,
+            blockNumber: snapshot.blockNumber,
+            contractAddress: snapshot.contractAddress,
+          },
+          collections: getCollectionSnapshots(snapshot).map((collection) => ({
+            id: collection.id,
+            name: collection.name,
+            contractAddress: collection.contractAddress,
+            chain: collection.chain,
+            weight: collection.weight,
+            totalHolders: collection.totalHolders,
+            totalSupply: collection.totalSupply,
+            blockNumber: collection.blockNumber,
+          })),
+          merkle: merkleInfo,
+          store: {
+            backend: store.backend,
+            snapshot: snapshotPointer,
+            merkle: merklePointer,
+          },
+          rootConsistency,
         },
       });
-    }
-
-    // Check if merkle tree exists
-    const merklePath = "./lib/snapshots/firstWorks_merkle.json";
-    const merkleExists = existsSync(merklePath);
-
-    let merkleInfo = null;
-    if (merkleExists) {
-      const merkleData = JSON.parse(readFileSync(merklePath, "utf-8"));
-      merkleInfo = {
-        root: merkleData.root,
-        totalLeaves: Object.keys(merkleData.leaves || {}).length,
-        totalProofs: Object.keys(merkleData.proofs || {}).length,
-      };
-    }
-
-    return c.json({
-      success: true,
-      data: {
-        snapshotExists: true,
-        merkleExists,
-        snapshot: {
-          totalHolders: snapshot.totalHolders,
-          totalSupply: snapshot.totalSupply,
-          timestamp: snapshot.timestamp,
-          blockNumber: snapshot.blockNumber,
-          contractAddress: snapshot.contractAddress,
+    } catch (error) {
+      console.error("Error checking snapshot status:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to check snapshot status",
+          details: error instanceof Error ? error.message : String(error),
         },
-        merkle: merkleInfo,
-      },
-    });
-  } catch (error) {
-    console.error("Error checking snapshot status:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to check snapshot status",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
+        500
+      );
+    }
   }
-});
+);
 
 /**
- * POST/GET /admin/select-winner
- * Select the daily winner on TheSeeds contract with optional auto-elevation
- *
- * This endpoint:
- * 1. Calls selectDailyWinner() on The Seeds contract (Base)
- * 2. Winner is determined by: sqrt(per-user blessings) * time_decay
- * 3. Mints an NFT for the winning seed on The Seeds contract
- * 4. Starts a new 24-hour blessing period
- * 5. Optionally elevates winner to Abraham creation (if autoElevate=true)
+ * GET /admin/snapshots
+ * List stored snapshot versions (newest first)
  *
- * Query Parameters:
- * - autoElevate: Set to 'true' to automatically elevate winner to Abraham creation (optional)
- *
- * Authentication (either method):
- * - X-Admin-Key header (for manual API calls)
- * - Authorization Bearer token with CRON_SECRET (for Vercel cron jobs)
+ * Authentication: X-Admin-Key header or CRON_SECRET Bearer token
  *
- * Response (without autoElevate):
+ * Response:
  * {
  *   "success": true,
  *   "data": {
- *     "winningSeedId": number,
- *     "round": number,
- *     "txHash": string,
- *     "blockExplorer": string,
- *     "seed": {...},
- *     "nft": {
- *       "tokenId": number,
- *       "tokenURI": string,
- *       "openseaUrl": string,
- *       "contractAddress": string
- *     },
- *     "nextStep": "Call POST /admin/elevate-seed?seedId=X to mint Abraham creation"
+ *     "versions": [
+ *       {
+ *         "id": "1731024000000",
+ *         "createdAt": "...",
+ *         "source": "local" | "s3" | "blob",
+ *         "hash": string | null,   // SHA-256 of the stored JSON
+ *         "size": number
+ *       }
+ *     ],
+ *     "total": number
  *   }
  * }
+ */
+admin.get(
+  "/snapshots",
+  requireAdminKey,
+  api.get("/snapshots", {
+    summary: "List stored snapshot versions",
+    auth: "admin",
+  }),
+  async (c) => {
+    try {
+      const { listSnapshotVersions } = await import("../../lib/snapshots/snapshotDiff.js");
+
+      const versions = await listSnapshotVersions();
+
+      return c.json({
+        success: true,
+        data: {
+          versions: versions.map(({ location, ...version }) => version),
+          total: versions.length,
+        },
+      });
+    } catch (error) {
+      console.error("Error listing snapshots:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to list snapshots",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
+      );
+    }
+  }
+);
+
+/**
+ * GET /admin/snapshots/diff?from=&to=&address=
+ * Compare two snapshot versions: added holders, removed holders and per-token transfers
  *
- * Response (with autoElevate=true):
+ * Authentication: X-Admin-Key header or CRON_SECRET Bearer token
+ *
+ * Query parameters:
+ * - from: Older version ID (default: the second newest version)
+ * - to: Newer version ID or "latest" (default: the newest version)
+ * - address: Only report changes involving this wallet (optional)
+ *
+ * Response:
  * {
  *   "success": true,
  *   "data": {
- *     "winningSeedId": number,
- *     "round": number,
- *     "txHash": string,
- *     "blockExplorer": string,
- *     "seed": {...},
- *     "nft": {
- *       "tokenId": number,
- *       "tokenURI": string,
- *       "openseaUrl": string,
- *       "contractAddress": string
- *     },
- *     "abraham": {
- *       "tokenId": number,
- *       "auctionId": number,
- *       "mintTxHash": string,
- *       "auctionTxHash": string
- *     }
+ *     "from": { "version", "timestamp", "blockNumber", "totalHolders", "totalSupply" },
+ *     "to": { ... },
+ *     "addedHolders": [{ "address": "0x...", "tokens": { "firstworks": [1, 2] } }],
+ *     "removedHolders": [{ "address": "0x...", "tokens": { "firstworks": [3] } }],
+ *     "changedHolders": [{ "address": "0x...", "balanceBefore": 2, "balanceAfter": 1, "gained": {}, "lost": { "firstworks": [4] } }],
+ *     "transfers": [{ "collection": "firstworks", "tokenId": 4, "from": "0x...", "to": "0x..." }],
+ *     "summary": { "addedHolders": 1, "removedHolders": 1, "changedHolders": 1, "transfers": 4 }
  *   }
  * }
  */
-
-// Handler function for the select-winner endpoint
-const selectWinnerHandler = async (c: any) => {
-  try {
-    const autoElevate = c.req.query("autoElevate") === "true";
-
-    console.log(`\n${"=".repeat(60)}`);
-    console.log(`🎯 Winner selection ${autoElevate ? '& auto-elevation ' : ''}started`);
-    console.log(`   Time: ${new Date().toISOString()}`);
-    console.log(`   Auto-Elevate: ${autoElevate ? 'YES' : 'NO'}`);
-    console.log(`${"=".repeat(60)}\n`);
-
-    // ============================================================
-    // STEP 1: Select winner on TheSeeds (Base)
-    // ============================================================
-    console.log("📍 STEP 1: Selecting winner on TheSeeds (Base)...");
-    const result = await contractService.selectDailyWinner();
-
-    if (!result.success) {
-      let statusCode: 400 | 500 | 503 = 500;
-      if (result.error?.includes("not ended")) statusCode = 400;
-      else if (result.error?.includes("No valid winner")) statusCode = 400;
-      else if (result.error?.includes("RPC") || result.error?.includes("network")) {
-        statusCode = 503;
+admin.get(
+  "/snapshots/diff",
+  requireAdminKey,
+  api.get("/snapshots/diff", {
+    summary: "Compare two snapshot versions",
+    auth: "admin",
+    query: z.object({
+      from: SnapshotVersionSchema.optional().describe(
+        "Older version ID (default: the second newest version)"
+      ),
+      to: SnapshotVersionSchema.optional().describe(
+        'Newer version ID or "latest" (default: the newest version)'
+      ),
+      address: AddressSchema.optional().describe(
+        "Only report changes involving this wallet"
+      ),
+    }),
+    responses: { 404: "Snapshot version not found" },
+  }),
+  async (c) => {
+    try {
+      const { listSnapshotVersions, loadSnapshotVersion, diffSnapshots } =
+        await import("../../lib/snapshots/snapshotDiff.js");
+      const query = c.req.valid("query");
+
+      let from = query.from;
+      let to = query.to;
+      if (!from || !to) {
+        const versions = await listSnapshotVersions();
+        to ??= versions[0]?.id;
+        from ??= versions[1]?.id;
+        if (!from || !to) {
+          return c.json(
+            {
+              success: false,
+              error: "Not enough snapshot versions to compare",
+              details: `Found ${versions.length} version(s)`,
+            },
+            404
+          );
+        }
       }
 
-      console.error(`❌ Winner selection failed: ${result.error}`);
+      const [fromSnapshot, toSnapshot] = await Promise.all([
+        loadSnapshotVersion(from),
+        loadSnapshotVersion(to),
+      ]);
 
-      // Log diagnostics if available
-      if (result.diagnostics) {
-        console.error(`\n📊 Diagnostics:`);
-        console.error(`   Round: ${result.diagnostics.currentRound}`);
-        console.error(`   Seeds in Round: ${result.diagnostics.seedsInRound}`);
-        console.error(`   Time Remaining: ${result.diagnostics.timeRemaining}s`);
-        console.error(`   Leader Seed ID: ${result.diagnostics.currentLeader.seedId}`);
-        console.error(`   Leader Score: ${result.diagnostics.currentLeader.score}`);
+      if (!fromSnapshot || !toSnapshot) {
+        return c.json(
+          {
+            success: false,
+            error: "Snapshot version not found",
+            details: `Unknown version: ${!fromSnapshot ? from : to}`,
+          },
+          404
+        );
       }
 
+      const diff = diffSnapshots(
+        { version: from, snapshot: fromSnapshot },
+        { version: to, snapshot: toSnapshot },
+        query.address
+      );
+
+      return c.json({
+        success: true,
+        data: diff,
+      });
+    } catch (error) {
+      console.error("Error diffing snapshots:", error);
       return c.json(
         {
           success: false,
-          error: result.error || "Winner selection failed",
-          details: (result as any).details, // Include error details for debugging
-          diagnostics: result.diagnostics,
+          error: "Failed to diff snapshots",
+          details: error instanceof Error ? error.message : String(error),
         },
-        statusCode
+        500
+      );
+    }
+  }
+);
+
+/**
+ * GET /admin/indexer-status
+ * Get the chain event indexer status (last processed block, event counts, errors)
+ * "stale" is true while the last sync failed and queries serve older data
+ *
+ * No authentication required (read-only)
+ */
+admin.get(
+  "/indexer-status",
+  api.get("/indexer-status", {
+    summary: "Get the event indexer's sync status",
+  }),
+  async (c) => {
+    try {
+      const status = await indexerService.getStatus();
+
+      return c.json({
+        success: true,
+        data: status,
+      });
+    } catch (error) {
+      console.error("Error checking indexer status:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to check indexer status",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
+      );
+    }
+  }
+);
+
+/**
+ * POST /admin/indexer-sync
+ * Index all new seeds contract events up to the chain head minus
+ * INDEXER_CONFIRMATIONS blocks
+ *
+ * Authentication: X-Admin-Key header or CRON_SECRET Bearer token
+ */
+admin.post(
+  "/indexer-sync",
+  requireAdminKey,
+  api.post("/indexer-sync", {
+    summary: "Sync the event indexer to the latest block",
+    auth: "admin",
+  }),
+  async (c) => {
+    try {
+      await indexerService.sync();
+      const status = await indexerService.getStatus();
+
+      return c.json({
+        success: true,
+        data: status,
+      });
+    } catch (error) {
+      console.error("Error syncing indexer:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to sync indexer",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
+      );
+    }
+  }
+);
+
+/**
+ * POST /admin/blessing-batches/flush
+ * Send all queued blessings now (BLESSING_BATCH_MODE)
+ * (for serverless deployments where the in-process flush timer doesn't survive)
+ *
+ * Authentication: X-Admin-Key header or CRON_SECRET Bearer token
+ */
+admin.post(
+  "/blessing-batches/flush",
+  requireAdminKey,
+  api.post("/blessing-batches/flush", {
+    summary: "Send all queued blessings now",
+    auth: "admin",
+  }),
+  async (c) => {
+    try {
+      if (!blessingBatchService.isEnabled()) {
+        return c.json(
+          {
+            success: false,
+            error: "Blessing batching is not enabled",
+            details:
+              "Set BLESSING_BATCH_MODE=true (requires the legacy TheSeeds contract)",
+          },
+          400
+        );
+      }
+
+      const flushed = await blessingBatchService.flush();
+
+      return c.json({
+        success: true,
+        data: {
+          flushed,
+        },
+      });
+    } catch (error) {
+      console.error("Error flushing blessing batches:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to flush blessing batches",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
+      );
+    }
+  }
+);
+
+/**
+ * GET /admin/relayer/transactions
+ * List transactions sent by the relayer wallet (newest first)
+ *
+ * Query Parameters:
+ * - status: queued | pending | confirmed | reverted | failed (optional)
+ * - purpose: bless | commandment | submitSeed | selectWinner | ... (optional)
+ * - limit: number of entries (optional, default: 100, max: 1000)
+ *
+ * Authentication: X-Admin-Key header required
+ */
+admin.get(
+  "/relayer/transactions",
+  requireAdminKey,
+  api.get("/relayer/transactions", {
+    summary: "List transactions sent by the relayer wallet (newest first)",
+    auth: "admin",
+    query: z.object({
+      status: z.enum(RELAYER_TX_STATUSES).optional(),
+      purpose: z.string().optional().describe("bless, commandment, submitSeed, selectWinner, ..."),
+      limit: z.coerce
+        .number()
+        .int()
+        .min(1)
+        .default(100)
+        .transform((limit) => Math.min(limit, 1000))
+        .describe("Number of entries (max 1000)"),
+    }),
+  }),
+  async (c) => {
+    try {
+      const { status, purpose, limit } = c.req.valid("query");
+
+      const transactions = await contractService.listRelayerTransactions({
+        status,
+        purpose: purpose as RelayerTxPurpose | undefined,
+        limit,
+      });
+
+      return c.json({
+        success: true,
+        data: {
+          relayer: contractService.getRelayerAddress(),
+          transactions: transactions.map(serializeRelayerTransaction),
+          total: transactions.length,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching relayer transactions:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch relayer transactions",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
+      );
+    }
+  }
+);
+
+/**
+ * POST/GET /admin/select-winner
+ * Select the daily winner on TheSeeds contract with optional auto-elevation
+ *
+ * This endpoint:
+ * 1. Calls selectDailyWinner() on The Seeds contract (Base)
+ * 2. Winner is determined by: sqrt(per-user blessings) * time_decay
+ * 3. Mints an NFT for the winning seed on The Seeds contract
+ * 4. Starts a new 24-hour blessing period
+ * 5. Optionally elevates winner to Abraham creation (if autoElevate=true)
+ *
+ * Query Parameters:
+ * - autoElevate: Set to 'true' to automatically elevate winner to Abraham creation (optional)
+ *
+ * Authentication (either method):
+ * - X-Admin-Key header (for manual API calls)
+ * - Authorization Bearer token with CRON_SECRET (for Vercel cron jobs)
+ *
+ * Response (without autoElevate):
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "winningSeedId": number,
+ *     "round": number,
+ *     "txHash": string,
+ *     "blockExplorer": string,
+ *     "seed": {...},
+ *     "nft": {
+ *       "tokenId": number,
+ *       "tokenURI": string,
+ *       "openseaUrl": string,
+ *       "contractAddress": string
+ *     },
+ *     "nextStep": "Call POST /admin/elevate-seed?seedId=X to mint Abraham creation"
+ *   }
+ * }
+ *
+ * Response (with autoElevate=true):
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "winningSeedId": number,
+ *     "round": number,
+ *     "txHash": string,
+ *     "blockExplorer": string,
+ *     "seed": {...},
+ *     "nft": {
+ *       "tokenId": number,
+ *       "tokenURI": string,
+ *       "openseaUrl": string,
+ *       "contractAddress": string
+ *     },
+ *     "abraham": {
+ *       "tokenId": number,
+ *       "auctionId": number,
+ *       "mintTxHash": string,
+ *       "auctionTxHash": string
+ *     }
+ *   }
+ * }
+ */
+
+const selectWinnerSpec = {
+  summary: "Select the round winner (optionally elevate it to an Abraham creation)",
+  auth: "admin",
+  query: z.object({
+    autoElevate: QueryFlagSchema.describe("Mint and auction the winner after selection"),
+  }),
+} satisfies RouteSpec;
+
+// Handler function for the select-winner endpoint
+const selectWinnerHandler = async (c: any) => {
+  try {
+    const { autoElevate } = c.req.valid("query");
+
+    console.log(`\n${"=".repeat(60)}`);
+    console.log(`🎯 Winner selection ${autoElevate ? '& auto-elevation ' : ''}started`);
+    console.log(`   Time: ${new Date().toISOString()}`);
+    console.log(`   Auto-Elevate: ${autoElevate ? 'YES' : 'NO'}`);
+    console.log(`${"=".repeat(60)}\n`);
+
+    // ============================================================
+    // STEP 1: Select winner on TheSeeds (Base)
+    // ============================================================
+    console.log("📍 STEP 1: Selecting winner on TheSeeds (Base)...");
+    const result = await contractService.selectDailyWinner();
+
+    if (!result.success) {
+      let statusCode: 400 | 500 | 503 = 500;
+      if (result.error?.includes("not ended")) statusCode = 400;
+      else if (result.error?.includes("No valid winner")) statusCode = 400;
+      else if (result.error?.includes("RPC") || result.error?.includes("network")) {
+        statusCode = 503;
+      }
+
+      console.error(`❌ Winner selection failed: ${result.error}`);
+
+      // Log diagnostics if available
+      if (result.diagnostics) {
+        console.error(`\n📊 Diagnostics:`);
+        console.error(`   Round: ${result.diagnostics.currentRound}`);
+        console.error(`   Seeds in Round: ${result.diagnostics.seedsInRound}`);
+        console.error(`   Time Remaining: ${result.diagnostics.timeRemaining}s`);
+        console.error(`   Leader Seed ID: ${result.diagnostics.currentLeader.seedId}`);
+        console.error(`   Leader Score: ${result.diagnostics.currentLeader.score}`);
+      }
+
+      return c.json(
+        {
+          success: false,
+          error: result.error || "Winner selection failed",
+          details: (result as any).details, // Include error details for debugging
+          diagnostics: result.diagnostics,
+        },
+        statusCode
       );
     }
 
@@ -460,6 +1049,42 @@ const selectWinnerHandler = async (c: any) => {
         ? `https://basescan.org/tx/${result.txHash}`
         : `https://sepolia.basescan.org/tx/${result.txHash}`;
 
+    await webhookService.emit("winner.selected", {
+      winningSeedId: result.winningSeedId,
+      round: winnerRound,
+      txHash: result.txHash,
+      txId: result.txId,
+      blockExplorer,
+      seed: seed
+        ? {
+            id: Number(seed.id),
+            creator: seed.creator,
+            ipfsHash: seed.ipfsHash,
+            blessings: Number(seed.blessings),
+          }
+        : null,
+      nft: nftData,
+    });
+
+    // Record the winner as an elevation job so the pipeline can be resumed
+    let job: ElevationJob | null = null;
+    if (seed && result.winningSeedId !== undefined) {
+      try {
+        job = await elevationJobService.createJob({
+          round: winnerRound,
+          seedId: result.winningSeedId,
+          seed: {
+            ipfsHash: seed.ipfsHash,
+            creator: seed.creator,
+            blessings: Number(seed.blessings),
+          },
+          winnerTxHash: result.txHash,
+        });
+      } catch (error) {
+        console.error("⚠️  Couldn't persist elevation job:", error);
+      }
+    }
+
     // ============================================================
     // STEP 2: Auto-elevate if requested and configured
     // ============================================================
@@ -479,6 +1104,7 @@ const selectWinnerHandler = async (c: any) => {
             winningSeedId: result.winningSeedId,
             round: winnerRound,
             txHash: result.txHash,
+            txId: result.txId,
             blockExplorer,
             seed: {
               id: Number(seed.id),
@@ -507,6 +1133,7 @@ const selectWinnerHandler = async (c: any) => {
             winningSeedId: result.winningSeedId,
             round: winnerRound,
             txHash: result.txHash,
+            txId: result.txId,
             blockExplorer,
             seed: {
               id: Number(seed.id),
@@ -519,29 +1146,24 @@ const selectWinnerHandler = async (c: any) => {
         }, 400);
       }
 
-      // Elevate the seed to an Abraham creation
-      const elevationResult = await abrahamService.elevateSeedToCreation(
-        {
-          id: result.winningSeedId!,
-          ipfsHash: seed.ipfsHash,
-          creator: seed.creator,
-          blessings: Number(seed.blessings),
-        },
-        winnerRound
+      // Elevate the seed to an Abraham creation (mint + auction job)
+      const elevationJob = await elevationJobService.run(
+        (job ?? (await elevationJobService.createJobFromChain(winnerRound))).round
       );
 
-      if (!elevationResult.success) {
-        console.error(`❌ Auto-elevation failed: ${elevationResult.error}`);
+      if (elevationJob.state !== "auction-created") {
+        console.error(`❌ Auto-elevation failed at ${elevationJob.failedAtStep}: ${elevationJob.lastError}`);
 
         // Return partial success - winner was selected but elevation failed
         return c.json({
           success: false,
-          error: `Winner selected but elevation failed: ${elevationResult.error}`,
+          error: `Winner selected but elevation failed: ${elevationJob.lastError}`,
           step: "elevation",
           data: {
             winningSeedId: result.winningSeedId,
             round: winnerRound,
             txHash: result.txHash,
+            txId: result.txId,
             blockExplorer,
             seed: {
               id: Number(seed.id),
@@ -554,8 +1176,9 @@ const selectWinnerHandler = async (c: any) => {
             },
             nft: nftData,
             abraham: null,
+            job: elevationJob,
             timestamp: new Date().toISOString(),
-            nextStep: `Retry elevation with: POST /admin/elevate-seed?seedId=${result.winningSeedId}`,
+            nextStep: `Resume the job with: POST /admin/jobs/${winnerRound}/resume`,
           },
         }, 500);
       }
@@ -571,6 +1194,7 @@ const selectWinnerHandler = async (c: any) => {
           winningSeedId: result.winningSeedId,
           round: winnerRound,
           txHash: result.txHash,
+          txId: result.txId,
           blockExplorer,
           seed: {
             id: Number(seed.id),
@@ -583,13 +1207,14 @@ const selectWinnerHandler = async (c: any) => {
           },
           nft: nftData,
           abraham: {
-            tokenId: elevationResult.tokenId,
-            auctionId: elevationResult.auctionId,
-            mintTxHash: elevationResult.mintTxHash,
-            auctionTxHash: elevationResult.auctionTxHash,
-            mintExplorer: `https://sepolia.etherscan.io/tx/${elevationResult.mintTxHash}`,
-            auctionExplorer: `https://sepolia.etherscan.io/tx/${elevationResult.auctionTxHash}`,
+            tokenId: elevationJob.tokenId,
+            auctionId: elevationJob.auctionId,
+            mintTxHash: elevationJob.mintTxHash,
+            auctionTxHash: elevationJob.auctionTxHash,
+            mintExplorer: `https://sepolia.etherscan.io/tx/${elevationJob.mintTxHash}`,
+            auctionExplorer: `https://sepolia.etherscan.io/tx/${elevationJob.auctionTxHash}`,
           },
+          job: elevationJob,
           timestamp: new Date().toISOString(),
           message: "Winner selected and auto-elevated to Abraham creation. Daily auction started.",
         },
@@ -607,6 +1232,7 @@ const selectWinnerHandler = async (c: any) => {
         winningSeedId: result.winningSeedId,
         round: winnerRound,
         txHash: result.txHash,
+        txId: result.txId,
         blockExplorer,
         seed: seed
           ? {
@@ -661,148 +1287,166 @@ const selectWinnerHandler = async (c: any) => {
  * - Current leader and blessing scores
  * - Eligibility for winner selection
  */
-admin.get("/winner-diagnostics", requireAdminKey, async (c) => {
-  try {
-    console.log(`\n${"=".repeat(60)}`);
-    console.log(`🔍 Winner Selection Diagnostics`);
-    console.log(`   Time: ${new Date().toISOString()}`);
-    console.log(`${"=".repeat(60)}\n`);
-
-    // Get round mode to determine which checks to run
-    const roundMode = await contractService.getRoundMode();
-    const isNonRoundBased = roundMode === 1;
-    console.log(`Round Mode: ${isNonRoundBased ? 'NON_ROUND_BASED' : 'ROUND_BASED'}`);
-
-    // Get current round
-    const currentRound = await contractService.getCurrentRound();
-    console.log(`Current Round: ${currentRound}`);
-
-    // Get eligible seeds count
-    let seedsCount: number;
-    let roundSeeds: any[] = [];
-    let eligibleSeeds: any[] = [];
-
-    if (isNonRoundBased) {
-      // NON_ROUND_BASED: Get total eligible seeds count
-      const eligibleCount = await contractService.getEligibleSeedsCount();
-      seedsCount = Number(eligibleCount);
-      console.log(`Eligible Seeds: ${seedsCount}`);
-    } else {
-      // ROUND_BASED: Get seeds in current round
-      roundSeeds = await contractService.getCurrentRoundSeeds();
-      seedsCount = roundSeeds.length;
-      eligibleSeeds = roundSeeds.filter(seed => !seed.isWinner);
-      console.log(`Seeds in Round: ${seedsCount}`);
-      console.log(`Eligible Seeds (not winners): ${eligibleSeeds.length}`);
-    }
-
-    // Get time remaining
-    const timeRemaining = await contractService.getTimeUntilPeriodEnd();
-    console.log(`Time Until Period End: ${timeRemaining}s`);
-
-    // Get current leader
-    const leader = await contractService.getCurrentLeader();
-    console.log(`Leading Seed ID: ${leader.leadingSeedId}`);
-    console.log(`Leading Blessing Score: ${leader.score}`);
-
-    // Get leader details
-    let leaderSeed = null;
-    if (leader.leadingSeedId > 0n) {
-      leaderSeed = await contractService.getSeed(Number(leader.leadingSeedId));
-      console.log(`Leader Raw Blessings: ${leaderSeed.blessings}`);
-      console.log(`Leader Is Winner: ${leaderSeed.isWinner}`);
-    }
+admin.get(
+  "/winner-diagnostics",
+  requireAdminKey,
+  api.get("/winner-diagnostics", {
+    summary: "Diagnose why winner selection would fail",
+    auth: "admin",
+  }),
+  async (c) => {
+    try {
+      console.log(`\n${"=".repeat(60)}`);
+      console.log(`🔍 Winner Selection Diagnostics`);
+      console.log(`   Time: ${new Date().toISOString()}`);
+      console.log(`${"=".repeat(60)}\n`);
 
-    // Get blessing scores for seeds in round (ROUND_BASED only)
-    const seedScores = isNonRoundBased
-      ? []
-      : await Promise.all(
-          roundSeeds.map(async (seed) => ({
-            id: Number(seed.id),
-            blessings: Number(seed.blessings),
-            isWinner: seed.isWinner,
-            score: Number(await contractService.getSeedBlessingScore(Number(seed.id))),
-          }))
-        );
+      // Get round mode to determine which checks to run
+      const roundMode = await contractService.getRoundMode();
+      const isNonRoundBased = roundMode === 1;
+      console.log(`Round Mode: ${isNonRoundBased ? 'NON_ROUND_BASED' : 'ROUND_BASED'}`);
+
+      // Get current round
+      const currentRound = await contractService.getCurrentRound();
+      console.log(`Current Round: ${currentRound}`);
+
+      // Get eligible seeds count
+      let seedsCount: number;
+      let roundSeeds: any[] = [];
+      let eligibleSeeds: any[] = [];
+
+      if (isNonRoundBased) {
+        // NON_ROUND_BASED: Get total eligible seeds count
+        const eligibleCount = await contractService.getEligibleSeedsCount();
+        seedsCount = Number(eligibleCount);
+        console.log(`Eligible Seeds: ${seedsCount}`);
+      } else {
+        // ROUND_BASED: Get seeds in current round
+        roundSeeds = await contractService.getCurrentRoundSeeds();
+        seedsCount = roundSeeds.length;
+        eligibleSeeds = roundSeeds.filter(seed => !seed.isWinner);
+        console.log(`Seeds in Round: ${seedsCount}`);
+        console.log(`Eligible Seeds (not winners): ${eligibleSeeds.length}`);
+      }
 
-    // Get blessing count for leading seed
-    // Note: Individual blessing records are no longer available in the contract
-    let blessingDetails = null;
-    if (leader.leadingSeedId > 0n) {
-      const leadingSeed = await contractService.getSeed(Number(leader.leadingSeedId));
+      // Get time remaining
+      const timeRemaining = await contractService.getTimeUntilPeriodEnd();
+      console.log(`Time Until Period End: ${timeRemaining}s`);
+
+      // Get current leader
+      const leader = await contractService.getCurrentLeader();
+      console.log(`Leading Seed ID: ${leader.leadingSeedId}`);
+      console.log(`Leading Blessing Score: ${leader.score}`);
+
+      // Get leader details
+      let leaderSeed = null;
+      if (leader.leadingSeedId > 0n) {
+        leaderSeed = await contractService.getSeed(Number(leader.leadingSeedId));
+        console.log(`Leader Raw Blessings: ${leaderSeed.blessings}`);
+        console.log(`Leader Is Winner: ${leaderSeed.isWinner}`);
+      }
 
-      blessingDetails = {
-        totalBlessings: Number(leadingSeed.blessings),
-        note: "Individual blessing records are no longer available. The contract now only tracks total counts.",
-      };
+      // Get blessing scores for seeds in round (ROUND_BASED only)
+      const seedScores = isNonRoundBased
+        ? []
+        : await Promise.all(
+            roundSeeds.map(async (seed) => ({
+              id: Number(seed.id),
+              blessings: Number(seed.blessings),
+              isWinner: seed.isWinner,
+              score: Number(await contractService.getSeedBlessingScore(Number(seed.id))),
+            }))
+          );
+
+      // Get blessing count for leading seed
+      // Note: Individual blessing records are no longer available in the contract
+      let blessingDetails = null;
+      if (leader.leadingSeedId > 0n) {
+        const leadingSeed = await contractService.getSeed(Number(leader.leadingSeedId));
+
+        blessingDetails = {
+          totalBlessings: Number(leadingSeed.blessings),
+          note: "Individual blessing records are no longer available. The contract now only tracks total counts.",
+        };
+
+        console.log(`\nBlessing Count for Seed ${leader.leadingSeedId}:`);
+        console.log(`  Total Blessings: ${blessingDetails.totalBlessings}`);
+      }
 
-      console.log(`\nBlessing Count for Seed ${leader.leadingSeedId}:`);
-      console.log(`  Total Blessings: ${blessingDetails.totalBlessings}`);
-    }
+      // Determine readiness (mode-aware)
+      const eligibleCount = isNonRoundBased ? seedsCount : eligibleSeeds.length;
+      const isReady =
+        seedsCount > 0 &&
+        timeRemaining === 0n &&
+        eligibleCount > 0 &&
+        leader.score > 0n;
+
+      const issues = [];
+      if (seedsCount === 0) {
+        issues.push(isNonRoundBased ? "No eligible seeds available" : "No seeds in current round");
+      }
+      if (timeRemaining > 0n) {
+        issues.push(`Voting period not ended (${timeRemaining}s remaining)`);
+      }
+      if (eligibleCount === 0 && seedsCount > 0) {
+        issues.push("All seeds have already won");
+      }
+      if (leader.score === 0n) {
+        issues.push("Leading seed has blessing score of 0");
+      }
 
-    // Determine readiness (mode-aware)
-    const eligibleCount = isNonRoundBased ? seedsCount : eligibleSeeds.length;
-    const isReady =
-      seedsCount > 0 &&
-      timeRemaining === 0n &&
-      eligibleCount > 0 &&
-      leader.score > 0n;
-
-    const issues = [];
-    if (seedsCount === 0) {
-      issues.push(isNonRoundBased ? "No eligible seeds available" : "No seeds in current round");
-    }
-    if (timeRemaining > 0n) {
-      issues.push(`Voting period not ended (${timeRemaining}s remaining)`);
-    }
-    if (eligibleCount === 0 && seedsCount > 0) {
-      issues.push("All seeds have already won");
-    }
-    if (leader.score === 0n) {
-      issues.push("Leading seed has blessing score of 0");
-    }
+      console.log(`\nReady for winner selection: ${isReady ? '✅ YES' : '❌ NO'}`);
+      if (!isReady) {
+        console.log(`Issues: ${issues.join(', ')}`);
+      }
 
-    console.log(`\nReady for winner selection: ${isReady ? '✅ YES' : '❌ NO'}`);
-    if (!isReady) {
-      console.log(`Issues: ${issues.join(', ')}`);
-    }
-
-    return c.json({
-      success: true,
-      ready: isReady,
-      issues: issues.length > 0 ? issues : undefined,
-      diagnostics: {
-        roundMode: isNonRoundBased ? 'NON_ROUND_BASED' : 'ROUND_BASED',
-        currentRound: Number(currentRound),
-        seedsInRound: seedsCount,
-        timeRemaining: Number(timeRemaining),
-        votingPeriodEnded: timeRemaining === 0n,
-        currentLeader: {
-          seedId: Number(leader.leadingSeedId),
-          score: leader.score.toString(),
-          blessings: leaderSeed ? leaderSeed.blessings.toString() : "0",
-          isWinner: leaderSeed?.isWinner || false,
-          blessingDistribution: blessingDetails,
+      return c.json({
+        success: true,
+        ready: isReady,
+        issues: issues.length > 0 ? issues : undefined,
+        diagnostics: {
+          roundMode: isNonRoundBased ? 'NON_ROUND_BASED' : 'ROUND_BASED',
+          currentRound: Number(currentRound),
+          seedsInRound: seedsCount,
+          timeRemaining: Number(timeRemaining),
+          votingPeriodEnded: timeRemaining === 0n,
+          currentLeader: {
+            seedId: Number(leader.leadingSeedId),
+            score: leader.score.toString(),
+            blessings: leaderSeed ? leaderSeed.blessings.toString() : "0",
+            isWinner: leaderSeed?.isWinner || false,
+            blessingDistribution: blessingDetails,
+          },
+          eligibleSeeds: eligibleCount,
+          allSeedScores: seedScores,
         },
-        eligibleSeeds: eligibleCount,
-        allSeedScores: seedScores,
-      },
-    });
-  } catch (error: any) {
-    console.error("Error running diagnostics:", error);
-    return c.json(
-      {
-        success: false,
-        error: error.message || "Failed to run diagnostics",
-      },
-      500
-    );
+      });
+    } catch (error: any) {
+      console.error("Error running diagnostics:", error);
+      return c.json(
+        {
+          success: false,
+          error: error.message || "Failed to run diagnostics",
+        },
+        500
+      );
+    }
   }
-});
+);
 
 // Register both POST and GET handlers for the select-winner endpoint
-admin.post("/select-winner", requireAdminKey, selectWinnerHandler);
-admin.get("/select-winner", requireAdminKey, selectWinnerHandler);
+admin.post(
+  "/select-winner",
+  requireAdminKey,
+  api.post("/select-winner", selectWinnerSpec),
+  selectWinnerHandler
+);
+admin.get(
+  "/select-winner",
+  requireAdminKey,
+  api.get("/select-winner", selectWinnerSpec),
+  selectWinnerHandler
+);
 
 /**
  * POST /admin/elevate-seed
@@ -835,157 +1479,153 @@ admin.get("/select-winner", requireAdminKey, selectWinnerHandler);
  *   }
  * }
  */
-admin.post("/elevate-seed", requireAdminKey, async (c) => {
-  try {
-    const seedIdParam = c.req.query("seedId");
+admin.post(
+  "/elevate-seed",
+  requireAdminKey,
+  api.post("/elevate-seed", {
+    summary: "Mint a seed as an Abraham creation and start its auction",
+    auth: "admin",
+    query: z.object({ seedId: SeedIdSchema }),
+    responses: { 503: "Abraham service not configured" },
+  }),
+  async (c) => {
+    try {
+      const { seedId } = c.req.valid("query");
 
-    if (!seedIdParam) {
-      return c.json(
-        {
-          success: false,
-          error: "Missing seedId query parameter",
-        },
-        400
-      );
-    }
+      console.log(`\n${"=".repeat(60)}`);
+      console.log(`🌟 Elevating seed ${seedId} to Abraham creation`);
+      console.log(`   Time: ${new Date().toISOString()}`);
+      console.log(`${"=".repeat(60)}\n`);
 
-    const seedId = parseInt(seedIdParam);
-    if (isNaN(seedId)) {
-      return c.json(
-        {
-          success: false,
-          error: "Invalid seedId - must be a number",
-        },
-        400
-      );
-    }
+      // Check if Abraham service is configured
+      if (!abrahamService.isConfigured()) {
+        return c.json(
+          {
+            success: false,
+            error: "Abraham service not configured - deploy contracts and set environment variables first",
+          },
+          503
+        );
+      }
 
-    console.log(`\n${"=".repeat(60)}`);
-    console.log(`🌟 Elevating seed ${seedId} to Abraham creation`);
-    console.log(`   Time: ${new Date().toISOString()}`);
-    console.log(`${"=".repeat(60)}\n`);
+      // Fetch seed details
+      console.log("📍 Fetching seed details from TheSeeds...");
+      let seed;
+      try {
+        seed = await contractService.getSeed(seedId);
+      } catch (error) {
+        console.error("❌ Failed to fetch seed:", error);
+        return c.json(
+          {
+            success: false,
+            error: `Seed ${seedId} not found`,
+          },
+          404
+        );
+      }
 
-    // Check if Abraham service is configured
-    if (!abrahamService.isConfigured()) {
-      return c.json(
-        {
-          success: false,
-          error: "Abraham service not configured - deploy contracts and set environment variables first",
-        },
-        503
-      );
-    }
+      // Verify seed is a winner
+      if (!seed.isWinner) {
+        return c.json(
+          {
+            success: false,
+            error: `Seed ${seedId} is not a winner - only winning seeds can be elevated`,
+          },
+          400
+        );
+      }
 
-    // Fetch seed details
-    console.log("📍 Fetching seed details from TheSeeds...");
-    let seed;
-    try {
-      seed = await contractService.getSeed(seedId);
-    } catch (error) {
-      console.error("❌ Failed to fetch seed:", error);
-      return c.json(
-        {
-          success: false,
-          error: `Seed ${seedId} not found`,
-        },
-        404
-      );
-    }
+      // Verify seed has IPFS hash
+      if (!seed.ipfsHash || seed.ipfsHash.trim() === "") {
+        return c.json(
+          {
+            success: false,
+            error: `Seed ${seedId} has no IPFS hash - cannot elevate to Abraham creation`,
+          },
+          400
+        );
+      }
 
-    // Verify seed is a winner
-    if (!seed.isWinner) {
-      return c.json(
-        {
-          success: false,
-          error: `Seed ${seedId} is not a winner - only winning seeds can be elevated`,
+      console.log(`✅ Seed details retrieved`);
+      console.log(`   IPFS Hash: ${seed.ipfsHash}`);
+      console.log(`   Creator: ${seed.creator}`);
+      console.log(`   Blessings: ${seed.blessings}`);
+      console.log(`   Winner in Round: ${seed.winnerInRound}`);
+      console.log("");
+
+      // Elevate the seed (idempotent per round - a completed job is returned as-is)
+      const round = Number(seed.winnerInRound);
+      await elevationJobService.createJob({
+        round,
+        seedId,
+        seed: {
+          ipfsHash: seed.ipfsHash,
+          creator: seed.creator,
+          blessings: Number(seed.blessings),
         },
-        400
-      );
-    }
+      });
+      const job = await elevationJobService.run(round);
 
-    // Verify seed has IPFS hash
-    if (!seed.ipfsHash || seed.ipfsHash.trim() === "") {
-      return c.json(
-        {
-          success: false,
-          error: `Seed ${seedId} has no IPFS hash - cannot elevate to Abraham creation`,
-        },
-        400
-      );
-    }
+      if (job.state !== "auction-created") {
+        console.error(`❌ Elevation failed at ${job.failedAtStep}: ${job.lastError}`);
+        return c.json(
+          {
+            success: false,
+            error: job.lastError,
+            data: {
+              job,
+              nextStep: `Resume the job with: POST /admin/jobs/${round}/resume`,
+            },
+          },
+          500
+        );
+      }
 
-    console.log(`✅ Seed details retrieved`);
-    console.log(`   IPFS Hash: ${seed.ipfsHash}`);
-    console.log(`   Creator: ${seed.creator}`);
-    console.log(`   Blessings: ${seed.blessings}`);
-    console.log(`   Winner in Round: ${seed.winnerInRound}`);
-    console.log("");
+      console.log(`${"=".repeat(60)}`);
+      console.log(`✅ ELEVATION COMPLETE`);
+      console.log(`${"=".repeat(60)}\n`);
 
-    // Elevate the seed
-    const elevationResult = await abrahamService.elevateSeedToCreation(
-      {
-        id: seedId,
-        ipfsHash: seed.ipfsHash,
-        creator: seed.creator,
-        blessings: Number(seed.blessings),
-      },
-      Number(seed.winnerInRound)
-    );
+      return c.json({
+        success: true,
+        data: {
+          seedId,
+          seed: {
+            id: Number(seed.id),
+            creator: seed.creator,
+            ipfsHash: seed.ipfsHash,
+            blessings: Number(seed.blessings),
+            createdAt: Number(seed.createdAt),
+            isWinner: seed.isWinner,
+            winnerInRound: Number(seed.winnerInRound),
+          },
+          abraham: {
+            tokenId: job.tokenId,
+            auctionId: job.auctionId,
+            mintTxHash: job.mintTxHash,
+            auctionTxHash: job.auctionTxHash,
+            mintExplorer: `https://sepolia.etherscan.io/tx/${job.mintTxHash}`,
+            auctionExplorer: `https://sepolia.etherscan.io/tx/${job.auctionTxHash}`,
+          },
+          job,
+          timestamp: new Date().toISOString(),
+          message: "Seed elevated to Abraham creation successfully. Daily auction started.",
+        },
+      });
+    } catch (error) {
+      console.error("❌ Error elevating seed:", error);
 
-    if (!elevationResult.success) {
-      console.error(`❌ Elevation failed: ${elevationResult.error}`);
+      const errorMessage = error instanceof Error ? error.message : String(error);
       return c.json(
         {
           success: false,
-          error: elevationResult.error,
+          error: "Failed to elevate seed",
+          details: errorMessage,
         },
         500
       );
     }
-
-    console.log(`${"=".repeat(60)}`);
-    console.log(`✅ ELEVATION COMPLETE`);
-    console.log(`${"=".repeat(60)}\n`);
-
-    return c.json({
-      success: true,
-      data: {
-        seedId,
-        seed: {
-          id: Number(seed.id),
-          creator: seed.creator,
-          ipfsHash: seed.ipfsHash,
-          blessings: Number(seed.blessings),
-          createdAt: Number(seed.createdAt),
-          isWinner: seed.isWinner,
-          winnerInRound: Number(seed.winnerInRound),
-        },
-        abraham: {
-          tokenId: elevationResult.tokenId,
-          auctionId: elevationResult.auctionId,
-          mintTxHash: elevationResult.mintTxHash,
-          auctionTxHash: elevationResult.auctionTxHash,
-          mintExplorer: `https://sepolia.etherscan.io/tx/${elevationResult.mintTxHash}`,
-          auctionExplorer: `https://sepolia.etherscan.io/tx/${elevationResult.auctionTxHash}`,
-        },
-        timestamp: new Date().toISOString(),
-        message: "Seed elevated to Abraham creation successfully. Daily auction started.",
-      },
-    });
-  } catch (error) {
-    console.error("❌ Error elevating seed:", error);
-
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to elevate seed",
-        details: errorMessage,
-      },
-      500
-    );
   }
-});
+);
 
 /**
  * POST /admin/create-auction
@@ -1013,100 +1653,112 @@ admin.post("/elevate-seed", requireAdminKey, async (c) => {
  *   }
  * }
  */
-admin.post("/create-auction", requireAdminKey, async (c) => {
-  try {
-    const tokenIdParam = c.req.query("tokenId");
-    const durationParam = c.req.query("durationInDays") || "1";
-    const minBidParam = c.req.query("minBidInEth") || "0.01";
+admin.post(
+  "/create-auction",
+  requireAdminKey,
+  api.post("/create-auction", {
+    summary: "Create an auction for an already minted Abraham token",
+    auth: "admin",
+    query: z.object({
+      tokenId: TokenIdSchema,
+      durationInDays: z.coerce.number().positive().default(1),
+      minBidInEth: z
+        .string()
+        .regex(/^\d+(\.\d+)?$/, "Invalid ETH amount")
+        .default("0.01"),
+    }),
+    responses: { 503: "Abraham service not configured" },
+  }),
+  async (c) => {
+    try {
+      const { tokenId, durationInDays, minBidInEth } = c.req.valid("query");
 
-    if (!tokenIdParam) {
-      return c.json(
-        {
-          success: false,
-          error: "Missing tokenId query parameter",
-        },
-        400
-      );
-    }
+      console.log(`\n${"=".repeat(60)}`);
+      console.log(`🎯 Creating auction for Token ID ${tokenId}`);
+      console.log(`   Duration: ${durationInDays} day(s)`);
+      console.log(`   Min Bid: ${minBidInEth} ETH`);
+      console.log(`${"=".repeat(60)}\n`);
 
-    const tokenId = parseInt(tokenIdParam);
-    const durationInDays = parseFloat(durationParam);
-    const minBidInEth = minBidParam;
+      // Check if Abraham service is configured
+      if (!abrahamService.isConfigured()) {
+        return c.json(
+          {
+            success: false,
+            error: "Abraham service not configured",
+          },
+          503
+        );
+      }
 
-    if (isNaN(tokenId)) {
-      return c.json(
-        {
-          success: false,
-          error: "Invalid tokenId - must be a number",
-        },
-        400
+      // Create the auction
+      const result = await abrahamService.createDailyAuction(
+        tokenId,
+        durationInDays,
+        minBidInEth
       );
-    }
 
-    console.log(`\n${"=".repeat(60)}`);
-    console.log(`🎯 Creating auction for Token ID ${tokenId}`);
-    console.log(`   Duration: ${durationInDays} day(s)`);
-    console.log(`   Min Bid: ${minBidInEth} ETH`);
-    console.log(`${"=".repeat(60)}\n`);
+      if (!result.success) {
+        console.error(`❌ Auction creation failed: ${result.error}`);
+        return c.json(
+          {
+            success: false,
+            error: result.error,
+          },
+          500
+        );
+      }
 
-    // Check if Abraham service is configured
-    if (!abrahamService.isConfigured()) {
-      return c.json(
-        {
-          success: false,
-          error: "Abraham service not configured",
-        },
-        503
-      );
-    }
+      console.log(`✅ Auction created successfully`);
+      console.log(`   Auction ID: ${result.auctionId}`);
+      console.log(`   Tx Hash: ${result.txHash}\n`);
 
-    // Create the auction
-    const result = await abrahamService.createDailyAuction(
-      tokenId,
-      durationInDays,
-      minBidInEth
-    );
+      // Complete the elevation job that minted this token, if any
+      if (result.auctionId !== undefined) {
+        const job = await elevationJobService.recordAuction(
+          tokenId,
+          result.auctionId,
+          result.txHash
+        );
+        if (job) {
+          console.log(`   Elevation job for round ${job.round} marked auction-created`);
+        }
+      }
 
-    if (!result.success) {
-      console.error(`❌ Auction creation failed: ${result.error}`);
+      await webhookService.emit("auction.created", {
+        tokenId,
+        auctionId: result.auctionId,
+        durationInDays,
+        minBidInEth,
+        txHash: result.txHash,
+        explorer: `https://sepolia.etherscan.io/tx/${result.txHash}`,
+      });
+
+      return c.json({
+        success: true,
+        data: {
+          tokenId,
+          auctionId: result.auctionId,
+          txHash: result.txHash,
+          explorer: `https://sepolia.etherscan.io/tx/${result.txHash}`,
+          auctionExplorer: `https://sepolia.etherscan.io/address/${process.env.ABRAHAM_AUCTION_ADDRESS}#readContract`,
+          message: "Auction created successfully",
+        },
+      });
+    } catch (error) {
+      console.error("❌ Error creating auction:", error);
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
       return c.json(
         {
           success: false,
-          error: result.error,
+          error: "Failed to create auction",
+          details: errorMessage,
         },
         500
       );
     }
-
-    console.log(`✅ Auction created successfully`);
-    console.log(`   Auction ID: ${result.auctionId}`);
-    console.log(`   Tx Hash: ${result.txHash}\n`);
-
-    return c.json({
-      success: true,
-      data: {
-        tokenId,
-        auctionId: result.auctionId,
-        txHash: result.txHash,
-        explorer: `https://sepolia.etherscan.io/tx/${result.txHash}`,
-        auctionExplorer: `https://sepolia.etherscan.io/address/${process.env.ABRAHAM_AUCTION_ADDRESS}#readContract`,
-        message: "Auction created successfully",
-      },
-    });
-  } catch (error) {
-    console.error("❌ Error creating auction:", error);
-
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to create auction",
-        details: errorMessage,
-      },
-      500
-    );
   }
-});
+);
 
 /**
  * POST /admin/config/voting-period
@@ -1119,575 +1771,1231 @@ admin.post("/create-auction", requireAdminKey, async (c) => {
  *
  * Authentication: X-Admin-Key header required
  */
-admin.post("/config/voting-period", requireAdminKey, async (c) => {
-  try {
-    const body = await c.req.json();
-    const { periodInSeconds } = body;
+admin.post(
+  "/config/voting-period",
+  requireAdminKey,
+  api.post("/config/voting-period", {
+    summary: "Update the voting period (takes effect after the next winner)",
+    auth: "admin",
+    body: z.object({
+      periodInSeconds: z
+        .number()
+        .int()
+        .min(3600, "Period must be at least 1 hour (3600s)")
+        .max(604800, "Period must be at most 7 days (604800s)"),
+    }),
+  }),
+  async (c) => {
+    try {
+      const { periodInSeconds } = c.req.valid("json");
 
-    if (!periodInSeconds || typeof periodInSeconds !== "number") {
-      return c.json(
-        {
-          success: false,
-          error: "periodInSeconds is required and must be a number",
-        },
-        400
-      );
-    }
+      const result = await contractService.updateVotingPeriod(periodInSeconds);
 
-    if (periodInSeconds < 3600 || periodInSeconds > 604800) {
-      return c.json(
-        {
+      if (!result.success) {
+        return c.json(
+          {
+            success: false,
+            error: result.error,
+          },
+          500
+        );
+      }
+
+      const network = process.env.NETWORK || "baseSepolia";
+      const blockExplorer =
+        network === "base"
+          ? `https://basescan.org/tx/${result.txHash}`
+          : `https://sepolia.basescan.org/tx/${result.txHash}`;
+
+      return c.json({
+        success: true,
+        data: {
+          periodInSeconds,
+          periodInDays: periodInSeconds / 86400,
+          txHash: result.txHash,
+          blockExplorer,
+          message: "Voting period update queued. Will take effect after next winner selection.",
+        },
+      });
+    } catch (error) {
+      console.error("Error updating voting period:", error);
+      return c.json(
+        {
           success: false,
-          error: "Period must be between 1 hour (3600s) and 7 days (604800s)",
+          error: "Failed to update voting period",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
+  }
+);
 
-    const result = await contractService.updateVotingPeriod(periodInSeconds);
+/**
+ * POST /admin/config/blessings-per-nft
+ * Update the blessings per NFT (deferred until next winner selection)
+ *
+ * Request body:
+ * {
+ *   "amount": number  // Between 1 and 100
+ * }
+ *
+ * Authentication: X-Admin-Key header required
+ */
+admin.post(
+  "/config/blessings-per-nft",
+  requireAdminKey,
+  api.post("/config/blessings-per-nft", {
+    summary: "Update blessings per NFT (takes effect after the next winner)",
+    auth: "admin",
+    body: z.object({ amount: z.number().int().min(1).max(100) }),
+  }),
+  async (c) => {
+    try {
+      const { amount } = c.req.valid("json");
 
-    if (!result.success) {
+      const result = await contractService.updateBlessingsPerNFT(amount);
+
+      if (!result.success) {
+        return c.json(
+          {
+            success: false,
+            error: result.error,
+          },
+          500
+        );
+      }
+
+      const network = process.env.NETWORK || "baseSepolia";
+      const blockExplorer =
+        network === "base"
+          ? `https://basescan.org/tx/${result.txHash}`
+          : `https://sepolia.basescan.org/tx/${result.txHash}`;
+
+      return c.json({
+        success: true,
+        data: {
+          blessingsPerNFT: amount,
+          txHash: result.txHash,
+          blockExplorer,
+          message: "Blessings per NFT update queued. Will take effect after next winner selection.",
+        },
+      });
+    } catch (error) {
+      console.error("Error updating blessings per NFT:", error);
       return c.json(
         {
           success: false,
-          error: result.error,
+          error: "Failed to update blessings per NFT",
+          details: error instanceof Error ? error.message : String(error),
         },
         500
       );
     }
-
-    const network = process.env.NETWORK || "baseSepolia";
-    const blockExplorer =
-      network === "base"
-        ? `https://basescan.org/tx/${result.txHash}`
-        : `https://sepolia.basescan.org/tx/${result.txHash}`;
-
-    return c.json({
-      success: true,
-      data: {
-        periodInSeconds,
-        periodInDays: periodInSeconds / 86400,
-        txHash: result.txHash,
-        blockExplorer,
-        message: "Voting period update queued. Will take effect after next winner selection.",
-      },
-    });
-  } catch (error) {
-    console.error("Error updating voting period:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to update voting period",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
+);
 
 /**
- * POST /admin/config/blessings-per-nft
- * Update the blessings per NFT (deferred until next winner selection)
+ * POST /admin/config/score-reset
+ * Update the score reset policy
  *
  * Request body:
  * {
- *   "amount": number  // Between 1 and 100
+ *   "enabled": boolean  // true to reset scores each round, false to keep cumulative
  * }
  *
  * Authentication: X-Admin-Key header required
  */
-admin.post("/config/blessings-per-nft", requireAdminKey, async (c) => {
-  try {
-    const body = await c.req.json();
-    const { amount } = body;
+admin.post(
+  "/config/score-reset",
+  requireAdminKey,
+  api.post("/config/score-reset", {
+    summary: "Enable or disable resetting scores at the end of each round",
+    auth: "admin",
+    body: z.object({ enabled: z.boolean() }),
+  }),
+  async (c) => {
+    try {
+      const { enabled } = c.req.valid("json");
+
+      const result = await contractService.updateScoreResetPolicy(enabled);
 
-    if (!amount || typeof amount !== "number") {
+      if (!result.success) {
+        return c.json(
+          {
+            success: false,
+            error: result.error,
+          },
+          500
+        );
+      }
+
+      const network = process.env.NETWORK || "baseSepolia";
+      const blockExplorer =
+        network === "base"
+          ? `https://basescan.org/tx/${result.txHash}`
+          : `https://sepolia.basescan.org/tx/${result.txHash}`;
+
+      return c.json({
+        success: true,
+        data: {
+          resetScoresOnRoundEnd: enabled,
+          txHash: result.txHash,
+          blockExplorer,
+          message: enabled
+            ? "Score reset enabled. Scores will reset each round."
+            : "Score reset disabled. Scores will be cumulative across rounds.",
+        },
+      });
+    } catch (error) {
+      console.error("Error updating score reset policy:", error);
       return c.json(
         {
           success: false,
-          error: "amount is required and must be a number",
+          error: "Failed to update score reset policy",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
+  }
+);
+
+/**
+ * POST /admin/config/round-mode
+ * Update the round mode
+ *
+ * Request body:
+ * {
+ *   "mode": "ROUND_BASED" | "NON_ROUND_BASED"  // or 0 | 1
+ * }
+ *
+ * Authentication: X-Admin-Key header required
+ */
+admin.post(
+  "/config/round-mode",
+  requireAdminKey,
+  api.post("/config/round-mode", {
+    summary: "Switch between round-based and non-round-based voting",
+    auth: "admin",
+    body: z.object({
+      mode: contractEnumSchema(["ROUND_BASED", "NON_ROUND_BASED"] as const),
+    }),
+  }),
+  async (c) => {
+    try {
+      const { mode } = c.req.valid("json");
+
+      const result = await contractService.updateRoundMode(mode);
+
+      if (!result.success) {
+        return c.json(
+          {
+            success: false,
+            error: result.error,
+          },
+          500
+        );
+      }
+
+      const network = process.env.NETWORK || "baseSepolia";
+      const blockExplorer =
+        network === "base"
+          ? `https://basescan.org/tx/${result.txHash}`
+          : `https://sepolia.basescan.org/tx/${result.txHash}`;
 
-    if (amount < 1 || amount > 100) {
+      const modeNames = ["ROUND_BASED", "NON_ROUND_BASED"];
+
+      return c.json({
+        success: true,
+        data: {
+          roundMode: modeNames[mode],
+          txHash: result.txHash,
+          blockExplorer,
+          message: `Round mode updated to ${modeNames[mode]}`,
+        },
+      });
+    } catch (error) {
+      console.error("Error updating round mode:", error);
       return c.json(
         {
           success: false,
-          error: "Amount must be between 1 and 100",
+          error: "Failed to update round mode",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
+  }
+);
+
+/**
+ * POST /admin/config/tie-breaking
+ * Update the tie-breaking strategy
+ *
+ * Request body:
+ * {
+ *   "strategy": "LOWEST_SEED_ID" | "EARLIEST_SUBMISSION" | "PSEUDO_RANDOM"  // or 0 | 1 | 2
+ * }
+ *
+ * Authentication: X-Admin-Key header required
+ */
+admin.post(
+  "/config/tie-breaking",
+  requireAdminKey,
+  api.post("/config/tie-breaking", {
+    summary: "Update the tie-breaking strategy",
+    auth: "admin",
+    body: z.object({
+      strategy: contractEnumSchema([
+        "LOWEST_SEED_ID",
+        "EARLIEST_SUBMISSION",
+        "PSEUDO_RANDOM",
+      ] as const),
+    }),
+  }),
+  async (c) => {
+    try {
+      const { strategy } = c.req.valid("json");
 
-    const result = await contractService.updateBlessingsPerNFT(amount);
+      const result = await contractService.updateTieBreakingStrategy(strategy);
 
-    if (!result.success) {
+      if (!result.success) {
+        return c.json(
+          {
+            success: false,
+            error: result.error,
+          },
+          500
+        );
+      }
+
+      const network = process.env.NETWORK || "baseSepolia";
+      const blockExplorer =
+        network === "base"
+          ? `https://basescan.org/tx/${result.txHash}`
+          : `https://sepolia.basescan.org/tx/${result.txHash}`;
+
+      const strategyNames = ["LOWEST_SEED_ID", "EARLIEST_SUBMISSION", "PSEUDO_RANDOM"];
+
+      return c.json({
+        success: true,
+        data: {
+          tieBreakingStrategy: strategyNames[strategy],
+          txHash: result.txHash,
+          blockExplorer,
+          message: `Tie-breaking strategy updated to ${strategyNames[strategy]}`,
+        },
+      });
+    } catch (error) {
+      console.error("Error updating tie-breaking strategy:", error);
       return c.json(
         {
           success: false,
-          error: result.error,
+          error: "Failed to update tie-breaking strategy",
+          details: error instanceof Error ? error.message : String(error),
         },
         500
       );
     }
+  }
+);
 
-    const network = process.env.NETWORK || "baseSepolia";
-    const blockExplorer =
-      network === "base"
-        ? `https://basescan.org/tx/${result.txHash}`
-        : `https://sepolia.basescan.org/tx/${result.txHash}`;
+/**
+ * POST /admin/config/deadlock
+ * Update the deadlock strategy
+ *
+ * Request body:
+ * {
+ *   "strategy": "REVERT" | "SKIP_ROUND"  // or 0 | 1
+ * }
+ *
+ * Authentication: X-Admin-Key header required
+ */
+admin.post(
+  "/config/deadlock",
+  requireAdminKey,
+  api.post("/config/deadlock", {
+    summary: "Update the deadlock strategy (when no seed can win)",
+    auth: "admin",
+    body: z.object({
+      strategy: contractEnumSchema(["REVERT", "SKIP_ROUND"] as const),
+    }),
+  }),
+  async (c) => {
+    try {
+      const { strategy } = c.req.valid("json");
 
-    return c.json({
-      success: true,
-      data: {
-        blessingsPerNFT: amount,
-        txHash: result.txHash,
-        blockExplorer,
-        message: "Blessings per NFT update queued. Will take effect after next winner selection.",
-      },
-    });
-  } catch (error) {
-    console.error("Error updating blessings per NFT:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to update blessings per NFT",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
+      const result = await contractService.updateDeadlockStrategy(strategy);
+
+      if (!result.success) {
+        return c.json(
+          {
+            success: false,
+            error: result.error,
+          },
+          500
+        );
+      }
+
+      const network = process.env.NETWORK || "baseSepolia";
+      const blockExplorer =
+        network === "base"
+          ? `https://basescan.org/tx/${result.txHash}`
+          : `https://sepolia.basescan.org/tx/${result.txHash}`;
+
+      const strategyNames = ["REVERT", "SKIP_ROUND"];
+
+      return c.json({
+        success: true,
+        data: {
+          deadlockStrategy: strategyNames[strategy],
+          txHash: result.txHash,
+          blockExplorer,
+          message: `Deadlock strategy updated to ${strategyNames[strategy]}`,
+        },
+      });
+    } catch (error) {
+      console.error("Error updating deadlock strategy:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to update deadlock strategy",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
+      );
+    }
   }
-});
+);
 
 /**
- * POST /admin/config/score-reset
- * Update the score reset policy
+ * POST /admin/config/base-uri
+ * Set the base URI for NFT token metadata
  *
  * Request body:
  * {
- *   "enabled": boolean  // true to reset scores each round, false to keep cumulative
+ *   "baseURI": string  // e.g., "https://metadata.example.com/" or ""
  * }
  *
+ * Note: If baseURI is empty, tokenURI will return ipfs://<hash>
+ * If baseURI is set, tokenURI will return <baseURI><hash>
+ *
  * Authentication: X-Admin-Key header required
  */
-admin.post("/config/score-reset", requireAdminKey, async (c) => {
-  try {
-    const body = await c.req.json();
-    const { enabled } = body;
+admin.post(
+  "/config/base-uri",
+  requireAdminKey,
+  api.post("/config/base-uri", {
+    summary: "Set the NFT base URI (empty string resets to ipfs://)",
+    auth: "admin",
+    body: z.object({ baseURI: z.string() }),
+  }),
+  async (c) => {
+    try {
+      const { baseURI } = c.req.valid("json");
 
-    if (typeof enabled !== "boolean") {
+      const result = await contractService.setBaseURI(baseURI);
+
+      if (!result.success) {
+        return c.json(
+          {
+            success: false,
+            error: result.error,
+          },
+          500
+        );
+      }
+
+      const network = process.env.NETWORK || "baseSepolia";
+      const blockExplorer =
+        network === "base"
+          ? `https://basescan.org/tx/${result.txHash}`
+          : `https://sepolia.basescan.org/tx/${result.txHash}`;
+
+      return c.json({
+        success: true,
+        data: {
+          baseURI,
+          txHash: result.txHash,
+          blockExplorer,
+          message: baseURI
+            ? `Base URI set to ${baseURI}. Tokens will use this prefix.`
+            : "Base URI cleared. Tokens will use ipfs:// prefix.",
+        },
+      });
+    } catch (error) {
+      console.error("Error setting base URI:", error);
       return c.json(
         {
           success: false,
-          error: "enabled is required and must be a boolean",
+          error: "Failed to set base URI",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
+  }
+);
+
+/**
+ * GET /admin/jobs
+ * List winner → mint → auction elevation jobs (newest round first)
+ *
+ * Query Parameters:
+ * - state: winner-selected | minted | auction-created | failed (optional)
+ * - incomplete: Set to 'true' to only return jobs that still need work (optional)
+ *
+ * Authentication: X-Admin-Key header or CRON_SECRET Bearer token
+ */
+admin.get(
+  "/jobs",
+  requireAdminKey,
+  api.get("/jobs", {
+    summary: "List elevation jobs",
+    auth: "admin",
+    query: z.object({
+      state: z
+        .enum(["winner-selected", "minted", "auction-created", "failed"])
+        .optional(),
+      incomplete: QueryFlagSchema.describe("Only jobs that still need work"),
+    }),
+  }),
+  async (c) => {
+    try {
+      const { state, incomplete } = c.req.valid("query");
 
-    const result = await contractService.updateScoreResetPolicy(enabled);
+      const jobs = incomplete
+          ? await elevationJobService.getIncompleteJobs()
+          : await elevationJobService.listJobs(state);
 
-    if (!result.success) {
+      return c.json({
+        success: true,
+        data: {
+          jobs,
+          total: jobs.length,
+        },
+      });
+    } catch (error) {
+      console.error("Error listing elevation jobs:", error);
       return c.json(
         {
           success: false,
-          error: result.error,
+          error: "Failed to list elevation jobs",
+          details: error instanceof Error ? error.message : String(error),
         },
         500
       );
     }
+  }
+);
 
-    const network = process.env.NETWORK || "baseSepolia";
-    const blockExplorer =
-      network === "base"
-        ? `https://basescan.org/tx/${result.txHash}`
-        : `https://sepolia.basescan.org/tx/${result.txHash}`;
+/**
+ * POST/GET /admin/jobs/resume
+ * Resume every elevation job that did not complete, including jobs whose
+ * request ended before the first step ran (runs from cron so a timed-out
+ * request never leaves a round half-elevated)
+ *
+ * Authentication: X-Admin-Key header or CRON_SECRET Bearer token
+ */
+const resumeIncompleteJobsHandler = async (c: any) => {
+  try {
+    if (!abrahamService.isConfigured()) {
+      return c.json(
+        {
+          success: false,
+          error: "Abraham service not configured",
+        },
+        503
+      );
+    }
+
+    const incomplete = await elevationJobService.getIncompleteJobs();
+    const results: ElevationJob[] = [];
+
+    // Sequential - each step sends transactions from the same Abraham wallet
+    for (const job of incomplete) {
+      console.log(`🗂️  Resuming elevation job for round ${job.round} (${job.state})`);
+      results.push(await elevationJobService.run(job.round));
+    }
+
+    const failed = results.filter((job) => job.state !== "auction-created");
 
     return c.json({
-      success: true,
+      success: failed.length === 0,
       data: {
-        resetScoresOnRoundEnd: enabled,
-        txHash: result.txHash,
-        blockExplorer,
-        message: enabled
-          ? "Score reset enabled. Scores will reset each round."
-          : "Score reset disabled. Scores will be cumulative across rounds.",
+        resumed: results.length,
+        completed: results.length - failed.length,
+        failed: failed.length,
+        jobs: results,
       },
     });
   } catch (error) {
-    console.error("Error updating score reset policy:", error);
+    console.error("Error resuming elevation jobs:", error);
     return c.json(
       {
         success: false,
-        error: "Failed to update score reset policy",
+        error: "Failed to resume elevation jobs",
         details: error instanceof Error ? error.message : String(error),
       },
       500
     );
   }
-});
+};
+
+const resumeIncompleteJobsSpec = {
+  summary: "Resume every incomplete elevation job",
+  auth: "admin",
+  responses: { 503: "Abraham service not configured" },
+} satisfies RouteSpec;
+
+admin.post(
+  "/jobs/resume",
+  requireAdminKey,
+  api.post("/jobs/resume", resumeIncompleteJobsSpec),
+  resumeIncompleteJobsHandler
+);
+admin.get(
+  "/jobs/resume",
+  requireAdminKey,
+  api.get("/jobs/resume", resumeIncompleteJobsSpec),
+  resumeIncompleteJobsHandler
+);
 
 /**
- * POST /admin/config/round-mode
- * Update the round mode
- *
- * Request body:
- * {
- *   "mode": "ROUND_BASED" | "NON_ROUND_BASED"  // or 0 | 1
- * }
+ * GET /admin/jobs/:round
+ * Get the elevation job for a round
  *
- * Authentication: X-Admin-Key header required
+ * Authentication: X-Admin-Key header or CRON_SECRET Bearer token
  */
-admin.post("/config/round-mode", requireAdminKey, async (c) => {
-  try {
-    const body = await c.req.json();
-    let { mode } = body;
+admin.get(
+  "/jobs/:round",
+  requireAdminKey,
+  api.get("/jobs/:round", {
+    summary: "Get the elevation job for a round",
+    auth: "admin",
+    params: ElevationJobParams,
+    responses: { 404: "No elevation job for this round" },
+  }),
+  async (c) => {
+    try {
+      const { round } = c.req.valid("param");
 
-    if (mode === undefined || mode === null) {
+      const job = await elevationJobService.getJob(round);
+      if (!job) {
+        return c.json(
+          {
+            success: false,
+            error: `No elevation job for round ${round}`,
+          },
+          404
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: job,
+      });
+    } catch (error) {
+      console.error("Error fetching elevation job:", error);
       return c.json(
         {
           success: false,
-          error: "mode is required",
+          error: "Failed to fetch elevation job",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
+  }
+);
+
+/**
+ * POST /admin/jobs/:round/resume
+ * Resume a stuck or failed elevation job from its last completed step
+ *
+ * If no job exists for the round yet (e.g. the winner was selected but the
+ * request timed out before the job was saved), it is created from on-chain data.
+ *
+ * Request body (optional):
+ * {
+ *   "tokenId": number,    // record a creation that was minted but not recorded
+ *   "auctionId": number   // record an auction that was created but not recorded
+ * }
+ *
+ * Authentication: X-Admin-Key header or CRON_SECRET Bearer token
+ */
+admin.post(
+  "/jobs/:round/resume",
+  requireAdminKey,
+  api.post("/jobs/:round/resume", {
+    summary: "Resume (or start) the elevation job for a round",
+    auth: "admin",
+    params: ElevationJobParams,
+    body: z
+      .object({
+        tokenId: z
+          .number()
+          .int()
+          .nonnegative()
+          .optional()
+          .describe("Already minted token (skips minting)"),
+        auctionId: z
+          .number()
+          .int()
+          .nonnegative()
+          .optional()
+          .describe("Already created auction (skips auction creation)"),
+      })
+      .default({}),
+    responses: { 503: "Abraham service not configured" },
+  }),
+  async (c) => {
+    try {
+      const { round } = c.req.valid("param");
 
-    // Convert string to number if needed
-    if (typeof mode === "string") {
-      if (mode === "ROUND_BASED") mode = 0;
-      else if (mode === "NON_ROUND_BASED") mode = 1;
-      else {
+      const body = c.req.valid("json");
+
+      if (!abrahamService.isConfigured()) {
         return c.json(
           {
             success: false,
-            error: "Invalid mode. Must be 'ROUND_BASED' or 'NON_ROUND_BASED'",
+            error: "Abraham service not configured",
           },
-          400
+          503
         );
       }
-    }
 
-    if (typeof mode !== "number" || (mode !== 0 && mode !== 1)) {
+      await elevationJobService.createJobFromChain(round);
+      const job = await elevationJobService.run(round, {
+        tokenId: body.tokenId,
+        auctionId: body.auctionId,
+      });
+
+      return c.json(
+        {
+          success: job.state === "auction-created",
+          data: job,
+          ...(job.state !== "auction-created" && { error: job.lastError }),
+        },
+        job.state === "auction-created" ? 200 : 500
+      );
+    } catch (error) {
+      console.error("Error resuming elevation job:", error);
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
       return c.json(
         {
           success: false,
-          error: "Mode must be 0 (ROUND_BASED) or 1 (NON_ROUND_BASED)",
+          error: "Failed to resume elevation job",
+          details: errorMessage,
         },
-        400
+        errorMessage.includes("no selected winner") ? 404 : 500
       );
     }
+  }
+);
 
-    const result = await contractService.updateRoundMode(mode);
+/**
+ * GET /admin/webhooks
+ * List registered webhooks (secrets are redacted)
+ *
+ * Authentication: X-Admin-Key header required
+ */
+admin.get(
+  "/webhooks",
+  requireAdminKey,
+  api.get("/webhooks", {
+    summary: "List registered webhooks (secrets are redacted)",
+    auth: "admin",
+  }),
+  async (c) => {
+    try {
+      const webhooks = await webhookService.listWebhooks();
 
-    if (!result.success) {
+      return c.json({
+        success: true,
+        data: {
+          webhooks: webhooks.map((hook) => webhookService.redact(hook)),
+          total: webhooks.length,
+        },
+      });
+    } catch (error) {
+      console.error("Error listing webhooks:", error);
       return c.json(
         {
           success: false,
-          error: result.error,
+          error: "Failed to list webhooks",
+          details: error instanceof Error ? error.message : String(error),
         },
         500
       );
     }
-
-    const network = process.env.NETWORK || "baseSepolia";
-    const blockExplorer =
-      network === "base"
-        ? `https://basescan.org/tx/${result.txHash}`
-        : `https://sepolia.basescan.org/tx/${result.txHash}`;
-
-    const modeNames = ["ROUND_BASED", "NON_ROUND_BASED"];
-
-    return c.json({
-      success: true,
-      data: {
-        roundMode: modeNames[mode],
-        txHash: result.txHash,
-        blockExplorer,
-        message: `Round mode updated to ${modeNames[mode]}`,
-      },
-    });
-  } catch (error) {
-    console.error("Error updating round mode:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to update round mode",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
+);
 
 /**
- * POST /admin/config/tie-breaking
- * Update the tie-breaking strategy
+ * POST /admin/webhooks
+ * Register a webhook
  *
  * Request body:
  * {
- *   "strategy": "LOWEST_SEED_ID" | "EARLIEST_SUBMISSION" | "PSEUDO_RANDOM"  // or 0 | 1 | 2
+ *   "url": string,            // http(s) endpoint receiving POST requests
+ *   "events": string[],       // winner.selected | seed.elevated | auction.created | auction.settled | snapshot.updated
+ *   "secret": string,         // optional - generated if omitted
+ *   "description": string     // optional
  * }
  *
+ * The signing secret is only returned in full by this endpoint.
+ *
  * Authentication: X-Admin-Key header required
  */
-admin.post("/config/tie-breaking", requireAdminKey, async (c) => {
-  try {
-    const body = await c.req.json();
-    let { strategy } = body;
-
-    if (strategy === undefined || strategy === null) {
-      return c.json(
-        {
-          success: false,
-          error: "strategy is required",
-        },
-        400
-      );
-    }
+admin.post(
+  "/webhooks",
+  requireAdminKey,
+  api.post("/webhooks", {
+    summary: "Register a webhook",
+    auth: "admin",
+    body: z.object({
+      url: z.string().describe("http(s) endpoint receiving POST requests"),
+      events: WebhookEventsSchema,
+      secret: z
+        .string()
+        .min(16, "secret must be at least 16 characters")
+        .optional()
+        .describe("Generated if omitted"),
+      description: z.string().optional(),
+    }),
+    responses: { 201: "Webhook created (the secret is only returned here)" },
+  }),
+  async (c) => {
+    try {
+      const body = c.req.valid("json");
 
-    // Convert string to number if needed
-    if (typeof strategy === "string") {
-      if (strategy === "LOWEST_SEED_ID") strategy = 0;
-      else if (strategy === "EARLIEST_SUBMISSION") strategy = 1;
-      else if (strategy === "PSEUDO_RANDOM") strategy = 2;
-      else {
+      const validationError = webhookService.validate(body);
+      if (validationError) {
         return c.json(
           {
             success: false,
-            error: "Invalid strategy. Must be 'LOWEST_SEED_ID', 'EARLIEST_SUBMISSION', or 'PSEUDO_RANDOM'",
+            error: validationError,
           },
           400
         );
       }
-    }
 
-    if (typeof strategy !== "number" || strategy < 0 || strategy > 2) {
+      const webhook = await webhookService.createWebhook({
+        url: body.url,
+        events: body.events,
+        secret: body.secret,
+        description: body.description,
+      });
+
+      return c.json(
+        {
+          success: true,
+          data: webhook,
+          message: "Store the secret now - it will not be shown again",
+        },
+        201
+      );
+    } catch (error) {
+      console.error("Error creating webhook:", error);
       return c.json(
         {
           success: false,
-          error: "Strategy must be 0 (LOWEST_SEED_ID), 1 (EARLIEST_SUBMISSION), or 2 (PSEUDO_RANDOM)",
+          error: "Failed to create webhook",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
+  }
+);
+
+/**
+ * GET /admin/webhooks/deliveries
+ * Get the delivery log across all webhooks (newest first)
+ *
+ * Query Parameters:
+ * - status: pending | succeeded | failed (optional)
+ * - limit: number of entries (optional, default: 100, max: 1000)
+ *
+ * Authentication: X-Admin-Key header required
+ */
+admin.get(
+  "/webhooks/deliveries",
+  requireAdminKey,
+  api.get("/webhooks/deliveries", {
+    summary: "Get the webhook delivery log (newest first)",
+    auth: "admin",
+    query: z.object({
+      status: z.enum(["pending", "succeeded", "failed"]).optional(),
+      limit: z.coerce
+        .number()
+        .int()
+        .min(1)
+        .default(100)
+        .transform((limit) => Math.min(limit, 1000))
+        .describe("Number of entries (max 1000)"),
+    }),
+  }),
+  async (c) => {
+    try {
+      const { status, limit } = c.req.valid("query");
 
-    const result = await contractService.updateTieBreakingStrategy(strategy);
+      const deliveries = await webhookService.getDeliveries({ status, limit });
 
-    if (!result.success) {
+      return c.json({
+        success: true,
+        data: {
+          deliveries,
+          total: deliveries.length,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
       return c.json(
         {
           success: false,
-          error: result.error,
+          error: "Failed to fetch webhook deliveries",
+          details: error instanceof Error ? error.message : String(error),
         },
         500
       );
     }
+  }
+);
 
-    const network = process.env.NETWORK || "baseSepolia";
-    const blockExplorer =
-      network === "base"
-        ? `https://basescan.org/tx/${result.txHash}`
-        : `https://sepolia.basescan.org/tx/${result.txHash}`;
-
-    const strategyNames = ["LOWEST_SEED_ID", "EARLIEST_SUBMISSION", "PSEUDO_RANDOM"];
+/**
+ * POST/GET /admin/webhooks/deliveries/process
+ * Attempt all pending deliveries whose retry time has passed
+ * (runs from cron: on serverless deployments in-process retry timers and
+ * background sends don't survive the request)
+ *
+ * Authentication: X-Admin-Key header or CRON_SECRET Bearer token
+ */
+const processDeliveriesHandler = async (c: any) => {
+  try {
+    const processed = await webhookService.processDueDeliveries();
 
     return c.json({
       success: true,
       data: {
-        tieBreakingStrategy: strategyNames[strategy],
-        txHash: result.txHash,
-        blockExplorer,
-        message: `Tie-breaking strategy updated to ${strategyNames[strategy]}`,
+        processed,
       },
     });
   } catch (error) {
-    console.error("Error updating tie-breaking strategy:", error);
+    console.error("Error processing webhook deliveries:", error);
     return c.json(
       {
         success: false,
-        error: "Failed to update tie-breaking strategy",
+        error: "Failed to process webhook deliveries",
         details: error instanceof Error ? error.message : String(error),
       },
       500
     );
   }
-});
+};
+
+const processDeliveriesSpec = {
+  summary: "Send webhook deliveries that are due",
+  auth: "admin",
+} satisfies RouteSpec;
+
+admin.post(
+  "/webhooks/deliveries/process",
+  requireAdminKey,
+  api.post("/webhooks/deliveries/process", processDeliveriesSpec),
+  processDeliveriesHandler
+);
+admin.get(
+  "/webhooks/deliveries/process",
+  requireAdminKey,
+  api.get("/webhooks/deliveries/process", processDeliveriesSpec),
+  processDeliveriesHandler
+);
 
 /**
- * POST /admin/config/deadlock
- * Update the deadlock strategy
- *
- * Request body:
- * {
- *   "strategy": "REVERT" | "SKIP_ROUND"  // or 0 | 1
- * }
+ * POST /admin/webhooks/deliveries/:deliveryId/retry
+ * Retry a delivery immediately (also works for failed deliveries)
  *
  * Authentication: X-Admin-Key header required
  */
-admin.post("/config/deadlock", requireAdminKey, async (c) => {
-  try {
-    const body = await c.req.json();
-    let { strategy } = body;
-
-    if (strategy === undefined || strategy === null) {
-      return c.json(
-        {
-          success: false,
-          error: "strategy is required",
-        },
-        400
+admin.post(
+  "/webhooks/deliveries/:deliveryId/retry",
+  requireAdminKey,
+  api.post("/webhooks/deliveries/:deliveryId/retry", {
+    summary: "Retry a webhook delivery now",
+    auth: "admin",
+    params: z.object({ deliveryId: z.string().min(1) }),
+    responses: { 404: "Delivery not found" },
+  }),
+  async (c) => {
+    try {
+      const delivery = await webhookService.retryDelivery(
+        c.req.valid("param").deliveryId
       );
-    }
 
-    // Convert string to number if needed
-    if (typeof strategy === "string") {
-      if (strategy === "REVERT") strategy = 0;
-      else if (strategy === "SKIP_ROUND") strategy = 1;
-      else {
+      if (!delivery) {
         return c.json(
           {
             success: false,
-            error: "Invalid strategy. Must be 'REVERT' or 'SKIP_ROUND'",
+            error: "Delivery not found",
           },
-          400
+          404
         );
       }
-    }
 
-    if (typeof strategy !== "number" || (strategy !== 0 && strategy !== 1)) {
+      return c.json({
+        success: true,
+        data: delivery,
+      });
+    } catch (error) {
+      console.error("Error retrying webhook delivery:", error);
       return c.json(
         {
           success: false,
-          error: "Strategy must be 0 (REVERT) or 1 (SKIP_ROUND)",
+          error: "Failed to retry webhook delivery",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
+  }
+);
+
+/**
+ * GET /admin/webhooks/:id
+ * Get a webhook (secret redacted) and its recent deliveries
+ *
+ * Authentication: X-Admin-Key header required
+ */
+admin.get(
+  "/webhooks/:id",
+  requireAdminKey,
+  api.get("/webhooks/:id", {
+    summary: "Get a webhook and its recent deliveries",
+    auth: "admin",
+    params: WebhookIdParams,
+    responses: { 404: "Webhook not found" },
+  }),
+  async (c) => {
+    try {
+      const webhook = await webhookService.getWebhook(c.req.valid("param").id);
+
+      if (!webhook) {
+        return c.json(
+          {
+            success: false,
+            error: "Webhook not found",
+          },
+          404
+        );
+      }
 
-    const result = await contractService.updateDeadlockStrategy(strategy);
+      const deliveries = await webhookService.getDeliveries({
+        webhookId: webhook.id,
+        limit: 20,
+      });
 
-    if (!result.success) {
+      return c.json({
+        success: true,
+        data: {
+          webhook: webhookService.redact(webhook),
+          recentDeliveries: deliveries,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching webhook:", error);
       return c.json(
         {
           success: false,
-          error: result.error,
+          error: "Failed to fetch webhook",
+          details: error instanceof Error ? error.message : String(error),
         },
         500
       );
     }
-
-    const network = process.env.NETWORK || "baseSepolia";
-    const blockExplorer =
-      network === "base"
-        ? `https://basescan.org/tx/${result.txHash}`
-        : `https://sepolia.basescan.org/tx/${result.txHash}`;
-
-    const strategyNames = ["REVERT", "SKIP_ROUND"];
-
-    return c.json({
-      success: true,
-      data: {
-        deadlockStrategy: strategyNames[strategy],
-        txHash: result.txHash,
-        blockExplorer,
-        message: `Deadlock strategy updated to ${strategyNames[strategy]}`,
-      },
-    });
-  } catch (error) {
-    console.error("Error updating deadlock strategy:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to update deadlock strategy",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
+);
 
 /**
- * POST /admin/config/base-uri
- * Set the base URI for NFT token metadata
+ * PUT /admin/webhooks/:id
+ * Update a webhook
  *
- * Request body:
+ * Request body (all optional):
  * {
- *   "baseURI": string  // e.g., "https://metadata.example.com/" or ""
+ *   "url": string,
+ *   "events": string[],
+ *   "active": boolean,
+ *   "description": string,
+ *   "rotateSecret": boolean   // generates a new secret, returned in the response
  * }
  *
- * Note: If baseURI is empty, tokenURI will return ipfs://<hash>
- * If baseURI is set, tokenURI will return <baseURI><hash>
- *
  * Authentication: X-Admin-Key header required
  */
-admin.post("/config/base-uri", requireAdminKey, async (c) => {
-  try {
-    const body = await c.req.json();
-    const { baseURI } = body;
+admin.put(
+  "/webhooks/:id",
+  requireAdminKey,
+  api.put("/webhooks/:id", {
+    summary: "Update a webhook",
+    auth: "admin",
+    params: WebhookIdParams,
+    body: z.object({
+      url: z.string().optional(),
+      events: WebhookEventsSchema.optional(),
+      active: z.boolean().optional(),
+      description: z.string().optional(),
+      rotateSecret: z
+        .boolean()
+        .optional()
+        .describe("Generate a new secret (returned in the response)"),
+    }),
+    responses: { 404: "Webhook not found" },
+  }),
+  async (c) => {
+    try {
+      const body = c.req.valid("json");
+
+      const validationError = webhookService.validate(body);
+      if (validationError) {
+        return c.json(
+          {
+            success: false,
+            error: validationError,
+          },
+          400
+        );
+      }
+
+      const webhook = await webhookService.updateWebhook(c.req.valid("param").id, {
+        url: body.url,
+        events: body.events,
+        active: body.active,
+        description: body.description,
+        rotateSecret: body.rotateSecret === true,
+      });
+
+      if (!webhook) {
+        return c.json(
+          {
+            success: false,
+            error: "Webhook not found",
+          },
+          404
+        );
+      }
 
-    if (baseURI === undefined || baseURI === null) {
+      return c.json({
+        success: true,
+        data: body.rotateSecret === true ? webhook : webhookService.redact(webhook),
+      });
+    } catch (error) {
+      console.error("Error updating webhook:", error);
       return c.json(
         {
           success: false,
-          error: "baseURI is required (use empty string to reset to ipfs://)",
+          error: "Failed to update webhook",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
+  }
+);
+
+/**
+ * DELETE /admin/webhooks/:id
+ * Remove a webhook (pending deliveries are marked failed)
+ *
+ * Authentication: X-Admin-Key header required
+ */
+admin.delete(
+  "/webhooks/:id",
+  requireAdminKey,
+  api.delete("/webhooks/:id", {
+    summary: "Remove a webhook (pending deliveries are marked failed)",
+    auth: "admin",
+    params: WebhookIdParams,
+    responses: { 404: "Webhook not found" },
+  }),
+  async (c) => {
+    try {
+      const deleted = await webhookService.deleteWebhook(c.req.valid("param").id);
+
+      if (!deleted) {
+        return c.json(
+          {
+            success: false,
+            error: "Webhook not found",
+          },
+          404
+        );
+      }
 
-    if (typeof baseURI !== "string") {
+      return c.json({
+        success: true,
+        message: "Webhook deleted",
+      });
+    } catch (error) {
+      console.error("Error deleting webhook:", error);
       return c.json(
         {
           success: false,
-          error: "baseURI must be a string",
+          error: "Failed to delete webhook",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
+  }
+);
+
+/**
+ * POST /admin/webhooks/:id/test
+ * Send a signed "webhook.test" event to a webhook
+ *
+ * Authentication: X-Admin-Key header required
+ */
+admin.post(
+  "/webhooks/:id/test",
+  requireAdminKey,
+  api.post("/webhooks/:id/test", {
+    summary: "Send a test event to a webhook",
+    auth: "admin",
+    params: WebhookIdParams,
+    responses: { 404: "Webhook not found" },
+  }),
+  async (c) => {
+    try {
+      const delivery = await webhookService.sendTest(c.req.valid("param").id);
 
-    const result = await contractService.setBaseURI(baseURI);
+      if (!delivery) {
+        return c.json(
+          {
+            success: false,
+            error: "Webhook not found",
+          },
+          404
+        );
+      }
 
-    if (!result.success) {
+      return c.json({
+        success: delivery.status === "succeeded",
+        data: delivery,
+      });
+    } catch (error) {
+      console.error("Error sending test webhook:", error);
       return c.json(
         {
           success: false,
-          error: result.error,
+          error: "Failed to send test webhook",
+          details: error instanceof Error ? error.message : String(error),
         },
         500
       );
     }
-
-    const network = process.env.NETWORK || "baseSepolia";
-    const blockExplorer =
-      network === "base"
-        ? `https://basescan.org/tx/${result.txHash}`
-        : `https://sepolia.basescan.org/tx/${result.txHash}`;
-
-    return c.json({
-      success: true,
-      data: {
-        baseURI,
-        txHash: result.txHash,
-        blockExplorer,
-        message: baseURI
-          ? `Base URI set to ${baseURI}. Tokens will use this prefix.`
-          : "Base URI cleared. Tokens will use ipfs:// prefix.",
-      },
-    });
-  } catch (error) {
-    console.error("Error setting base URI:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to set base URI",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
+);
 
 export default admin;
@@ -1,87 +1,178 @@
 import { Hono } from "hono";
 import { withAuth, getAuthUser } from "../middleware/auth.js";
+import { ipRateLimit, userRateLimit } from "../middleware/rateLimit.js";
+import { openApi } from "../openapi/registry.js";
+import {
+  AddressParams,
+  AddressSchema,
+  SeedIdParams,
+  SeedIdSchema,
+} from "../openapi/schemas.js";
 import { blessingService } from "../services/blessingService.js";
+import {
+  blessingBatchService,
+  type BlessingReceipt,
+} from "../services/blessingBatchService.js";
 import { contractService } from "../services/contractService.js";
+import { delegationService } from "../services/delegationService.js";
+import * as ipfsService from "../services/ipfsService.js";
+import {
+  indexerService,
+  type IndexedEvent,
+} from "../services/indexerService.js";
+import { z } from "zod/v4";
 import type { Address } from "viem";
 import { createPublicClient, http } from "viem";
 import { mainnet } from "viem/chains";
 import { AbrahamFirstWorks } from "../../lib/abi/firstWorks.js";
+import { getCollectionTokenIds } from "../../lib/snapshots/firstWorksSnapshot.js";
+import {
+  FIRSTWORKS_COLLECTION_ID,
+  getGatingCollectionLabel,
+} from "../../lib/snapshots/gatingCollections.js";
 
 const blessings = new Hono();
+const api = openApi.group("/api/blessings", "Blessings");
+
+const BlessingRequest = z.object({
+  seedId: SeedIdSchema.describe("ID of the seed to bless"),
+});
+
+const BatchBlessingRequest = z.object({
+  allocations: z
+    .array(
+      z.object({
+        seedId: SeedIdSchema,
+        count: z.coerce
+          .number()
+          .int()
+          .positive()
+          .default(1)
+          .describe("Blessings to give this seed"),
+      })
+    )
+    .min(1, "allocations must be a non-empty array"),
+});
+
+/**
+ * Convert a batched blessing receipt into a response (without proof data)
+ */
+function formatBlessingReceipt(receipt: BlessingReceipt) {
+  const { tokenIds, merkleProof, ...rest } = receipt;
+  const blockExplorer = receipt.txHash
+    ? process.env.NETWORK === "base"
+      ? `https://basescan.org/tx/${receipt.txHash}`
+      : `https://sepolia.basescan.org/tx/${receipt.txHash}`
+    : undefined;
+
+  return { ...rest, blockExplorer };
+}
+
+/**
+ * Convert an indexed blessing event into a JSON-safe record
+ */
+function formatBlessingRecord(record: IndexedEvent<"blessing">) {
+  return {
+    seedId: Number(record.seedId),
+    blesser: record.blesser,
+    actor: record.actor,
+    isDelegated: record.isDelegated,
+    score: Number(record.score),
+    timestamp: Number(record.timestamp),
+    blockNumber: Number(record.blockNumber),
+    transactionHash: record.transactionHash,
+  };
+}
 
 /**
  * GET /blessings/eligibility
  * Check if the authenticated user is eligible to bless
  */
-blessings.get("/eligibility", withAuth, async (c) => {
-  try {
-    const user = getAuthUser(c);
+blessings.get(
+  "/eligibility",
+  withAuth,
+  api.get("/eligibility", {
+    summary: "Check if the authenticated user is eligible to bless",
+    auth: "user",
+  }),
+  async (c) => {
+    try {
+      const user = getAuthUser(c);
+
+      if (!user || !user.walletAddress) {
+        return c.json(
+          {
+            success: false,
+            error: "Wallet address not found",
+          },
+          400
+        );
+      }
+
+      const eligibility = await blessingService.canBless(user.walletAddress);
 
-    if (!user || !user.walletAddress) {
+      return c.json({
+        success: true,
+        data: eligibility,
+      });
+    } catch (error) {
+      console.error("Error checking eligibility:", error);
       return c.json(
         {
           success: false,
-          error: "Wallet address not found",
+          error: "Failed to check eligibility",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
-
-    const eligibility = await blessingService.canBless(user.walletAddress);
-
-    return c.json({
-      success: true,
-      data: eligibility,
-    });
-  } catch (error) {
-    console.error("Error checking eligibility:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to check eligibility",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
+);
 
 /**
  * GET /blessings/stats
  * Get blessing statistics for the authenticated user
  */
-blessings.get("/stats", withAuth, async (c) => {
-  try {
-    const user = getAuthUser(c);
+blessings.get(
+  "/stats",
+  withAuth,
+  api.get("/stats", {
+    summary: "Get blessing statistics for the authenticated user",
+    auth: "user",
+  }),
+  async (c) => {
+    try {
+      const user = getAuthUser(c);
+
+      if (!user || !user.walletAddress) {
+        return c.json(
+          {
+            success: false,
+            error: "Wallet address not found",
+          },
+          400
+        );
+      }
+
+      const stats = await blessingService.getBlessingStats(user.walletAddress);
 
-    if (!user || !user.walletAddress) {
+      return c.json({
+        success: true,
+        data: stats,
+      });
+    } catch (error) {
+      console.error("Error fetching blessing stats:", error);
       return c.json(
         {
           success: false,
-          error: "Wallet address not found",
+          error: "Failed to fetch blessing stats",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
-
-    const stats = await blessingService.getBlessingStats(user.walletAddress);
-
-    return c.json({
-      success: true,
-      data: stats,
-    });
-  } catch (error) {
-    console.error("Error fetching blessing stats:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to fetch blessing stats",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
+);
 
 /**
  * POST /blessings
@@ -90,7 +181,7 @@ blessings.get("/stats", withAuth, async (c) => {
  * This is the GASLESS option - backend submits the transaction on behalf of the user.
  * Requires:
  * - User must be authenticated
- * - User must be eligible (owns FirstWorks NFTs)
+ * - User must be eligible (owns NFTs in a gating collection)
  * - User must not have already blessed this seed
  * - Backend must have RELAYER_ROLE or user must have approved backend as delegate
  *
@@ -105,100 +196,131 @@ blessings.get("/stats", withAuth, async (c) => {
  *   "data": {
  *     "seedId": number,
  *     "txHash": "0x...",
+ *     "txId": string, // Relayer transaction ID (GET /api/transactions/:txId)
  *     "blessingCount": number, // Total blessings for this seed
  *     "remainingBlessings": number,
  *     "blockExplorer": string,
  *     "message": string
  *   }
  * }
+ *
+ * Batching mode (BLESSING_BATCH_MODE=true, legacy TheSeeds contract):
+ * The blessing is queued and sent with other users' blessings in one
+ * batchBlessSeedsFor transaction. Responds 202 with a receipt to poll:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "seedId": number,
+ *     "queued": true,
+ *     "receiptId": string,   // GET /api/blessings/receipts/:receiptId
+ *     "status": "queued",
+ *     "remainingBlessings": number,
+ *     "message": string
+ *   }
+ * }
  */
-blessings.post("/", withAuth, async (c) => {
-  try {
-    const user = getAuthUser(c);
-
-    if (!user || !user.walletAddress) {
-      return c.json(
-        {
-          success: false,
-          error: "Wallet address not found",
-        },
-        400
+blessings.post(
+  "/",
+  withAuth,
+  ipRateLimit("blessings"),
+  userRateLimit("blessings"),
+  api.post("/", {
+    summary: "Bless a seed (gasless, relayed by the backend)",
+    auth: "user",
+    body: BlessingRequest,
+    responses: {
+      202: "Blessing queued for the next batch (BLESSING_BATCH_MODE)",
+      403: "Not eligible or backend not authorized",
+      404: "Seed not found",
+      429: "Rate limit exceeded",
+      503: "Relayer not configured or merkle root out of sync",
+    },
+  }),
+  async (c) => {
+    try {
+      const user = getAuthUser(c);
+
+      if (!user || !user.walletAddress) {
+        return c.json(
+          {
+            success: false,
+            error: "Wallet address not found",
+          },
+          400
+        );
+      }
+
+      const { seedId: seedIdNum } = c.req.valid("json");
+
+      // Let blessingService handle all the blessing logic
+      const result = await blessingService.performBlessingOnchain(
+        user.walletAddress,
+        seedIdNum
       );
-    }
-
-    // Parse and validate request body
-    const body = await c.req.json();
-    const { seedId } = body;
 
-    if (seedId === undefined || seedId === null) {
-      return c.json(
-        {
-          success: false,
-          error: "seedId is required",
-        },
-        400
-      );
-    }
+      if (!result.success) {
+        // Determine appropriate status code based on error
+        let statusCode: 400 | 403 | 404 | 500 | 503 = 500;
+        if (result.error?.includes("not eligible")) statusCode = 403;
+        else if (result.error?.includes("not found")) statusCode = 404;
+        else if (result.error?.includes("not configured")) statusCode = 503;
+        else if (result.error?.includes("out of sync")) statusCode = 503;
+        else if (result.error?.includes("not authorized")) statusCode = 403;
+        else if (result.error?.includes("limit reached")) statusCode = 400;
+
+        return c.json(
+          {
+            success: false,
+            error: result.error,
+            txId: result.txId,
+            remainingBlessings: result.remainingBlessings,
+          },
+          statusCode
+        );
+      }
+
+      if (result.receipt) {
+        return c.json(
+          {
+            success: true,
+            data: {
+              seedId: seedIdNum,
+              queued: true,
+              receiptId: result.receipt.id,
+              status: result.receipt.status,
+              remainingBlessings: result.remainingBlessings,
+              message: "Blessing queued for the next batch",
+            },
+          },
+          202
+        );
+      }
 
-    const seedIdNum = Number(seedId);
-    if (isNaN(seedIdNum) || seedIdNum < 0) {
-      return c.json(
-        {
-          success: false,
-          error: "Invalid seedId - must be a non-negative number",
+      return c.json({
+        success: true,
+        data: {
+          seedId: seedIdNum,
+          txHash: result.txHash,
+          txId: result.txId,
+          blessingCount: result.blessingCount,
+          remainingBlessings: result.remainingBlessings,
+          blockExplorer: result.blockExplorer,
+          message: "Blessing submitted successfully",
         },
-        400
-      );
-    }
-
-    // Let blessingService handle all the blessing logic
-    const result = await blessingService.performBlessingOnchain(
-      user.walletAddress,
-      seedIdNum
-    );
-
-    if (!result.success) {
-      // Determine appropriate status code based on error
-      let statusCode: 400 | 403 | 404 | 500 | 503 = 500;
-      if (result.error?.includes("not eligible")) statusCode = 403;
-      else if (result.error?.includes("not found")) statusCode = 404;
-      else if (result.error?.includes("not configured")) statusCode = 503;
-      else if (result.error?.includes("not authorized")) statusCode = 403;
-      else if (result.error?.includes("limit reached")) statusCode = 400;
-
+      });
+    } catch (error) {
+      console.error("Error performing blessing:", error);
       return c.json(
         {
           success: false,
-          error: result.error,
-          remainingBlessings: result.remainingBlessings,
+          error: "Failed to perform blessing",
+          details: error instanceof Error ? error.message : String(error),
         },
-        statusCode
+        500
       );
     }
-
-    return c.json({
-      success: true,
-      data: {
-        seedId: seedIdNum,
-        txHash: result.txHash,
-        blessingCount: result.blessingCount,
-        remainingBlessings: result.remainingBlessings,
-        blockExplorer: result.blockExplorer,
-        message: "Blessing submitted successfully",
-      },
-    });
-  } catch (error) {
-    console.error("Error performing blessing:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to perform blessing",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
+);
 
 /**
  * POST /blessings/prepare
@@ -228,93 +350,320 @@ blessings.post("/", withAuth, async (c) => {
  *   }
  * }
  */
-blessings.post("/prepare", withAuth, async (c) => {
-  try {
-    const user = getAuthUser(c);
+blessings.post(
+  "/prepare",
+  withAuth,
+  userRateLimit("blessings-prepare"),
+  api.post("/prepare", {
+    summary: "Prepare a blessing transaction for client-side signing",
+    auth: "user",
+    body: BlessingRequest,
+    responses: {
+      403: "Not eligible",
+      404: "Seed not found",
+      429: "Rate limit exceeded",
+      503: "Merkle root out of sync",
+    },
+  }),
+  async (c) => {
+    try {
+      const user = getAuthUser(c);
+
+      if (!user || !user.walletAddress) {
+        return c.json(
+          {
+            success: false,
+            error: "Wallet address not found",
+          },
+          400
+        );
+      }
+
+      const { seedId: seedIdNum } = c.req.valid("json");
+
+      // Let blessingService handle all the preparation logic
+      const result = await blessingService.prepareBlessingTransaction(
+        user.walletAddress,
+        seedIdNum
+      );
+
+      if (!result.success) {
+        // Determine appropriate status code based on error
+        let statusCode: 400 | 403 | 404 | 500 | 503 = 500;
+        if (result.error?.includes("not eligible")) statusCode = 403;
+        else if (result.error?.includes("not found")) statusCode = 404;
+        else if (result.error?.includes("Cannot bless")) statusCode = 400;
+        else if (result.error?.includes("limit reached")) statusCode = 400;
+        else if (result.error?.includes("out of sync")) statusCode = 503;
+
+        return c.json(
+          {
+            success: false,
+            error: result.error,
+          },
+          statusCode
+        );
+      }
 
-    if (!user || !user.walletAddress) {
+      return c.json({
+        success: true,
+        data: {
+          transaction: result.transaction,
+          seedInfo: result.seedInfo,
+          userInfo: result.userInfo,
+          instructions: {
+            step1: "Send this transaction using your wallet",
+            step2: "Wait for transaction confirmation",
+            step3: "Your blessing will be recorded on-chain",
+          },
+        },
+      });
+    } catch (error) {
+      console.error("Error preparing blessing:", error);
       return c.json(
         {
           success: false,
-          error: "Wallet address not found",
+          error: "Failed to prepare blessing transaction",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
+  }
+);
+
+/**
+ * Map a blessing service error to an HTTP status code
+ */
+function getBatchErrorStatus(error?: string): 400 | 403 | 404 | 500 | 503 {
+  if (!error) return 500;
+  if (error.includes("not eligible") || error.includes("No NFTs")) return 403;
+  if (error.includes("not found")) return 404;
+  if (error.includes("not configured")) return 503;
+  if (error.includes("out of sync")) return 503;
+  if (error.includes("not authorized")) return 403;
+  if (
+    error.includes("Invalid") ||
+    error.includes("must be") ||
+    error.includes("Too many") ||
+    error.includes("Cannot bless") ||
+    error.includes("limit reached") ||
+    error.includes("period has ended")
+  ) {
+    return 400;
+  }
+  return 500;
+}
+
+/**
+ * POST /blessings/batch
+ * Spend several blessings at once (backend-signed, gasless for user)
+ *
+ * Request body:
+ * {
+ *   "allocations": [
+ *     { "seedId": number, "count": number }  // count defaults to 1
+ *   ]
+ * }
+ *
+ * The total must not exceed the user's remaining blessings for the period.
+ * On the legacy TheSeeds contract all blessings go out in one
+ * batchBlessSeedsFor transaction (queued with BLESSING_BATCH_MODE=true, 202).
+ * On AbrahamSeeds they are sent as one relayed transaction per blessing.
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "results": [
+ *       { "seedId": number, "count": number, "blessed": number,
+ *         "txIds"?: string[], "receiptIds"?: string[], "error"?: string }
+ *     ],
+ *     "totalBlessed": number,
+ *     "remainingBlessings": number,
+ *     "txHash"?: "0x...",     // batch transaction (TheSeeds)
+ *     "txId"?: string,
+ *     "queued"?: true
+ *   }
+ * }
+ */
+blessings.post(
+  "/batch",
+  withAuth,
+  ipRateLimit("blessings"),
+  userRateLimit("blessings"),
+  api.post("/batch", {
+    summary: "Spend several blessings at once (gasless, relayed by the backend)",
+    auth: "user",
+    body: BatchBlessingRequest,
+    responses: {
+      202: "Blessings queued for the next batch (BLESSING_BATCH_MODE)",
+      403: "Not eligible or backend not authorized",
+      404: "Seed not found",
+      429: "Rate limit exceeded",
+      503: "Relayer not configured or merkle root out of sync",
+    },
+  }),
+  async (c) => {
+    try {
+      const user = getAuthUser(c);
+
+      if (!user || !user.walletAddress) {
+        return c.json(
+          {
+            success: false,
+            error: "Wallet address not found",
+          },
+          400
+        );
+      }
+
+      const { allocations } = c.req.valid("json");
+      const result = await blessingService.performBatchBlessingOnchain(
+        user.walletAddress,
+        allocations
+      );
 
-    // Parse and validate request body
-    const body = await c.req.json();
-    const { seedId } = body;
+      if (!result.success) {
+        return c.json(
+          {
+            success: false,
+            error: result.error,
+            results: result.results,
+            txId: result.txId,
+            remainingBlessings: result.remainingBlessings,
+          },
+          getBatchErrorStatus(result.error)
+        );
+      }
 
-    if (seedId === undefined || seedId === null) {
       return c.json(
         {
-          success: false,
-          error: "seedId is required",
+          success: true,
+          data: {
+            results: result.results,
+            totalBlessed: result.totalBlessed,
+            remainingBlessings: result.remainingBlessings,
+            txHash: result.txHash,
+            txId: result.txId,
+            queued: result.queued,
+            message: result.queued
+              ? "Blessings queued for the next batch"
+              : "Blessings submitted successfully",
+          },
         },
-        400
+        result.queued ? 202 : 200
       );
-    }
-
-    const seedIdNum = Number(seedId);
-    if (isNaN(seedIdNum) || seedIdNum < 0) {
+    } catch (error) {
+      console.error("Error performing batch blessing:", error);
       return c.json(
         {
           success: false,
-          error: "Invalid seedId - must be a non-negative number",
+          error: "Failed to perform batch blessing",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
+  }
+);
 
-    // Let blessingService handle all the preparation logic
-    const result = await blessingService.prepareBlessingTransaction(
-      user.walletAddress,
-      seedIdNum
-    );
+/**
+ * POST /blessings/prepare-batch
+ * Prepare several blessings for CLIENT-SIDE signing as one batch of calls
+ *
+ * Request body: same as POST /blessings/batch
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "calls": [{ "to": "0x...", "data": "0x...", "value": "0x0" }],
+ *     "from": "0x...",
+ *     "chainId": number,
+ *     "allocations": [{ "seedId": number, "count": number }],
+ *     "remainingBlessings": number,
+ *     "instructions": {...}
+ *   }
+ * }
+ *
+ * Send the calls with wallet_sendCalls (EIP-5792) to sign them once, or one
+ * by one on wallets without batch support.
+ */
+blessings.post(
+  "/prepare-batch",
+  withAuth,
+  userRateLimit("blessings-prepare"),
+  api.post("/prepare-batch", {
+    summary: "Prepare several blessings for client-side signing (EIP-5792 calls)",
+    auth: "user",
+    body: BatchBlessingRequest,
+    responses: {
+      403: "Not eligible",
+      404: "Seed not found",
+      429: "Rate limit exceeded",
+      503: "Merkle root out of sync",
+    },
+  }),
+  async (c) => {
+    try {
+      const user = getAuthUser(c);
+
+      if (!user || !user.walletAddress) {
+        return c.json(
+          {
+            success: false,
+            error: "Wallet address not found",
+          },
+          400
+        );
+      }
+
+      const { allocations } = c.req.valid("json");
+      const result = await blessingService.prepareBatchBlessingTransaction(
+        user.walletAddress,
+        allocations
+      );
 
-    if (!result.success) {
-      // Determine appropriate status code based on error
-      let statusCode: 400 | 403 | 404 | 500 = 500;
-      if (result.error?.includes("not eligible")) statusCode = 403;
-      else if (result.error?.includes("not found")) statusCode = 404;
-      else if (result.error?.includes("Cannot bless")) statusCode = 400;
-      else if (result.error?.includes("limit reached")) statusCode = 400;
+      if (!result.success) {
+        return c.json(
+          {
+            success: false,
+            error: result.error,
+            remainingBlessings: result.remainingBlessings,
+          },
+          getBatchErrorStatus(result.error)
+        );
+      }
 
+      return c.json({
+        success: true,
+        data: {
+          calls: result.calls,
+          from: result.from,
+          chainId: result.chainId,
+          allocations: result.allocations,
+          remainingBlessings: result.remainingBlessings,
+          instructions: {
+            step1: "Send the calls with wallet_sendCalls (or one by one if your wallet can't batch)",
+            step2: "Wait for confirmation",
+            step3: "Your blessings will be recorded on-chain",
+          },
+        },
+      });
+    } catch (error) {
+      console.error("Error preparing batch blessing:", error);
       return c.json(
         {
           success: false,
-          error: result.error,
+          error: "Failed to prepare batch blessing",
+          details: error instanceof Error ? error.message : String(error),
         },
-        statusCode
+        500
       );
     }
-
-    return c.json({
-      success: true,
-      data: {
-        transaction: result.transaction,
-        seedInfo: result.seedInfo,
-        userInfo: result.userInfo,
-        instructions: {
-          step1: "Send this transaction using your wallet",
-          step2: "Wait for transaction confirmation",
-          step3: "Your blessing will be recorded on-chain",
-        },
-      },
-    });
-  } catch (error) {
-    console.error("Error preparing blessing:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to prepare blessing transaction",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
+);
 
 /**
  * GET /blessings/delegation-status
@@ -322,7 +671,7 @@ blessings.post("/prepare", withAuth, async (c) => {
  *
  * This endpoint checks if the user has approved the backend as their delegate,
  * which enables gasless blessings. It also provides the backend's address
- * and other relevant delegation information.
+ * and every other delegate the user has approved.
  *
  * Response:
  * {
@@ -332,82 +681,95 @@ blessings.post("/prepare", withAuth, async (c) => {
  *     "backendAddress": "0x...",
  *     "isDelegateApproved": boolean,
  *     "canUseGaslessBlessings": boolean,
+ *     "delegates": [{ "address": "0x...", "approved": true, "isRelayer": boolean, ... }],
  *     "message": string
  *   }
  * }
  */
-blessings.get("/delegation-status", withAuth, async (c) => {
-  try {
-    const user = getAuthUser(c);
-
-    if (!user || !user.walletAddress) {
-      return c.json(
-        {
-          success: false,
-          error: "Wallet address not found",
-        },
-        400
+blessings.get(
+  "/delegation-status",
+  withAuth,
+  api.get("/delegation-status", {
+    summary: "Check if the user has approved the backend as their delegate",
+    auth: "user",
+  }),
+  async (c) => {
+    try {
+      const user = getAuthUser(c);
+
+      if (!user || !user.walletAddress) {
+        return c.json(
+          {
+            success: false,
+            error: "Wallet address not found",
+          },
+          400
+        );
+      }
+
+      // Get backend's relayer address and all approved delegates
+      const backendAddress = contractService.getRelayerAddress();
+      const delegates = await delegationService.getDelegates(
+        user.walletAddress as Address
       );
-    }
 
-    // Get backend's relayer address
-    const backendAddress = contractService.getRelayerAddress();
+      if (!backendAddress) {
+        return c.json({
+          success: true,
+          data: {
+            userAddress: user.walletAddress,
+            backendAddress: null,
+            isDelegateApproved: false,
+            canUseGaslessBlessings: false,
+            delegates,
+            message:
+              "Backend relayer not configured. Gasless blessings are not available.",
+          },
+        });
+      }
+
+      // Check if user has approved backend as delegate
+      const isDelegateApproved = delegates.some((delegate) => delegate.isRelayer);
 
-    if (!backendAddress) {
       return c.json({
         success: true,
         data: {
           userAddress: user.walletAddress,
-          backendAddress: null,
-          isDelegateApproved: false,
-          canUseGaslessBlessings: false,
-          message:
-            "Backend relayer not configured. Gasless blessings are not available.",
+          backendAddress,
+          isDelegateApproved,
+          canUseGaslessBlessings: isDelegateApproved,
+          delegates,
+          message: isDelegateApproved
+            ? "You have approved gasless blessings. The backend can submit blessings on your behalf."
+            : "You have not yet approved gasless blessings. Call POST /blessings/prepare-delegate to get started.",
         },
       });
+    } catch (error) {
+      console.error("Error checking delegation status:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to check delegation status",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
+      );
     }
-
-    // Check if user has approved backend as delegate
-    const isDelegateApproved = await contractService.isDelegate(
-      user.walletAddress as Address,
-      backendAddress
-    );
-
-    return c.json({
-      success: true,
-      data: {
-        userAddress: user.walletAddress,
-        backendAddress,
-        isDelegateApproved,
-        canUseGaslessBlessings: isDelegateApproved,
-        message: isDelegateApproved
-          ? "You have approved gasless blessings. The backend can submit blessings on your behalf."
-          : "You have not yet approved gasless blessings. Call POST /blessings/prepare-delegate to get started.",
-      },
-    });
-  } catch (error) {
-    console.error("Error checking delegation status:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to check delegation status",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
+);
 
 /**
  * POST /blessings/prepare-delegate
  * Prepare a delegate approval transaction for CLIENT-SIDE signing
  *
  * Users must call this to approve the backend as their delegate,
- * enabling gasless blessings via POST /blessings
+ * enabling gasless blessings via POST /blessings. Pass "delegate" to approve
+ * (or revoke) another address instead, e.g. the user's bot wallet.
  *
  * Request body (optional):
  * {
- *   "approved": boolean // true to approve, false to revoke (default: true)
+ *   "approved": boolean, // true to approve, false to revoke (default: true)
+ *   "delegate": "0x..."  // Delegate address (default: the backend relayer)
  * }
  *
  * Response:
@@ -421,414 +783,859 @@ blessings.get("/delegation-status", withAuth, async (c) => {
  *       "chainId": number
  *     },
  *     "delegateAddress": "0x...",
+ *     "isRelayer": boolean,
  *     "currentStatus": string,
  *     "message": string
  *   }
  * }
  */
-blessings.post("/prepare-delegate", withAuth, async (c) => {
-  try {
-    const user = getAuthUser(c);
+blessings.post(
+  "/prepare-delegate",
+  withAuth,
+  api.post("/prepare-delegate", {
+    summary: "Prepare a delegate approval (or revocation) transaction",
+    auth: "user",
+    body: z
+      .object({
+        approved: z
+          .boolean()
+          .default(true)
+          .describe("true to approve, false to revoke"),
+        delegate: AddressSchema.optional().describe(
+          "Delegate address (default: the backend relayer)"
+        ),
+      })
+      .default({ approved: true }),
+  }),
+  async (c) => {
+    try {
+      const user = getAuthUser(c);
+
+      if (!user || !user.walletAddress) {
+        return c.json(
+          {
+            success: false,
+            error: "Wallet address not found",
+          },
+          400
+        );
+      }
+
+      const { approved, delegate } = c.req.valid("json");
+
+      const result = await delegationService.prepareApproval(
+        user.walletAddress as Address,
+        delegate,
+        approved
+      );
 
-    if (!user || !user.walletAddress) {
+      if (!result.success) {
+        return c.json(
+          {
+            success: false,
+            error: result.error,
+          },
+          // A missing relayer is a server problem, anything else a bad delegate
+          delegate ? 400 : 500
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: {
+          transaction: result.transaction,
+          delegateAddress: result.delegateAddress,
+          isRelayer: result.isRelayer,
+          currentStatus: result.currentStatus,
+          message: result.isRelayer
+            ? approved
+              ? "Sign this transaction to approve gasless blessings"
+              : "Sign this transaction to revoke gasless blessings"
+            : approved
+              ? `Sign this transaction to let ${result.delegateAddress} bless and comment on your behalf`
+              : `Sign this transaction to revoke ${result.delegateAddress} as your delegate`,
+        },
+      });
+    } catch (error) {
+      console.error("Error preparing delegate approval:", error);
       return c.json(
         {
           success: false,
-          error: "Wallet address not found",
+          error: "Failed to prepare delegate approval transaction",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
+  }
+);
 
-    // Parse request body
-    const body = await c.req.json().catch(() => ({}));
-    const approved = body.approved !== false; // Default to true
-
-    // Let blessingService handle the delegate approval preparation
-    const result = await blessingService.prepareDelegateApprovalTransaction(
-      user.walletAddress,
-      approved
-    );
+/**
+ * GET /blessings/delegates/:address
+ * List the delegates a user has approved (from DelegateApproval events)
+ *
+ * Query params:
+ *   - includeRevoked: also list delegates that were later revoked (default: false)
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "address": "0x...",
+ *     "delegates": [
+ *       {
+ *         "address": "0x...",
+ *         "approved": boolean,          // Current on-chain status
+ *         "isRelayer": boolean,         // The backend relayer (gasless blessings)
+ *         "lastChangedAt": number | null,
+ *         "lastChangedBlock": number | null,
+ *         "transactionHash": "0x..." | null
+ *       }
+ *     ],
+ *     "total": number
+ *   }
+ * }
+ */
+blessings.get(
+  "/delegates/:address",
+  api.get("/delegates/:address", {
+    summary: "List the delegates a user has approved",
+    params: AddressParams,
+    query: z.object({
+      includeRevoked: z
+        .enum(["true", "false"])
+        .optional()
+        .describe("Also list revoked delegates"),
+    }),
+  }),
+  async (c) => {
+    try {
+      const { address } = c.req.valid("param");
+      const { includeRevoked } = c.req.valid("query");
+
+      const delegates = await delegationService.getDelegates(
+        address,
+        includeRevoked === "true"
+      );
 
-    if (!result.success) {
+      return c.json({
+        success: true,
+        data: {
+          address,
+          delegates,
+          total: delegates.length,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching delegates:", error);
       return c.json(
         {
           success: false,
-          error: result.error,
+          error: "Failed to fetch delegates",
+          details: error instanceof Error ? error.message : String(error),
         },
         500
       );
     }
-
-    return c.json({
-      success: true,
-      data: {
-        transaction: result.transaction,
-        delegateAddress: result.delegateAddress,
-        currentStatus: result.currentStatus,
-        message: approved
-          ? "Sign this transaction to approve gasless blessings"
-          : "Sign this transaction to revoke gasless blessings",
-      },
-    });
-  } catch (error) {
-    console.error("Error preparing delegate approval:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to prepare delegate approval transaction",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
+);
 
 /**
- * GET /blessings/seed/:seedId
- * Get all blessings for a specific seed (from blockchain)
+ * POST /blessings/prepare-revoke
+ * Prepare delegate revocation transactions for CLIENT-SIDE signing
+ *
+ * Request body (optional):
+ * {
+ *   "delegates": ["0x..."] // Delegates to revoke (default: every approved delegate)
+ * }
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "transactions": [
+ *       { "delegate": "0x...", "transaction": { "to": "0x...", "data": "0x...", "from": "0x...", "chainId": number } }
+ *     ],
+ *     "total": number,
+ *     "message": string
+ *   }
+ * }
  */
-blessings.get("/seed/:seedId", async (c) => {
-  try {
-    const seedId = parseInt(c.req.param("seedId"));
+blessings.post(
+  "/prepare-revoke",
+  withAuth,
+  api.post("/prepare-revoke", {
+    summary: "Prepare delegate revocation transactions",
+    auth: "user",
+    body: z
+      .object({
+        delegates: z
+          .array(AddressSchema)
+          .min(1)
+          .optional()
+          .describe("Delegates to revoke (default: every approved delegate)"),
+      })
+      .default({}),
+  }),
+  async (c) => {
+    try {
+      const user = getAuthUser(c);
+
+      if (!user || !user.walletAddress) {
+        return c.json(
+          {
+            success: false,
+            error: "Wallet address not found",
+          },
+          400
+        );
+      }
+
+      const { delegates } = c.req.valid("json");
+
+      const transactions = await delegationService.prepareRevocations(
+        user.walletAddress as Address,
+        delegates
+      );
 
-    if (isNaN(seedId) || seedId < 0) {
+      return c.json({
+        success: true,
+        data: {
+          transactions,
+          total: transactions.length,
+          message:
+            transactions.length > 0
+              ? "Sign each transaction to revoke the delegate"
+              : "No approved delegates to revoke",
+        },
+      });
+    } catch (error) {
+      console.error("Error preparing delegate revocations:", error);
       return c.json(
         {
           success: false,
-          error: "Invalid seedId",
+          error: "Failed to prepare delegate revocation transactions",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
+  }
+);
 
-    // Get seed info
-    const seed = await contractService.getSeed(seedId);
+/**
+ * GET /blessings/receipts/:receiptId
+ * Get the status of a queued (batched) blessing
+ *
+ * Query params:
+ *   - wait: seconds to wait for the batch to land before responding
+ *           (optional, max 60; long-polling instead of repeated requests)
+ *
+ * Statuses: queued -> submitted -> confirmed | failed
+ * Once resolved, txId / txHash point to the batch transaction.
+ */
+blessings.get(
+  "/receipts/:receiptId",
+  api.get("/receipts/:receiptId", {
+    summary: "Get the status of a queued (batched) blessing",
+    params: z.object({ receiptId: z.string().min(1) }),
+    query: z.object({
+      wait: z.coerce
+        .number()
+        .min(0)
+        .max(60)
+        .optional()
+        .describe("Seconds to wait for the batch to land before responding"),
+    }),
+    responses: { 404: "Receipt not found" },
+  }),
+  async (c) => {
+    try {
+      const { receiptId } = c.req.valid("param");
+      const waitSeconds = c.req.valid("query").wait || 0;
+
+      const receipt =
+        waitSeconds > 0
+          ? await blessingBatchService.waitForReceipt(receiptId, waitSeconds * 1000)
+          : await blessingBatchService.getReceipt(receiptId);
+
+      if (!receipt) {
+        return c.json(
+          {
+            success: false,
+            error: "Receipt not found",
+          },
+          404
+        );
+      }
 
-    // Note: The contract no longer stores individual blessing records
-    // Only the total blessing count is available
-    return c.json({
-      success: true,
-      data: {
-        seedId,
-        seed: {
-          ipfsHash: seed.ipfsHash,
-          creator: seed.creator,
-          blessings: Number(seed.blessings),
+      return c.json({
+        success: true,
+        data: formatBlessingReceipt(receipt),
+      });
+    } catch (error) {
+      console.error("Error fetching blessing receipt:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch blessing receipt",
+          details: error instanceof Error ? error.message : String(error),
         },
-        message: "Individual blessing records are no longer available. The contract now only tracks blessing counts.",
-        totalBlessings: Number(seed.blessings),
-      },
-    });
-  } catch (error) {
-    console.error("Error fetching seed blessings:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to fetch seed blessings",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
+        500
+      );
+    }
   }
-});
+);
 
 /**
- * GET /blessings/user/:address
- * Get all blessings by a specific user (from blockchain)
+ * GET /blessings/seed/:seedId
+ * Get all blessings for a specific seed (from the event indexer)
  */
-blessings.get("/user/:address", async (c) => {
-  try {
-    const address = c.req.param("address") as Address;
+blessings.get(
+  "/seed/:seedId",
+  api.get("/seed/:seedId", {
+    summary: "Get all blessings for a seed",
+    params: SeedIdParams,
+  }),
+  async (c) => {
+    try {
+      const { seedId } = c.req.valid("param");
+
+      // Get seed info and indexed blessing records
+      const [seed, records] = await Promise.all([
+        contractService.getSeed(seedId),
+        indexerService.getBlessings({ seedId }),
+      ]);
 
-    if (!address || !address.startsWith("0x")) {
+      return c.json({
+        success: true,
+        data: {
+          seedId,
+          seed: {
+            ipfsHash: seed.ipfsHash,
+            creator: seed.creator,
+            blessings: Number(seed.blessings),
+          },
+          blessings: records.map(formatBlessingRecord),
+          totalBlessings: Number(seed.blessings),
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching seed blessings:", error);
       return c.json(
         {
           success: false,
-          error: "Invalid address",
+          error: "Failed to fetch seed blessings",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
-
-    // Get user's daily blessing count
-    const dailyCount = await contractService.getUserDailyBlessingCount(address);
-
-    return c.json({
-      success: true,
-      data: {
-        address,
-        message: "Individual blessing records are no longer available. The contract now only tracks daily blessing counts.",
-        dailyBlessingCount: Number(dailyCount),
-        note: "This count resets at midnight UTC each day",
-      },
-    });
-  } catch (error) {
-    console.error("Error fetching user blessings:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to fetch user blessings",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
+);
 
 /**
- * GET /blessings/total
- * Get total number of blessings across all seeds
+ * GET /blessings/user/:address
+ * Get all blessings by a specific user (from the event indexer)
+ *
+ * Each blessing has "actor" (the account that sent it) and "isDelegated"
+ * (sent by a delegate such as the backend relayer rather than the user).
  */
-blessings.get("/total", async (c) => {
-  try {
-    const total = await contractService.getTotalBlessings();
+blessings.get(
+  "/user/:address",
+  api.get("/user/:address", {
+    summary: "Get all blessings by a user",
+    params: AddressParams,
+  }),
+  async (c) => {
+    try {
+      const { address } = c.req.valid("param");
+
+      // Get user's daily blessing count and indexed blessing records
+      const [dailyCount, records] = await Promise.all([
+        contractService.getUserDailyBlessingCount(address),
+        indexerService.getBlessings({ blesser: address }),
+      ]);
+
+      const delegatedBlessings = records.filter((record) => record.isDelegated).length;
 
-    return c.json({
-      success: true,
-      data: {
-        totalBlessings: Number(total),
-      },
-    });
-  } catch (error) {
-    console.error("Error fetching total blessings:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to fetch total blessings",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
+      return c.json({
+        success: true,
+        data: {
+          address,
+          blessings: records.map(formatBlessingRecord),
+          totalBlessings: records.length,
+          directBlessings: records.length - delegatedBlessings,
+          delegatedBlessings,
+          dailyBlessingCount: Number(dailyCount),
+          note: "Daily blessing count resets at midnight UTC each day",
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching user blessings:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch user blessings",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
+      );
+    }
   }
-});
+);
 
-// Legacy endpoints for backward compatibility
-blessings.get("/all", async (c) => {
-  return c.json({
-    success: false,
-    error: "This endpoint is deprecated",
-    message: "Use /blessings/seed/:seedId or /blessings/user/:address instead",
-  });
-});
-
-blessings.get("/target/:targetId", async (c) => {
-  const targetId = c.req.param("targetId");
-  return c.redirect(`/blessings/seed/${targetId}`);
-});
-
-blessings.get("/wallet/:walletAddress", async (c) => {
-  const address = c.req.param("walletAddress");
-  return c.redirect(`/blessings/user/${address}`);
-});
-
-blessings.get("/firstworks/snapshot", async (c) => {
-  try {
-    const snapshot = await blessingService.getSnapshot();
+/**
+ * GET /blessings/total
+ * Get total number of blessings across all seeds (from the event indexer)
+ *
+ * Counts the same BlessingSubmitted events the previous contract log scan
+ * (contractService.getTotalBlessings) counted, so the value is unchanged
+ * except that it trails the chain head by INDEXER_CONFIRMATIONS blocks.
+ */
+blessings.get(
+  "/total",
+  api.get("/total", {
+    summary: "Get the total number of blessings across all seeds",
+  }),
+  async (c) => {
+    try {
+      const records = await indexerService.getBlessings();
 
-    if (!snapshot) {
+      return c.json({
+        success: true,
+        data: {
+          totalBlessings: records.length,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching total blessings:", error);
       return c.json(
         {
           success: false,
-          error: "No snapshot available",
-          message: "Run 'npm run snapshot:generate' to create a snapshot",
+          error: "Failed to fetch total blessings",
+          details: error instanceof Error ? error.message : String(error),
         },
-        404
+        500
       );
     }
-
-    return c.json({
-      success: true,
-      data: snapshot,
-    });
-  } catch (error) {
-    console.error("Error fetching snapshot:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to fetch snapshot",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
-
-blessings.post("/firstworks/reload-snapshot", async (c) => {
-  try {
-    await blessingService.reloadSnapshot();
+);
 
+// Legacy endpoints for backward compatibility
+blessings.get(
+  "/all",
+  api.get("/all", {
+    summary: "Deprecated - use /seed/:seedId or /user/:address",
+    deprecated: true,
+  }),
+  async (c) => {
     return c.json({
-      success: true,
-      message: "FirstWorks snapshot reloaded successfully",
+      success: false,
+      error: "This endpoint is deprecated",
+      message: "Use /blessings/seed/:seedId or /blessings/user/:address instead",
     });
-  } catch (error) {
-    console.error("Error reloading snapshot:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to reload snapshot",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
+);
+
+blessings.get(
+  "/target/:targetId",
+  api.get("/target/:targetId", {
+    summary: "Deprecated - redirects to /seed/:seedId",
+    params: z.object({ targetId: z.string() }),
+    deprecated: true,
+    responses: { 302: "Redirect" },
+  }),
+  async (c) => {
+    const { targetId } = c.req.valid("param");
+    return c.redirect(`/blessings/seed/${targetId}`);
+  }
+);
+
+blessings.get(
+  "/wallet/:walletAddress",
+  api.get("/wallet/:walletAddress", {
+    summary: "Deprecated - redirects to /user/:address",
+    params: z.object({ walletAddress: z.string() }),
+    deprecated: true,
+    responses: { 302: "Redirect" },
+  }),
+  async (c) => {
+    const { walletAddress: address } = c.req.valid("param");
+    return c.redirect(`/blessings/user/${address}`);
+  }
+);
 
 /**
- * GET /blessings/firstworks/nfts/:address
- * Get all FirstWorks NFTs owned by an address with metadata
+ * GET /blessings/proof/:address
+ * Get the Merkle ownership proof for an address
  *
- * This endpoint:
- * 1. Fetches token IDs from the snapshot
- * 2. Fetches metadata for each token from the contract's tokenURI
- * 3. Fetches and parses the metadata JSON from IPFS/HTTP
- * 4. Returns NFTs with complete metadata for frontend display
+ * Lets third-party clients call blessSeed directly (paying their own gas)
+ * without going through the relayer or /blessings/prepare.
  *
- * @param address - Ethereum wallet address
- * @returns Array of NFTs with metadata (image, name, description, attributes, etc.)
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "address": "0x...",
+ *     "tokenIds": [12, 57],          // Pass exactly these, in this order
+ *     "leaf": "0x...",               // keccak256(bytes.concat(keccak256(abi.encode(address, tokenIds))))
+ *     "proof": ["0x...", ...],       // bytes32[] (legacy TheSeeds contract)
+ *     "encodedProof": "0x...",       // abi.encode(bytes32[]) (AbrahamSeeds `bytes proof`)
+ *     "verified": true,              // Proof checked against the root
+ *     "root": "0x...",
+ *     "format": "legacy" | "openzeppelin",
+ *     "leafEncoding": ["address", "uint256[]"],
+ *     "snapshot": { "blockNumber": number, "timestamp": string }
+ *   }
+ * }
  */
-blessings.get("/firstworks/nfts/:address", async (c) => {
-  try {
-    const address = c.req.param("address").toLowerCase() as Address;
+blessings.get(
+  "/proof/:address",
+  api.get("/proof/:address", {
+    summary: "Get the Merkle ownership proof and leaf encoding for an address",
+    params: AddressParams,
+    responses: { 404: "Address not in the Merkle tree" },
+  }),
+  async (c) => {
+    try {
+      const { address } = c.req.valid("param");
+
+      const proof = await blessingService.getOwnershipProof(address);
+      if (!proof) {
+        return c.json(
+          {
+            success: false,
+            error: "Address not in the Merkle tree",
+            details: `The address held no ${getGatingCollectionLabel()} NFTs at the last snapshot`,
+          },
+          404
+        );
+      }
 
-    // Validate address format
-    if (!address.match(/^0x[a-fA-F0-9]{40}$/)) {
+      return c.json({
+        success: true,
+        data: proof,
+      });
+    } catch (error) {
+      console.error("Error fetching ownership proof:", error);
       return c.json(
         {
           success: false,
-          error: "Invalid Ethereum address format",
+          error: "Failed to fetch ownership proof",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
+  }
+);
 
-    // Get snapshot to find token IDs
-    const snapshot = await blessingService.getSnapshot();
-    if (!snapshot) {
+/**
+ * GET /blessings/multiproof?addresses=0x...,0x...
+ * Get one Merkle multi-proof covering several addresses
+ *
+ * Requires MERKLE_TREE_FORMAT=openzeppelin. Verify on-chain with
+ * MerkleProof.multiProofVerify(proof, proofFlags, root, leafHashes).
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "leaves": [{ "address": "0x...", "tokenIds": [12, 57] }],  // In multi-proof order
+ *     "proof": ["0x...", ...],
+ *     "proofFlags": [true, false, ...],
+ *     "root": "0x...",
+ *     "verified": true
+ *   }
+ * }
+ */
+blessings.get(
+  "/multiproof",
+  api.get("/multiproof", {
+    summary: "Get a Merkle multi-proof for several addresses",
+    query: z.object({
+      addresses: z
+        .string()
+        .transform((value) => value.split(",").map((address) => address.trim()))
+        .pipe(z.array(AddressSchema).min(1).max(100))
+        .describe("Comma-separated addresses (max 100)"),
+    }),
+    responses: {
+      400: "Tree format does not support multi-proofs",
+      404: "Address not in the Merkle tree",
+    },
+  }),
+  async (c) => {
+    try {
+      const { addresses } = c.req.valid("query");
+
+      const multiProof = await blessingService.getOwnershipMultiProof(addresses);
+
+      return c.json({
+        success: true,
+        data: multiProof,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (message.includes("not in merkle tree")) {
+        return c.json(
+          {
+            success: false,
+            error: "Address not in the Merkle tree",
+            details: message,
+          },
+          404
+        );
+      }
+      if (message.includes("require")) {
+        return c.json(
+          {
+            success: false,
+            error: "Multi-proofs not supported",
+            details: message,
+          },
+          400
+        );
+      }
+
+      console.error("Error fetching multi-proof:", error);
       return c.json(
         {
           success: false,
-          error: "No snapshot available",
-          message:
-            "Snapshot data is not yet available. Please try again later.",
+          error: "Failed to fetch multi-proof",
+          details: message,
         },
-        404
+        500
       );
     }
+  }
+);
+
+blessings.get(
+  "/firstworks/snapshot",
+  api.get("/firstworks/snapshot", {
+    summary: "Get the current FirstWorks NFT ownership snapshot",
+    responses: { 404: "No snapshot available" },
+  }),
+  async (c) => {
+    try {
+      const snapshot = await blessingService.getSnapshot();
+
+      if (!snapshot) {
+        return c.json(
+          {
+            success: false,
+            error: "No snapshot available",
+            message: "Run 'npm run snapshot:generate' to create a snapshot",
+          },
+          404
+        );
+      }
 
-    // Get token IDs for this address
-    const tokenIds = snapshot.holderIndex[address] || [];
-
-    if (tokenIds.length === 0) {
       return c.json({
         success: true,
-        data: {
-          address,
-          nfts: [],
-          totalOwned: 0,
-        },
+        data: snapshot,
       });
+    } catch (error) {
+      console.error("Error fetching snapshot:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch snapshot",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
+      );
     }
+  }
+);
 
-    // Create client to fetch metadata from contract
-    const FIRSTWORKS_RPC_URL = process.env.FIRSTWORKS_RPC_URL;
-    // Use FIRSTWORKS_CONTRACT_ADDRESS or fallback to known address
-    const FIRSTWORKS_ADDRESS = (process.env.FIRSTWORKS_CONTRACT_ADDRESS ||
-      "0xacd206fc330cfaaf407755f14dc702b84fa36468") as Address;
+blessings.post(
+  "/firstworks/reload-snapshot",
+  api.post("/firstworks/reload-snapshot", {
+    summary: "Reload the FirstWorks snapshot from storage",
+  }),
+  async (c) => {
+    try {
+      await blessingService.reloadSnapshot();
 
-    if (!FIRSTWORKS_RPC_URL) {
+      return c.json({
+        success: true,
+        message: "FirstWorks snapshot reloaded successfully",
+      });
+    } catch (error) {
+      console.error("Error reloading snapshot:", error);
       return c.json(
         {
           success: false,
-          error:
-            "FirstWorks RPC URL not configured. Set FIRSTWORKS_RPC_URL in environment variables.",
+          error: "Failed to reload snapshot",
+          details: error instanceof Error ? error.message : String(error),
         },
         500
       );
     }
+  }
+);
 
-    const client = createPublicClient({
-      chain: mainnet,
-      transport: http(FIRSTWORKS_RPC_URL),
-    });
+/**
+ * GET /blessings/firstworks/nfts/:address
+ * Get all FirstWorks NFTs owned by an address with metadata
+ *
+ * This endpoint:
+ * 1. Fetches token IDs from the snapshot
+ * 2. Fetches metadata for each token from the contract's tokenURI
+ * 3. Fetches and parses the metadata JSON from IPFS/HTTP
+ * 4. Returns NFTs with complete metadata for frontend display
+ *
+ * Query parameters:
+ * - atBlock: Ownership as of a point-in-time snapshot (optional)
+ *   Generate it first with POST /admin/update-snapshot?blockNumber=N
+ *
+ * @param address - Ethereum wallet address
+ * @returns Array of NFTs with metadata (image, name, description, attributes, etc.)
+ */
+blessings.get(
+  "/firstworks/nfts/:address",
+  api.get("/firstworks/nfts/:address", {
+    summary: "Get the FirstWorks NFTs owned by an address, with metadata",
+    params: AddressParams,
+    query: z.object({
+      atBlock: z.coerce
+        .number()
+        .int()
+        .nonnegative()
+        .optional()
+        .describe("Block of a point-in-time snapshot (default: latest snapshot)"),
+    }),
+    responses: { 404: "No snapshot available" },
+  }),
+  async (c) => {
+    try {
+      const address = c.req.valid("param").address.toLowerCase() as Address;
+      const { atBlock } = c.req.valid("query");
+
+      // Get snapshot to find token IDs
+      const snapshot =
+        atBlock !== undefined
+          ? await blessingService.getSnapshotAtBlock(atBlock)
+          : await blessingService.getSnapshot();
+      if (!snapshot) {
+        return c.json(
+          {
+            success: false,
+            error:
+              atBlock !== undefined
+                ? `No snapshot available at block ${atBlock}`
+                : "No snapshot available",
+            message:
+              atBlock !== undefined
+                ? `Generate one with POST /api/admin/update-snapshot?blockNumber=${atBlock}`
+                : "Snapshot data is not yet available. Please try again later.",
+          },
+          404
+        );
+      }
+
+      // Get FirstWorks token IDs for this address (not the weighted gating IDs)
+      const tokenIds = getCollectionTokenIds(
+        snapshot,
+        FIRSTWORKS_COLLECTION_ID,
+        address
+      );
 
-    // Fetch metadata for each token
-    const nfts = await Promise.all(
-      tokenIds.map(async (tokenId) => {
-        try {
-          // Get tokenURI from contract
-          const tokenURI = (await client.readContract({
-            address: FIRSTWORKS_ADDRESS,
-            abi: AbrahamFirstWorks,
-            functionName: "tokenURI",
-            args: [BigInt(tokenId)],
-          })) as string;
-
-          // Fetch metadata from URI (IPFS or HTTP)
-          let metadata = null;
-          let metadataError = null;
+      if (tokenIds.length === 0) {
+        return c.json({
+          success: true,
+          data: {
+            address,
+            nfts: [],
+            totalOwned: 0,
+            blockNumber: snapshot.blockNumber,
+          },
+        });
+      }
+
+      // Create client to fetch metadata from contract
+      const FIRSTWORKS_RPC_URL = process.env.FIRSTWORKS_RPC_URL;
+      // Use FIRSTWORKS_CONTRACT_ADDRESS or fallback to known address
+      const FIRSTWORKS_ADDRESS = (process.env.FIRSTWORKS_CONTRACT_ADDRESS ||
+        "0xacd206fc330cfaaf407755f14dc702b84fa36468") as Address;
+
+      if (!FIRSTWORKS_RPC_URL) {
+        return c.json(
+          {
+            success: false,
+            error:
+              "FirstWorks RPC URL not configured. Set FIRSTWORKS_RPC_URL in environment variables.",
+          },
+          500
+        );
+      }
+
+      const client = createPublicClient({
+        chain: mainnet,
+        transport: http(FIRSTWORKS_RPC_URL),
+      });
 
+      // Fetch metadata for each token
+      const nfts = await Promise.all(
+        tokenIds.map(async (tokenId) => {
           try {
-            // Convert IPFS URI to HTTP gateway if needed
-            const ipfsGateway = process.env.IPFS_GATEWAY || "https://tomato-causal-partridge-743.mypinata.cloud/ipfs/";
-            const metadataURL = tokenURI.startsWith("ipfs://")
-              ? tokenURI.replace("ipfs://", ipfsGateway)
-              : tokenURI;
-
-            const response = await fetch(metadataURL);
-            if (response.ok) {
-              metadata = await response.json();
-            } else {
-              metadataError = `HTTP ${response.status}`;
-            }
+            // Get tokenURI from contract
+            const tokenURI = (await client.readContract({
+              address: FIRSTWORKS_ADDRESS,
+              abi: AbrahamFirstWorks,
+              functionName: "tokenURI",
+              args: [BigInt(tokenId)],
+            })) as string;
+
+            // Fetch metadata from URI (IPFS or HTTP)
+            const { metadata, metadataError } = await ipfsService.fetchMetadata(tokenURI);
+
+            return {
+              tokenId,
+              tokenURI,
+              metadata,
+              metadataError,
+            };
           } catch (error) {
-            metadataError =
-              error instanceof Error
-                ? error.message
-                : "Failed to fetch metadata";
+            console.error(`Error fetching metadata for token ${tokenId}:`, error);
+            return {
+              tokenId,
+              tokenURI: null,
+              metadata: null,
+              metadataError:
+                error instanceof Error ? error.message : "Unknown error",
+            };
           }
+        })
+      );
 
-          return {
-            tokenId,
-            tokenURI,
-            metadata,
-            metadataError,
-          };
-        } catch (error) {
-          console.error(`Error fetching metadata for token ${tokenId}:`, error);
-          return {
-            tokenId,
-            tokenURI: null,
-            metadata: null,
-            metadataError:
-              error instanceof Error ? error.message : "Unknown error",
-          };
-        }
-      })
-    );
-
-    return c.json({
-      success: true,
-      data: {
-        address,
-        nfts,
-        totalOwned: nfts.length,
-        contractAddress: FIRSTWORKS_ADDRESS,
-        contractName: snapshot.contractName,
-      },
-    });
-  } catch (error) {
-    console.error("Error fetching FirstWorks NFTs:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to fetch NFTs",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
+      return c.json({
+        success: true,
+        data: {
+          address,
+          nfts,
+          totalOwned: nfts.length,
+          contractAddress: FIRSTWORKS_ADDRESS,
+          contractName: snapshot.contractName,
+          blockNumber: snapshot.blockNumber,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching FirstWorks NFTs:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch NFTs",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
+      );
+    }
   }
-});
+);
 
 export default blessings;
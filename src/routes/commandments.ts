@@ -1,89 +1,152 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { withAuth, getAuthUser } from "../middleware/auth.js";
+import { ipRateLimit, userRateLimit } from "../middleware/rateLimit.js";
+import { openApi } from "../openapi/registry.js";
+import { AddressParams, AddressSchema, SeedIdParams } from "../openapi/schemas.js";
 import { commandmentService } from "../services/commandmentService.js";
+import {
+  commandmentReactionService,
+  type ReactionRequest as ReactionRequestInput,
+} from "../services/commandmentReactionService.js";
 import { contractService } from "../services/contractService.js";
-import type { Address } from "viem";
+import { z } from "zod/v4";
 
 const commandments = new Hono();
+const api = openApi.group("/api/commandments", "Commandments");
+
+const CommandmentIdSchema = z.number().int().nonnegative();
+
+const CommandmentRequest = z.object({
+  seedId: z.number().int().nonnegative().describe("ID of the seed to comment on"),
+  message: z
+    .string()
+    .max(5000, "Message too long (max 5000 characters)")
+    .refine((message) => message.trim().length > 0, "Message must not be empty")
+    .describe("Comment message text"),
+  replyTo: CommandmentIdSchema.optional().describe(
+    "ID of the commandment (on the same seed) this replies to"
+  ),
+  quotes: z
+    .array(CommandmentIdSchema)
+    .max(5, "At most 5 quoted commandments")
+    .optional()
+    .transform((quotes) => (quotes ? [...new Set(quotes)] : undefined))
+    .describe("IDs of quoted commandments"),
+});
+
+const CommandmentIdParams = z.object({
+  id: z.coerce.number().int().nonnegative().describe("Commandment ID"),
+});
+
+const ReactionRequest = z.object({
+  reactor: AddressSchema.describe("Wallet that signed the message"),
+  reaction: z
+    .string()
+    .regex(
+      /^(?=.*[\p{Extended_Pictographic}\p{Regional_Indicator}])[\p{Extended_Pictographic}\p{Emoji_Component}\u200d\ufe0f]{1,16}$/u,
+      "Reaction must be an emoji"
+    )
+    .describe("Emoji"),
+  issuedAt: z.iso.datetime().describe("Time in the signed message (ISO 8601, within 10 minutes)"),
+  signature: z
+    .string()
+    .regex(/^0x[a-fA-F0-9]+$/, "Invalid signature")
+    .transform((signature) => signature as `0x${string}`)
+    .describe("personal_sign signature of the reaction message"),
+});
+
+const CommandmentsBySeedQuery = z.object({
+  view: z
+    .enum(["flat", "thread"])
+    .default("flat")
+    .describe("flat: every commandment; thread: nested replies with reply and reaction counts"),
+});
 
 /**
  * POST /commandments
  * Submit a commandment (comment) on a seed
  * Requires authentication
+ *
+ * Request body:
+ * {
+ *   "seedId": number,
+ *   "message": string,
+ *   "replyTo": number,      // Optional parent commandment (same seed)
+ *   "quotes": number[]      // Optional quoted commandments (max 5)
+ * }
+ *
+ * Reactions are not commandments, see POST /commandments/:id/reactions
  */
-commandments.post("/", withAuth, async (c) => {
-  try {
-    const user = getAuthUser(c);
-    if (!user || !user.walletAddress) {
-      return c.json(
-        { success: false, error: "Wallet address not found" },
-        400
-      );
-    }
-
-    const body = await c.req.json();
-    const { seedId, message } = body;
-
-    // Validate input
-    if (typeof seedId !== 'number' || seedId < 0) {
-      return c.json(
-        { success: false, error: "Valid seedId is required" },
-        400
-      );
-    }
-
-    if (!message || typeof message !== "string" || message.trim().length === 0) {
-      return c.json(
-        { success: false, error: "Message is required and must be a non-empty string" },
-        400
+commandments.post(
+  "/",
+  withAuth,
+  ipRateLimit("commandments"),
+  userRateLimit("commandments"),
+  api.post("/", {
+    summary: "Submit a commandment (comment) on a seed (gasless)",
+    auth: "user",
+    body: CommandmentRequest,
+    responses: {
+      429: "Rate limit exceeded",
+      503: "Merkle root out of sync",
+    },
+  }),
+  async (c) => {
+    try {
+      const user = getAuthUser(c);
+      if (!user || !user.walletAddress) {
+        return c.json(
+          { success: false, error: "Wallet address not found" },
+          400
+        );
+      }
+
+      const { seedId, message, replyTo, quotes } = c.req.valid("json");
+
+      // Submit commandment
+      const result = await commandmentService.submitCommandment(
+        user.walletAddress,
+        seedId,
+        message,
+        { replyTo, quotes }
       );
-    }
 
-    if (message.length > 5000) {
+      if (!result.success) {
+        return c.json(
+          { success: false, error: result.error, txId: result.txId },
+          result.error?.includes("out of sync") ? 503 : 400
+        );
+      }
+
+      const network = process.env.NETWORK || "base-sepolia";
+      const blockExplorer =
+        network === "base"
+          ? `https://basescan.org/tx/${result.txHash}`
+          : `https://sepolia.basescan.org/tx/${result.txHash}`;
+
+      return c.json({
+        success: true,
+        data: {
+          commandmentId: result.commandmentId,
+          ipfsHash: result.ipfsHash,
+          txHash: result.txHash,
+          txId: result.txId,
+          blockExplorer,
+        },
+      });
+    } catch (error) {
+      console.error("Error submitting commandment:", error);
       return c.json(
-        { success: false, error: "Message too long (max 5000 characters)" },
-        400
+        {
+          success: false,
+          error: "Failed to submit commandment",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
       );
     }
-
-    // Submit commandment
-    const result = await commandmentService.submitCommandment(
-      user.walletAddress,
-      Number(seedId),
-      message
-    );
-
-    if (!result.success) {
-      return c.json({ success: false, error: result.error }, 400);
-    }
-
-    const network = process.env.NETWORK || "base-sepolia";
-    const blockExplorer =
-      network === "base"
-        ? `https://basescan.org/tx/${result.txHash}`
-        : `https://sepolia.basescan.org/tx/${result.txHash}`;
-
-    return c.json({
-      success: true,
-      data: {
-        commandmentId: result.commandmentId,
-        ipfsHash: result.ipfsHash,
-        txHash: result.txHash,
-        blockExplorer,
-      },
-    });
-  } catch (error) {
-    console.error("Error submitting commandment:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to submit commandment",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
+);
 
 /**
  * POST /commandments/prepare
@@ -94,8 +157,10 @@ commandments.post("/", withAuth, async (c) => {
  *
  * Request body:
  * {
- *   "seedId": number,  // ID of the seed to comment on
- *   "message": string  // Comment message text
+ *   "seedId": number,   // ID of the seed to comment on
+ *   "message": string,  // Comment message text
+ *   "replyTo": number,  // Optional, see POST /commandments
+ *   "quotes": number[]
  * }
  *
  * Response:
@@ -115,265 +180,455 @@ commandments.post("/", withAuth, async (c) => {
  *   }
  * }
  */
-commandments.post("/prepare", withAuth, async (c) => {
-  try {
-    const user = getAuthUser(c);
-    if (!user || !user.walletAddress) {
-      return c.json(
-        { success: false, error: "Wallet address not found" },
-        400
-      );
-    }
-
-    const body = await c.req.json();
-    const { seedId, message } = body;
-
-    // Validate input
-    if (typeof seedId !== 'number' || seedId < 0) {
-      return c.json(
-        { success: false, error: "Valid seedId is required" },
-        400
-      );
-    }
-
-    if (!message || typeof message !== "string" || message.trim().length === 0) {
-      return c.json(
-        { success: false, error: "Message is required and must be a non-empty string" },
-        400
+commandments.post(
+  "/prepare",
+  withAuth,
+  userRateLimit("commandments-prepare"),
+  api.post("/prepare", {
+    summary: "Prepare a commandment transaction for client-side signing",
+    auth: "user",
+    body: CommandmentRequest,
+    responses: {
+      403: "Not eligible",
+      404: "Seed not found",
+      429: "Rate limit exceeded",
+      503: "Merkle root out of sync",
+    },
+  }),
+  async (c) => {
+    try {
+      const user = getAuthUser(c);
+      if (!user || !user.walletAddress) {
+        return c.json(
+          { success: false, error: "Wallet address not found" },
+          400
+        );
+      }
+
+      const { seedId, message, replyTo, quotes } = c.req.valid("json");
+
+      // Prepare commandment transaction
+      const result = await commandmentService.prepareCommandmentTransaction(
+        user.walletAddress,
+        seedId,
+        message,
+        { replyTo, quotes }
       );
-    }
 
-    if (message.length > 5000) {
+      if (!result.success) {
+        // Determine appropriate status code based on error
+        let statusCode: 400 | 403 | 404 | 500 | 503 = 500;
+        if (result.error?.includes("not eligible")) statusCode = 403;
+        else if (result.error?.includes("must own")) statusCode = 403;
+        else if (result.error?.includes("not found")) statusCode = 404;
+        else if (result.error?.includes("Cannot comment")) statusCode = 400;
+        else if (result.error?.includes("limit reached")) statusCode = 400;
+        else if (result.error?.includes("retracted")) statusCode = 400;
+        else if (result.error?.includes("Invalid input")) statusCode = 400;
+        else if (result.error?.includes("out of sync")) statusCode = 503;
+
+        return c.json(
+          {
+            success: false,
+            error: result.error,
+          },
+          statusCode
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: {
+          transaction: result.transaction,
+          seedInfo: result.seedInfo,
+          userInfo: result.userInfo,
+          ipfsHash: result.ipfsHash,
+          instructions: {
+            step1: "Send this transaction using your wallet",
+            step2: "Wait for transaction confirmation",
+            step3: "Your commandment will be recorded on-chain",
+            note: "The message has been uploaded to IPFS and the transaction includes the IPFS hash"
+          },
+        },
+      });
+    } catch (error) {
+      console.error("Error preparing commandment:", error);
       return c.json(
-        { success: false, error: "Message too long (max 5000 characters)" },
-        400
+        {
+          success: false,
+          error: "Failed to prepare commandment transaction",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
       );
     }
+  }
+);
 
-    // Prepare commandment transaction
-    const result = await commandmentService.prepareCommandmentTransaction(
-      user.walletAddress,
-      Number(seedId),
-      message
-    );
+/**
+ * Record a signed reaction change and map service errors to status codes
+ */
+const reactionResponse = async (c: Context, request: ReactionRequestInput) => {
+  try {
+    const result = await commandmentReactionService.react(request);
 
     if (!result.success) {
-      // Determine appropriate status code based on error
-      let statusCode: 400 | 403 | 404 | 500 = 500;
-      if (result.error?.includes("not eligible")) statusCode = 403;
+      let statusCode: 400 | 401 | 403 | 404 | 503 = 400;
+      if (result.error?.toLowerCase().includes("signature")) statusCode = 401;
       else if (result.error?.includes("must own")) statusCode = 403;
       else if (result.error?.includes("not found")) statusCode = 404;
-      else if (result.error?.includes("Cannot comment")) statusCode = 400;
-      else if (result.error?.includes("limit reached")) statusCode = 400;
-      else if (result.error?.includes("retracted")) statusCode = 400;
+      else if (result.error?.includes("not loaded")) statusCode = 503;
 
-      return c.json(
-        {
-          success: false,
-          error: result.error,
-        },
-        statusCode
-      );
+      return c.json({ success: false, error: result.error }, statusCode);
     }
 
     return c.json({
       success: true,
-      data: {
-        transaction: result.transaction,
-        seedInfo: result.seedInfo,
-        userInfo: result.userInfo,
-        ipfsHash: result.ipfsHash,
-        instructions: {
-          step1: "Send this transaction using your wallet",
-          step2: "Wait for transaction confirmation",
-          step3: "Your commandment will be recorded on-chain",
-          note: "The message has been uploaded to IPFS and the transaction includes the IPFS hash"
-        },
-      },
+      data: result.reaction,
     });
   } catch (error) {
-    console.error("Error preparing commandment:", error);
+    console.error("Error recording reaction:", error);
     return c.json(
       {
         success: false,
-        error: "Failed to prepare commandment transaction",
+        error: "Failed to record reaction",
         details: error instanceof Error ? error.message : String(error),
       },
       500
     );
   }
-});
+};
 
 /**
- * GET /commandments/seed/:seedId
- * Get all commandments for a specific seed
+ * POST /commandments/:id/reactions
+ * React to a commandment with an emoji (off-chain, no gas or daily slot)
+ *
+ * The reactor signs this message with their wallet (personal_sign):
+ *
+ *   Abraham commandment reaction
+ *   Action: add
+ *   Commandment: <id>
+ *   Reaction: <emoji>
+ *   Reactor: <lowercase address>
+ *   Issued at: <issuedAt>
+ *
+ * Request body:
+ * {
+ *   "reactor": "0x...",
+ *   "reaction": "🔥",
+ *   "issuedAt": "2026-01-01T00:00:00.000Z",  // Within the last 10 minutes
+ *   "signature": "0x..."
+ * }
+ *
+ * The reactor must own a gating NFT.
  */
-commandments.get("/seed/:seedId", async (c) => {
-  try {
-    const seedId = parseInt(c.req.param("seedId"));
+commandments.post(
+  "/:id/reactions",
+  ipRateLimit("commandment-reactions"),
+  api.post("/:id/reactions", {
+    summary: "React to a commandment (signed, off-chain)",
+    params: CommandmentIdParams,
+    body: ReactionRequest,
+    responses: {
+      401: "Invalid or expired signature",
+      403: "Not eligible",
+      404: "Commandment not found",
+      429: "Rate limit exceeded",
+    },
+  }),
+  async (c) => {
+    const { id } = c.req.valid("param");
+    return reactionResponse(c, { ...c.req.valid("json"), commandmentId: id, action: "add" });
+  }
+);
 
-    if (isNaN(seedId) || seedId < 0) {
-      return c.json({ success: false, error: "Invalid seedId" }, 400);
-    }
+/**
+ * DELETE /commandments/:id/reactions
+ * Remove a reaction
+ *
+ * Same body as POST, signed with "Action: remove"
+ */
+commandments.delete(
+  "/:id/reactions",
+  ipRateLimit("commandment-reactions"),
+  api.delete("/:id/reactions", {
+    summary: "Remove a reaction from a commandment (signed, off-chain)",
+    params: CommandmentIdParams,
+    body: ReactionRequest,
+    responses: {
+      401: "Invalid or expired signature",
+      404: "Commandment not found",
+      429: "Rate limit exceeded",
+    },
+  }),
+  async (c) => {
+    const { id } = c.req.valid("param");
+    return reactionResponse(c, { ...c.req.valid("json"), commandmentId: id, action: "remove" });
+  }
+);
 
-    const commandments = await commandmentService.getCommandmentsBySeed(seedId);
+/**
+ * GET /commandments/:id/reactions
+ * List the reactions on a commandment with their signatures
+ */
+commandments.get(
+  "/:id/reactions",
+  api.get("/:id/reactions", {
+    summary: "Get the reactions on a commandment",
+    params: CommandmentIdParams,
+  }),
+  async (c) => {
+    try {
+      const { id } = c.req.valid("param");
+      const reactions = await commandmentReactionService.getReactionsByCommandment(id);
+
+      return c.json({
+        success: true,
+        data: {
+          commandmentId: id,
+          reactions,
+          total: reactions.length,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching reactions:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch reactions",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
+      );
+    }
+  }
+);
 
-    return c.json({
-      success: true,
-      data: {
-        seedId,
-        commandments,
-        total: commandments.length,
-      },
-    });
-  } catch (error) {
-    console.error("Error fetching commandments:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to fetch commandments",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
+/**
+ * GET /commandments/seed/:seedId
+ * Get all commandments for a specific seed
+ *
+ * Query params:
+ * - view: "flat" (default) or "thread"
+ *
+ * With view=thread, commandments holds the root commandments, each with:
+ * - replies: nested replies (same shape), oldest first
+ * - replyCount: replies at any depth
+ * - reactions: { [emoji]: count } of off-chain reactions
+ * total counts every commandment on the seed.
+ */
+commandments.get(
+  "/seed/:seedId",
+  api.get("/seed/:seedId", {
+    summary: "Get all commandments for a seed (flat or threaded)",
+    params: SeedIdParams,
+    query: CommandmentsBySeedQuery,
+  }),
+  async (c) => {
+    try {
+      const { seedId } = c.req.valid("param");
+      const { view } = c.req.valid("query");
+
+      if (view === "thread") {
+        const { threads, total } = await commandmentService.getCommandmentThreadsBySeed(seedId);
+
+        return c.json({
+          success: true,
+          data: {
+            seedId,
+            view,
+            commandments: threads,
+            threadCount: threads.length,
+            total,
+          },
+        });
+      }
+
+      const commandments = await commandmentService.getCommandmentsBySeed(seedId);
+
+      return c.json({
+        success: true,
+        data: {
+          seedId,
+          view,
+          commandments,
+          total: commandments.length,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching commandments:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch commandments",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
+      );
+    }
   }
-});
+);
 
 /**
  * GET /commandments/user/:address
  * Get all commandments by a specific user
  */
-commandments.get("/user/:address", async (c) => {
-  try {
-    const address = c.req.param("address") as Address;
-
-    if (!address || !address.startsWith("0x")) {
-      return c.json({ success: false, error: "Invalid address" }, 400);
+commandments.get(
+  "/user/:address",
+  api.get("/user/:address", {
+    summary: "Get all commandments by a user",
+    params: AddressParams,
+  }),
+  async (c) => {
+    try {
+      const { address } = c.req.valid("param");
+
+      const userCommandments =
+        await commandmentService.getCommandmentsByUser(address);
+
+      return c.json({
+        success: true,
+        data: {
+          address,
+          commandments: userCommandments,
+          total: userCommandments.length,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching user commandments:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch user commandments",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
+      );
     }
-
-    const userCommandments =
-      await commandmentService.getCommandmentsByUser(address);
-
-    return c.json({
-      success: true,
-      data: {
-        address,
-        commandments: userCommandments,
-        total: userCommandments.length,
-      },
-    });
-  } catch (error) {
-    console.error("Error fetching user commandments:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to fetch user commandments",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
+);
 
 /**
  * GET /commandments/stats
  * Get commandment statistics for authenticated user
  * Requires authentication
  */
-commandments.get("/stats", withAuth, async (c) => {
-  try {
-    const user = getAuthUser(c);
-    if (!user || !user.walletAddress) {
+commandments.get(
+  "/stats",
+  withAuth,
+  api.get("/stats", {
+    summary: "Get commandment statistics for the authenticated user",
+    auth: "user",
+  }),
+  async (c) => {
+    try {
+      const user = getAuthUser(c);
+      if (!user || !user.walletAddress) {
+        return c.json(
+          { success: false, error: "Wallet address not found" },
+          400
+        );
+      }
+
+      const stats = await commandmentService.getCommandmentStats(
+        user.walletAddress
+      );
+
+      return c.json({
+        success: true,
+        data: stats,
+      });
+    } catch (error) {
+      console.error("Error fetching commandment stats:", error);
       return c.json(
-        { success: false, error: "Wallet address not found" },
-        400
+        {
+          success: false,
+          error: "Failed to fetch commandment stats",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
       );
     }
-
-    const stats = await commandmentService.getCommandmentStats(
-      user.walletAddress
-    );
-
-    return c.json({
-      success: true,
-      data: stats,
-    });
-  } catch (error) {
-    console.error("Error fetching commandment stats:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to fetch commandment stats",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
+);
 
 /**
  * GET /commandments/eligibility
  * Check if the authenticated user can submit commandments
  * Requires authentication
  */
-commandments.get("/eligibility", withAuth, async (c) => {
-  try {
-    const user = getAuthUser(c);
-    if (!user || !user.walletAddress) {
+commandments.get(
+  "/eligibility",
+  withAuth,
+  api.get("/eligibility", {
+    summary: "Check if the authenticated user can submit commandments",
+    auth: "user",
+  }),
+  async (c) => {
+    try {
+      const user = getAuthUser(c);
+      if (!user || !user.walletAddress) {
+        return c.json(
+          { success: false, error: "Wallet address not found" },
+          400
+        );
+      }
+
+      const eligibility = await commandmentService.canComment(
+        user.walletAddress
+      );
+
+      return c.json({
+        success: true,
+        data: eligibility,
+      });
+    } catch (error) {
+      console.error("Error checking eligibility:", error);
       return c.json(
-        { success: false, error: "Wallet address not found" },
-        400
+        {
+          success: false,
+          error: "Failed to check eligibility",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
       );
     }
-
-    const eligibility = await commandmentService.canComment(
-      user.walletAddress
-    );
-
-    return c.json({
-      success: true,
-      data: eligibility,
-    });
-  } catch (error) {
-    console.error("Error checking eligibility:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to check eligibility",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
+);
 
 /**
  * GET /commandments/all
  * Get all commandments from all seeds
  * Returns paginated results
  */
-commandments.get("/all", async (c) => {
-  try {
-    const events = await commandmentService.getAllCommandmentEvents();
-
-    return c.json({
-      success: true,
-      data: {
-        commandments: events,
-        total: events.length,
-      },
-    });
-  } catch (error) {
-    console.error("Error fetching all commandments:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to fetch commandments",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
+commandments.get(
+  "/all",
+  api.get("/all", {
+    summary: "Get all commandments from all seeds",
+  }),
+  async (c) => {
+    try {
+      const events = await commandmentService.getAllCommandmentEvents();
+
+      return c.json({
+        success: true,
+        data: {
+          commandments: events,
+          total: events.length,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching all commandments:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch commandments",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
+      );
+    }
   }
-});
+);
 
 export default commandments;
@@ -0,0 +1,55 @@
+import { Hono } from "hono";
+import { openApi } from "../openapi/registry.js";
+
+const docs = new Hono();
+
+let document: ReturnType<typeof openApi.generate> | null = null;
+
+/**
+ * GET /api/openapi.json
+ * OpenAPI 3.1 document generated from the route schemas
+ * (use it to generate client SDKs)
+ */
+docs.get("/openapi.json", (c) => {
+  // Every route registers itself when its module loads, so build once
+  document ??= openApi.generate({
+    title: "Abraham API",
+    version: "1.0.0",
+    description:
+      "Seeds, blessings and commandments for Abraham. Writes are relayed gaslessly or prepared for client-side signing.",
+  });
+
+  return c.json(document);
+});
+
+// Pinned Scalar bundle; when bumping the version, recompute the hash of the
+// published file: openssl dgst -sha384 -binary dist/browser/standalone.js | openssl base64 -A
+const SCALAR_SCRIPT_URL =
+  "https://cdn.jsdelivr.net/npm/@scalar/api-reference@1.72.1/dist/browser/standalone.js";
+const SCALAR_SCRIPT_INTEGRITY =
+  "sha384-U11tb2XnKvmwt8RlTvnwUnYgrN+ur4Xyh9htLhjajWNR/Oyl5AX5DEz00qRmlrmK";
+
+/**
+ * GET /api/docs
+ * Interactive API reference (Scalar) for the OpenAPI document
+ */
+docs.get("/docs", (c) => {
+  return c.html(`<!doctype html>
+<html>
+  <head>
+    <title>Abraham API Reference</title>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+  </head>
+  <body>
+    <script id="api-reference" data-url="/api/openapi.json"></script>
+    <script
+      src="${SCALAR_SCRIPT_URL}"
+      integrity="${SCALAR_SCRIPT_INTEGRITY}"
+      crossorigin="anonymous"
+    ></script>
+  </body>
+</html>`);
+});
+
+export default docs;
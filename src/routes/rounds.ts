@@ -0,0 +1,247 @@
+import { Hono } from "hono";
+import { roundAnalyticsService } from "../services/roundAnalyticsService.js";
+import { roundArchiveService } from "../services/roundArchiveService.js";
+import { openApi } from "../openapi/registry.js";
+import { PaginationQuery, RoundParams } from "../openapi/schemas.js";
+import { z } from "zod/v4";
+
+const rounds = new Hono();
+const api = openApi.group("/api/rounds", "Rounds");
+
+/**
+ * GET /api/rounds
+ * List rounds (newest first) with winner, score and elevation outcome
+ *
+ * Query params:
+ *   - page: page number (default: 1)
+ *   - limit: rounds per page (default: 10, max: 100)
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "rounds": [RoundRecord],  // Same shape as GET /api/rounds/:round
+ *     "pagination": { "page", "limit", "total", "totalPages", "hasNextPage", "hasPrevPage" }
+ *   }
+ * }
+ */
+rounds.get(
+  "/",
+  api.get("/", {
+    summary: "List rounds with winners, scores and elevation outcomes",
+    query: PaginationQuery,
+  }),
+  async (c) => {
+    try {
+      const { page, limit } = c.req.valid("query");
+
+      const { rounds: records, total } = await roundArchiveService.listRounds(
+        page,
+        limit
+      );
+      const totalPages = Math.ceil(total / limit);
+
+      return c.json({
+        success: true,
+        data: {
+          rounds: records,
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages,
+            hasNextPage: page < totalPages,
+            hasPrevPage: page > 1,
+          },
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching rounds:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch rounds",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
+      );
+    }
+  }
+);
+
+/**
+ * GET /api/rounds/:round
+ * Get a round's winner, score, Seeds NFT and elevation outcome
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "round": number,
+ *     "status": "open" | "closed",   // Rounds before the current one are closed
+ *     "winner": {
+ *       "seedId": number,
+ *       "ipfsHash": string,
+ *       "creator": "0x...",
+ *       "blessings": number,
+ *       "score": number,               // Score in the winning round
+ *       "seedsTokenId": number | null, // Seeds NFT minted for the winner
+ *       "selectedAt": number | null,
+ *       "blockNumber": number | null,
+ *       "transactionHash": "0x..." | null
+ *     } | null,
+ *     "elevation": {
+ *       "state": "winner-selected" | "minted" | "auction-created" | "failed",
+ *       "abrahamTokenId": number | null,
+ *       "auctionId": number | null,
+ *       "mintTxHash": "0x..." | null,
+ *       "auctionTxHash": "0x..." | null,
+ *       "auction": {
+ *         "auctionId": number,
+ *         "status": "active" | "ended" | "settled",
+ *         "startTime": number,
+ *         "endTime": number,
+ *         "minBid": string,            // Wei
+ *         "highestBidder": "0x..." | null,
+ *         "highestBid": string,        // Wei
+ *         "settled": boolean
+ *       } | null
+ *     } | null                         // null if the round was never elevated
+ *   }
+ * }
+ */
+rounds.get(
+  "/:round",
+  api.get("/:round", {
+    summary: "Get a round's winner, score and elevation outcome",
+    params: RoundParams,
+    responses: { 404: "Round not found" },
+  }),
+  async (c) => {
+    try {
+      const { round } = c.req.valid("param");
+
+      const record = await roundArchiveService.getRound(round);
+
+      if (!record) {
+        return c.json(
+          {
+            success: false,
+            error: "Round not found",
+            details: `Round ${round} has not started`,
+          },
+          404
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: record,
+      });
+    } catch (error) {
+      console.error("Error fetching round:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch round",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
+      );
+    }
+  }
+);
+
+/**
+ * GET /api/rounds/:round/analytics
+ * Reconstruct how a round unfolded from BlessingSubmitted and score update events
+ *
+ * Query params:
+ *   - interval: seconds per bucket of the score timelines and blessing curves
+ *               (default: 3600, min: 60)
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "round": number,
+ *     "status": "open" | "closed",   // Rounds before the current one are closed
+ *     "startBlock": number,
+ *     "endBlock": number | null,
+ *     "startedAt": number | null,
+ *     "endedAt": number | null,
+ *     "scoreSource": "scoreUpdates" | "blessings",
+ *     "totals": { "blessings": number, "uniqueBlessers": number, "seeds": number },
+ *     "winner": { "seedId": number, "blessings": number, "blessingShare": number } | null,
+ *     "leadChanges": [{ "timestamp": number, "seedId": number, "previousLeader": number | null, "score": number, ... }],
+ *     "concentration": {
+ *       "blessers": { "gini": number, "top10Share": number },
+ *       "seeds": { "gini": number, "top10Share": number }
+ *     },
+ *     "seeds": [
+ *       {
+ *         "seedId": number,
+ *         "blessings": number,
+ *         "uniqueBlessers": number,
+ *         "blessingShare": number,
+ *         "finalScore": number,
+ *         "isWinner": boolean,
+ *         "scoreTimeline": [{ "timestamp": number, "blockNumber": number, "score": number }],
+ *         "blessingCurve": [{ "timestamp": number, "blessings": number }]
+ *       }
+ *     ]
+ *   }
+ * }
+ */
+rounds.get(
+  "/:round/analytics",
+  api.get("/:round/analytics", {
+    summary: "Get score timelines, lead changes and blessing concentration for a round",
+    params: RoundParams,
+    query: z.object({
+      interval: z.coerce
+        .number()
+        .int()
+        .min(60)
+        .default(3600)
+        .describe("Seconds per bucket of the score timelines and blessing curves"),
+    }),
+    responses: { 404: "Round not found" },
+  }),
+  async (c) => {
+    try {
+      const { round } = c.req.valid("param");
+      const { interval } = c.req.valid("query");
+
+      const analytics = await roundAnalyticsService.getRoundAnalytics(round, interval);
+
+      if (!analytics) {
+        return c.json(
+          {
+            success: false,
+            error: "Round not found",
+            details: `Round ${round} has not started`,
+          },
+          404
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: analytics,
+      });
+    } catch (error) {
+      console.error("Error building round analytics:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to build round analytics",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
+      );
+    }
+  }
+);
+
+export default rounds;
@@ -1,10 +1,49 @@
 import { Hono } from "hono";
+import { bodyLimit } from "hono/body-limit";
 import { withAuth, getAuthUser } from "../middleware/auth.js";
+import { ipRateLimit, rateLimit } from "../middleware/rateLimit.js";
+import { openApi } from "../openapi/registry.js";
+import {
+  AddressParams,
+  PaginationQuery,
+  RoundSchema,
+  SeedIdParams,
+  SeedIdSchema,
+  TokenIdSchema,
+} from "../openapi/schemas.js";
 import { contractService } from "../services/contractService.js";
 import { commandmentService } from "../services/commandmentService.js";
+import { seedMetadataService } from "../services/seedMetadataService.js";
+import { seedUploadService } from "../services/seedUploadService.js";
+import { z } from "zod/v4";
 import type { Address } from "viem";
 
 const seeds = new Hono();
+const api = openApi.group("/api/seeds", "Seeds");
+
+const SeedRequest = z.object({
+  ipfsHash: z.string().min(1).describe("IPFS hash of the seed metadata"),
+});
+
+const MAX_UPLOAD_TAGS = 10;
+
+const SeedUploadForm = z.object({
+  media: z.file().describe("Seed artwork: PNG, JPEG, GIF, WebP image or MP4, WebM, MOV video"),
+  thumbnail: z.file().optional().describe("Preview image for a video (ignored for images)"),
+  title: z.string().trim().min(1).max(200).describe("Title of the seed"),
+  description: z.string().trim().min(1).max(5000).describe("Description of the seed"),
+  tags: z
+    .union([z.string(), z.array(z.string())])
+    .optional()
+    .transform((value) => {
+      // Repeated fields or one comma-separated field
+      const tags = [value ?? []].flat().flatMap((tag) => tag.split(","));
+      return [...new Set(tags.map((tag) => tag.trim()).filter(Boolean))];
+    })
+    .pipe(z.array(z.string().max(32)).max(MAX_UPLOAD_TAGS))
+    .describe(`Up to ${MAX_UPLOAD_TAGS} tags, repeated or comma-separated`),
+  notes: z.string().trim().max(5000).optional().describe("Creator notes"),
+});
 
 /**
  * POST /seeds
@@ -17,12 +56,12 @@ const seeds = new Hono();
  * - User must be authenticated
  * - Request must include valid ADMIN_KEY
  * - Backend relayer must have CREATOR_ROLE on the contract
+ * - Metadata behind ipfsHash must match the seed metadata schema
+ *   (see seedMetadataService), otherwise 422 with validationErrors
  *
  * Request body:
  * {
- *   "ipfsHash": string,     // IPFS hash of the artwork
- *   "title": string,        // Title of the seed
- *   "description": string   // Description of the seed
+ *   "ipfsHash": string      // IPFS hash of the seed metadata (see POST /seeds/upload)
  * }
  *
  * Response:
@@ -31,128 +70,300 @@ const seeds = new Hono();
  *   "data": {
  *     "seedId": number,
  *     "txHash": "0x...",
+ *     "txId": string,
  *     "blockExplorer": string,
  *     "seed": {...}
  *   }
  * }
  */
-seeds.post("/", withAuth, async (c) => {
-  try {
-    // Check for admin authorization
-    const adminKey = c.req.header("X-Admin-Key") || c.req.header("x-admin-key");
-    const expectedAdminKey = process.env.ADMIN_KEY;
+seeds.post(
+  "/",
+  withAuth,
+  api.post("/", {
+    summary: "Create a seed on-chain (backend-signed)",
+    auth: "user+admin",
+    body: SeedRequest,
+    responses: {
+      403: "Relayer lacks CREATOR_ROLE",
+      422: "Metadata missing or invalid",
+      503: "Contract not initialized",
+    },
+  }),
+  async (c) => {
+    try {
+      // Check for admin authorization
+      const adminKey = c.req.header("X-Admin-Key") || c.req.header("x-admin-key");
+      const expectedAdminKey = process.env.ADMIN_KEY;
+
+      if (!expectedAdminKey) {
+        return c.json(
+          {
+            success: false,
+            error: "Admin key not configured on server",
+          },
+          500
+        );
+      }
 
-    if (!expectedAdminKey) {
-      return c.json(
-        {
-          success: false,
-          error: "Admin key not configured on server",
-        },
-        500
-      );
-    }
+      if (!adminKey || adminKey !== expectedAdminKey) {
+        return c.json(
+          {
+            success: false,
+            error: "Unauthorized - Invalid admin key",
+          },
+          401
+        );
+      }
 
-    if (!adminKey || adminKey !== expectedAdminKey) {
-      return c.json(
-        {
-          success: false,
-          error: "Unauthorized - Invalid admin key",
-        },
-        401
-      );
-    }
+      const { ipfsHash } = c.req.valid("json");
+
+      // Metadata must match the seed metadata schema (also warms the cache)
+      const metadataCheck = await seedMetadataService.checkForSubmission(ipfsHash);
+      if (!metadataCheck.valid) {
+        return c.json(
+          {
+            success: false,
+            error: metadataCheck.error,
+            details: metadataCheck.validationErrors.join("; ") || undefined,
+            validationErrors: metadataCheck.validationErrors,
+          },
+          422
+        );
+      }
 
-    // Parse and validate request body
-    const body = await c.req.json();
-    const { ipfsHash } = body;
+      // Submit seed to blockchain
+      const result = await contractService.submitSeed(ipfsHash);
+
+      if (!result.success) {
+        let statusCode: 403 | 500 | 503 = 500;
+        if (result.error?.includes("not have CREATOR_ROLE")) statusCode = 403;
+        else if (result.error?.includes("not initialized")) statusCode = 503;
+
+        return c.json(
+          {
+            success: false,
+            error: result.error,
+          },
+          statusCode
+        );
+      }
 
-    if (!ipfsHash) {
+      // Get the created seed details
+      let seed = null;
+      if (result.seedId !== undefined) {
+        try {
+          seed = await contractService.getSeed(result.seedId);
+        } catch (error) {
+          // Seed was created but we couldn't fetch details
+          console.warn("Seed created but couldn't fetch details:", error);
+        }
+      }
+
+      const blockExplorer =
+        process.env.NETWORK === "base"
+          ? `https://basescan.org/tx/${result.txHash}`
+          : `https://sepolia.basescan.org/tx/${result.txHash}`;
+
+      return c.json({
+        success: true,
+        data: {
+          seedId: result.seedId,
+          txHash: result.txHash,
+          txId: result.txId,
+          blockExplorer,
+          seed: seed
+            ? {
+                id: Number(seed.id),
+                creator: seed.creator,
+                ipfsHash: seed.ipfsHash,
+                blessings: Number(seed.blessings),
+                createdAt: Number(seed.createdAt),
+                isWinner: seed.isWinner,
+                isRetracted: seed.isRetracted,
+                winnerInRound: Number(seed.winnerInRound),
+                submittedInRound: Number(seed.submittedInRound),
+              }
+            : null,
+        },
+      });
+    } catch (error) {
+      console.error("Error creating seed:", error);
       return c.json(
         {
           success: false,
-          error: "ipfsHash is required",
+          error: "Failed to create seed",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
+  }
+);
 
-    // Validate input
-    if (typeof ipfsHash !== "string") {
-      return c.json(
+/**
+ * POST /seeds/upload
+ * Pin seed media and metadata to IPFS
+ *
+ * Accepts the artwork as multipart/form-data, pins it and a metadata JSON
+ * (seed metadata schema) through the server's IPFS provider, and returns the
+ * metadata hash to pass to POST /seeds or POST /seeds/prepare. Nothing is
+ * submitted on-chain.
+ *
+ * Requirements:
+ * - User must be authenticated
+ * - User's wallet must have CREATOR_ROLE, or the request must include a valid
+ *   ADMIN_KEY (X-Admin-Key header)
+ * - Images up to SEED_UPLOAD_MAX_IMAGE_MB (default 10), videos up to
+ *   SEED_UPLOAD_MAX_VIDEO_MB (default 50); the type is detected from the content
+ * - On Vercel at most 4 MB per file (the platform rejects bodies over 4.5 MB)
+ *
+ * Form fields:
+ * - media: File           // PNG, JPEG, GIF, WebP, MP4, WebM or MOV
+ * - thumbnail: File       // Optional preview image for videos
+ * - title: string         // Title of the seed (max 200 chars)
+ * - description: string   // Description of the seed (max 5000 chars)
+ * - tags: string          // Optional, repeated or comma-separated (max 10)
+ * - notes: string         // Optional creator notes (max 5000 chars)
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "ipfsHash": string,     // Metadata CID, ready for POST /seeds or /seeds/prepare
+ *     "metadataUri": "ipfs://...",
+ *     "metadataUrl": string,
+ *     "media": { "cid", "uri", "url", "mimeType", "size" },
+ *     "thumbnail": {...} | null,
+ *     "metadata": {...},      // The pinned metadata JSON
+ *     "instructions": {...}
+ *   }
+ * }
+ */
+seeds.post(
+  "/upload",
+  withAuth,
+  ipRateLimit("seed-uploads"),
+  rateLimit({
+    name: "seed-uploads-hourly",
+    limit: Number(process.env.SEED_UPLOADS_PER_HOUR) || 20,
+    windowMs: 60 * 60 * 1000,
+    by: "user",
+  }),
+  bodyLimit({
+    maxSize: seedUploadService.getMaxRequestBytes(),
+    onError: (c) =>
+      c.json(
         {
           success: false,
-          error: "ipfsHash must be a string",
+          error: "Upload too large",
+          details: `Request body exceeds ${Number(
+            (seedUploadService.getMaxRequestBytes() / (1024 * 1024)).toFixed(1)
+          )} MB`,
         },
-        400
-      );
-    }
+        413
+      ),
+  }),
+  api.post("/upload", {
+    summary: "Pin seed media and metadata to IPFS",
+    auth: "user",
+    form: SeedUploadForm,
+    responses: {
+      403: "Missing CREATOR_ROLE",
+      413: "File too large",
+      415: "Unsupported media type",
+      429: "Rate limit exceeded",
+      502: "IPFS upload failed",
+      503: "IPFS not configured",
+    },
+  }),
+  async (c) => {
+    try {
+      const user = getAuthUser(c);
+
+      if (!user || !user.walletAddress) {
+        return c.json(
+          {
+            success: false,
+            error: "Wallet address not found",
+          },
+          400
+        );
+      }
 
-    // Submit seed to blockchain
-    const result = await contractService.submitSeed(ipfsHash);
+      // Creators pin their own seeds; admins may pin for the relayer
+      const adminKey = c.req.header("X-Admin-Key") || c.req.header("x-admin-key");
+      const isAdmin = !!process.env.ADMIN_KEY && adminKey === process.env.ADMIN_KEY;
+
+      if (
+        !isAdmin &&
+        !(await contractService.hasCreatorRole(user.walletAddress as Address))
+      ) {
+        return c.json(
+          {
+            success: false,
+            error: "Only creators can upload seeds",
+            details: "Your wallet does not have CREATOR_ROLE",
+          },
+          403
+        );
+      }
 
-    if (!result.success) {
-      let statusCode: 403 | 500 | 503 = 500;
-      if (result.error?.includes("not have CREATOR_ROLE")) statusCode = 403;
-      else if (result.error?.includes("not initialized")) statusCode = 503;
+      const { media, thumbnail, title, description, tags, notes } = c.req.valid("form");
+
+      const result = await seedUploadService.upload({
+        media,
+        thumbnail,
+        title,
+        description,
+        tags,
+        notes: notes || undefined,
+        creator: user.walletAddress as Address,
+      });
+
+      if (!result.success || !result.data) {
+        const statusCode = (
+          {
+            "unsupported-type": 415,
+            "too-large": 413,
+            "not-configured": 503,
+            "upload-failed": 502,
+          } as const
+        )[result.errorCode ?? "upload-failed"];
+
+        return c.json(
+          {
+            success: false,
+            error: result.error,
+          },
+          statusCode
+        );
+      }
 
+      return c.json({
+        success: true,
+        data: {
+          ...result.data,
+          instructions: {
+            step1: "Submit the seed with this ipfsHash",
+            step2: isAdmin
+              ? "POST /api/seeds (backend-signed)"
+              : "POST /api/seeds/prepare, then sign the transaction with your wallet",
+          },
+        },
+      });
+    } catch (error) {
+      console.error("Error uploading seed:", error);
       return c.json(
         {
           success: false,
-          error: result.error,
+          error: "Failed to upload seed",
+          details: error instanceof Error ? error.message : String(error),
         },
-        statusCode
+        500
       );
     }
-
-    // Get the created seed details
-    let seed = null;
-    if (result.seedId !== undefined) {
-      try {
-        seed = await contractService.getSeed(result.seedId);
-      } catch (error) {
-        // Seed was created but we couldn't fetch details
-        console.warn("Seed created but couldn't fetch details:", error);
-      }
-    }
-
-    const blockExplorer =
-      process.env.NETWORK === "base"
-        ? `https://basescan.org/tx/${result.txHash}`
-        : `https://sepolia.basescan.org/tx/${result.txHash}`;
-
-    return c.json({
-      success: true,
-      data: {
-        seedId: result.seedId,
-        txHash: result.txHash,
-        blockExplorer,
-        seed: seed
-          ? {
-              id: Number(seed.id),
-              creator: seed.creator,
-              ipfsHash: seed.ipfsHash,
-              blessings: Number(seed.blessings),
-              createdAt: Number(seed.createdAt),
-              isWinner: seed.isWinner,
-              isRetracted: seed.isRetracted,
-              winnerInRound: Number(seed.winnerInRound),
-              submittedInRound: Number(seed.submittedInRound),
-            }
-          : null,
-      },
-    });
-  } catch (error) {
-    console.error("Error creating seed:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to create seed",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
+);
 
 /**
  * POST /seeds/prepare
@@ -164,12 +375,12 @@ seeds.post("/", withAuth, async (c) => {
  * Requirements:
  * - User must be authenticated
  * - User's wallet must have CREATOR_ROLE on the contract
+ * - Metadata behind ipfsHash must match the seed metadata schema
+ *   (see seedMetadataService), otherwise 422 with validationErrors
  *
  * Request body:
  * {
- *   "ipfsHash": string,     // IPFS hash of the artwork
- *   "title": string,        // Title of the seed
- *   "description": string   // Description of the seed
+ *   "ipfsHash": string      // IPFS hash of the seed metadata (see POST /seeds/upload)
  * }
  *
  * Response:
@@ -187,84 +398,87 @@ seeds.post("/", withAuth, async (c) => {
  *   }
  * }
  */
-seeds.post("/prepare", withAuth, async (c) => {
-  try {
-    const user = getAuthUser(c);
+seeds.post(
+  "/prepare",
+  withAuth,
+  api.post("/prepare", {
+    summary: "Prepare a seed creation transaction for client-side signing",
+    auth: "user",
+    body: SeedRequest,
+    responses: {
+      422: "Metadata missing or invalid",
+    },
+  }),
+  async (c) => {
+    try {
+      const user = getAuthUser(c);
+
+      if (!user || !user.walletAddress) {
+        return c.json(
+          {
+            success: false,
+            error: "Wallet address not found",
+          },
+          400
+        );
+      }
 
-    if (!user || !user.walletAddress) {
-      return c.json(
-        {
-          success: false,
-          error: "Wallet address not found",
-        },
-        400
-      );
-    }
+      const { ipfsHash } = c.req.valid("json");
+
+      // Metadata must match the seed metadata schema (also warms the cache)
+      const metadataCheck = await seedMetadataService.checkForSubmission(ipfsHash);
+      if (!metadataCheck.valid) {
+        return c.json(
+          {
+            success: false,
+            error: metadataCheck.error,
+            details: metadataCheck.validationErrors.join("; ") || undefined,
+            validationErrors: metadataCheck.validationErrors,
+          },
+          422
+        );
+      }
 
-    // Parse and validate request body
-    const body = await c.req.json();
-    const { ipfsHash } = body;
+      // Check if user has CREATOR_ROLE
+      const hasCreatorRole = await contractService.hasCreatorRole(
+        user.walletAddress as Address
+      );
 
-    if (!ipfsHash) {
-      return c.json(
-        {
-          success: false,
-          error: "ipfsHash is required",
-        },
-        400
+      // Prepare transaction data
+      const transaction = contractService.prepareSeedSubmissionTransaction(
+        ipfsHash,
+        user.walletAddress as Address
       );
-    }
 
-    // Validate input types
-    if (typeof ipfsHash !== "string") {
+      return c.json({
+        success: true,
+        data: {
+          transaction,
+          hasCreatorRole,
+          userAddress: user.walletAddress,
+          instructions: {
+            step1: "Send this transaction using your wallet",
+            step2: "Wait for transaction confirmation",
+            step3: "Your seed will be created on-chain",
+            note: hasCreatorRole
+              ? "You have CREATOR_ROLE and can create seeds"
+              : "Warning: You don't have CREATOR_ROLE - transaction will fail",
+          },
+        },
+      });
+    } catch (error) {
+      console.error("Error preparing seed creation:", error);
       return c.json(
         {
           success: false,
-          error: "ipfsHash must be a string",
+          error: "Failed to prepare seed creation transaction",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
-
-    // Check if user has CREATOR_ROLE
-    const hasCreatorRole = await contractService.hasCreatorRole(
-      user.walletAddress as Address
-    );
-
-    // Prepare transaction data
-    const transaction = contractService.prepareSeedSubmissionTransaction(
-      ipfsHash,
-      user.walletAddress as Address
-    );
-
-    return c.json({
-      success: true,
-      data: {
-        transaction,
-        hasCreatorRole,
-        userAddress: user.walletAddress,
-        instructions: {
-          step1: "Send this transaction using your wallet",
-          step2: "Wait for transaction confirmation",
-          step3: "Your seed will be created on-chain",
-          note: hasCreatorRole
-            ? "You have CREATOR_ROLE and can create seeds"
-            : "Warning: You don't have CREATOR_ROLE - transaction will fail",
-        },
-      },
-    });
-  } catch (error) {
-    console.error("Error preparing seed creation:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to prepare seed creation transaction",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
+);
 
 /**
  * GET /seeds
@@ -289,124 +503,89 @@ seeds.post("/prepare", withAuth, async (c) => {
  *   }
  * }
  */
-seeds.get("/", async (c) => {
-  try {
-    // Parse pagination parameters
-    const page = parseInt(c.req.query("page") || "1");
-    const limit = Math.min(parseInt(c.req.query("limit") || "10"), 100);
+seeds.get(
+  "/",
+  api.get("/", {
+    summary: "List seeds with IPFS metadata (latest first)",
+    query: PaginationQuery,
+  }),
+  async (c) => {
+    try {
+      const { page, limit } = c.req.valid("query");
 
-    if (isNaN(page) || page < 1) {
-      return c.json(
-        {
-          success: false,
-          error: "Invalid page number",
-        },
-        400
-      );
-    }
+      // Get total seed count
+      const totalCount = await contractService.getSeedCount();
+      const total = Number(totalCount);
 
-    if (isNaN(limit) || limit < 1) {
-      return c.json(
-        {
-          success: false,
-          error: "Invalid limit",
-        },
-        400
-      );
-    }
+      // Calculate pagination (reversed to show latest first)
+      const totalPages = Math.ceil(total / limit);
+      const startIndex = total - (page - 1) * limit - 1;
+      const endIndex = Math.max(startIndex - limit + 1, 0);
 
-    // Get total seed count
-    const totalCount = await contractService.getSeedCount();
-    const total = Number(totalCount);
-
-    // Calculate pagination (reversed to show latest first)
-    const totalPages = Math.ceil(total / limit);
-    const startIndex = total - (page - 1) * limit - 1;
-    const endIndex = Math.max(startIndex - limit + 1, 0);
+      // Fetch seeds for current page in parallel (from latest to earliest)
+      const seedIndices = [];
+      for (let i = startIndex; i >= endIndex; i--) {
+        seedIndices.push(i);
+      }
 
-    // Fetch seeds for current page in parallel (from latest to earliest)
-    const seedIndices = [];
-    for (let i = startIndex; i >= endIndex; i--) {
-      seedIndices.push(i);
-    }
+      const seeds = await Promise.all(
+        seedIndices.map(async (i) => {
+          try {
+            const seed = await contractService.getSeed(i);
 
-    const seeds = await Promise.all(
-      seedIndices.map(async (i) => {
-        try {
-          const seed = await contractService.getSeed(i);
+            // IPFS metadata (cached by CID, normalized)
+            const { metadata, metadataError, metadataStatus, validationErrors } =
+              await seedMetadataService.resolve(seed.ipfsHash);
 
-          // Fetch IPFS metadata in parallel with seed data
-          let metadata = null;
-          let metadataError = null;
-
-          if (seed.ipfsHash) {
-            try {
-              const ipfsGateway = process.env.IPFS_GATEWAY || "https://tomato-causal-partridge-743.mypinata.cloud/ipfs/";
-              const ipfsUrl = seed.ipfsHash.startsWith("ipfs://")
-                ? seed.ipfsHash.replace("ipfs://", ipfsGateway)
-                : seed.ipfsHash.startsWith("http")
-                ? seed.ipfsHash
-                : `${ipfsGateway}${seed.ipfsHash}`;
-
-              const response = await fetch(ipfsUrl);
-
-              if (response.ok) {
-                metadata = await response.json();
-              } else {
-                metadataError = `HTTP ${response.status}`;
-              }
-            } catch (error) {
-              metadataError = error instanceof Error ? error.message : "Failed to fetch metadata";
-              console.error(`Error fetching IPFS metadata for seed ${i}:`, error);
-            }
+            return {
+              id: Number(seed.id),
+              creator: seed.creator,
+              ipfsHash: seed.ipfsHash,
+              blessings: Number(seed.blessings),
+              createdAt: Number(seed.createdAt),
+              isWinner: seed.isWinner,
+              isRetracted: seed.isRetracted,
+              winnerInRound: Number(seed.winnerInRound),
+              submittedInRound: Number(seed.submittedInRound),
+              metadata: metadata,
+              metadataError: metadataError,
+              metadataStatus: metadataStatus,
+              validationErrors: validationErrors,
+            };
+          } catch (error) {
+            console.error(`Error fetching seed ${i}:`, error);
+            return null;
           }
-
-          return {
-            id: Number(seed.id),
-            creator: seed.creator,
-            ipfsHash: seed.ipfsHash,
-            blessings: Number(seed.blessings),
-            createdAt: Number(seed.createdAt),
-            isWinner: seed.isWinner,
-            isRetracted: seed.isRetracted,
-            winnerInRound: Number(seed.winnerInRound),
-            submittedInRound: Number(seed.submittedInRound),
-            metadata: metadata,
-            metadataError: metadataError,
-          };
-        } catch (error) {
-          console.error(`Error fetching seed ${i}:`, error);
-          return null;
-        }
-      })
-    ).then(results => results.filter(seed => seed !== null));
-
-    return c.json({
-      success: true,
-      data: {
-        seeds,
-        pagination: {
-          page,
-          limit,
-          total,
-          totalPages,
-          hasNextPage: page < totalPages,
-          hasPrevPage: page > 1,
+        })
+      ).then(results => results.filter(seed => seed !== null));
+
+      return c.json({
+        success: true,
+        data: {
+          seeds,
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages,
+            hasNextPage: page < totalPages,
+            hasPrevPage: page > 1,
+          },
         },
-      },
-    });
-  } catch (error) {
-    console.error("Error fetching seeds:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to fetch seeds",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
+      });
+    } catch (error) {
+      console.error("Error fetching seeds:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch seeds",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
+      );
+    }
   }
-});
+);
 
 /**
  * GET /seeds/minted
@@ -434,7 +613,9 @@ seeds.get("/", async (c) => {
  *       "winnerInRound": number,
  *       "submittedInRound": number,
  *       "metadata": object | null,
- *       "metadataError": string | null
+ *       "metadataError": string | null,
+ *       "metadataStatus": "verified" | "unverified" | "unavailable" | "none",
+ *       "validationErrors": string[]   // Fields dropped from metadata
  *     }],
  *     "pagination": {
  *       "page": number,
@@ -447,398 +628,357 @@ seeds.get("/", async (c) => {
  *   }
  * }
  */
-seeds.get("/minted", async (c) => {
-  try {
-    // Parse pagination parameters
-    const page = parseInt(c.req.query("page") || "1");
-    const limit = Math.min(parseInt(c.req.query("limit") || "10"), 100);
-
-    if (isNaN(page) || page < 1) {
-      return c.json(
-        {
-          success: false,
-          error: "Invalid page number",
-        },
-        400
-      );
-    }
-
-    if (isNaN(limit) || limit < 1) {
-      return c.json(
-        {
-          success: false,
-          error: "Invalid limit",
-        },
-        400
-      );
-    }
+seeds.get(
+  "/minted",
+  api.get("/minted", {
+    summary: "List minted (winning) seeds with their NFT token IDs",
+    query: PaginationQuery,
+  }),
+  async (c) => {
+    try {
+      const { page, limit } = c.req.valid("query");
 
-    // Get total seed count
-    const totalCount = await contractService.getSeedCount();
-    const total = Number(totalCount);
+      // Get total seed count
+      const totalCount = await contractService.getSeedCount();
+      const total = Number(totalCount);
 
-    // Fetch all seeds and filter for winners
-    const winnerSeeds = [];
-    for (let i = 0; i < total; i++) {
-      try {
-        const seed = await contractService.getSeed(i);
+      // Fetch all seeds and filter for winners
+      const winnerSeeds = [];
+      for (let i = 0; i < total; i++) {
+        try {
+          const seed = await contractService.getSeed(i);
 
-        // Only include seeds that have won (been minted as NFTs)
-        if (seed.isWinner) {
-          // Get token ID for this winning seed
-          const tokenId = await contractService.getTokenIdBySeedId(i);
+          // Only include seeds that have won (been minted as NFTs)
+          if (seed.isWinner) {
+            // Get token ID for this winning seed
+            const tokenId = await contractService.getTokenIdBySeedId(i);
 
-          winnerSeeds.push({
-            seed,
-            tokenId: Number(tokenId),
-          });
+            winnerSeeds.push({
+              seed,
+              tokenId: Number(tokenId),
+            });
+          }
+        } catch (error) {
+          console.error(`Error fetching seed ${i}:`, error);
+          // Continue with other seeds even if one fails
         }
-      } catch (error) {
-        console.error(`Error fetching seed ${i}:`, error);
-        // Continue with other seeds even if one fails
       }
-    }
 
-    // Calculate pagination for filtered results
-    const totalWinners = winnerSeeds.length;
-    const totalPages = Math.ceil(totalWinners / limit);
-    const startIndex = (page - 1) * limit;
-    const endIndex = Math.min(startIndex + limit, totalWinners);
+      // Calculate pagination for filtered results
+      const totalWinners = winnerSeeds.length;
+      const totalPages = Math.ceil(totalWinners / limit);
+      const startIndex = (page - 1) * limit;
+      const endIndex = Math.min(startIndex + limit, totalWinners);
 
-    // Get seeds for current page
-    const paginatedWinners = winnerSeeds.slice(startIndex, endIndex);
+      // Get seeds for current page
+      const paginatedWinners = winnerSeeds.slice(startIndex, endIndex);
 
-    // Fetch IPFS metadata for paginated seeds
-    const seedsWithMetadata = await Promise.all(
-      paginatedWinners.map(async ({ seed, tokenId }) => {
-        const seedId = Number(seed.id);
+      // Fetch IPFS metadata for paginated seeds
+      const seedsWithMetadata = await Promise.all(
+        paginatedWinners.map(async ({ seed, tokenId }) => {
+          const seedId = Number(seed.id);
 
-        // Fetch IPFS metadata
-        let metadata = null;
-        let metadataError = null;
+          // IPFS metadata (cached by CID, normalized)
+          const { metadata, metadataError, metadataStatus, validationErrors } =
+            await seedMetadataService.resolve(seed.ipfsHash);
 
-        if (seed.ipfsHash) {
+          // Fetch blessing score
+          let score = "0";
           try {
-            // Convert IPFS hash to HTTP gateway URL
-            const ipfsGateway = process.env.IPFS_GATEWAY || "https://tomato-causal-partridge-743.mypinata.cloud/ipfs/";
-            const ipfsUrl = seed.ipfsHash.startsWith("ipfs://")
-              ? seed.ipfsHash.replace("ipfs://", ipfsGateway)
-              : seed.ipfsHash.startsWith("http")
-              ? seed.ipfsHash
-              : `${ipfsGateway}${seed.ipfsHash}`;
-
-            const response = await fetch(ipfsUrl);
-
-            if (response.ok) {
-              metadata = await response.json();
-            } else {
-              metadataError = `HTTP ${response.status}`;
-            }
+            const seedScore = await contractService.getSeedBlessingScore(seedId);
+            score = seedScore.toString();
           } catch (error) {
-            metadataError = error instanceof Error ? error.message : "Failed to fetch metadata";
-            console.error(`Error fetching IPFS metadata for seed ${seedId}:`, error);
+            console.error(`Error fetching blessing score for seed ${seedId}:`, error);
           }
-        }
 
-        // Fetch blessing score
-        let score = "0";
-        try {
-          const seedScore = await contractService.getSeedBlessingScore(seedId);
-          score = seedScore.toString();
-        } catch (error) {
-          console.error(`Error fetching blessing score for seed ${seedId}:`, error);
-        }
+          return {
+            id: seedId,
+            tokenId,
+            creator: seed.creator,
+            ipfsHash: seed.ipfsHash,
+            blessings: Number(seed.blessings),
+            score,
+            createdAt: Number(seed.createdAt),
+            isWinner: seed.isWinner,
+            isRetracted: seed.isRetracted,
+            winnerInRound: Number(seed.winnerInRound),
+            submittedInRound: Number(seed.submittedInRound),
+            metadata,
+            metadataError,
+            metadataStatus,
+            validationErrors,
+          };
+        })
+      );
 
-        return {
-          id: seedId,
-          tokenId,
-          creator: seed.creator,
-          ipfsHash: seed.ipfsHash,
-          blessings: Number(seed.blessings),
-          score,
-          createdAt: Number(seed.createdAt),
-          isWinner: seed.isWinner,
-          isRetracted: seed.isRetracted,
-          winnerInRound: Number(seed.winnerInRound),
-          submittedInRound: Number(seed.submittedInRound),
-          metadata,
-          metadataError,
-        };
-      })
-    );
-
-    return c.json({
-      success: true,
-      data: {
-        seeds: seedsWithMetadata,
-        pagination: {
-          page,
-          limit,
-          total: totalWinners,
-          totalPages,
-          hasNextPage: page < totalPages,
-          hasPrevPage: page > 1,
+      return c.json({
+        success: true,
+        data: {
+          seeds: seedsWithMetadata,
+          pagination: {
+            page,
+            limit,
+            total: totalWinners,
+            totalPages,
+            hasNextPage: page < totalPages,
+            hasPrevPage: page > 1,
+          },
         },
-      },
-    });
-  } catch (error) {
-    console.error("Error fetching minted seeds:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to fetch minted seeds",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
+      });
+    } catch (error) {
+      console.error("Error fetching minted seeds:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch minted seeds",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
+      );
+    }
   }
-});
+);
 
 /**
  * GET /seeds/count
  * Get total number of seeds
  * NOTE: This route must be defined BEFORE /:seedId to prevent route conflicts
  */
-seeds.get("/count", async (c) => {
-  try {
-    const count = await contractService.getSeedCount();
-
-    return c.json({
-      success: true,
-      data: {
-        count: Number(count),
-      },
-    });
-  } catch (error) {
-    console.error("Error fetching seed count:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to fetch seed count",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
+seeds.get(
+  "/count",
+  api.get("/count", {
+    summary: "Get the total number of seeds",
+  }),
+  async (c) => {
+    try {
+      const count = await contractService.getSeedCount();
+
+      return c.json({
+        success: true,
+        data: {
+          count: Number(count),
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching seed count:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch seed count",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
+      );
+    }
   }
-});
+);
 
 /**
  * GET /seeds/stats
  * Get voting period status, current leader, and time remaining
  * NOTE: This route must be defined BEFORE /:seedId to prevent route conflicts
  */
-seeds.get("/stats", async (c) => {
-  try {
-    const currentRound = await contractService.getCurrentRound();
-    const timeRemaining = await contractService.getTimeUntilPeriodEnd();
-    const leader = await contractService.getCurrentLeader();
-    const roundSeeds = await contractService.getCurrentRoundSeeds();
-
-    let leaderSeed = null;
-    if (leader.leadingSeedId > 0n) {
-      try {
-        const seed = await contractService.getSeed(Number(leader.leadingSeedId));
-        leaderSeed = {
-          id: Number(seed.id),
-          creator: seed.creator,
-          ipfsHash: seed.ipfsHash,
-          blessings: Number(seed.blessings),
-          createdAt: Number(seed.createdAt),
-          isWinner: seed.isWinner,
-          isRetracted: seed.isRetracted,
-          winnerInRound: Number(seed.winnerInRound),
-          submittedInRound: Number(seed.submittedInRound),
-        };
-      } catch (error) {
-        console.error(`Error fetching leader seed details:`, error);
+seeds.get(
+  "/stats",
+  api.get("/stats", {
+    summary: "Get seed and round statistics",
+  }),
+  async (c) => {
+    try {
+      const currentRound = await contractService.getCurrentRound();
+      const timeRemaining = await contractService.getTimeUntilPeriodEnd();
+      const leader = await contractService.getCurrentLeader();
+      const roundSeeds = await contractService.getCurrentRoundSeeds();
+
+      let leaderSeed = null;
+      if (leader.leadingSeedId > 0n) {
+        try {
+          const seed = await contractService.getSeed(Number(leader.leadingSeedId));
+          leaderSeed = {
+            id: Number(seed.id),
+            creator: seed.creator,
+            ipfsHash: seed.ipfsHash,
+            blessings: Number(seed.blessings),
+            createdAt: Number(seed.createdAt),
+            isWinner: seed.isWinner,
+            isRetracted: seed.isRetracted,
+            winnerInRound: Number(seed.winnerInRound),
+            submittedInRound: Number(seed.submittedInRound),
+          };
+        } catch (error) {
+          console.error(`Error fetching leader seed details:`, error);
+        }
       }
-    }
 
-    return c.json({
-      success: true,
-      data: {
-        currentRound: Number(currentRound),
-        timeUntilPeriodEnd: Number(timeRemaining),
-        periodEnded: timeRemaining === 0n,
-        currentLeader: {
-          seedId: Number(leader.leadingSeedId),
-          score: leader.score.toString(),
-          seed: leaderSeed,
+      return c.json({
+        success: true,
+        data: {
+          currentRound: Number(currentRound),
+          timeUntilPeriodEnd: Number(timeRemaining),
+          periodEnded: timeRemaining === 0n,
+          currentLeader: {
+            seedId: Number(leader.leadingSeedId),
+            score: leader.score.toString(),
+            seed: leaderSeed,
+          },
+          seedsInRound: roundSeeds.length,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching voting stats:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch voting stats",
+          details: error instanceof Error ? error.message : String(error),
         },
-        seedsInRound: roundSeeds.length,
-      },
-    });
-  } catch (error) {
-    console.error("Error fetching voting stats:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to fetch voting stats",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
+        500
+      );
+    }
   }
-});
+);
 
 /**
  * GET /seeds/config
  * Get contract configuration (round mode, strategies, etc.)
  * NOTE: This route must be defined BEFORE /:seedId to prevent route conflicts
  */
-seeds.get("/config", async (c) => {
-  try {
-    const roundMode = await contractService.getRoundMode();
-    const tieBreakingStrategy = await contractService.getTieBreakingStrategy();
-    const deadlockStrategy = await contractService.getDeadlockStrategy();
-    const eligibleSeedsCount = await contractService.getEligibleSeedsCount();
-    const secondsUntilReset = await contractService.getSecondsUntilDailyReset();
-
-    const roundModeNames = ["ROUND_BASED", "NON_ROUND_BASED"];
-    const tieBreakingNames = ["LOWEST_SEED_ID", "EARLIEST_SUBMISSION", "PSEUDO_RANDOM"];
-    const deadlockNames = ["REVERT", "SKIP_ROUND"];
-
-    return c.json({
-      success: true,
-      data: {
-        roundMode: {
-          value: roundMode,
-          name: roundModeNames[roundMode] || "UNKNOWN",
-        },
-        tieBreakingStrategy: {
-          value: tieBreakingStrategy,
-          name: tieBreakingNames[tieBreakingStrategy] || "UNKNOWN",
+seeds.get(
+  "/config",
+  api.get("/config", {
+    summary: "Get contract configuration",
+  }),
+  async (c) => {
+    try {
+      const roundMode = await contractService.getRoundMode();
+      const tieBreakingStrategy = await contractService.getTieBreakingStrategy();
+      const deadlockStrategy = await contractService.getDeadlockStrategy();
+      const eligibleSeedsCount = await contractService.getEligibleSeedsCount();
+      const secondsUntilReset = await contractService.getSecondsUntilDailyReset();
+
+      const roundModeNames = ["ROUND_BASED", "NON_ROUND_BASED"];
+      const tieBreakingNames = ["LOWEST_SEED_ID", "EARLIEST_SUBMISSION", "PSEUDO_RANDOM"];
+      const deadlockNames = ["REVERT", "SKIP_ROUND"];
+
+      return c.json({
+        success: true,
+        data: {
+          roundMode: {
+            value: roundMode,
+            name: roundModeNames[roundMode] || "UNKNOWN",
+          },
+          tieBreakingStrategy: {
+            value: tieBreakingStrategy,
+            name: tieBreakingNames[tieBreakingStrategy] || "UNKNOWN",
+          },
+          deadlockStrategy: {
+            value: deadlockStrategy,
+            name: deadlockNames[deadlockStrategy] || "UNKNOWN",
+          },
+          eligibleSeedsCount: Number(eligibleSeedsCount),
+          secondsUntilBlessingReset: Number(secondsUntilReset),
         },
-        deadlockStrategy: {
-          value: deadlockStrategy,
-          name: deadlockNames[deadlockStrategy] || "UNKNOWN",
+      });
+    } catch (error) {
+      console.error("Error fetching contract config:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch contract configuration",
+          details: error instanceof Error ? error.message : String(error),
         },
-        eligibleSeedsCount: Number(eligibleSeedsCount),
-        secondsUntilBlessingReset: Number(secondsUntilReset),
-      },
-    });
-  } catch (error) {
-    console.error("Error fetching contract config:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to fetch contract configuration",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
+        500
+      );
+    }
   }
-});
+);
 
 /**
  * GET /seeds/:seedId
  * Get details of a specific seed with its IPFS metadata
  */
-seeds.get("/:seedId", async (c) => {
-  try {
-    const seedId = parseInt(c.req.param("seedId"));
+seeds.get(
+  "/:seedId",
+  api.get("/:seedId", {
+    summary: "Get a seed with its IPFS metadata, score and commandments",
+    params: SeedIdParams,
+    responses: { 404: "Seed not found" },
+  }),
+  async (c) => {
+    try {
+      const { seedId } = c.req.valid("param");
 
-    if (isNaN(seedId) || seedId < 0) {
-      return c.json(
-        {
-          success: false,
-          error: "Invalid seedId",
-        },
-        400
-      );
-    }
+      const seed = await contractService.getSeed(seedId);
 
-    const seed = await contractService.getSeed(seedId);
+      // Fetch all data in parallel for better performance
+      const [metadataResult, scoreResult, commandmentsResult] = await Promise.allSettled([
+        // Fetch IPFS metadata
+        seedMetadataService.resolve(seed.ipfsHash),
 
-    // Fetch all data in parallel for better performance
-    const [metadataResult, scoreResult, commandmentsResult] = await Promise.allSettled([
-      // Fetch IPFS metadata
-      (async () => {
-        if (!seed.ipfsHash) return { metadata: null, metadataError: null };
+        // Fetch blessing score
+        (async () => {
+          try {
+            const seedScore = await contractService.getSeedBlessingScore(seedId);
+            return seedScore.toString();
+          } catch (error) {
+            console.error(`Error fetching blessing score for seed ${seedId}:`, error);
+            return "0";
+          }
+        })(),
 
-        try {
-          const ipfsGateway = process.env.IPFS_GATEWAY || "https://tomato-causal-partridge-743.mypinata.cloud/ipfs/";
-          const ipfsUrl = seed.ipfsHash.startsWith("ipfs://")
-            ? seed.ipfsHash.replace("ipfs://", ipfsGateway)
-            : seed.ipfsHash.startsWith("http")
-            ? seed.ipfsHash
-            : `${ipfsGateway}${seed.ipfsHash}`;
-
-          const response = await fetch(ipfsUrl);
-
-          if (response.ok) {
-            return { metadata: await response.json(), metadataError: null };
-          } else {
-            return { metadata: null, metadataError: `HTTP ${response.status}` };
+        // Fetch commandments
+        (async () => {
+          try {
+            return await commandmentService.getCommandmentsBySeed(seedId);
+          } catch (error) {
+            console.error(`Error fetching commandments for seed ${seedId}:`, error);
+            return [];
           }
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : "Failed to fetch metadata";
-          console.error(`Error fetching IPFS metadata for seed ${seedId}:`, error);
-          return { metadata: null, metadataError: errorMsg };
-        }
-      })(),
+        })(),
+      ]);
 
-      // Fetch blessing score
-      (async () => {
-        try {
-          const seedScore = await contractService.getSeedBlessingScore(seedId);
-          return seedScore.toString();
-        } catch (error) {
-          console.error(`Error fetching blessing score for seed ${seedId}:`, error);
-          return "0";
-        }
-      })(),
+      // Extract results
+      const { metadata, metadataError, metadataStatus, validationErrors } = metadataResult.status === 'fulfilled'
+        ? metadataResult.value
+        : { metadata: null, metadataError: "Failed to fetch", metadataStatus: "unavailable" as const, validationErrors: [] };
 
-      // Fetch commandments
-      (async () => {
-        try {
-          return await commandmentService.getCommandmentsBySeed(seedId);
-        } catch (error) {
-          console.error(`Error fetching commandments for seed ${seedId}:`, error);
-          return [];
-        }
-      })(),
-    ]);
-
-    // Extract results
-    const { metadata, metadataError } = metadataResult.status === 'fulfilled'
-      ? metadataResult.value
-      : { metadata: null, metadataError: "Failed to fetch" };
-
-    const score = scoreResult.status === 'fulfilled' ? scoreResult.value : "0";
-    const commandments = commandmentsResult.status === 'fulfilled' ? commandmentsResult.value : [];
-
-    return c.json({
-      success: true,
-      data: {
-        id: Number(seed.id),
-        creator: seed.creator,
-        ipfsHash: seed.ipfsHash,
-        blessings: Number(seed.blessings),
-        score: score,
-        createdAt: Number(seed.createdAt),
-        isWinner: seed.isWinner,
-        isRetracted: seed.isRetracted,
-        winnerInRound: Number(seed.winnerInRound),
-        submittedInRound: Number(seed.submittedInRound),
-        metadata: metadata,
-        metadataError: metadataError,
-        commandments: commandments,
-        commandmentCount: commandments.length,
-      },
-    });
-  } catch (error) {
-    console.error("Error fetching seed:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to fetch seed",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
+      const score = scoreResult.status === 'fulfilled' ? scoreResult.value : "0";
+      const commandments = commandmentsResult.status === 'fulfilled' ? commandmentsResult.value : [];
+
+      return c.json({
+        success: true,
+        data: {
+          id: Number(seed.id),
+          creator: seed.creator,
+          ipfsHash: seed.ipfsHash,
+          blessings: Number(seed.blessings),
+          score: score,
+          createdAt: Number(seed.createdAt),
+          isWinner: seed.isWinner,
+          isRetracted: seed.isRetracted,
+          winnerInRound: Number(seed.winnerInRound),
+          submittedInRound: Number(seed.submittedInRound),
+          metadata: metadata,
+          metadataError: metadataError,
+          metadataStatus: metadataStatus,
+          validationErrors: validationErrors,
+          commandments: commandments,
+          commandmentCount: commandments.length,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching seed:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch seed",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
+      );
+    }
   }
-});
+);
 
 /**
  * GET /seeds/:seedId/score
@@ -847,477 +987,392 @@ seeds.get("/:seedId", async (c) => {
  * The blessing score is calculated using sqrt of per-user blessings with time decay.
  * This prevents gaming the system by having one user spam blessings.
  */
-seeds.get("/:seedId/score", async (c) => {
-  try {
-    const seedId = parseInt(c.req.param("seedId"));
+seeds.get(
+  "/:seedId/score",
+  api.get("/:seedId/score", {
+    summary: "Get the blessing score of a seed",
+    params: SeedIdParams,
+  }),
+  async (c) => {
+    try {
+      const { seedId } = c.req.valid("param");
+
+      const score = await contractService.getSeedBlessingScore(seedId);
 
-    if (isNaN(seedId) || seedId < 0) {
+      // Get seed details for additional context
+      let seed = null;
+      try {
+        seed = await contractService.getSeed(seedId);
+      } catch (error) {
+        console.warn(`Could not fetch seed details for ${seedId}:`, error);
+      }
+
+      return c.json({
+        success: true,
+        data: {
+          seedId,
+          score: score.toString(),
+          rawBlessings: seed ? Number(seed.blessings) : null,
+          isWinner: seed ? seed.isWinner : null,
+          note: "Score is calculated using sqrt of per-user blessings with time decay",
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching seed blessing score:", error);
       return c.json(
         {
           success: false,
-          error: "Invalid seedId",
+          error: "Failed to fetch seed blessing score",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
-
-    const score = await contractService.getSeedBlessingScore(seedId);
-
-    // Get seed details for additional context
-    let seed = null;
-    try {
-      seed = await contractService.getSeed(seedId);
-    } catch (error) {
-      console.warn(`Could not fetch seed details for ${seedId}:`, error);
-    }
-
-    return c.json({
-      success: true,
-      data: {
-        seedId,
-        score: score.toString(),
-        rawBlessings: seed ? Number(seed.blessings) : null,
-        isWinner: seed ? seed.isWinner : null,
-        note: "Score is calculated using sqrt of per-user blessings with time decay",
-      },
-    });
-  } catch (error) {
-    console.error("Error fetching seed blessing score:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to fetch seed blessing score",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
+);
 
 /**
  * GET /seeds/creator/:address/check
  * Check if an address has CREATOR_ROLE
  */
-seeds.get("/creator/:address/check", async (c) => {
-  try {
-    const address = c.req.param("address") as Address;
+seeds.get(
+  "/creator/:address/check",
+  api.get("/creator/:address/check", {
+    summary: "Check if an address has CREATOR_ROLE",
+    params: AddressParams,
+  }),
+  async (c) => {
+    try {
+      const { address } = c.req.valid("param");
 
-    if (!address || !address.startsWith("0x")) {
+      const hasRole = await contractService.hasCreatorRole(address);
+
+      return c.json({
+        success: true,
+        data: {
+          address,
+          hasCreatorRole: hasRole,
+        },
+      });
+    } catch (error) {
+      console.error("Error checking creator role:", error);
       return c.json(
         {
           success: false,
-          error: "Invalid address",
+          error: "Failed to check creator role",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
-
-    const hasRole = await contractService.hasCreatorRole(address);
-
-    return c.json({
-      success: true,
-      data: {
-        address,
-        hasCreatorRole: hasRole,
-      },
-    });
-  } catch (error) {
-    console.error("Error checking creator role:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to check creator role",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
+);
 
 /**
  * GET /seeds/round/current
  * Get all seeds from the current round with metadata and scores
  */
-seeds.get("/round/current", async (c) => {
-  try {
-    const currentRound = await contractService.getCurrentRound();
-    const roundSeeds = await contractService.getCurrentRoundSeeds();
-
-    // Fetch metadata and scores for each seed in parallel
-    const seedsWithMetadata = await Promise.all(
-      roundSeeds.map(async (seed) => {
-        const seedId = Number(seed.id);
-
-        // Fetch IPFS metadata and blessing score in parallel
-        const [metadataResult, scoreResult] = await Promise.allSettled([
-          // Fetch IPFS metadata
-          (async () => {
-            if (!seed.ipfsHash) return { metadata: null, metadataError: null };
-
-            try {
-              const ipfsGateway = process.env.IPFS_GATEWAY || "https://tomato-causal-partridge-743.mypinata.cloud/ipfs/";
-              const ipfsUrl = seed.ipfsHash.startsWith("ipfs://")
-                ? seed.ipfsHash.replace("ipfs://", ipfsGateway)
-                : seed.ipfsHash.startsWith("http")
-                ? seed.ipfsHash
-                : `${ipfsGateway}${seed.ipfsHash}`;
-
-              const response = await fetch(ipfsUrl);
-
-              if (response.ok) {
-                return { metadata: await response.json(), metadataError: null };
-              } else {
-                return { metadata: null, metadataError: `HTTP ${response.status}` };
+seeds.get(
+  "/round/current",
+  api.get("/round/current", {
+    summary: "Get the current round's seeds with metadata and scores",
+  }),
+  async (c) => {
+    try {
+      const currentRound = await contractService.getCurrentRound();
+      const roundSeeds = await contractService.getCurrentRoundSeeds();
+
+      // Fetch metadata and scores for each seed in parallel
+      const seedsWithMetadata = await Promise.all(
+        roundSeeds.map(async (seed) => {
+          const seedId = Number(seed.id);
+
+          // Fetch IPFS metadata and blessing score in parallel
+          const [metadataResult, scoreResult] = await Promise.allSettled([
+            // Fetch IPFS metadata
+            seedMetadataService.resolve(seed.ipfsHash),
+
+            // Fetch blessing score
+            (async () => {
+              try {
+                const seedScore = await contractService.getSeedBlessingScore(seedId);
+                return Number(seedScore);
+              } catch (error) {
+                console.error(`Error fetching blessing score for seed ${seedId}:`, error);
+                return 0;
               }
-            } catch (error) {
-              const errorMsg = error instanceof Error ? error.message : "Failed to fetch metadata";
-              console.error(`Error fetching IPFS metadata for seed ${seedId}:`, error);
-              return { metadata: null, metadataError: errorMsg };
-            }
-          })(),
+            })(),
+          ]);
 
-          // Fetch blessing score
-          (async () => {
-            try {
-              const seedScore = await contractService.getSeedBlessingScore(seedId);
-              return Number(seedScore);
-            } catch (error) {
-              console.error(`Error fetching blessing score for seed ${seedId}:`, error);
-              return 0;
-            }
-          })(),
-        ]);
-
-        // Extract results
-        const { metadata, metadataError } = metadataResult.status === 'fulfilled'
-          ? metadataResult.value
-          : { metadata: null, metadataError: "Failed to fetch" };
-
-        const score = scoreResult.status === 'fulfilled' ? scoreResult.value : 0;
-
-        return {
-          id: seedId,
-          creator: seed.creator,
-          ipfsHash: seed.ipfsHash,
-          blessings: Number(seed.blessings),
-          score: score,
-          createdAt: Number(seed.createdAt),
-          isWinner: seed.isWinner,
-          isRetracted: seed.isRetracted,
-          winnerInRound: Number(seed.winnerInRound),
-          submittedInRound: Number(seed.submittedInRound),
-          metadata: metadata,
-          metadataError: metadataError,
-        };
-      })
-    );
-
-    return c.json({
-      success: true,
-      data: {
-        currentRound: Number(currentRound),
-        seeds: seedsWithMetadata,
-        count: seedsWithMetadata.length,
-      },
-    });
-  } catch (error) {
-    console.error("Error fetching current round seeds:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to fetch current round seeds",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
+          // Extract results
+          const { metadata, metadataError, metadataStatus, validationErrors } = metadataResult.status === 'fulfilled'
+            ? metadataResult.value
+            : { metadata: null, metadataError: "Failed to fetch", metadataStatus: "unavailable" as const, validationErrors: [] };
+
+          const score = scoreResult.status === 'fulfilled' ? scoreResult.value : 0;
+
+          return {
+            id: seedId,
+            creator: seed.creator,
+            ipfsHash: seed.ipfsHash,
+            blessings: Number(seed.blessings),
+            score: score,
+            createdAt: Number(seed.createdAt),
+            isWinner: seed.isWinner,
+            isRetracted: seed.isRetracted,
+            winnerInRound: Number(seed.winnerInRound),
+            submittedInRound: Number(seed.submittedInRound),
+            metadata: metadata,
+            metadataError: metadataError,
+            metadataStatus: metadataStatus,
+            validationErrors: validationErrors,
+          };
+        })
+      );
+
+      return c.json({
+        success: true,
+        data: {
+          currentRound: Number(currentRound),
+          seeds: seedsWithMetadata,
+          count: seedsWithMetadata.length,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching current round seeds:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch current round seeds",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
+      );
+    }
   }
-});
+);
 
 /**
  * GET /seeds/round/:roundNumber
  * Get all seeds from a specific round with metadata and scores
  */
-seeds.get("/round/:roundNumber", async (c) => {
-  try {
-    const roundNumber = parseInt(c.req.param("roundNumber"));
+seeds.get(
+  "/round/:roundNumber",
+  api.get("/round/:roundNumber", {
+    summary: "Get a round's seeds with metadata and scores",
+    params: z.object({ roundNumber: RoundSchema }),
+  }),
+  async (c) => {
+    try {
+      const { roundNumber } = c.req.valid("param");
+
+      const roundSeeds = await contractService.getSeedsByRound(roundNumber);
+
+      // Fetch metadata and scores for each seed in parallel
+      const seedsWithMetadata = await Promise.all(
+        roundSeeds.map(async (seed) => {
+          const seedId = Number(seed.id);
+
+          // Fetch IPFS metadata and blessing score in parallel
+          const [metadataResult, scoreResult] = await Promise.allSettled([
+            // Fetch IPFS metadata
+            seedMetadataService.resolve(seed.ipfsHash),
+
+            // Fetch blessing score
+            (async () => {
+              try {
+                const seedScore = await contractService.getSeedBlessingScore(seedId);
+                return Number(seedScore);
+              } catch (error) {
+                console.error(`Error fetching blessing score for seed ${seedId}:`, error);
+                return 0;
+              }
+            })(),
+          ]);
+
+          // Extract results
+          const { metadata, metadataError, metadataStatus, validationErrors } = metadataResult.status === 'fulfilled'
+            ? metadataResult.value
+            : { metadata: null, metadataError: "Failed to fetch", metadataStatus: "unavailable" as const, validationErrors: [] };
 
-    if (isNaN(roundNumber) || roundNumber < 1) {
+          const score = scoreResult.status === 'fulfilled' ? scoreResult.value : 0;
+
+          return {
+            id: seedId,
+            creator: seed.creator,
+            ipfsHash: seed.ipfsHash,
+            blessings: Number(seed.blessings),
+            score: score,
+            createdAt: Number(seed.createdAt),
+            isWinner: seed.isWinner,
+            isRetracted: seed.isRetracted,
+            winnerInRound: Number(seed.winnerInRound),
+            submittedInRound: Number(seed.submittedInRound),
+            metadata: metadata,
+            metadataError: metadataError,
+            metadataStatus: metadataStatus,
+            validationErrors: validationErrors,
+          };
+        })
+      );
+
+      return c.json({
+        success: true,
+        data: {
+          round: roundNumber,
+          seeds: seedsWithMetadata,
+          count: seedsWithMetadata.length,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching round seeds:", error);
       return c.json(
         {
           success: false,
-          error: "Invalid round number",
+          error: "Failed to fetch round seeds",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
-
-    const roundSeeds = await contractService.getSeedsByRound(roundNumber);
-
-    // Fetch metadata and scores for each seed in parallel
-    const seedsWithMetadata = await Promise.all(
-      roundSeeds.map(async (seed) => {
-        const seedId = Number(seed.id);
-
-        // Fetch IPFS metadata and blessing score in parallel
-        const [metadataResult, scoreResult] = await Promise.allSettled([
-          // Fetch IPFS metadata
-          (async () => {
-            if (!seed.ipfsHash) return { metadata: null, metadataError: null };
-
-            try {
-              const ipfsGateway = process.env.IPFS_GATEWAY || "https://tomato-causal-partridge-743.mypinata.cloud/ipfs/";
-              const ipfsUrl = seed.ipfsHash.startsWith("ipfs://")
-                ? seed.ipfsHash.replace("ipfs://", ipfsGateway)
-                : seed.ipfsHash.startsWith("http")
-                ? seed.ipfsHash
-                : `${ipfsGateway}${seed.ipfsHash}`;
-
-              const response = await fetch(ipfsUrl);
-
-              if (response.ok) {
-                return { metadata: await response.json(), metadataError: null };
-              } else {
-                return { metadata: null, metadataError: `HTTP ${response.status}` };
-              }
-            } catch (error) {
-              const errorMsg = error instanceof Error ? error.message : "Failed to fetch metadata";
-              console.error(`Error fetching IPFS metadata for seed ${seedId}:`, error);
-              return { metadata: null, metadataError: errorMsg };
-            }
-          })(),
-
-          // Fetch blessing score
-          (async () => {
-            try {
-              const seedScore = await contractService.getSeedBlessingScore(seedId);
-              return Number(seedScore);
-            } catch (error) {
-              console.error(`Error fetching blessing score for seed ${seedId}:`, error);
-              return 0;
-            }
-          })(),
-        ]);
-
-        // Extract results
-        const { metadata, metadataError } = metadataResult.status === 'fulfilled'
-          ? metadataResult.value
-          : { metadata: null, metadataError: "Failed to fetch" };
-
-        const score = scoreResult.status === 'fulfilled' ? scoreResult.value : 0;
-
-        return {
-          id: seedId,
-          creator: seed.creator,
-          ipfsHash: seed.ipfsHash,
-          blessings: Number(seed.blessings),
-          score: score,
-          createdAt: Number(seed.createdAt),
-          isWinner: seed.isWinner,
-          isRetracted: seed.isRetracted,
-          winnerInRound: Number(seed.winnerInRound),
-          submittedInRound: Number(seed.submittedInRound),
-          metadata: metadata,
-          metadataError: metadataError,
-        };
-      })
-    );
-
-    return c.json({
-      success: true,
-      data: {
-        round: roundNumber,
-        seeds: seedsWithMetadata,
-        count: seedsWithMetadata.length,
-      },
-    });
-  } catch (error) {
-    console.error("Error fetching round seeds:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to fetch round seeds",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
+);
 
 /**
  * GET /seeds/token/:tokenId
  * Get seed information by its NFT token ID
  */
-seeds.get("/token/:tokenId", async (c) => {
-  try {
-    const tokenId = parseInt(c.req.param("tokenId"));
+seeds.get(
+  "/token/:tokenId",
+  api.get("/token/:tokenId", {
+    summary: "Get a seed by its NFT token ID",
+    params: z.object({ tokenId: TokenIdSchema }),
+  }),
+  async (c) => {
+    try {
+      const { tokenId } = c.req.valid("param");
+
+      // Get seed ID from token ID
+      const seedId = await contractService.getSeedIdByTokenId(tokenId);
+
+      // Get seed details
+      const seed = await contractService.getSeed(Number(seedId));
+
+      // IPFS metadata (cached by CID, normalized)
+      const { metadata, metadataError, metadataStatus, validationErrors } =
+        await seedMetadataService.resolve(seed.ipfsHash);
 
-    if (isNaN(tokenId) || tokenId < 0) {
+      return c.json({
+        success: true,
+        data: {
+          tokenId,
+          seedId: Number(seedId),
+          seed: {
+            id: Number(seed.id),
+            creator: seed.creator,
+            ipfsHash: seed.ipfsHash,
+            blessings: Number(seed.blessings),
+            createdAt: Number(seed.createdAt),
+            isWinner: seed.isWinner,
+            isRetracted: seed.isRetracted,
+            winnerInRound: Number(seed.winnerInRound),
+            submittedInRound: Number(seed.submittedInRound),
+          },
+          metadata,
+          metadataError,
+          metadataStatus,
+          validationErrors,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching seed by token:", error);
       return c.json(
         {
           success: false,
-          error: "Invalid tokenId",
+          error: "Failed to fetch seed by token ID",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
-
-    // Get seed ID from token ID
-    const seedId = await contractService.getSeedIdByTokenId(tokenId);
-
-    // Get seed details
-    const seed = await contractService.getSeed(Number(seedId));
-
-    // Fetch IPFS metadata
-    let metadata = null;
-    let metadataError = null;
-
-    if (seed.ipfsHash) {
-      try {
-        const ipfsGateway = process.env.IPFS_GATEWAY || "https://tomato-causal-partridge-743.mypinata.cloud/ipfs/";
-        const ipfsUrl = seed.ipfsHash.startsWith("ipfs://")
-          ? seed.ipfsHash.replace("ipfs://", ipfsGateway)
-          : seed.ipfsHash.startsWith("http")
-          ? seed.ipfsHash
-          : `${ipfsGateway}${seed.ipfsHash}`;
-
-        const response = await fetch(ipfsUrl);
-
-        if (response.ok) {
-          metadata = await response.json();
-        } else {
-          metadataError = `HTTP ${response.status}`;
-        }
-      } catch (error) {
-        metadataError = error instanceof Error ? error.message : "Failed to fetch metadata";
-        console.error(`Error fetching IPFS metadata:`, error);
-      }
-    }
-
-    return c.json({
-      success: true,
-      data: {
-        tokenId,
-        seedId: Number(seedId),
-        seed: {
-          id: Number(seed.id),
-          creator: seed.creator,
-          ipfsHash: seed.ipfsHash,
-          blessings: Number(seed.blessings),
-          createdAt: Number(seed.createdAt),
-          isWinner: seed.isWinner,
-          isRetracted: seed.isRetracted,
-          winnerInRound: Number(seed.winnerInRound),
-          submittedInRound: Number(seed.submittedInRound),
-        },
-        metadata,
-        metadataError,
-      },
-    });
-  } catch (error) {
-    console.error("Error fetching seed by token:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to fetch seed by token ID",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
+);
 
 /**
  * GET /seeds/:seedId/token
  * Get NFT token ID for a winning seed
  * Returns 0 if seed hasn't won yet
  */
-seeds.get("/:seedId/token", async (c) => {
-  try {
-    const seedId = parseInt(c.req.param("seedId"));
+seeds.get(
+  "/:seedId/token",
+  api.get("/:seedId/token", {
+    summary: "Get the NFT token ID of a winning seed (0 if it hasn't won)",
+    params: SeedIdParams,
+  }),
+  async (c) => {
+    try {
+      const { seedId } = c.req.valid("param");
+
+      const tokenId = await contractService.getTokenIdBySeedId(seedId);
 
-    if (isNaN(seedId) || seedId < 0) {
+      return c.json({
+        success: true,
+        data: {
+          seedId,
+          tokenId: Number(tokenId),
+          hasWon: tokenId > 0n,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching token for seed:", error);
       return c.json(
         {
           success: false,
-          error: "Invalid seedId",
+          error: "Failed to fetch token ID for seed",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
-
-    const tokenId = await contractService.getTokenIdBySeedId(seedId);
-
-    return c.json({
-      success: true,
-      data: {
-        seedId,
-        tokenId: Number(tokenId),
-        hasWon: tokenId > 0n,
-      },
-    });
-  } catch (error) {
-    console.error("Error fetching token for seed:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to fetch token ID for seed",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
+);
 
 /**
  * GET /seeds/:seedId/score/round/:roundNumber
  * Get blessing score for a seed in a specific round
  */
-seeds.get("/:seedId/score/round/:roundNumber", async (c) => {
-  try {
-    const seedId = parseInt(c.req.param("seedId"));
-    const roundNumber = parseInt(c.req.param("roundNumber"));
+seeds.get(
+  "/:seedId/score/round/:roundNumber",
+  api.get("/:seedId/score/round/:roundNumber", {
+    summary: "Get the blessing score of a seed in a specific round",
+    params: z.object({ seedId: SeedIdSchema, roundNumber: RoundSchema }),
+  }),
+  async (c) => {
+    try {
+      const { seedId, roundNumber } = c.req.valid("param");
 
-    if (isNaN(seedId) || seedId < 0) {
-      return c.json(
-        {
-          success: false,
-          error: "Invalid seedId",
-        },
-        400
-      );
-    }
+      const score = await contractService.getSeedScoreByRound(roundNumber, seedId);
 
-    if (isNaN(roundNumber) || roundNumber < 1) {
+      return c.json({
+        success: true,
+        data: {
+          seedId,
+          round: roundNumber,
+          score: score.toString(),
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching seed score by round:", error);
       return c.json(
         {
           success: false,
-          error: "Invalid round number",
+          error: "Failed to fetch seed score for round",
+          details: error instanceof Error ? error.message : String(error),
         },
-        400
+        500
       );
     }
-
-    const score = await contractService.getSeedScoreByRound(roundNumber, seedId);
-
-    return c.json({
-      success: true,
-      data: {
-        seedId,
-        round: roundNumber,
-        score: score.toString(),
-      },
-    });
-  } catch (error) {
-    console.error("Error fetching seed score by round:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to fetch seed score for round",
-        details: error instanceof Error ? error.message : String(error),
-      },
-      500
-    );
   }
-});
+);
 
 export default seeds;
@@ -0,0 +1,154 @@
+import { Hono } from "hono";
+import { streamSSE } from "hono/streaming";
+import { streamService, type StreamEvent } from "../services/streamService.js";
+import { openApi } from "../openapi/registry.js";
+import { z } from "zod/v4";
+
+const stream = new Hono();
+const api = openApi.group("/api/stream", "Live Updates");
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+/**
+ * GET /api/stream
+ * Server-Sent Events stream of live seeds contract activity
+ *
+ * Query params:
+ *   - topics: comma-separated filters (optional, default: everything)
+ *       seed:<id>       events for a seed (blessings, commandments, score updates, wins)
+ *       user:<address>  events by a wallet (blessings, commandments, seeds, score updates,
+ *                       delegate approvals)
+ *       round           winner selection and round start
+ *
+ * Headers:
+ *   - Last-Event-ID: resume after "<blockNumber>-<logIndex>" (optional,
+ *     also accepted as ?lastEventId= for clients that cannot set headers)
+ *
+ * SSE event names: blessing, commandment, seed, scoreUpdate, winner, roundStart,
+ * delegateApproval
+ * Every event has `confirmed`: false while it is within the last
+ * INDEXER_CONFIRMATIONS blocks (all live events); a reorg may still drop it.
+ * A "ping" event is sent every 25 seconds to keep the connection open.
+ *
+ * Note: long-lived connections require a server runtime (npm run dev/start);
+ * serverless platforms will close the stream at their function timeout.
+ */
+stream.get(
+  "/",
+  api.get("/", {
+    summary: "Server-Sent Events stream of live seeds contract activity",
+    query: z.object({
+      topics: z
+        .string()
+        .optional()
+        .describe("Comma-separated filters: seed:<id>, user:<address>, round"),
+      lastEventId: z
+        .string()
+        .optional()
+        .describe("Resume after this event ID (same as the Last-Event-ID header)"),
+    }),
+    responses: { 200: "text/event-stream of contract events" },
+  }),
+  async (c) => {
+    const query = c.req.valid("query");
+    const { topics, error } = streamService.parseTopics(query.topics);
+
+    if (error) {
+      return c.json(
+        {
+          success: false,
+          error,
+          details: "Valid topics: seed:<id>, user:<address>, round",
+        },
+        400
+      );
+    }
+
+    const lastEventId =
+      c.req.header("Last-Event-ID") || query.lastEventId;
+
+    return streamSSE(c, async (sse) => {
+      let lastSentId: string | null = null;
+      let writeQueue = Promise.resolve();
+
+      const send = (event: StreamEvent) => {
+        if (!streamService.matchesTopics(event, topics)) return;
+
+        const id = streamService.getEventId(event);
+        writeQueue = writeQueue
+          .then(() =>
+            sse.writeSSE({
+              id,
+              event: event.type,
+              data: JSON.stringify(streamService.serializeEvent(event)),
+            })
+          )
+          .then(() => {
+            lastSentId = id;
+          })
+          .catch(() => {
+            // Client disconnected; cleanup happens in onAbort
+          });
+      };
+
+      // Buffer live events until missed events are replayed
+      const pending: StreamEvent[] = [];
+      let replaying = Boolean(lastEventId);
+
+      const unsubscribe = streamService.subscribe((event) => {
+        if (replaying) {
+          pending.push(event);
+        } else {
+          send(event);
+        }
+      });
+
+      let closed = false;
+      sse.onAbort(() => {
+        closed = true;
+        unsubscribe();
+      });
+
+      if (lastEventId) {
+        try {
+          const missed = await streamService.getEventsAfter(lastEventId);
+          const replayed = new Set<string>();
+          for (const event of missed) {
+            replayed.add(streamService.getEventId(event));
+            send(event);
+          }
+          for (const event of pending) {
+            if (!replayed.has(streamService.getEventId(event))) {
+              send(event);
+            }
+          }
+        } catch (error) {
+          console.error("Error replaying stream events:", error);
+        }
+        pending.length = 0;
+        replaying = false;
+      }
+
+      while (!closed) {
+        await sse.sleep(HEARTBEAT_INTERVAL_MS);
+        if (closed) break;
+
+        writeQueue = writeQueue
+          .then(() =>
+            sse.writeSSE({
+              event: "ping",
+              data: JSON.stringify({ lastEventId: lastSentId }),
+            })
+          )
+          .catch(() => {
+            closed = true;
+          });
+        await writeQueue;
+      }
+
+      unsubscribe();
+    });
+  }
+);
+
+export default stream;
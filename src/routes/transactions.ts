@@ -0,0 +1,72 @@
+import { Hono } from "hono";
+import { contractService } from "../services/contractService.js";
+import { serializeRelayerTransaction } from "../services/relayerService.js";
+import { openApi } from "../openapi/registry.js";
+import { z } from "zod/v4";
+
+const transactions = new Hono();
+const api = openApi.group("/api/transactions", "Relayer Transactions");
+
+/**
+ * GET /api/transactions/:txId
+ * Get the status of a transaction sent by the relayer on a user's behalf
+ * (txId is returned by POST /api/blessings, /api/commandments, /api/seeds)
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "id": string,
+ *     "purpose": string,
+ *     "status": "queued" | "pending" | "confirmed" | "reverted" | "failed",
+ *     "hash": "0x...",           // Latest broadcast hash (mined hash once confirmed)
+ *     "hashes": ["0x..."],       // All hashes, including fee-bump replacements
+ *     "nonce": number,
+ *     "replacements": number,
+ *     "blockNumber": number,
+ *     "error": string,
+ *     ...
+ *   }
+ * }
+ */
+transactions.get(
+  "/:txId",
+  api.get("/:txId", {
+    summary: "Get the status of a relayer transaction",
+    params: z.object({ txId: z.string().min(1) }),
+    responses: { 404: "Transaction not found" },
+  }),
+  async (c) => {
+    try {
+      const { txId } = c.req.valid("param");
+      const tx = await contractService.getRelayerTransaction(txId);
+
+      if (!tx) {
+        return c.json(
+          {
+            success: false,
+            error: "Transaction not found",
+          },
+          404
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: serializeRelayerTransaction(tx),
+      });
+    } catch (error) {
+      console.error("Error fetching transaction:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch transaction",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        500
+      );
+    }
+  }
+);
+
+export default transactions;
@@ -10,6 +10,8 @@ if (process.env.NODE_ENV !== 'production') {
 
 import { serve } from '@hono/node-server'
 import app from './index.js'
+import { webhookService } from './services/webhookService.js'
+import { blessingBatchService } from './services/blessingBatchService.js'
 
 const port = parseInt(process.env.PORT || '3000')
 
@@ -21,3 +23,13 @@ serve({
 })
 
 console.log(`✅ Server running at http://localhost:${port}`)
+
+// Background work for long-running servers (pending webhook retries, auction settlement watcher,
+// queued blessing batches)
+webhookService.start().catch((error) => {
+  console.error('❌ Failed to start webhook service:', error)
+})
+
+blessingBatchService.start().catch((error) => {
+  console.error('❌ Failed to start blessing batch service:', error)
+})
@@ -598,6 +598,46 @@ class AbrahamService {
       args: [BigInt(auctionId)],
     })) as boolean;
   }
+
+  /**
+   * Watch AbrahamAuction for settled auctions
+   * Uses polling on HTTP transports (viem default)
+   *
+   * @returns Function that stops watching, or null if the auction is not configured
+   */
+  watchAuctionSettled(
+    onSettled: (settlement: {
+      auctionId: number;
+      tokenId: number;
+      winner: Address;
+      winningBid: bigint;
+      txHash: Hash;
+    }) => void
+  ): (() => void) | null {
+    if (!this.auctionAddress || !AUCTION_ABI) {
+      return null;
+    }
+
+    return this.publicClient.watchContractEvent({
+      address: this.auctionAddress,
+      abi: AUCTION_ABI,
+      eventName: "AuctionSettled",
+      onLogs: (logs: any[]) => {
+        for (const log of logs) {
+          onSettled({
+            auctionId: Number(log.args.auctionId),
+            tokenId: Number(log.args.tokenId),
+            winner: log.args.winner,
+            winningBid: log.args.winningBid,
+            txHash: log.transactionHash,
+          });
+        }
+      },
+      onError: (error: Error) => {
+        console.error("❌ AuctionSettled watcher error:", error);
+      },
+    });
+  }
 }
 
 // Singleton instance
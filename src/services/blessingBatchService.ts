@@ -0,0 +1,404 @@
+/**
+ * Blessing Batch Service
+ *
+ * Purpose: Aggregate relayed blessings from many users into a single
+ * batchBlessSeedsFor transaction to cut relayer gas on busy days
+ *
+ * Logic:
+ * - POST /api/blessings enqueues the blessing and returns a receipt ID
+ * - The queue is flushed every BLESSING_BATCH_INTERVAL_MS or as soon as
+ *   BLESSING_BATCH_MAX_SIZE blessings are waiting, whichever comes first
+ * - Each receipt resolves (confirmed / failed) once its batch lands; the
+ *   contract skips invalid entries instead of reverting, so receipts are
+ *   resolved individually from the BlessingSubmitted events
+ * - Receipts (and with them the queue) live in the shared record store
+ *   (STATE_STORE), so a receipt can be polled on any instance and a restart
+ *   flushes queued blessings instead of dropping them (on serverless,
+ *   POST /api/admin/blessing-batches/flush). A flush claims each receipt it
+ *   sends, so two instances never send the same blessing.
+ *
+ * Only available on the legacy TheSeeds contract (enable with
+ * BLESSING_BATCH_MODE=true). AbrahamSeeds has no batch entry point, so
+ * blessings are sent one transaction at a time there.
+ */
+
+import { randomUUID } from "crypto";
+import type { Address, Hash } from "viem";
+import { createRecordStore } from "../../lib/storage/recordStore.js";
+import { contractService } from "./contractService.js";
+import { indexerService } from "./indexerService.js";
+import { quotaStore, type QuotaReservation } from "./quotaStore.js";
+
+export type BlessingReceiptStatus =
+  | "queued"
+  | "submitted"
+  | "confirmed"
+  | "failed";
+
+export interface BlessingReceipt {
+  id: string;
+  status: BlessingReceiptStatus;
+  seedId: number;
+  blesser: Address;
+  tokenIds: number[];
+  merkleProof: string[];
+  batchId?: string;
+  batchSize?: number;
+  txId?: string;
+  txHash?: Hash;
+  // Held blessing allowance, committed or released when the batch lands
+  quotaReservation?: QuotaReservation;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  resolvedAt?: string;
+}
+
+class BlessingBatchService {
+  private receipts = createRecordStore<BlessingReceipt>({
+    collection: "blessing-batch-receipts",
+    filename: "blessings/batch-receipts.json",
+    field: "receipts",
+    id: (receipt) => receipt.id,
+  });
+  private lastTrimAt = 0;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<number> | null = null;
+  private waiters = new Map<string, Array<(receipt: BlessingReceipt) => void>>();
+
+  private readonly ENABLED = process.env.BLESSING_BATCH_MODE === "true";
+  private readonly FLUSH_INTERVAL_MS =
+    Number(process.env.BLESSING_BATCH_INTERVAL_MS) || 10 * 1000;
+  private readonly MAX_BATCH_SIZE =
+    Number(process.env.BLESSING_BATCH_MAX_SIZE) || 50;
+  private readonly MAX_STORED_RECEIPTS = 5000;
+  private readonly TRIM_INTERVAL_MS = 5 * 60 * 1000;
+  // Longer than sending a batch and waiting for it to be mined
+  private readonly SEND_CLAIM_TTL_MS = 15 * 60 * 1000;
+
+  /**
+   * Check if blessings should be batched
+   */
+  isEnabled(): boolean {
+    return this.ENABLED && contractService.supportsBatchBlessing();
+  }
+
+  /**
+   * Keep the log bounded: drop the oldest resolved receipts (at most every
+   * TRIM_INTERVAL_MS, as it reads the whole log)
+   */
+  private async trim(): Promise<void> {
+    if (Date.now() - this.lastTrimAt < this.TRIM_INTERVAL_MS) {
+      return;
+    }
+    this.lastTrimAt = Date.now();
+
+    const resolved = (await this.receipts.list())
+      .filter((receipt) => receipt.status === "confirmed" || receipt.status === "failed")
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    if (resolved.length > this.MAX_STORED_RECEIPTS) {
+      await this.receipts.delete(
+        resolved.slice(this.MAX_STORED_RECEIPTS).map((receipt) => receipt.id)
+      );
+    }
+  }
+
+  private async listQueued(): Promise<BlessingReceipt[]> {
+    return (await this.receipts.list())
+      .filter((receipt) => receipt.status === "queued")
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Get a receipt by ID
+   */
+  async getReceipt(receiptId: string): Promise<BlessingReceipt | null> {
+    return this.receipts.get(receiptId);
+  }
+
+  /**
+   * Add a blessing to the next batch
+   */
+  async enqueue(input: {
+    seedId: number;
+    blesser: Address;
+    tokenIds: number[];
+    merkleProof: string[];
+    quotaReservation?: QuotaReservation;
+  }): Promise<BlessingReceipt> {
+    const now = new Date().toISOString();
+
+    const receipt: BlessingReceipt = {
+      id: randomUUID(),
+      status: "queued",
+      seedId: input.seedId,
+      blesser: input.blesser,
+      tokenIds: input.tokenIds,
+      merkleProof: input.merkleProof,
+      quotaReservation: input.quotaReservation,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.receipts.set(receipt.id, receipt);
+    await this.trim();
+
+    const queued = await this.listQueued();
+    if (queued.length >= this.MAX_BATCH_SIZE) {
+      this.flush().catch((error) =>
+        console.error("❌ Blessing batch flush failed:", error)
+      );
+    } else {
+      this.scheduleFlush();
+    }
+
+    return receipt;
+  }
+
+  /**
+   * Wait until a receipt is confirmed or failed
+   *
+   * Resolves as soon as this instance sends the batch; a batch sent by
+   * another instance shows up in the receipt read after the timeout
+   *
+   * @param timeoutMs - Give up and return the current receipt after this long
+   */
+  async waitForReceipt(
+    receiptId: string,
+    timeoutMs: number
+  ): Promise<BlessingReceipt | null> {
+    const receipt = await this.getReceipt(receiptId);
+    if (!receipt || receipt.status === "confirmed" || receipt.status === "failed") {
+      return receipt;
+    }
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.removeWaiter(receiptId, onResolved);
+        this.getReceipt(receiptId).then(
+          (current) => resolve(current || receipt),
+          () => resolve(receipt)
+        );
+      }, timeoutMs);
+
+      const onResolved = (resolved: BlessingReceipt) => {
+        clearTimeout(timer);
+        resolve(resolved);
+      };
+
+      this.waiters.set(receiptId, [
+        ...(this.waiters.get(receiptId) || []),
+        onResolved,
+      ]);
+    });
+  }
+
+  /**
+   * Resume flushing persisted queued blessings after a restart
+   */
+  async start(): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    const receipts = await this.receipts.list();
+    const now = new Date().toISOString();
+    let resumed = 0;
+    let interrupted = 0;
+
+    for (const receipt of receipts) {
+      // A batch interrupted mid-flight may have landed - never send it twice.
+      // A claimed receipt is still being sent by another instance
+      if (receipt.status === "submitted" && (await this.receipts.claim(receipt.id, this.SEND_CLAIM_TTL_MS))) {
+        receipt.status = "failed";
+        receipt.error =
+          "Batch interrupted by a restart - check the relayer transaction log before blessing again";
+        receipt.updatedAt = now;
+        receipt.resolvedAt = now;
+        await this.receipts.set(receipt.id, receipt);
+        await this.receipts.unclaim(receipt.id);
+        interrupted++;
+      } else if (receipt.status === "queued") {
+        resumed++;
+      }
+    }
+
+    if (interrupted > 0) {
+      console.warn(`⚠️  ${interrupted} blessing(s) were in an interrupted batch`);
+    }
+
+    if (resumed > 0) {
+      console.log(`🧺 Resuming ${resumed} queued blessing(s)`);
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Send all queued blessings (in batches of MAX_BATCH_SIZE)
+   * Concurrent calls share one flush
+   *
+   * @returns Number of receipts resolved
+   */
+  async flush(): Promise<number> {
+    if (this.flushing) {
+      return this.flushing;
+    }
+
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    this.flushing = this.flushQueue().finally(() => {
+      this.flushing = null;
+    });
+    return this.flushing;
+  }
+
+  private async flushQueue(): Promise<number> {
+    let resolved = 0;
+
+    while (true) {
+      const batch = await this.claimBatch();
+      if (batch.length === 0) {
+        break;
+      }
+
+      try {
+        resolved += await this.sendBatch(batch);
+      } finally {
+        for (const receipt of batch) {
+          await this.receipts.unclaim(receipt.id);
+        }
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Claim up to MAX_BATCH_SIZE queued receipts (others may be claimed by a
+   * flush on another instance)
+   */
+  private async claimBatch(): Promise<BlessingReceipt[]> {
+    const batch: BlessingReceipt[] = [];
+
+    for (const queued of await this.listQueued()) {
+      if (batch.length >= this.MAX_BATCH_SIZE) break;
+      if (!(await this.receipts.claim(queued.id, this.SEND_CLAIM_TTL_MS))) continue;
+
+      // Read after claiming - another instance may have sent it meanwhile
+      const receipt = await this.receipts.get(queued.id);
+      if (receipt?.status === "queued") {
+        batch.push(receipt);
+      } else {
+        await this.receipts.unclaim(queued.id);
+      }
+    }
+
+    return batch;
+  }
+
+  private async sendBatch(batch: BlessingReceipt[]): Promise<number> {
+    const batchId = randomUUID();
+    const submittedAt = new Date().toISOString();
+
+    for (const receipt of batch) {
+      receipt.status = "submitted";
+      receipt.batchId = batchId;
+      receipt.batchSize = batch.length;
+      receipt.updatedAt = submittedAt;
+      await this.receipts.set(receipt.id, receipt);
+    }
+
+    console.log(`🧺 Sending blessing batch ${batchId} (${batch.length} blessing(s))`);
+
+    const result = await contractService.batchBlessSeedsFor(
+      batch.map((receipt) => ({
+        seedId: receipt.seedId,
+        userAddress: receipt.blesser,
+        tokenIds: receipt.tokenIds,
+        merkleProof: receipt.merkleProof,
+      }))
+    );
+
+    const resolvedAt = new Date().toISOString();
+    batch.forEach((receipt, i) => {
+      receipt.txId = result.txId;
+      receipt.txHash = result.txHash;
+      receipt.updatedAt = resolvedAt;
+      receipt.resolvedAt = resolvedAt;
+
+      if (!result.success) {
+        receipt.status = "failed";
+        receipt.error = result.error || "Blessing batch failed";
+      } else if (!result.blessed?.[i]) {
+        receipt.status = "failed";
+        receipt.error =
+          "Blessing skipped by contract (invalid NFT proof or daily blessing limit reached)";
+      } else {
+        receipt.status = "confirmed";
+      }
+    });
+    for (const receipt of batch) {
+      await this.receipts.set(receipt.id, receipt);
+    }
+
+    for (const receipt of batch) {
+      if (!receipt.quotaReservation) continue;
+      if (receipt.status === "confirmed") {
+        await quotaStore.commit(receipt.quotaReservation);
+      } else {
+        await quotaStore.release(receipt.quotaReservation);
+      }
+    }
+
+    if (result.success) {
+      // Pick up the new blessings on the next indexer query
+      indexerService.invalidate();
+      console.log(
+        `✅ Blessing batch ${batchId} landed: ${result.blessed?.filter(Boolean).length}/${batch.length} blessed (${result.txHash})`
+      );
+    } else {
+      console.error(`❌ Blessing batch ${batchId} failed: ${result.error}`);
+    }
+
+    for (const receipt of batch) {
+      for (const waiter of this.waiters.get(receipt.id) || []) {
+        waiter(receipt);
+      }
+      this.waiters.delete(receipt.id);
+    }
+
+    return batch.length;
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush().catch((error) =>
+        console.error("❌ Blessing batch flush failed:", error)
+      );
+    }, this.FLUSH_INTERVAL_MS);
+    this.flushTimer.unref?.();
+  }
+
+  private removeWaiter(
+    receiptId: string,
+    waiter: (receipt: BlessingReceipt) => void
+  ): void {
+    const remaining = (this.waiters.get(receiptId) || []).filter(
+      (w) => w !== waiter
+    );
+    if (remaining.length > 0) {
+      this.waiters.set(receiptId, remaining);
+    } else {
+      this.waiters.delete(receiptId);
+    }
+  }
+}
+
+export const blessingBatchService = new BlessingBatchService();
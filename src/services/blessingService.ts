@@ -11,36 +11,96 @@
  * - Blessings are written to and read from blockchain (TheSeeds contract)
  * - Local tracking ONLY for rate limiting (not blessing records)
  *
- * This implementation uses in-memory storage for rate limiting only.
- * For production, consider using Redis or a database.
+ * Usage is tracked in the shared quota store (see quotaStore.ts): each
+ * blessing reserves its slot before the transaction is sent and commits it
+ * once the transaction lands, so parallel requests cannot overspend.
  */
 
 import {
   loadLatestSnapshot,
+  loadSnapshotAtBlock,
   getNFTsForAddress,
+  getHoldingsForAddress,
   FirstWorksSnapshot,
+  type CollectionHolding,
 } from "../../lib/snapshots/firstWorksSnapshot.js";
-import { loadMerkleTree } from "../../lib/snapshots/merkleTreeGenerator.js";
+import {
+  loadMerkleTree,
+  getHolderProof,
+  encodeProof,
+  getMultiProof,
+  verifyMultiProof,
+  verifyProof,
+  LEAF_ENCODING,
+  type MerkleProof,
+  type OwnershipMultiProof,
+} from "../../lib/snapshots/merkleTreeGenerator.js";
 import { contractService } from "./contractService.js";
+import { indexerService } from "./indexerService.js";
+import { ownershipRootService } from "./ownershipRootService.js";
+import {
+  blessingBatchService,
+  type BlessingReceipt,
+} from "./blessingBatchService.js";
+import { quotaStore, type QuotaReservation } from "./quotaStore.js";
 import type { Address, Hash } from "viem";
 
-interface MerkleProof {
+/**
+ * Everything a client needs to call the gating contract without the relayer
+ */
+export interface OwnershipProof {
+  address: string;
+  tokenIds: number[];
+  leaf: string;
+  proof: string[];
+  encodedProof: string; // abi.encode(bytes32[]), the AbrahamSeeds `bytes proof` argument
+  verified: boolean; // Proof checked against the root locally
   root: string;
-  proofs: Record<string, string[]>;
-  leaves: Record<string, string>;
+  format: "legacy" | "openzeppelin";
+  leafEncoding: string[];
+  snapshot: { blockNumber: number; timestamp: string };
 }
 
 // Configuration: How many blessings per NFT owned
 const BLESSINGS_PER_NFT = 1;
 
+// Upper bound for blessings in one batch request (keeps batch gas bounded)
+const MAX_BLESSINGS_PER_BATCH = 100;
+
+// Upper bound when the contract has no batch function and each blessing is
+// its own transaction, waited for in turn (keeps the request well within
+// serverless time limits)
+const MAX_SEQUENTIAL_BLESSINGS = 5;
+
+// How long a reserved blessing is held while its transaction is pending
+const BLESSING_RESERVATION_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Blessings to spend on one seed in a batch request
+ */
+export interface BlessingAllocation {
+  seedId: number;
+  count: number;
+}
+
 /**
- * User blessing data structure (for rate limiting only)
+ * Outcome of one allocation in a batch request
+ */
+export interface BlessingAllocationResult extends BlessingAllocation {
+  blessed: number;
+  receiptIds?: string[];
+  txIds?: string[];
+  error?: string;
+}
+
+/**
+ * User blessing allowance for the current period
  */
 interface UserBlessingData {
   walletAddress: string;
   nftCount: number;
   maxBlessings: number; // Total blessings allowed per period
-  usedBlessings: number; // Blessings used in current period
+  usedBlessings: number; // Blessings used (or reserved) in current period
   periodStart: string; // ISO timestamp of current period start
   periodEnd: string; // ISO timestamp of current period end
 }
@@ -49,13 +109,13 @@ interface UserBlessingData {
  * Blessing tracking service
  */
 class BlessingService {
-  // In-memory storage for rate limiting: walletAddress -> UserBlessingData
-  private blessingData: Map<string, UserBlessingData> = new Map();
-
   private snapshot: FirstWorksSnapshot | null = null;
   private merkleTree: MerkleProof | null = null;
   private lastSnapshotLoad: number = 0;
   private readonly SNAPSHOT_CACHE_MS = 5 * 60 * 1000; // Reload snapshot every 5 minutes
+  // Point-in-time snapshots never change, so they are cached until evicted
+  private snapshotsAtBlock = new Map<number, FirstWorksSnapshot>();
+  private readonly MAX_SNAPSHOTS_AT_BLOCK = 10;
 
   constructor() {
     // Initialize snapshot and merkle tree on construction
@@ -122,13 +182,6 @@ class BlessingService {
     return { start, end };
   }
 
-  /**
-   * Check if a period has expired
-   */
-  private isPeriodExpired(periodEnd: string): boolean {
-    return new Date(periodEnd) <= new Date();
-  }
-
   /**
    * Get NFT count for a wallet address
    */
@@ -163,7 +216,7 @@ class BlessingService {
     const tokenIds = this.snapshot.holderIndex[addressLower] || [];
 
     // Get Merkle proof
-    const proof = this.merkleTree.proofs[addressLower] || [];
+    const proof = getHolderProof(this.merkleTree, addressLower)?.proof || [];
 
     if (tokenIds.length === 0) {
       return null; // User owns no NFTs
@@ -172,6 +225,70 @@ class BlessingService {
     return { tokenIds, proof };
   }
 
+  /**
+   * Get the Merkle proof for an address with its leaf encoding
+   * Lets third-party clients call blessSeed directly instead of using the relayer
+   *
+   * @returns null if the address is not in the tree
+   */
+  async getOwnershipProof(walletAddress: string): Promise<OwnershipProof | null> {
+    await this.loadSnapshot();
+
+    if (!this.snapshot || !this.merkleTree) {
+      throw new Error("Snapshot or Merkle tree not loaded");
+    }
+
+    const addressLower = walletAddress.toLowerCase();
+    const holderProof = getHolderProof(this.merkleTree, addressLower);
+    if (!holderProof) {
+      return null;
+    }
+
+    return {
+      address: addressLower,
+      // Must be the exact token IDs (and order) the leaf was built from
+      tokenIds:
+        holderProof.tokenIds ?? (this.snapshot.holderIndex[addressLower] || []),
+      leaf: holderProof.leaf,
+      proof: holderProof.proof,
+      encodedProof: encodeProof(holderProof.proof),
+      verified: verifyProof(
+        holderProof.proof,
+        this.merkleTree.root,
+        holderProof.leaf
+      ),
+      root: this.merkleTree.root,
+      format: this.merkleTree.format || "legacy",
+      leafEncoding: LEAF_ENCODING,
+      snapshot: {
+        blockNumber: this.snapshot.blockNumber,
+        timestamp: this.snapshot.timestamp,
+      },
+    };
+  }
+
+  /**
+   * Get one multi-proof covering several addresses (OpenZeppelin tree format only)
+   */
+  async getOwnershipMultiProof(
+    walletAddresses: string[]
+  ): Promise<OwnershipMultiProof & { root: string; verified: boolean }> {
+    if (!this.merkleTree) {
+      await this.loadMerkleData();
+    }
+    if (!this.merkleTree) {
+      throw new Error("Merkle tree not loaded");
+    }
+
+    const multiProof = getMultiProof(this.merkleTree, walletAddresses);
+
+    return {
+      ...multiProof,
+      root: this.merkleTree.root,
+      verified: verifyMultiProof(this.merkleTree.root, multiProof),
+    };
+  }
+
   /**
    * Count how many blessings a user has performed in the current period
    * Uses the contract's built-in daily blessing counter (resets at midnight UTC)
@@ -197,58 +314,78 @@ class BlessingService {
     }
   }
 
+  private getQuotaKey(walletAddress: string): string {
+    return `blessings:${walletAddress.toLowerCase()}`;
+  }
+
   /**
-   * Initialize or reset user blessing data
-   * Fetches actual blessing count from blockchain to ensure accuracy
+   * Get user blessing data for the current period
+   * Usage comes from the quota store; a new period is seeded with the
+   * blessing count from the blockchain
    */
-  private async initializeUserData(
+  private async getUserData(
     walletAddress: string
   ): Promise<UserBlessingData> {
     const nftCount = await this.getNFTCount(walletAddress);
     const maxBlessings = nftCount * BLESSINGS_PER_NFT;
     const { start, end } = this.getCurrentPeriod();
+    const key = this.getQuotaKey(walletAddress);
+
+    let usage = await quotaStore.getUsage(key);
+    if (!usage) {
+      usage = await quotaStore.sync(
+        key,
+        await this.countBlessingsInCurrentPeriod(walletAddress),
+        end.getTime()
+      );
+    }
 
-    // Fetch actual number of blessings used today from the blockchain
-    const usedBlessings = await this.countBlessingsInCurrentPeriod(
-      walletAddress
-    );
-
-    const data: UserBlessingData = {
+    return {
       walletAddress: walletAddress.toLowerCase(),
       nftCount,
       maxBlessings,
-      usedBlessings,
+      usedBlessings: usage.used + usage.reserved,
       periodStart: start.toISOString(),
       periodEnd: end.toISOString(),
     };
-
-    this.blessingData.set(walletAddress.toLowerCase(), data);
-    return data;
   }
 
   /**
-   * Get user blessing data (creates/resets if needed)
+   * Atomically hold blessings against the user's allowance
+   *
+   * @returns The reservation (commit once the blessings land, release on
+   *          failure), or null if the allowance would be exceeded
    */
-  private async getUserData(
-    walletAddress: string
-  ): Promise<UserBlessingData> {
-    const addressLower = walletAddress.toLowerCase();
-    let data = this.blessingData.get(addressLower);
-
-    // If no data exists or period has expired, initialize/reset
-    if (!data || this.isPeriodExpired(data.periodEnd)) {
-      data = await this.initializeUserData(walletAddress);
-    }
+  private async reserveBlessings(
+    walletAddress: string,
+    amount: number,
+    maxBlessings: number
+  ): Promise<{ reservation: QuotaReservation | null; remainingBlessings: number }> {
+    // Make sure the period is seeded from the blockchain first
+    await this.getUserData(walletAddress);
+
+    const { reservation, usage } = await quotaStore.reserve(
+      this.getQuotaKey(walletAddress),
+      amount,
+      maxBlessings,
+      this.getCurrentPeriod().end.getTime(),
+      BLESSING_RESERVATION_TTL_MS
+    );
 
-    return data;
+    return {
+      reservation,
+      remainingBlessings: Math.max(0, maxBlessings - usage.used - usage.reserved),
+    };
   }
 
   /**
    * Check if a user is eligible to bless
+   * nftCount is weighted: NFTs in each gating collection x its weight
    */
   async canBless(walletAddress: string): Promise<{
     eligible: boolean;
     nftCount: number;
+    holdings: CollectionHolding[];
     maxBlessings: number;
     usedBlessings: number;
     remainingBlessings: number;
@@ -272,6 +409,9 @@ class BlessingService {
     return {
       eligible,
       nftCount: data.nftCount,
+      holdings: this.snapshot
+        ? getHoldingsForAddress(this.snapshot, walletAddress)
+        : [],
       maxBlessings: data.maxBlessings,
       usedBlessings: data.usedBlessings,
       remainingBlessings,
@@ -291,10 +431,12 @@ class BlessingService {
   ): Promise<{
     success: boolean;
     txHash?: Hash;
+    txId?: string;
     blessingCount?: number;
     remainingBlessings?: number;
     error?: string;
     blockExplorer?: string;
+    receipt?: BlessingReceipt;
   }> {
     // 1. Get tokenIds and Merkle proof for on-chain verification
     const proofData = await this.getTokenIdsAndProof(walletAddress);
@@ -306,6 +448,11 @@ class BlessingService {
       };
     }
 
+    const rootError = await this.checkOwnershipRoot();
+    if (rootError) {
+      return { success: false, error: rootError };
+    }
+
     // 2. Check if backend can submit blessings
     if (!contractService.canSubmitBlessings()) {
       return {
@@ -339,7 +486,34 @@ class BlessingService {
       };
     }
 
-    // 5. Submit blessing to blockchain with NFT proof
+    // 5. Reserve the blessing against the user's allowance
+    const maxBlessings = proofData.tokenIds.length * BLESSINGS_PER_NFT;
+    const { reservation, remainingBlessings } = await this.reserveBlessings(
+      walletAddress,
+      1,
+      maxBlessings
+    );
+
+    if (!reservation) {
+      return {
+        success: false,
+        error: "Daily blessing limit reached",
+        remainingBlessings: 0,
+      };
+    }
+
+    // 5a. Batching mode: queue the blessing for the next batchBlessSeedsFor call
+    if (blessingBatchService.isEnabled()) {
+      return this.enqueueBlessing(
+        walletAddress,
+        seedId,
+        proofData,
+        reservation,
+        remainingBlessings
+      );
+    }
+
+    // 6. Submit blessing to blockchain with NFT proof
     // Contract will verify ownership and daily limits on-chain
     const result = await contractService.blessSeedFor(
       seedId,
@@ -349,29 +523,21 @@ class BlessingService {
     );
 
     if (!result.success) {
+      await quotaStore.release(reservation);
       return {
         success: false,
+        txId: result.txId,
         error: result.error || "Failed to submit blessing to blockchain",
       };
     }
 
-    // 6. Get updated seed info and calculate remaining blessings
-    const updatedSeed = await contractService.getSeed(seedId);
+    await quotaStore.commit(reservation);
 
-    // Calculate remaining blessings based on on-chain data
-    const maxBlessings = proofData.tokenIds.length * BLESSINGS_PER_NFT;
-    const usedBlessings = await this.countBlessingsInCurrentPeriod(walletAddress);
-    const remainingBlessings = Math.max(0, maxBlessings - usedBlessings);
+    // Pick up the new blessing on the next indexer query
+    indexerService.invalidate();
 
-    // 7. Update cached user data with the new blessing count
-    const addressLower = walletAddress.toLowerCase();
-    const cachedData = this.blessingData.get(addressLower);
-    if (cachedData) {
-      cachedData.usedBlessings = usedBlessings;
-      cachedData.maxBlessings = maxBlessings;
-      cachedData.nftCount = proofData.tokenIds.length;
-      this.blessingData.set(addressLower, cachedData);
-    }
+    // 7. Get updated seed info
+    const updatedSeed = await contractService.getSeed(seedId);
 
     const blockExplorer =
       process.env.NETWORK === "base"
@@ -386,12 +552,48 @@ class BlessingService {
     return {
       success: true,
       txHash: result.txHash,
+      txId: result.txId,
       blessingCount: Number(updatedSeed.blessings),
       remainingBlessings,
       blockExplorer,
     };
   }
 
+  /**
+   * Queue a blessing for the next batch (BLESSING_BATCH_MODE)
+   * The reservation is committed or released once the batch lands
+   */
+  private async enqueueBlessing(
+    walletAddress: string,
+    seedId: number,
+    proofData: { tokenIds: number[]; proof: string[] },
+    reservation: QuotaReservation,
+    remainingBlessings: number
+  ): Promise<{
+    success: boolean;
+    remainingBlessings?: number;
+    error?: string;
+    receipt?: BlessingReceipt;
+  }> {
+    const receipt = await blessingBatchService.enqueue({
+      seedId,
+      blesser: walletAddress as Address,
+      tokenIds: proofData.tokenIds,
+      merkleProof: proofData.proof,
+      quotaReservation: reservation,
+    });
+
+    console.log(
+      `🧺 Blessing queued: ${walletAddress} -> seed ${seedId} (receipt ${receipt.id})`
+    );
+
+    return {
+      success: true,
+      remainingBlessings,
+      receipt,
+    };
+  }
+
   /**
    * Prepare a blessing transaction for client-side signing
    * Returns transaction data for user to sign with their wallet
@@ -431,6 +633,11 @@ class BlessingService {
       };
     }
 
+    const rootError = await this.checkOwnershipRoot();
+    if (rootError) {
+      return { success: false, error: rootError };
+    }
+
     // 2. Check if blessing period has ended
     const timeRemaining = await contractService.getTimeUntilPeriodEnd();
     if (timeRemaining === 0n) {
@@ -488,50 +695,397 @@ class BlessingService {
   }
 
   /**
-   * Prepare delegate approval transaction for client-side signing
-   * Users must approve backend to enable gasless blessings
+   * Validate batch allocations against the user's remaining blessings
+   * Duplicate seed IDs are merged; every seed must exist and not be a winner
+   */
+  private async validateAllocations(
+    walletAddress: string,
+    allocations: BlessingAllocation[]
+  ): Promise<
+    | {
+        success: true;
+        allocations: BlessingAllocation[];
+        proofData: { tokenIds: number[]; proof: string[] };
+        remainingBlessings: number;
+      }
+    | { success: false; error: string; remainingBlessings?: number }
+  > {
+    if (!Array.isArray(allocations) || allocations.length === 0) {
+      return { success: false, error: "allocations must be a non-empty array" };
+    }
+
+    const merged = new Map<number, number>();
+    for (const allocation of allocations) {
+      const seedId = Number(allocation?.seedId);
+      const count = Number(allocation?.count ?? 1);
+
+      if (!Number.isInteger(seedId) || seedId < 0) {
+        return {
+          success: false,
+          error: "Invalid seedId - must be a non-negative integer",
+        };
+      }
+      if (!Number.isInteger(count) || count < 1) {
+        return {
+          success: false,
+          error: `Invalid count for seed ${seedId} - must be a positive integer`,
+        };
+      }
+
+      merged.set(seedId, (merged.get(seedId) || 0) + count);
+    }
+
+    const normalized = [...merged].map(([seedId, count]) => ({ seedId, count }));
+    const total = normalized.reduce((sum, a) => sum + a.count, 0);
+
+    if (total > MAX_BLESSINGS_PER_BATCH) {
+      return {
+        success: false,
+        error: `Too many blessings in one batch (max ${MAX_BLESSINGS_PER_BATCH})`,
+      };
+    }
+
+    const proofData = await this.getTokenIdsAndProof(walletAddress);
+    if (!proofData) {
+      return {
+        success: false,
+        error: "No NFTs owned or unable to generate proof",
+      };
+    }
+
+    const rootError = await this.checkOwnershipRoot();
+    if (rootError) {
+      return { success: false, error: rootError };
+    }
+
+    const timeRemaining = await contractService.getTimeUntilPeriodEnd();
+    if (timeRemaining === 0n) {
+      return {
+        success: false,
+        error: "Blessing period has ended. Waiting for winner selection to start new round.",
+      };
+    }
+
+    for (const { seedId } of normalized) {
+      try {
+        const seed = await contractService.getSeed(seedId);
+        if (seed.isWinner) {
+          return {
+            success: false,
+            error: `Cannot bless a winning seed (seed ${seedId})`,
+          };
+        }
+      } catch (error) {
+        return { success: false, error: `Seed not found (seed ${seedId})` };
+      }
+    }
+
+    // Local allowance (includes pending reservations), capped by the
+    // contract's own count when available
+    const eligibility = await this.canBless(walletAddress);
+    let remainingBlessings = eligibility.remainingBlessings;
+    try {
+      remainingBlessings = Math.min(
+        remainingBlessings,
+        Number(
+          await contractService.getRemainingBlessings(
+            walletAddress as Address,
+            proofData.tokenIds.length
+          )
+        )
+      );
+    } catch (error) {
+      console.warn("⚠️  Couldn't read remaining blessings on-chain:", error);
+    }
+    remainingBlessings = Math.max(0, remainingBlessings);
+
+    if (total > remainingBlessings) {
+      return {
+        success: false,
+        error: `Daily blessing limit reached - requested ${total}, ${remainingBlessings} remaining`,
+        remainingBlessings,
+      };
+    }
+
+    return {
+      success: true,
+      allocations: normalized,
+      proofData,
+      remainingBlessings,
+    };
+  }
+
+  /**
+   * Spend several blessings at once (backend-signed, gasless for user)
+   *
+   * - Legacy TheSeeds: one batchBlessSeedsFor transaction (or queued for the
+   *   shared batch when BLESSING_BATCH_MODE is on)
+   * - AbrahamSeeds: no batch entry point, so one blessSeedFor transaction per
+   *   blessing (nonces are assigned by the relayer, so they don't collide),
+   *   at most MAX_SEQUENTIAL_BLESSINGS per request
    */
-  async prepareDelegateApprovalTransaction(
+  async performBatchBlessingOnchain(
     walletAddress: string,
-    approved: boolean = true
+    allocations: BlessingAllocation[]
   ): Promise<{
     success: boolean;
-    transaction?: {
-      to: Address;
-      data: `0x${string}`;
-      from: Address;
-      chainId?: number;
-    };
-    delegateAddress?: Address;
-    currentStatus?: string;
+    results?: BlessingAllocationResult[];
+    totalBlessed?: number;
+    remainingBlessings?: number;
+    txHash?: Hash;
+    txId?: string;
+    queued?: boolean;
     error?: string;
   }> {
-    const relayerAddress = contractService.getRelayerAddress();
-    if (!relayerAddress) {
+    if (!contractService.canSubmitBlessings()) {
       return {
         success: false,
-        error: "Backend relayer not configured",
+        error: "Backend blessing service not configured (RELAYER_PRIVATE_KEY not set)",
       };
     }
 
-    // Check current delegation status
-    const isCurrentlyDelegate = await contractService.isDelegate(
-      walletAddress as Address,
-      relayerAddress
+    const validation = await this.validateAllocations(walletAddress, allocations);
+    if (!validation.success) {
+      return validation;
+    }
+
+    const { proofData } = validation;
+    const requested = validation.allocations.reduce((sum, a) => sum + a.count, 0);
+    const maxBlessings = proofData.tokenIds.length * BLESSINGS_PER_NFT;
+
+    if (
+      !blessingBatchService.isEnabled() &&
+      !contractService.supportsBatchBlessing() &&
+      requested > MAX_SEQUENTIAL_BLESSINGS
+    ) {
+      return {
+        success: false,
+        error: `Too many blessings in one batch for this contract (max ${MAX_SEQUENTIAL_BLESSINGS}: each blessing is a separate transaction)`,
+      };
+    }
+
+    // Queue for the shared batch (one reservation per queued blessing, so
+    // each is committed or released when its batch lands)
+    if (blessingBatchService.isEnabled()) {
+      const reservations: QuotaReservation[] = [];
+      for (let i = 0; i < requested; i++) {
+        const { reservation } = await this.reserveBlessings(
+          walletAddress,
+          1,
+          maxBlessings
+        );
+        if (!reservation) {
+          await Promise.all(reservations.map((r) => quotaStore.release(r)));
+          return {
+            success: false,
+            error: "Daily blessing limit reached",
+          };
+        }
+        reservations.push(reservation);
+      }
+
+      const results: BlessingAllocationResult[] = [];
+      for (const { seedId, count } of validation.allocations) {
+        const receiptIds: string[] = [];
+        for (let i = 0; i < count; i++) {
+          const receipt = await blessingBatchService.enqueue({
+            seedId,
+            blesser: walletAddress as Address,
+            tokenIds: proofData.tokenIds,
+            merkleProof: proofData.proof,
+            quotaReservation: reservations.pop(),
+          });
+          receiptIds.push(receipt.id);
+        }
+        results.push({ seedId, count, blessed: 0, receiptIds });
+      }
+
+      console.log(`🧺 ${requested} blessing(s) queued for ${walletAddress}`);
+
+      return {
+        success: true,
+        queued: true,
+        results,
+        totalBlessed: 0,
+        remainingBlessings: validation.remainingBlessings - requested,
+      };
+    }
+
+    const { reservation } = await this.reserveBlessings(
+      walletAddress,
+      requested,
+      maxBlessings
     );
+    if (!reservation) {
+      return {
+        success: false,
+        error: "Daily blessing limit reached",
+      };
+    }
 
-    // Prepare transaction
-    const transaction = contractService.prepareDelegateApprovalTransaction(
-      walletAddress as Address,
-      relayerAddress,
-      approved
+    // One batchBlessSeedsFor transaction
+    if (contractService.supportsBatchBlessing()) {
+      const entries = validation.allocations.flatMap(({ seedId, count }) =>
+        Array.from({ length: count }, () => ({
+          seedId,
+          userAddress: walletAddress as Address,
+          tokenIds: proofData.tokenIds,
+          merkleProof: proofData.proof,
+        }))
+      );
+
+      const result = await contractService.batchBlessSeedsFor(entries);
+      if (!result.success) {
+        await quotaStore.release(reservation);
+        return {
+          success: false,
+          txId: result.txId,
+          error: result.error || "Failed to submit blessing batch",
+        };
+      }
+
+      let offset = 0;
+      const results = validation.allocations.map(({ seedId, count }) => {
+        const blessed = (result.blessed || [])
+          .slice(offset, offset + count)
+          .filter(Boolean).length;
+        offset += count;
+        return {
+          seedId,
+          count,
+          blessed,
+          txIds: result.txId ? [result.txId] : [],
+          ...(blessed < count && {
+            error: "Some blessings were skipped by the contract",
+          }),
+        };
+      });
+
+      return this.finishBatch(
+        walletAddress,
+        reservation,
+        validation.remainingBlessings,
+        results,
+        { txHash: result.txHash, txId: result.txId }
+      );
+    }
+
+    // One transaction per blessing
+    const results: BlessingAllocationResult[] = [];
+    for (const { seedId, count } of validation.allocations) {
+      const allocationResult: BlessingAllocationResult = {
+        seedId,
+        count,
+        blessed: 0,
+        txIds: [],
+      };
+
+      for (let i = 0; i < count; i++) {
+        const result = await contractService.blessSeedFor(
+          seedId,
+          walletAddress as Address,
+          proofData.tokenIds,
+          proofData.proof
+        );
+        if (result.txId) allocationResult.txIds!.push(result.txId);
+
+        if (!result.success) {
+          allocationResult.error = result.error || "Failed to submit blessing";
+          break;
+        }
+        allocationResult.blessed++;
+      }
+
+      results.push(allocationResult);
+    }
+
+    return this.finishBatch(
+      walletAddress,
+      reservation,
+      validation.remainingBlessings,
+      results
+    );
+  }
+
+  private async finishBatch(
+    walletAddress: string,
+    reservation: QuotaReservation,
+    remainingBefore: number,
+    results: BlessingAllocationResult[],
+    tx?: { txHash?: Hash; txId?: string }
+  ) {
+    const totalBlessed = results.reduce((sum, r) => sum + r.blessed, 0);
+
+    // Only the blessings that landed count against the allowance
+    await quotaStore.commit(reservation, totalBlessed);
+
+    if (totalBlessed > 0) {
+      // Pick up the new blessings on the next indexer query
+      indexerService.invalidate();
+    }
+
+    console.log(
+      `✅ Batch blessing performed onchain: ${walletAddress} blessed ${totalBlessed} time(s) across ${results.length} seed(s)`
     );
 
+    return {
+      success: totalBlessed > 0,
+      results,
+      totalBlessed,
+      remainingBlessings: Math.max(0, remainingBefore - totalBlessed),
+      ...tx,
+      ...(totalBlessed === 0 && {
+        error: results.find((r) => r.error)?.error || "No blessings were recorded",
+      }),
+    };
+  }
+
+  /**
+   * Prepare several blessings for client-side signing as one batch of calls
+   * (EIP-5792 wallet_sendCalls). blessSeed checks msg.sender, so a
+   * Multicall3-style aggregator can't be used - the wallet batches the calls.
+   */
+  async prepareBatchBlessingTransaction(
+    walletAddress: string,
+    allocations: BlessingAllocation[]
+  ): Promise<{
+    success: boolean;
+    calls?: Array<{ to: Address; data: `0x${string}`; value: `0x${string}` }>;
+    from?: Address;
+    chainId?: number;
+    allocations?: BlessingAllocation[];
+    remainingBlessings?: number;
+    error?: string;
+  }> {
+    const validation = await this.validateAllocations(walletAddress, allocations);
+    if (!validation.success) {
+      return validation;
+    }
+
+    const calls: Array<{ to: Address; data: `0x${string}`; value: `0x${string}` }> = [];
+    let chainId: number | undefined;
+
+    for (const { seedId, count } of validation.allocations) {
+      const transaction = contractService.prepareBlessingTransaction(
+        seedId,
+        walletAddress as Address,
+        validation.proofData.tokenIds,
+        validation.proofData.proof
+      );
+      chainId = transaction.chainId;
+
+      for (let i = 0; i < count; i++) {
+        calls.push({ to: transaction.to, data: transaction.data, value: "0x0" });
+      }
+    }
+
     return {
       success: true,
-      transaction,
-      delegateAddress: relayerAddress,
-      currentStatus: isCurrentlyDelegate ? "Already approved" : "Not yet approved",
+      calls,
+      from: walletAddress as Address,
+      chainId,
+      allocations: validation.allocations,
+      remainingBlessings: validation.remainingBlessings,
     };
   }
 
@@ -550,9 +1104,20 @@ class BlessingService {
   }> {
     // Just update rate limiting
     const data = await this.getUserData(walletAddress);
-    data.usedBlessings += 1;
+    const { reservation, remainingBlessings } = await this.reserveBlessings(
+      walletAddress,
+      1,
+      data.maxBlessings
+    );
 
-    const remainingBlessings = data.maxBlessings - data.usedBlessings;
+    if (!reservation) {
+      return {
+        success: false,
+        remainingBlessings: 0,
+        error: "All blessings used for this period",
+      };
+    }
+    await quotaStore.commit(reservation);
 
     console.log(
       `✅ Rate limit updated: ${walletAddress} -> ${targetId} (${remainingBlessings} remaining)`
@@ -628,12 +1193,56 @@ class BlessingService {
     return this.snapshot;
   }
 
+  /**
+   * Get a point-in-time snapshot generated with ?blockNumber / --block-number
+   */
+  async getSnapshotAtBlock(
+    blockNumber: number
+  ): Promise<FirstWorksSnapshot | null> {
+    const cached = this.snapshotsAtBlock.get(blockNumber);
+    if (cached) return cached;
+
+    const snapshot = await loadSnapshotAtBlock(blockNumber);
+    if (snapshot) {
+      if (this.snapshotsAtBlock.size >= this.MAX_SNAPSHOTS_AT_BLOCK) {
+        // Evict the oldest entry (Map keeps insertion order)
+        this.snapshotsAtBlock.delete(this.snapshotsAtBlock.keys().next().value!);
+      }
+      this.snapshotsAtBlock.set(blockNumber, snapshot);
+    }
+    return snapshot;
+  }
+
   /**
    * Force reload the snapshot (useful after snapshot generation)
+   * The merkle tree is reloaded too so proofs match the new snapshot
    */
   async reloadSnapshot(): Promise<void> {
     this.lastSnapshotLoad = 0;
-    await this.loadSnapshot();
+    await Promise.all([this.loadSnapshot(), this.loadMerkleData()]);
+  }
+
+  /**
+   * Get the merkle root proofs are currently generated from
+   */
+  getMerkleRoot(): string | null {
+    return this.merkleTree?.root ?? null;
+  }
+
+  /**
+   * Check that proofs from the loaded merkle tree match the on-chain root
+   * Used before preparing or relaying blessings/commandments
+   *
+   * @returns Error message if the roots diverge, null otherwise
+   */
+  async checkOwnershipRoot(): Promise<string | null> {
+    return ownershipRootService.assertConsistent(
+      this.getMerkleRoot(),
+      async () => {
+        await this.reloadSnapshot();
+        return this.getMerkleRoot();
+      }
+    );
   }
 }
 
@@ -0,0 +1,188 @@
+/**
+ * Commandment Reaction Service
+ *
+ * Purpose: Emoji reactions on commandments, kept off-chain. A reaction is not
+ * a comment: it costs no relayer transaction, gas or daily commandment slot.
+ *
+ * A reaction is a wallet-signed message (see getReactionMessage) from a
+ * gating NFT holder. The signature is stored with the reaction so anyone can
+ * check who reacted. Each signed message carries an issuedAt time that must
+ * be recent and newer than the last one recorded for the same reaction, so a
+ * replayed signature can't undo a later change.
+ *
+ * Storage: the shared record store (STATE_STORE, see lib/storage/recordStore.ts).
+ * Removed reactions are kept (active: false) to remember their issuedAt.
+ */
+
+import { verifyMessage, type Address, type Hex } from "viem";
+import { createRecordStore } from "../../lib/storage/recordStore.js";
+import { getGatingCollectionLabel } from "../../lib/snapshots/gatingCollections.js";
+import { blessingService } from "./blessingService.js";
+import { indexerService } from "./indexerService.js";
+
+export type ReactionAction = "add" | "remove";
+
+export interface CommandmentReaction {
+  commandmentId: number;
+  seedId: number;
+  reactor: Address;
+  reaction: string; // Emoji
+  active: boolean;
+  issuedAt: string; // ISO time from the signed message
+  signature: Hex;
+  updatedAt: string;
+}
+
+export interface ReactionRequest {
+  commandmentId: number;
+  reactor: Address;
+  reaction: string;
+  action: ReactionAction;
+  issuedAt: string;
+  signature: Hex;
+}
+
+export interface ReactionResult {
+  success: boolean;
+  reaction?: CommandmentReaction;
+  error?: string;
+}
+
+/**
+ * Message the reactor signs (EIP-191 personal_sign)
+ */
+export function getReactionMessage(request: Omit<ReactionRequest, "signature">): string {
+  return [
+    "Abraham commandment reaction",
+    `Action: ${request.action}`,
+    `Commandment: ${request.commandmentId}`,
+    `Reaction: ${request.reaction}`,
+    `Reactor: ${request.reactor.toLowerCase()}`,
+    `Issued at: ${request.issuedAt}`,
+  ].join("\n");
+}
+
+class CommandmentReactionService {
+  private store = createRecordStore<CommandmentReaction>({
+    collection: "commandment-reactions",
+    filename: "commandments/reactions.json",
+    field: "reactions",
+    id: (reaction) => this.getId(reaction.commandmentId, reaction.reactor, reaction.reaction),
+  });
+
+  private readonly SIGNATURE_MAX_AGE_MS = 10 * 60 * 1000;
+  private readonly SIGNATURE_MAX_SKEW_MS = 60 * 1000;
+  // Distinct emojis one wallet can leave on one commandment
+  private readonly MAX_REACTIONS_PER_COMMANDMENT = 10;
+
+  private getId(commandmentId: number, reactor: Address, reaction: string): string {
+    return `${commandmentId}:${reactor.toLowerCase()}:${reaction}`;
+  }
+
+  /**
+   * Add or remove a signed reaction
+   */
+  async react(request: ReactionRequest): Promise<ReactionResult> {
+    const issuedAt = Date.parse(request.issuedAt);
+    if (Number.isNaN(issuedAt)) {
+      return { success: false, error: "Invalid input: issuedAt must be an ISO date" };
+    }
+    if (
+      issuedAt < Date.now() - this.SIGNATURE_MAX_AGE_MS ||
+      issuedAt > Date.now() + this.SIGNATURE_MAX_SKEW_MS
+    ) {
+      return { success: false, error: "Signature expired: sign a new message with the current time" };
+    }
+
+    const valid = await verifyMessage({
+      address: request.reactor,
+      message: getReactionMessage(request),
+      signature: request.signature,
+    }).catch(() => false);
+    if (!valid) {
+      return { success: false, error: "Invalid signature" };
+    }
+
+    const id = this.getId(request.commandmentId, request.reactor, request.reaction);
+    const existing = await this.store.get(id);
+    if (existing && Date.parse(existing.issuedAt) >= issuedAt) {
+      return { success: false, error: "Signature expired: a newer change to this reaction is recorded" };
+    }
+
+    if (request.action === "add") {
+      const snapshot = await blessingService.getSnapshot();
+      if (!snapshot) {
+        return { success: false, error: "Unable to verify NFT ownership: snapshot not loaded" };
+      }
+      if (!snapshot.holderIndex[request.reactor.toLowerCase()]?.length) {
+        return {
+          success: false,
+          error: `You must own at least one ${getGatingCollectionLabel()} NFT to react`,
+        };
+      }
+
+      const reactions = await this.getReactionsByCommandment(request.commandmentId);
+      const mine = reactions.filter(
+        (reaction) => reaction.reactor.toLowerCase() === request.reactor.toLowerCase()
+      );
+      if (mine.length >= this.MAX_REACTIONS_PER_COMMANDMENT && !existing?.active) {
+        return {
+          success: false,
+          error: `Reaction limit reached: at most ${this.MAX_REACTIONS_PER_COMMANDMENT} reactions per commandment`,
+        };
+      }
+    }
+
+    const commandment = (await indexerService.getCommandmentsById([request.commandmentId])).get(
+      request.commandmentId
+    );
+    if (!commandment) {
+      return { success: false, error: `Commandment ${request.commandmentId} not found` };
+    }
+
+    const reaction: CommandmentReaction = {
+      commandmentId: request.commandmentId,
+      seedId: Number(commandment.seedId),
+      reactor: request.reactor,
+      reaction: request.reaction,
+      active: request.action === "add",
+      issuedAt: new Date(issuedAt).toISOString(),
+      signature: request.signature,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.store.set(id, reaction);
+
+    console.log(
+      `💬 Reaction ${request.reaction} ${request.action === "add" ? "added to" : "removed from"} commandment ${request.commandmentId} by ${request.reactor}`
+    );
+    return { success: true, reaction };
+  }
+
+  /**
+   * Get the active reactions on a commandment, oldest first
+   */
+  async getReactionsByCommandment(commandmentId: number): Promise<CommandmentReaction[]> {
+    return (await this.store.list())
+      .filter((reaction) => reaction.active && reaction.commandmentId === commandmentId)
+      .sort((a, b) => a.issuedAt.localeCompare(b.issuedAt));
+  }
+
+  /**
+   * Count the active reactions on a seed's commandments
+   *
+   * @returns Commandment ID -> emoji -> count
+   */
+  async countReactionsBySeed(seedId: number): Promise<Map<number, Record<string, number>>> {
+    const counts = new Map<number, Record<string, number>>();
+    for (const reaction of await this.store.list()) {
+      if (!reaction.active || reaction.seedId !== seedId) continue;
+
+      const commandmentCounts = counts.get(reaction.commandmentId) ?? {};
+      commandmentCounts[reaction.reaction] = (commandmentCounts[reaction.reaction] || 0) + 1;
+      counts.set(reaction.commandmentId, commandmentCounts);
+    }
+    return counts;
+  }
+}
+
+export const commandmentReactionService = new CommandmentReactionService();
@@ -7,12 +7,24 @@
  * - Eligibility checks
  * - Rate limiting
  *
- * Similar to BlessingService but for commandments (comments on seeds)
+ * Similar to BlessingService but for commandments (comments on seeds).
+ * Commandments can reply to and quote earlier commandments; these links live
+ * in the IPFS metadata only (see CommandmentMetadata), the contract just
+ * records a comment on the seed. Reactions are off-chain (see
+ * commandmentReactionService) and only merged into the threaded view.
+ * Daily usage is held in the shared quota store (see quotaStore.ts) and
+ * seeded from the on-chain daily count, so concurrent submissions from one
+ * user can't exceed the limit before the first transaction lands.
  */
 
 import { contractService } from "./contractService.js";
 import { blessingService } from "./blessingService.js";
+import { indexerService } from "./indexerService.js";
+import { commandmentReactionService } from "./commandmentReactionService.js";
 import * as ipfsService from "./ipfsService.js";
+import { metadataCacheService, type MetadataStatus } from "./metadataCacheService.js";
+import { quotaStore, type QuotaReservation, type QuotaUsage } from "./quotaStore.js";
+import { getGatingCollectionLabel } from "../../lib/snapshots/gatingCollections.js";
 import type { Address, Hash } from "viem";
 
 export interface CommandmentData {
@@ -23,11 +35,22 @@ export interface CommandmentData {
   createdAt: number;
   metadata?: ipfsService.CommandmentMetadata;
   metadataError?: string;
+  metadataStatus?: MetadataStatus;
+}
+
+/**
+ * A commandment with its replies (GET /commandments/seed/:seedId?view=thread)
+ */
+export interface CommandmentThreadNode extends CommandmentData {
+  replies: CommandmentThreadNode[];
+  replyCount: number; // All replies below this commandment, at any depth
+  reactions: Record<string, number>; // Emoji -> count of off-chain reactions
 }
 
 export interface CommandmentSubmissionResult {
   success: boolean;
   txHash?: Hash;
+  txId?: string;
   commandmentId?: number;
   ipfsHash?: string;
   error?: string;
@@ -40,16 +63,60 @@ export interface CommandmentStats {
   commandmentsPerNFT: number;
 }
 
+// Held allowance is released automatically if a submission never finishes
+const COMMANDMENT_RESERVATION_TTL_MS = 15 * 60 * 1000;
+
 /**
  * Commandment Service
  */
 class CommandmentService {
-  // Cache for commandment events (5 min TTL like blessings)
-  private commandmentEventsCache: {
-    data: any[];
-    timestamp: number;
-  } | null = null;
-  private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+  /*//////////////////////////////////////////////////////////////
+                          DAILY QUOTA
+  //////////////////////////////////////////////////////////////*/
+
+  private getQuotaKey(userAddress: string): string {
+    return `commandments:${userAddress.toLowerCase()}`;
+  }
+
+  /**
+   * The contract counts commandments per UTC day
+   */
+  private getDayEnd(): number {
+    const now = new Date();
+    return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  }
+
+  /**
+   * Get today's commandment usage (confirmed + in flight)
+   * The store is synced with the on-chain count, which wins if it's higher
+   */
+  private async getDailyUsage(userAddress: string): Promise<QuotaUsage> {
+    const dailyCount = await contractService.getUserDailyCommandmentCount(
+      userAddress as Address
+    );
+    return quotaStore.sync(
+      this.getQuotaKey(userAddress),
+      Number(dailyCount),
+      this.getDayEnd()
+    );
+  }
+
+  /**
+   * Atomically hold one commandment against the user's daily limit
+   */
+  private async reserveCommandment(
+    userAddress: string,
+    maxCommandments: number
+  ): Promise<{ reservation: QuotaReservation | null; usage: QuotaUsage }> {
+    await this.getDailyUsage(userAddress);
+    return quotaStore.reserve(
+      this.getQuotaKey(userAddress),
+      1,
+      maxCommandments,
+      this.getDayEnd(),
+      COMMANDMENT_RESERVATION_TTL_MS
+    );
+  }
 
   /**
    * Submit a commandment (comment) on a seed
@@ -63,19 +130,24 @@ class CommandmentService {
    * @param userAddress - User's wallet address
    * @param seedId - Seed to comment on
    * @param message - Comment message text
+   * @param thread - Parent and quoted commandments (optional)
    * @returns Submission result with transaction hash and commandment ID
    */
   async submitCommandment(
     userAddress: string,
     seedId: number,
-    message: string
+    message: string,
+    thread: ipfsService.CommandmentThreadFields = {}
   ): Promise<CommandmentSubmissionResult> {
+    let reservation: QuotaReservation | null = null;
+
     try {
       // 1. Validate input
-      if (!userAddress || !message || message.trim().length === 0) {
+      const inputError = this.validateInput(userAddress, message);
+      if (inputError) {
         return {
           success: false,
-          error: "Invalid input: userAddress and message are required"
+          error: inputError
         };
       }
 
@@ -86,6 +158,14 @@ class CommandmentService {
         };
       }
 
+      const threadError = await this.validateThreadReferences(seedId, thread);
+      if (threadError) {
+        return {
+          success: false,
+          error: threadError
+        };
+      }
+
       // 2. Check eligibility (NFT ownership via blessing service)
       const snapshot = await blessingService.getSnapshot();
       if (!snapshot) {
@@ -101,30 +181,43 @@ class CommandmentService {
       if (tokenIds.length === 0) {
         return {
           success: false,
-          error: "You must own at least one FirstWorks NFT to comment"
+          error: `You must own at least one ${getGatingCollectionLabel()} NFT to comment`
         };
       }
 
-      // 3. Check daily limit from contract
-      const dailyCount = await contractService.getUserDailyCommandmentCount(
-        userAddress as Address
-      );
+      // Proofs built from a stale tree would revert on-chain
+      const rootError = await blessingService.checkOwnershipRoot();
+      if (rootError) {
+        return {
+          success: false,
+          error: rootError
+        };
+      }
+
+      // 3. Reserve against the daily limit (synced from the contract)
       const commandmentsPerNFT = 1; // TODO: Read from contract
       const maxCommandments = tokenIds.length * commandmentsPerNFT;
 
-      if (Number(dailyCount) >= maxCommandments) {
+      const { reservation: held, usage } = await this.reserveCommandment(
+        userAddress,
+        maxCommandments
+      );
+
+      if (!held) {
         return {
           success: false,
-          error: `Daily limit reached: ${dailyCount}/${maxCommandments} commandments used today`
+          error: `Daily limit reached: ${usage.used + usage.reserved}/${maxCommandments} commandments used today`
         };
       }
+      reservation = held;
 
       // 4. Upload to IPFS
       console.log(`📤 Uploading commandment to IPFS for user ${userAddress}...`);
       const uploadResult = await ipfsService.uploadCommandment(
         message,
         userAddress,
-        seedId
+        seedId,
+        thread
       );
 
       if (!uploadResult.success || !uploadResult.ipfsHash) {
@@ -158,18 +251,23 @@ class CommandmentService {
       if (!result.success) {
         return {
           success: false,
+          txId: result.txId,
           error: result.error || "Failed to submit to blockchain"
         };
       }
 
       console.log(`✅ Commandment submitted successfully: ${result.txHash}`);
 
-      // Clear cache to reflect new commandment
-      this.commandmentEventsCache = null;
+      await quotaStore.commit(reservation);
+      reservation = null;
+
+      // Pick up the new commandment on the next query
+      this.clearCache();
 
       return {
         success: true,
         txHash: result.txHash,
+        txId: result.txId,
         commandmentId: result.commandmentId,
         ipfsHash: uploadResult.ipfsHash
       };
@@ -179,51 +277,44 @@ class CommandmentService {
         success: false,
         error: error instanceof Error ? error.message : "Unknown error occurred"
       };
+    } finally {
+      // Anything that didn't land gives the allowance back
+      if (reservation) {
+        await quotaStore.release(reservation).catch((error) =>
+          console.error("Failed to release commandment reservation:", error)
+        );
+      }
     }
   }
 
   /**
    * Get all commandments for a specific seed
-   * Fetches from blockchain and enriches with IPFS metadata
+   * Reads from the event indexer and enriches with IPFS metadata (cached by CID)
    *
    * @param seedId - Seed ID
    * @returns Array of commandments with metadata
    */
   async getCommandmentsBySeed(seedId: number): Promise<CommandmentData[]> {
     try {
-      // Fetch commandments from contract
-      const commandments = await contractService.getCommandmentsBySeed(seedId);
+      // Fetch commandments from the indexer
+      const commandments = await indexerService.getCommandments({ seedId });
 
       // Enrich with IPFS metadata in parallel
       return await Promise.all(
-        commandments.map(async (cmd: any) => {
-          let metadata: ipfsService.CommandmentMetadata | undefined;
-          let metadataError: string | undefined;
-
-          try {
-            // Convert IPFS hash to URL
-            const ipfsUrl = ipfsService.ipfsHashToUrl(cmd.ipfsHash);
-
-            // Fetch metadata from IPFS
-            const response = await fetch(ipfsUrl);
-            if (response.ok) {
-              metadata = await response.json();
-            } else {
-              metadataError = `HTTP ${response.status}`;
-            }
-          } catch (error) {
-            metadataError = error instanceof Error ? error.message : "Failed to fetch metadata";
-            console.error(`Error fetching metadata for commandment ${cmd.commandmentId}:`, error);
-          }
+        commandments.map(async (cmd) => {
+          // IPFS metadata (cached by CID)
+          const { metadata, metadataError, metadataStatus } =
+            await metadataCacheService.resolve<ipfsService.CommandmentMetadata>(cmd.ipfsHash);
 
           return {
-            id: Number(cmd.commandmentId),
+            id: Number(cmd.id),
             seedId: Number(cmd.seedId),
             author: cmd.author,
             ipfsHash: cmd.ipfsHash,
-            createdAt: Number(cmd.timestamp),
-            metadata,
-            metadataError
+            createdAt: Number(cmd.createdAt),
+            metadata: metadata ?? undefined,
+            metadataError: metadataError ?? undefined,
+            metadataStatus
           };
         })
       );
@@ -234,33 +325,117 @@ class CommandmentService {
   }
 
   /**
-   * Get all commandment events from blockchain
-   * Uses caching to reduce load
+   * Get the commandments on a seed as threads
+   * Commandments without a (valid) parent are the roots, oldest first
    *
-   * @returns Array of commandment events
+   * @param seedId - Seed ID
+   * @returns Root commandments with nested replies, reply and reaction
+   *          counts, and the number of commandments
+   */
+  async getCommandmentThreadsBySeed(
+    seedId: number
+  ): Promise<{ threads: CommandmentThreadNode[]; total: number }> {
+    const [commandments, reactions] = await Promise.all([
+      this.getCommandmentsBySeed(seedId),
+      commandmentReactionService.countReactionsBySeed(seedId),
+    ]);
+    return { threads: this.buildThreads(commandments, reactions), total: commandments.length };
+  }
+
+  /**
+   * Nest replies under their parents and attach reaction counts
+   * A parent must be older than its reply, so metadata can't form cycles
    */
-  async getAllCommandmentEvents(): Promise<any[]> {
-    const now = Date.now();
-
-    // Return cached data if fresh
-    if (
-      this.commandmentEventsCache &&
-      now - this.commandmentEventsCache.timestamp < this.CACHE_TTL
-    ) {
-      return this.commandmentEventsCache.data;
+  private buildThreads(
+    commandments: CommandmentData[],
+    reactions: Map<number, Record<string, number>>
+  ): CommandmentThreadNode[] {
+    const nodes = new Map<number, CommandmentThreadNode>();
+    for (const commandment of [...commandments].sort((a, b) => a.id - b.id)) {
+      nodes.set(commandment.id, {
+        ...commandment,
+        replies: [],
+        replyCount: 0,
+        reactions: reactions.get(commandment.id) ?? {},
+      });
     }
 
-    try {
-      // Fetch from blockchain
-      const events = await contractService.getCommandmentEvents();
+    const roots: CommandmentThreadNode[] = [];
+    for (const node of nodes.values()) {
+      const replyTo = node.metadata?.replyTo;
+      const parent = replyTo !== undefined && replyTo < node.id ? nodes.get(replyTo) : undefined;
 
-      // Update cache
-      this.commandmentEventsCache = {
-        data: events,
-        timestamp: now
-      };
+      if (parent) {
+        parent.replies.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    // Children always have higher IDs, so walking backwards counts them first
+    for (const node of [...nodes.values()].reverse()) {
+      node.replyCount = node.replies.reduce((count, reply) => count + 1 + reply.replyCount, 0);
+    }
+
+    return roots;
+  }
+
+  /**
+   * Check the author and message (the route schema checks the same)
+   */
+  private validateInput(userAddress: string, message: string): string | null {
+    if (!userAddress) {
+      return "Invalid input: userAddress is required";
+    }
+    if (!message || message.trim().length === 0) {
+      return "Invalid input: message is required";
+    }
+    return null;
+  }
+
+  /**
+   * Replies must point to a commandment on the same seed; quotes to any
+   * existing commandment
+   *
+   * @returns Error message, or null if all references exist
+   */
+  private async validateThreadReferences(
+    seedId: number,
+    thread: ipfsService.CommandmentThreadFields
+  ): Promise<string | null> {
+    if (thread.replyTo === undefined && !thread.quotes?.length) {
+      return null;
+    }
+
+    const ids = [...(thread.replyTo !== undefined ? [thread.replyTo] : []), ...(thread.quotes || [])];
+    const commandments = await indexerService.getCommandmentsById(ids);
 
-      return events;
+    if (thread.replyTo !== undefined && Number(commandments.get(thread.replyTo)?.seedId) !== seedId) {
+      return `Parent commandment ${thread.replyTo} not found on seed ${seedId}`;
+    }
+    const missing = (thread.quotes || []).filter((id) => !commandments.has(id));
+    if (missing.length > 0) {
+      return `Quoted commandment(s) not found: ${missing.join(", ")}`;
+    }
+    return null;
+  }
+
+  /**
+   * Get all commandment events from the event indexer
+   *
+   * @returns Array of commandments (without IPFS metadata)
+   */
+  async getAllCommandmentEvents(): Promise<CommandmentData[]> {
+    try {
+      const events = await indexerService.getCommandments();
+
+      return events.map((event) => ({
+        id: Number(event.id),
+        seedId: Number(event.seedId),
+        author: event.author,
+        ipfsHash: event.ipfsHash,
+        createdAt: Number(event.createdAt)
+      }));
     } catch (error) {
       console.error("Error fetching commandment events:", error);
       return [];
@@ -318,38 +493,26 @@ class CommandmentService {
    */
   async getCommandmentsByUser(userAddress: string): Promise<CommandmentData[]> {
     try {
-      const events = await contractService.getCommandmentEvents({
-        userAddress: userAddress as Address
+      const events = await indexerService.getCommandments({
+        author: userAddress as Address
       });
 
       // Enrich with metadata
       return await Promise.all(
-        events.map(async (event: any) => {
-          let metadata: ipfsService.CommandmentMetadata | undefined;
-          let metadataError: string | undefined;
-
-          try {
-            const ipfsUrl = ipfsService.ipfsHashToUrl(event.ipfsHash);
-            const response = await fetch(ipfsUrl);
-            if (response.ok) {
-              metadata = await response.json();
-            } else {
-              metadataError = `HTTP ${response.status}`;
-              console.error(`Failed to fetch metadata for commandment ${event.commandmentId}: HTTP ${response.status} from ${ipfsUrl}`);
-            }
-          } catch (error) {
-            metadataError = error instanceof Error ? error.message : "Failed to fetch";
-            console.error(`Error fetching metadata for commandment ${event.commandmentId}:`, error);
-          }
+        events.map(async (event) => {
+          // IPFS metadata (cached by CID)
+          const { metadata, metadataError, metadataStatus } =
+            await metadataCacheService.resolve<ipfsService.CommandmentMetadata>(event.ipfsHash);
 
           return {
-            id: Number(event.commandmentId),
+            id: Number(event.id),
             seedId: Number(event.seedId),
             author: event.author,
             ipfsHash: event.ipfsHash,
-            createdAt: Number(event.timestamp),
-            metadata,
-            metadataError
+            createdAt: Number(event.createdAt),
+            metadata: metadata ?? undefined,
+            metadataError: metadataError ?? undefined,
+            metadataStatus
           };
         })
       );
@@ -381,27 +544,26 @@ class CommandmentService {
       if (nftCount === 0) {
         return {
           canComment: false,
-          reason: "You must own at least one FirstWorks NFT to comment",
+          reason: `You must own at least one ${getGatingCollectionLabel()} NFT to comment`,
           nftCount: 0,
           dailyCount: 0,
           maxAllowed: 0
         };
       }
 
-      // Get daily count
-      const dailyCount = await contractService.getUserDailyCommandmentCount(
-        userAddress as Address
-      );
+      // Get daily count, including submissions still in flight
+      const usage = await this.getDailyUsage(userAddress);
+      const dailyCount = usage.used + usage.reserved;
 
       const commandmentsPerNFT = 1; // TODO: Read from contract
       const maxAllowed = nftCount * commandmentsPerNFT;
 
-      if (Number(dailyCount) >= maxAllowed) {
+      if (dailyCount >= maxAllowed) {
         return {
           canComment: false,
           reason: `Daily limit reached: ${dailyCount}/${maxAllowed} commandments used`,
           nftCount,
-          dailyCount: Number(dailyCount),
+          dailyCount: dailyCount,
           maxAllowed
         };
       }
@@ -409,7 +571,7 @@ class CommandmentService {
       return {
         canComment: true,
         nftCount,
-        dailyCount: Number(dailyCount),
+        dailyCount: dailyCount,
         maxAllowed
       };
     } catch (error) {
@@ -431,12 +593,14 @@ class CommandmentService {
    * @param userAddress - User's wallet address
    * @param seedId - Seed to comment on
    * @param message - Comment message text
+   * @param thread - Parent and quoted commandments (optional)
    * @returns Transaction data for client-side signing
    */
   async prepareCommandmentTransaction(
     userAddress: string,
     seedId: number,
-    message: string
+    message: string,
+    thread: ipfsService.CommandmentThreadFields = {}
   ): Promise<{
     success: boolean;
     transaction?: {
@@ -457,10 +621,11 @@ class CommandmentService {
   }> {
     try {
       // 1. Validate input
-      if (!userAddress || !message || message.trim().length === 0) {
+      const inputError = this.validateInput(userAddress, message);
+      if (inputError) {
         return {
           success: false,
-          error: "Invalid input: userAddress and message are required"
+          error: inputError
         };
       }
 
@@ -478,6 +643,14 @@ class CommandmentService {
         };
       }
 
+      const threadError = await this.validateThreadReferences(seedId, thread);
+      if (threadError) {
+        return {
+          success: false,
+          error: threadError
+        };
+      }
+
       // 2. Check eligibility (NFT ownership)
       const snapshot = await blessingService.getSnapshot();
       if (!snapshot) {
@@ -493,7 +666,16 @@ class CommandmentService {
       if (tokenIds.length === 0) {
         return {
           success: false,
-          error: "You must own at least one FirstWorks NFT to comment"
+          error: `You must own at least one ${getGatingCollectionLabel()} NFT to comment`
+        };
+      }
+
+      // Proofs built from a stale tree would revert on-chain
+      const rootError = await blessingService.checkOwnershipRoot();
+      if (rootError) {
+        return {
+          success: false,
+          error: rootError
         };
       }
 
@@ -548,7 +730,8 @@ class CommandmentService {
       const uploadResult = await ipfsService.uploadCommandment(
         message,
         userAddress,
-        seedId
+        seedId,
+        thread
       );
 
       if (!uploadResult.success || !uploadResult.ipfsHash) {
@@ -620,7 +803,7 @@ class CommandmentService {
       }
 
       // Load merkle tree (reuse pattern from blessingService)
-      const { loadMerkleTree } = await import("../../lib/snapshots/merkleTreeGenerator.js");
+      const { loadMerkleTree, getHolderProof } = await import("../../lib/snapshots/merkleTreeGenerator.js");
       const merkleTree = await loadMerkleTree();
 
       if (!merkleTree) {
@@ -634,7 +817,7 @@ class CommandmentService {
       const tokenIds = snapshot.holderIndex[addressLower] || [];
 
       // Get Merkle proof
-      const proof = merkleTree.proofs[addressLower] || [];
+      const proof = getHolderProof(merkleTree, addressLower)?.proof || [];
 
       if (tokenIds.length === 0) {
         return null; // User owns no NFTs
@@ -648,11 +831,11 @@ class CommandmentService {
   }
 
   /**
-   * Clear commandment events cache
+   * Force the event indexer to sync on the next query
    * Useful after submitting new commandments
    */
   clearCache(): void {
-    this.commandmentEventsCache = null;
+    indexerService.invalidate();
   }
 }
 
@@ -19,16 +19,27 @@ import {
   http,
   encodeFunctionData,
   encodeAbiParameters,
+  parseAbi,
+  parseEventLogs,
+  zeroAddress,
   type Address,
+  type Log,
   type Hash,
   type PublicClient,
   type WalletClient,
+  type TransactionReceipt,
 } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
 import { baseSepolia, base } from "viem/chains";
 import { readFileSync } from "fs";
 import { join, dirname } from "path";
 import { fileURLToPath } from "url";
+import {
+  RelayerTransactionManager,
+  type RelayerTransaction,
+  type RelayerTxPurpose,
+  type RelayerTxStatus,
+} from "./relayerService.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -53,6 +64,16 @@ try {
   }
 }
 
+// Ownership root views (MerkleGating module / legacy TheSeeds)
+const MERKLE_GATING_ROOT_ABI = parseAbi([
+  "function merkleRoot() view returns (bytes32)",
+  "function rootTimestamp() view returns (uint256)",
+]);
+const THE_SEEDS_ROOT_ABI = parseAbi([
+  "function currentOwnershipRoot() view returns (bytes32)",
+  "function rootTimestamp() view returns (uint256)",
+]);
+
 // New Seed interface matching AbrahamSeeds contract
 export interface Seed {
   id: bigint;
@@ -85,6 +106,53 @@ export interface Commandment {
   createdAt: bigint;
 }
 
+// Position of a decoded event on chain (used by the event indexer)
+export interface EventLocation {
+  blockNumber: bigint;
+  blockTimestamp: bigint;
+  blockHash: Hash;
+  logIndex: number;
+  transactionHash: Hash;
+}
+
+// Normalized contract events (same shape for AbrahamSeeds and legacy TheSeeds)
+export type SeedsContractEvent =
+  | ({
+      type: "blessing";
+      actor: Address; // Account that sent the blessing (blesser or a delegate)
+      isDelegated: boolean;
+    } & Blessing &
+      EventLocation)
+  | ({ type: "commandment" } & Commandment & EventLocation)
+  | ({
+      type: "seed";
+      seedId: bigint;
+      creator: Address;
+      ipfsHash: string;
+      round: bigint;
+    } & EventLocation)
+  | ({
+      type: "winner";
+      round: bigint;
+      seedId: bigint;
+      tokenId?: bigint;
+      score?: bigint;
+    } & EventLocation)
+  | ({
+      type: "scoreUpdate";
+      seedId: bigint;
+      blesser: Address;
+      previousScore?: bigint;
+      newScore: bigint;
+    } & EventLocation)
+  | ({ type: "roundStart"; round: bigint } & EventLocation)
+  | ({
+      type: "delegateApproval";
+      user: Address;
+      delegate: Address;
+      approved: boolean;
+    } & EventLocation);
+
 /**
  * Contract Service for interacting with AbrahamSeeds contract
  */
@@ -93,7 +161,15 @@ class ContractService {
   private walletClient: WalletClient | null = null;
   private contractAddress: Address;
   private relayerAccount: ReturnType<typeof privateKeyToAccount> | null = null;
+  // Nonce manager + transaction log for everything the relayer sends
+  private relayer: RelayerTransactionManager | null = null;
   private deploymentBlock: bigint;
+  // Block number -> block timestamp (blocks are immutable once confirmed)
+  private blockTimestampCache = new Map<bigint, bigint>();
+  private readonly BLOCK_TIMESTAMP_CACHE_SIZE = 100000;
+  // Transaction hash -> sender (only needed where events lack an actor field)
+  private transactionSenderCache = new Map<Hash, Address>();
+  private readonly BLOCK_FETCH_CONCURRENCY = 10;
 
   constructor() {
     // Get configuration from environment
@@ -143,6 +219,12 @@ class ContractService {
         transport: http(rpcUrl),
       });
 
+      this.relayer = new RelayerTransactionManager(
+        this.publicClient,
+        this.walletClient,
+        this.relayerAccount
+      );
+
       console.log(
         `✅ Contract service initialized with relayer: ${this.relayerAccount.address}`
       );
@@ -172,6 +254,20 @@ class ContractService {
     return this.relayerAccount?.address || null;
   }
 
+  /**
+   * Get the block the seeds contract was deployed at
+   */
+  getDeploymentBlock(): bigint {
+    return this.deploymentBlock;
+  }
+
+  /**
+   * Get the seeds contract address
+   */
+  getContractAddress(): Address {
+    return this.contractAddress;
+  }
+
   /**
    * Encode merkle proof as bytes for the new contract
    */
@@ -278,6 +374,69 @@ class ContractService {
     })) as bigint;
   }
 
+  /**
+   * Read: Get the FirstWorks ownership merkle root that blessing and commandment
+   * proofs are verified against
+   * - AbrahamSeeds: merkleRoot() on the gating module (RootUpdated event)
+   * - TheSeeds (legacy): currentOwnershipRoot() (OwnershipRootUpdated event)
+   *
+   * @returns null if the gating module is not merkle-based
+   */
+  async getOwnershipRoot(): Promise<{
+    root: Hash;
+    updatedAt: bigint; // Unix seconds
+    contract: Address;
+  } | null> {
+    if (!IS_NEW_CONTRACT) {
+      const [root, updatedAt] = await Promise.all([
+        this.publicClient.readContract({
+          address: this.contractAddress,
+          abi: THE_SEEDS_ROOT_ABI,
+          functionName: "currentOwnershipRoot",
+        }),
+        this.publicClient.readContract({
+          address: this.contractAddress,
+          abi: THE_SEEDS_ROOT_ABI,
+          functionName: "rootTimestamp",
+        }),
+      ]);
+      return { root, updatedAt, contract: this.contractAddress };
+    }
+
+    const gatingModule = (await this.publicClient.readContract({
+      address: this.contractAddress,
+      abi: SEEDS_ABI,
+      functionName: "gatingModule",
+      args: [],
+    })) as Address;
+
+    if (gatingModule === zeroAddress) {
+      return null;
+    }
+
+    try {
+      const [root, updatedAt] = await Promise.all([
+        this.publicClient.readContract({
+          address: gatingModule,
+          abi: MERKLE_GATING_ROOT_ABI,
+          functionName: "merkleRoot",
+        }),
+        this.publicClient.readContract({
+          address: gatingModule,
+          abi: MERKLE_GATING_ROOT_ABI,
+          functionName: "rootTimestamp",
+        }),
+      ]);
+      return { root, updatedAt, contract: gatingModule };
+    } catch (error: any) {
+      // Not a MerkleGating module (e.g. ERC721Gating checks ownership directly)
+      if (error.name === "ContractFunctionExecutionError") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
   /**
    * Read: Get seeds by round number (uses events for efficiency)
    */
@@ -517,6 +676,56 @@ class ContractService {
     };
   }
 
+  /*//////////////////////////////////////////////////////////////
+                        RELAYER TRANSACTIONS
+  //////////////////////////////////////////////////////////////*/
+
+  /**
+   * Send a relayer transaction through the nonce manager and wait for it
+   * Every relayer write goes through here so nonces are never reused and
+   * each transaction gets a txId that can be polled
+   */
+  private async sendRelayerTransaction(
+    purpose: RelayerTxPurpose,
+    functionName: string,
+    args: readonly unknown[],
+    metadata?: Record<string, unknown>
+  ): Promise<{ txId: string; hash: Hash; receipt: TransactionReceipt }> {
+    if (!this.relayer) {
+      throw new Error("Relayer not configured - set RELAYER_PRIVATE_KEY");
+    }
+
+    const { tx, receipt } = await this.relayer.send({
+      purpose,
+      address: this.contractAddress,
+      abi: SEEDS_ABI,
+      functionName,
+      args,
+      metadata,
+    });
+
+    // A fee-bumped replacement may be the one that got mined
+    return { txId: tx.id, hash: receipt.transactionHash, receipt };
+  }
+
+  /**
+   * Get a relayer transaction by txId
+   */
+  async getRelayerTransaction(txId: string): Promise<RelayerTransaction | null> {
+    return this.relayer ? this.relayer.getTransaction(txId) : null;
+  }
+
+  /**
+   * List relayer transactions, newest first
+   */
+  async listRelayerTransactions(filter?: {
+    status?: RelayerTxStatus;
+    purpose?: RelayerTxPurpose;
+    limit?: number;
+  }): Promise<RelayerTransaction[]> {
+    return this.relayer ? this.relayer.listTransactions(filter) : [];
+  }
+
   /*//////////////////////////////////////////////////////////////
                         BLESSING FUNCTIONS
   //////////////////////////////////////////////////////////////*/
@@ -533,6 +742,7 @@ class ContractService {
   ): Promise<{
     success: boolean;
     txHash?: Hash;
+    txId?: string;
     error?: string;
   }> {
     if (!this.walletClient || !this.relayerAccount) {
@@ -555,22 +765,18 @@ class ContractService {
         account: this.relayerAccount,
       });
 
-      // Submit transaction
-      const hash = await this.walletClient.writeContract({
-        address: this.contractAddress,
-        abi: SEEDS_ABI,
-        functionName: "blessSeedFor",
-        args: [BigInt(seedId), userAddress, tokenIdsBigInt, proofEncoded],
-      } as any);
-
-      // Wait for confirmation
-      const receipt = await this.publicClient.waitForTransactionReceipt({
-        hash,
-      });
+      // Submit transaction and wait for confirmation
+      const { txId, hash, receipt } = await this.sendRelayerTransaction(
+        "bless",
+        "blessSeedFor",
+        [BigInt(seedId), userAddress, tokenIdsBigInt, proofEncoded],
+        { seedId, user: userAddress }
+      );
 
       return {
         success: receipt.status === "success",
         txHash: hash,
+        txId,
       };
     } catch (error: any) {
       console.error("Error blessing seed:", error);
@@ -598,6 +804,121 @@ class ContractService {
     }
   }
 
+  /**
+   * Check if the deployed contract supports batched relayer blessings
+   * (batchBlessSeedsFor exists on TheSeeds only, not on AbrahamSeeds)
+   */
+  supportsBatchBlessing(): boolean {
+    return !IS_NEW_CONTRACT;
+  }
+
+  /**
+   * Write: Bless several seeds on behalf of several users in one transaction
+   * Legacy TheSeeds only. The contract silently skips entries that fail
+   * verification (invalid proof, daily limit), so the result reports which
+   * entries were actually blessed based on the BlessingSubmitted events.
+   */
+  async batchBlessSeedsFor(
+    blessings: Array<{
+      seedId: number;
+      userAddress: Address;
+      tokenIds: number[];
+      merkleProof: string[];
+    }>
+  ): Promise<{
+    success: boolean;
+    txHash?: Hash;
+    txId?: string;
+    blessed?: boolean[];
+    error?: string;
+  }> {
+    if (!this.walletClient || !this.relayerAccount) {
+      return {
+        success: false,
+        error: "Relayer not configured - set RELAYER_PRIVATE_KEY",
+      };
+    }
+
+    if (!this.supportsBatchBlessing()) {
+      return {
+        success: false,
+        error: "batchBlessSeedsFor not supported in AbrahamSeeds",
+      };
+    }
+
+    if (blessings.length === 0) {
+      return { success: true, blessed: [] };
+    }
+
+    try {
+      const args = [
+        blessings.map((b) => BigInt(b.seedId)),
+        blessings.map((b) => b.userAddress),
+        blessings.map((b) => b.tokenIds.map((id) => BigInt(id))),
+        blessings.map((b) => b.merkleProof as `0x${string}`[]),
+      ] as const;
+
+      // Simulate first to catch errors
+      await this.publicClient.simulateContract({
+        address: this.contractAddress,
+        abi: SEEDS_ABI,
+        functionName: "batchBlessSeedsFor",
+        args,
+        account: this.relayerAccount,
+      });
+
+      const { txId, hash, receipt } = await this.sendRelayerTransaction(
+        "batchBless",
+        "batchBlessSeedsFor",
+        args,
+        { count: blessings.length }
+      );
+
+      if (receipt.status !== "success") {
+        return {
+          success: false,
+          error: "Transaction failed",
+          txHash: hash,
+          txId,
+        };
+      }
+
+      // Count emitted blessings per (seedId, blesser) - a user may bless the
+      // same seed more than once in a batch
+      const emitted = new Map<string, number>();
+      const events = parseEventLogs({
+        abi: SEEDS_ABI,
+        eventName: "BlessingSubmitted",
+        logs: receipt.logs,
+      }) as any[];
+      for (const event of events) {
+        const key = `${event.args.seedId}-${String(event.args.blesser).toLowerCase()}`;
+        emitted.set(key, (emitted.get(key) || 0) + 1);
+      }
+
+      const blessed = blessings.map((b) => {
+        const key = `${b.seedId}-${b.userAddress.toLowerCase()}`;
+        const remaining = emitted.get(key) || 0;
+        if (remaining === 0) return false;
+        emitted.set(key, remaining - 1);
+        return true;
+      });
+
+      return {
+        success: true,
+        txHash: hash,
+        txId,
+        blessed,
+      };
+    } catch (error: any) {
+      console.error("Error batch blessing seeds:", error);
+      return {
+        success: false,
+        error: error.shortMessage || error.message || "Failed to submit blessing batch",
+      };
+    }
+  }
+
   /**
    * Prepare blessing transaction data for client-side signing
    */
@@ -668,6 +989,7 @@ class ContractService {
     success: boolean;
     seedId?: number;
     txHash?: Hash;
+    txId?: string;
     error?: string;
   }> {
     if (!this.walletClient || !this.relayerAccount) {
@@ -687,21 +1009,19 @@ class ContractService {
         };
       }
 
-      const hash = await this.walletClient.writeContract({
-        address: this.contractAddress,
-        abi: SEEDS_ABI,
-        functionName: "submitSeed",
-        args: [ipfsHash],
-      } as any);
-
-      const receipt = await this.publicClient.waitForTransactionReceipt({
-        hash,
-      });
+      const { txId, hash, receipt } = await this.sendRelayerTransaction(
+        "submitSeed",
+        "submitSeed",
+        [ipfsHash],
+        { ipfsHash }
+      );
 
       if (receipt.status !== "success") {
         return {
           success: false,
           error: "Transaction failed",
+          txHash: hash,
+          txId,
         };
       }
 
@@ -722,6 +1042,7 @@ class ContractService {
         success: true,
         seedId,
         txHash: hash,
+        txId,
       };
     } catch (error: any) {
       console.error("Error submitting seed:", error);
@@ -754,6 +1075,7 @@ class ContractService {
   async addCreator(creatorAddress: Address): Promise<{
     success: boolean;
     txHash?: Hash;
+    txId?: string;
     error?: string;
   }> {
     if (!this.walletClient || !this.relayerAccount) {
@@ -764,20 +1086,17 @@ class ContractService {
     }
 
     try {
-      const hash = await this.walletClient.writeContract({
-        address: this.contractAddress,
-        abi: SEEDS_ABI,
-        functionName: "addCreator",
-        args: [creatorAddress],
-      } as any);
-
-      const receipt = await this.publicClient.waitForTransactionReceipt({
-        hash,
-      });
+      const { txId, hash, receipt } = await this.sendRelayerTransaction(
+        "addCreator",
+        "addCreator",
+        [creatorAddress],
+        { creator: creatorAddress }
+      );
 
       return {
         success: receipt.status === "success",
         txHash: hash,
+        txId,
       };
     } catch (error: any) {
       console.error("Error adding creator:", error);
@@ -800,6 +1119,7 @@ class ContractService {
     winningSeedId?: number;
     tokenId?: number;
     txHash?: Hash;
+    txId?: string;
     error?: string;
     details?: string;
     diagnostics?: {
@@ -889,21 +1209,19 @@ class ContractService {
 
       // Submit transaction
       console.log("📤 Submitting transaction...");
-      const hash = await this.walletClient.writeContract({
-        address: this.contractAddress,
-        abi: SEEDS_ABI,
-        functionName: "selectDailyWinner",
-        args: [],
-      } as any);
-
-      const receipt = await this.publicClient.waitForTransactionReceipt({
-        hash,
-      });
+      const { txId, hash, receipt } = await this.sendRelayerTransaction(
+        "selectWinner",
+        "selectDailyWinner",
+        [],
+        {}
+      );
 
       if (receipt.status !== "success") {
         return {
           success: false,
           error: "Transaction failed",
+          txHash: hash,
+          txId,
         };
       }
 
@@ -932,6 +1250,7 @@ class ContractService {
         winningSeedId,
         tokenId,
         txHash: hash,
+        txId,
         diagnostics: {
           currentRound: Number(currentRound),
           seedsInRound: Number(eligibleCount),
@@ -973,6 +1292,7 @@ class ContractService {
   ): Promise<{
     success: boolean;
     txHash?: Hash;
+    txId?: string;
     commandmentId?: number;
     error?: string;
   }> {
@@ -985,16 +1305,12 @@ class ContractService {
       const proofEncoded = this.encodeMerkleProof(merkleProof);
 
       // The new contract uses sendMessage internally via addCommandment
-      const hash = await this.walletClient.writeContract({
-        address: this.contractAddress,
-        abi: SEEDS_ABI,
-        functionName: "addCommandment",
-        args: [BigInt(seedId), ipfsHash, tokenIdsBigInt, proofEncoded],
-      } as any);
-
-      const receipt = await this.publicClient.waitForTransactionReceipt({
-        hash,
-      });
+      const { txId, hash, receipt } = await this.sendRelayerTransaction(
+        "commandment",
+        "addCommandment",
+        [BigInt(seedId), ipfsHash, tokenIdsBigInt, proofEncoded],
+        { seedId, user: userAddress, ipfsHash }
+      );
 
       // Parse CommandmentSubmitted event
       let commandmentId: number | undefined;
@@ -1012,6 +1328,7 @@ class ContractService {
       return {
         success: receipt.status === "success",
         txHash: hash,
+        txId,
         commandmentId,
       };
     } catch (error: any) {
@@ -1069,6 +1386,7 @@ class ContractService {
   ): Promise<{
     success: boolean;
     txHash?: Hash;
+    txId?: string;
     error?: string;
   }> {
     if (!this.walletClient || !this.relayerAccount) {
@@ -1078,20 +1396,17 @@ class ContractService {
     try {
       const amountsBigInt = amounts.map((a) => BigInt(a));
 
-      const hash = await this.walletClient.writeContract({
-        address: this.contractAddress,
-        abi: SEEDS_ABI,
-        functionName: "rewardPriests",
-        args: [BigInt(tokenId), priests, amountsBigInt],
-      } as any);
-
-      const receipt = await this.publicClient.waitForTransactionReceipt({
-        hash,
-      });
+      const { txId, hash, receipt } = await this.sendRelayerTransaction(
+        "rewardPriests",
+        "rewardPriests",
+        [BigInt(tokenId), priests, amountsBigInt],
+        { tokenId, priests }
+      );
 
       return {
         success: receipt.status === "success",
         txHash: hash,
+        txId,
       };
     } catch (error: any) {
       console.error("Error rewarding priests:", error);
@@ -1191,12 +1506,15 @@ class ContractService {
         }
 
         const logs = await this.publicClient.getLogs(filter);
+        const timestamps = await this.getBlockTimestamps(
+          logs.map((log: any) => log.blockNumber)
+        );
 
         const blessings: Blessing[] = logs.map((log: any) => ({
           seedId: log.args.seedId,
           blesser: log.args.blesser,
           score: log.args.score,
-          timestamp: 0n, // Not in new event
+          timestamp: timestamps.get(log.blockNumber) ?? 0n,
         }));
 
         allBlessings.push(...blessings);
@@ -1262,13 +1580,16 @@ class ContractService {
         }
 
         const logs = await this.publicClient.getLogs(filter);
+        const timestamps = await this.getBlockTimestamps(
+          logs.map((log: any) => log.blockNumber)
+        );
 
         const commandments: Commandment[] = logs.map((log: any) => ({
           id: log.args.id,
           seedId: log.args.seedId,
           author: log.args.author,
           ipfsHash: log.args.ipfsHash,
-          createdAt: 0n, // Not in new event
+          createdAt: timestamps.get(log.blockNumber) ?? 0n,
         }));
 
         allCommandments.push(...commandments);
@@ -1282,6 +1603,292 @@ class ContractService {
     }
   }
 
+  /*//////////////////////////////////////////////////////////////
+                        INDEXER SUPPORT
+  //////////////////////////////////////////////////////////////*/
+
+  /**
+   * Read: Get latest block number on the L2
+   */
+  async getBlockNumber(): Promise<bigint> {
+    return this.publicClient.getBlockNumber();
+  }
+
+  /**
+   * Read: Get the hash of a block (used for reorg detection)
+   */
+  async getBlockHash(blockNumber: bigint): Promise<Hash> {
+    const block = await this.publicClient.getBlock({ blockNumber });
+    this.cacheBlockTimestamp(blockNumber, block.timestamp);
+    return block.hash as Hash;
+  }
+
+  /**
+   * Read: Resolve timestamps for a set of blocks
+   * Lookups are de-duplicated, cached per block and fetched in parallel batches
+   *
+   * @returns Map of block number -> unix timestamp (seconds)
+   */
+  async getBlockTimestamps(
+    blockNumbers: bigint[]
+  ): Promise<Map<bigint, bigint>> {
+    const result = new Map<bigint, bigint>();
+    const missing: bigint[] = [];
+
+    for (const blockNumber of new Set(blockNumbers)) {
+      const cached = this.blockTimestampCache.get(blockNumber);
+      if (cached !== undefined) {
+        result.set(blockNumber, cached);
+      } else {
+        missing.push(blockNumber);
+      }
+    }
+
+    for (let i = 0; i < missing.length; i += this.BLOCK_FETCH_CONCURRENCY) {
+      const batch = missing.slice(i, i + this.BLOCK_FETCH_CONCURRENCY);
+      const blocks = await Promise.all(
+        batch.map((blockNumber) => this.publicClient.getBlock({ blockNumber }))
+      );
+
+      blocks.forEach((block, index) => {
+        this.cacheBlockTimestamp(batch[index], block.timestamp);
+        result.set(batch[index], block.timestamp);
+      });
+    }
+
+    return result;
+  }
+
+  private cacheBlockTimestamp(blockNumber: bigint, timestamp: bigint): void {
+    // Evict oldest entries (insertion order) once the cache is full
+    if (this.blockTimestampCache.size >= this.BLOCK_TIMESTAMP_CACHE_SIZE) {
+      const oldest = this.blockTimestampCache.keys().next().value;
+      if (oldest !== undefined) {
+        this.blockTimestampCache.delete(oldest);
+      }
+    }
+    this.blockTimestampCache.set(blockNumber, timestamp);
+  }
+
+  /**
+   * Read: Resolve the senders of a set of transactions
+   * Lookups are de-duplicated, cached and fetched in parallel batches
+   *
+   * @returns Map of transaction hash -> sender address
+   */
+  async getTransactionSenders(hashes: Hash[]): Promise<Map<Hash, Address>> {
+    const result = new Map<Hash, Address>();
+    const missing: Hash[] = [];
+
+    for (const hash of new Set(hashes)) {
+      const cached = this.transactionSenderCache.get(hash);
+      if (cached !== undefined) {
+        result.set(hash, cached);
+      } else {
+        missing.push(hash);
+      }
+    }
+
+    for (let i = 0; i < missing.length; i += this.BLOCK_FETCH_CONCURRENCY) {
+      const batch = missing.slice(i, i + this.BLOCK_FETCH_CONCURRENCY);
+      const transactions = await Promise.all(
+        batch.map((hash) => this.publicClient.getTransaction({ hash }))
+      );
+
+      transactions.forEach((transaction, index) => {
+        // Same eviction policy as the block timestamp cache
+        if (this.transactionSenderCache.size >= this.BLOCK_TIMESTAMP_CACHE_SIZE) {
+          const oldest = this.transactionSenderCache.keys().next().value;
+          if (oldest !== undefined) {
+            this.transactionSenderCache.delete(oldest);
+          }
+        }
+        this.transactionSenderCache.set(batch[index], transaction.from);
+        result.set(batch[index], transaction.from);
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch and decode all indexable events emitted in a block range
+   */
+  async getSeedsContractEvents(
+    fromBlock: bigint,
+    toBlock: bigint
+  ): Promise<SeedsContractEvent[]> {
+    const logs = await this.publicClient.getLogs({
+      address: this.contractAddress,
+      fromBlock,
+      toBlock,
+    });
+
+    return this.decodeSeedsContractLogs(logs);
+  }
+
+  /**
+   * Watch the seeds contract for new indexable events
+   * Uses polling on HTTP transports (viem default)
+   *
+   * @returns Function that stops watching
+   */
+  watchSeedsContractEvents(
+    onEvents: (events: SeedsContractEvent[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return this.publicClient.watchContractEvent({
+      address: this.contractAddress,
+      abi: SEEDS_ABI,
+      onLogs: async (logs: Log[]) => {
+        try {
+          const events = await this.decodeSeedsContractLogs(logs);
+          if (events.length > 0) {
+            onEvents(events);
+          }
+        } catch (error) {
+          onError?.(error as Error);
+        }
+      },
+      onError,
+    });
+  }
+
+  /**
+   * Decode raw seeds contract logs into normalized events
+   *
+   * Event mapping:
+   * - AbrahamSeeds: BlessingSubmitted, CommandmentSubmitted, SeedSubmitted,
+   *   CreationMinted (winner), ReactionSubmitted (score update) and RoundStarted
+   * - TheSeeds (legacy): BlessingSubmitted, CommandmentSubmitted, SeedSubmitted,
+   *   WinnerSelected, SeedScoreUpdated and BlessingPeriodStarted
+   * - Both: DelegateApproval
+   *
+   * AbrahamSeeds' BlessingSubmitted has no actor/isDelegated fields, so the
+   * actor is the transaction sender: a blessing is delegated when someone
+   * other than the blesser sent it.
+   */
+  private async decodeSeedsContractLogs(
+    logs: Log[]
+  ): Promise<SeedsContractEvent[]> {
+    const winnerEvent = IS_NEW_CONTRACT ? "CreationMinted" : "WinnerSelected";
+    const scoreEvent = IS_NEW_CONTRACT ? "ReactionSubmitted" : "SeedScoreUpdated";
+    const roundEvent = IS_NEW_CONTRACT ? "RoundStarted" : "BlessingPeriodStarted";
+
+    const decoded = parseEventLogs({
+      abi: SEEDS_ABI,
+      logs,
+      eventName: [
+        "BlessingSubmitted",
+        "CommandmentSubmitted",
+        "SeedSubmitted",
+        winnerEvent,
+        scoreEvent,
+        roundEvent,
+        "DelegateApproval",
+      ],
+    }) as any[];
+
+    const timestamps = await this.getBlockTimestamps(
+      decoded.map((log) => log.blockNumber)
+    );
+    const senders = await this.getTransactionSenders(
+      decoded
+        .filter((log) => log.eventName === "BlessingSubmitted" && !log.args.actor)
+        .map((log) => log.transactionHash)
+    );
+    const events: SeedsContractEvent[] = [];
+
+    for (const log of decoded) {
+      const location: EventLocation = {
+        blockNumber: log.blockNumber,
+        blockTimestamp: timestamps.get(log.blockNumber) ?? 0n,
+        blockHash: log.blockHash,
+        logIndex: log.logIndex,
+        transactionHash: log.transactionHash,
+      };
+      const args = log.args;
+
+      switch (log.eventName) {
+        case "BlessingSubmitted": {
+          const actor: Address =
+            args.actor ?? senders.get(location.transactionHash) ?? args.blesser;
+          events.push({
+            type: "blessing",
+            seedId: args.seedId,
+            blesser: args.blesser,
+            actor,
+            isDelegated:
+              args.isDelegated ?? actor.toLowerCase() !== args.blesser.toLowerCase(),
+            score: args.score ?? 0n,
+            timestamp: args.timestamp ?? location.blockTimestamp,
+            ...location,
+          });
+          break;
+        }
+        case "CommandmentSubmitted":
+          events.push({
+            type: "commandment",
+            id: args.id ?? args.commandmentId,
+            seedId: args.seedId,
+            author: args.author,
+            ipfsHash: args.ipfsHash,
+            createdAt: args.timestamp ?? location.blockTimestamp,
+            ...location,
+          });
+          break;
+        case "SeedSubmitted":
+          events.push({
+            type: "seed",
+            seedId: args.seedId,
+            creator: args.creator,
+            ipfsHash: args.ipfsHash,
+            round: args.round ?? 0n,
+            ...location,
+          });
+          break;
+        case winnerEvent:
+          events.push({
+            type: "winner",
+            round: args.round,
+            seedId: args.seedId,
+            tokenId: args.tokenId,
+            score: args.score,
+            ...location,
+          });
+          break;
+        case scoreEvent:
+          events.push({
+            type: "scoreUpdate",
+            seedId: args.seedId ?? args.sessionId,
+            blesser: args.blesser ?? args.reactor,
+            previousScore: args.previousScore,
+            newScore: args.newScore,
+            ...location,
+          });
+          break;
+        case roundEvent:
+          events.push({
+            type: "roundStart",
+            round: args.round,
+            ...location,
+          });
+          break;
+        case "DelegateApproval":
+          events.push({
+            type: "delegateApproval",
+            user: args.user,
+            delegate: args.delegate,
+            approved: args.approved,
+            ...location,
+          });
+          break;
+      }
+    }
+
+    return events;
+  }
+
   /**
    * Read: Get commandments for a seed
    */
@@ -1443,6 +2050,7 @@ class ContractService {
   async setBaseURI(baseURI: string): Promise<{
     success: boolean;
     txHash?: Hash;
+    txId?: string;
     error?: string;
   }> {
     if (!this.walletClient || !this.relayerAccount) {
@@ -1450,15 +2058,13 @@ class ContractService {
     }
 
     try {
-      const hash = await this.walletClient.writeContract({
-        address: this.contractAddress,
-        abi: SEEDS_ABI,
-        functionName: "setURI",
-        args: [baseURI],
-      } as any);
-
-      const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
-      return { success: receipt.status === "success", txHash: hash };
+      const { txId, hash, receipt } = await this.sendRelayerTransaction(
+        "setBaseURI",
+        "setURI",
+        [baseURI],
+        { baseURI }
+      );
+      return { success: receipt.status === "success", txHash: hash, txId };
     } catch (error: any) {
       return { success: false, error: error.message || "Failed to set base URI" };
     }
@@ -0,0 +1,174 @@
+/**
+ * Delegation Service
+ *
+ * A user can approve delegates on the seeds contract (approveDelegate) that
+ * bless and comment on their behalf: the backend relayer for gasless
+ * blessings, or their own addresses such as a bot wallet.
+ *
+ * Delegates are listed from indexed DelegateApproval events. The indexer only
+ * indexes blocks with INDEXER_CONFIRMATIONS confirmations, so each delegate's
+ * status is confirmed against the contract before it is reported, and the
+ * relayer is always checked. Other delegates approved within the last
+ * INDEXER_CONFIRMATIONS blocks are not listed yet.
+ */
+
+import { zeroAddress, type Address, type Hash } from "viem";
+import { contractService } from "./contractService.js";
+import { indexerService } from "./indexerService.js";
+
+export interface DelegateInfo {
+  address: Address;
+  approved: boolean; // Current on-chain status
+  isRelayer: boolean; // The backend relayer (gasless blessings)
+  lastChangedAt: number | null; // Unix seconds of the last indexed approval/revocation
+  lastChangedBlock: number | null;
+  transactionHash: Hash | null;
+}
+
+export interface DelegateTransaction {
+  delegate: Address;
+  transaction: ReturnType<typeof contractService.prepareDelegateApprovalTransaction>;
+}
+
+class DelegationService {
+  /**
+   * List the delegates a user has approved
+   *
+   * @param includeRevoked - Also list delegates that were approved and later revoked
+   */
+  async getDelegates(
+    userAddress: Address,
+    includeRevoked = false
+  ): Promise<DelegateInfo[]> {
+    const events = await indexerService.getDelegateApprovals({ user: userAddress });
+
+    // Latest approval/revocation per delegate (events are in chain order)
+    const latest = new Map<string, (typeof events)[number]>();
+    for (const event of events) {
+      latest.set(event.delegate.toLowerCase(), event);
+    }
+
+    const addresses = new Map<string, Address>(
+      [...latest.values()].map((event) => [event.delegate.toLowerCase(), event.delegate])
+    );
+
+    // The relayer may have been approved in a block the indexer has not reached
+    const relayerAddress = contractService.getRelayerAddress();
+    if (relayerAddress && !addresses.has(relayerAddress.toLowerCase())) {
+      addresses.set(relayerAddress.toLowerCase(), relayerAddress);
+    }
+
+    const delegates = await Promise.all(
+      [...addresses.entries()].map(async ([key, address]): Promise<DelegateInfo> => {
+        const event = latest.get(key);
+        return {
+          address,
+          approved: await contractService.isDelegate(userAddress, address),
+          isRelayer: key === relayerAddress?.toLowerCase(),
+          lastChangedAt: event ? Number(event.blockTimestamp) : null,
+          lastChangedBlock: event ? Number(event.blockNumber) : null,
+          transactionHash: event?.transactionHash ?? null,
+        };
+      })
+    );
+
+    // Most recently changed first; a relayer approval not indexed yet is newest
+    return delegates
+      .filter(
+        (delegate) =>
+          delegate.approved || (includeRevoked && delegate.lastChangedBlock !== null)
+      )
+      .sort(
+        (a, b) => (b.lastChangedBlock ?? Infinity) - (a.lastChangedBlock ?? Infinity)
+      );
+  }
+
+  /**
+   * Prepare a delegate approval or revocation transaction for client-side signing
+   *
+   * @param delegateAddress - Delegate to approve or revoke (default: the backend relayer)
+   */
+  async prepareApproval(
+    userAddress: Address,
+    delegateAddress: Address | undefined,
+    approved: boolean
+  ): Promise<{
+    success: boolean;
+    transaction?: DelegateTransaction["transaction"];
+    delegateAddress?: Address;
+    isRelayer?: boolean;
+    currentStatus?: string;
+    error?: string;
+  }> {
+    const relayerAddress = contractService.getRelayerAddress();
+    const delegate = delegateAddress ?? relayerAddress;
+
+    if (!delegate) {
+      return {
+        success: false,
+        error: "Backend relayer not configured",
+      };
+    }
+
+    if (delegate === zeroAddress) {
+      return {
+        success: false,
+        error: "Delegate cannot be the zero address",
+      };
+    }
+
+    if (delegate.toLowerCase() === userAddress.toLowerCase()) {
+      return {
+        success: false,
+        error: "You cannot approve yourself as a delegate",
+      };
+    }
+
+    const isCurrentlyDelegate = await contractService.isDelegate(userAddress, delegate);
+
+    return {
+      success: true,
+      transaction: contractService.prepareDelegateApprovalTransaction(
+        userAddress,
+        delegate,
+        approved
+      ),
+      delegateAddress: delegate,
+      isRelayer: delegate.toLowerCase() === relayerAddress?.toLowerCase(),
+      currentStatus: isCurrentlyDelegate ? "Already approved" : "Not yet approved",
+    };
+  }
+
+  /**
+   * Prepare revocation transactions (one per delegate) for client-side signing
+   *
+   * @param delegateAddresses - Delegates to revoke (default: every approved delegate)
+   */
+  async prepareRevocations(
+    userAddress: Address,
+    delegateAddresses?: Address[]
+  ): Promise<DelegateTransaction[]> {
+    let delegates: Address[];
+
+    if (delegateAddresses) {
+      // Skip delegates that are not (or no longer) approved
+      const statuses = await Promise.all(
+        delegateAddresses.map((delegate) => contractService.isDelegate(userAddress, delegate))
+      );
+      delegates = delegateAddresses.filter((_, index) => statuses[index]);
+    } else {
+      delegates = (await this.getDelegates(userAddress)).map((delegate) => delegate.address);
+    }
+
+    return delegates.map((delegate) => ({
+      delegate,
+      transaction: contractService.prepareDelegateApprovalTransaction(
+        userAddress,
+        delegate,
+        false
+      ),
+    }));
+  }
+}
+
+export const delegationService = new DelegationService();
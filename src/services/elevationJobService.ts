@@ -0,0 +1,369 @@
+/**
+ * Elevation Job Service
+ *
+ * Purpose: Run the winner → mint → auction pipeline as a persisted,
+ * resumable job so a timeout or partial failure never leaves a round
+ * half-elevated
+ *
+ * States:
+ * - winner-selected   Winner is known, Abraham creation not minted yet
+ * - minted            Creation minted on Sepolia, auction not created yet
+ * - auction-created   Pipeline complete
+ * - failed            A step failed (see failedAtStep); resume retries that step
+ *
+ * Storage: the shared record store (STATE_STORE, see lib/storage/recordStore.ts),
+ * so the resume cron sees jobs started by any instance
+ *
+ * Idempotency:
+ * - Jobs are keyed by round number - creating a job for a round that already
+ *   has one returns the existing job
+ * - A run claims its job in the store, so two instances never run the same
+ *   round at once
+ * - Each step only runs if its result is not recorded yet, and every
+ *   transition is persisted before the next step starts
+ * - If a previous mint attempt may have landed on-chain without being
+ *   recorded (e.g. the request timed out while waiting for the receipt),
+ *   the job refuses to mint again and asks for the token ID instead
+ */
+
+import type { Address, Hash } from "viem";
+import { createRecordStore } from "../../lib/storage/recordStore.js";
+import { abrahamService } from "./abrahamService.js";
+import { contractService } from "./contractService.js";
+import { webhookService } from "./webhookService.js";
+
+export type ElevationJobState =
+  | "winner-selected"
+  | "minted"
+  | "auction-created"
+  | "failed";
+
+export type ElevationJobStep = "mint" | "auction";
+
+export interface ElevationJob {
+  round: number;
+  seedId: number;
+  seed: {
+    ipfsHash: string;
+    creator: Address;
+    blessings: number;
+  };
+  state: ElevationJobState;
+  failedAtStep: ElevationJobStep | null;
+  winnerTxHash?: Hash;
+  tokenId?: number;
+  mintTxHash?: Hash;
+  mintStartedAt?: string;
+  auctionId?: number;
+  auctionTxHash?: Hash;
+  auctionStartedAt?: string;
+  attempts: number;
+  lastError: string | null;
+  history: Array<{ state: ElevationJobState; at: string; error?: string }>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+class ElevationJobService {
+  private store = createRecordStore<ElevationJob>({
+    collection: "elevation-jobs",
+    filename: "jobs/elevation-jobs.json",
+    field: "jobs",
+    id: (job) => String(job.round),
+  });
+  private running = new Map<number, Promise<ElevationJob>>();
+
+  private readonly AUCTION_DURATION_DAYS = 1;
+  private readonly AUCTION_MIN_BID_ETH = "0.01";
+  // Longer than a mint plus an auction, each waiting for its receipt
+  private readonly RUN_CLAIM_TTL_MS = 15 * 60 * 1000;
+
+  private async save(job: ElevationJob): Promise<void> {
+    await this.store.set(String(job.round), job);
+  }
+
+  private async transition(
+    job: ElevationJob,
+    state: ElevationJobState,
+    error?: string
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    job.state = state;
+    job.updatedAt = now;
+    job.lastError = error ?? null;
+    job.history.push({ state, at: now, ...(error ? { error } : {}) });
+    await this.save(job);
+  }
+
+  async getJob(round: number): Promise<ElevationJob | null> {
+    return this.store.get(String(round));
+  }
+
+  async listJobs(state?: ElevationJobState): Promise<ElevationJob[]> {
+    const jobs = await this.store.list();
+    return jobs
+      .filter((job) => !state || job.state === state)
+      .sort((a, b) => b.round - a.round);
+  }
+
+  /**
+   * Get jobs that have not completed: failed, interrupted mid-pipeline, or
+   * created by a request that ended before the first step ran
+   */
+  async getIncompleteJobs(): Promise<ElevationJob[]> {
+    return (await this.listJobs()).filter((job) => job.state !== "auction-created");
+  }
+
+  /**
+   * Record a selected winner (idempotent per round)
+   */
+  async createJob(input: {
+    round: number;
+    seedId: number;
+    seed: ElevationJob["seed"];
+    winnerTxHash?: Hash;
+  }): Promise<ElevationJob> {
+    const existing = await this.getJob(input.round);
+    if (existing) {
+      return existing;
+    }
+
+    const now = new Date().toISOString();
+    const job: ElevationJob = {
+      round: input.round,
+      seedId: input.seedId,
+      seed: input.seed,
+      state: "winner-selected",
+      failedAtStep: null,
+      winnerTxHash: input.winnerTxHash,
+      attempts: 0,
+      lastError: null,
+      history: [{ state: "winner-selected", at: now }],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.save(job);
+
+    console.log(`🗂️  Elevation job created for round ${job.round} (seed ${job.seedId})`);
+    return job;
+  }
+
+  /**
+   * Create a job for a round from on-chain data (winner already selected)
+   */
+  async createJobFromChain(round: number): Promise<ElevationJob> {
+    const existing = await this.getJob(round);
+    if (existing) {
+      return existing;
+    }
+
+    const winningSeedId = Number(await contractService.getRoundWinner(round));
+    const seed = await contractService.getSeed(winningSeedId);
+
+    if (!seed.isWinner) {
+      throw new Error(`Round ${round} has no selected winner`);
+    }
+
+    return this.createJob({
+      round,
+      seedId: winningSeedId,
+      seed: {
+        ipfsHash: seed.ipfsHash,
+        creator: seed.creator,
+        blessings: Number(seed.blessings),
+      },
+    });
+  }
+
+  /**
+   * Record an auction created outside the job (POST /admin/create-auction)
+   * so resuming the job does not try to auction the token again
+   */
+  async recordAuction(
+    tokenId: number,
+    auctionId: number,
+    txHash?: Hash
+  ): Promise<ElevationJob | null> {
+    const job = (await this.store.list()).find(
+      (candidate) =>
+        candidate.tokenId === tokenId && candidate.auctionId === undefined
+    );
+    if (!job) {
+      return null;
+    }
+
+    job.auctionId = auctionId;
+    job.auctionTxHash = txHash;
+    job.failedAtStep = null;
+    await this.transition(job, "auction-created");
+    return job;
+  }
+
+  /**
+   * Run (or resume) a job until it completes or a step fails
+   * Concurrent calls for the same round share one run; if another instance
+   * is running it, the job is returned as stored
+   *
+   * @param overrides - Manually recorded step results (e.g. a token ID minted
+   *                    by a request that timed out)
+   */
+  async run(
+    round: number,
+    overrides?: { tokenId?: number; auctionId?: number }
+  ): Promise<ElevationJob> {
+    const inFlight = this.running.get(round);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const promise = this.runClaimed(round, overrides).finally(() => {
+      this.running.delete(round);
+    });
+    this.running.set(round, promise);
+    return promise;
+  }
+
+  private async runClaimed(
+    round: number,
+    overrides?: { tokenId?: number; auctionId?: number }
+  ): Promise<ElevationJob> {
+    const id = String(round);
+    if (!(await this.store.claim(id, this.RUN_CLAIM_TTL_MS))) {
+      const job = await this.getJob(round);
+      if (!job) {
+        throw new Error(`No elevation job for round ${round}`);
+      }
+      console.log(`🗂️  Round ${round}: elevation job is already running on another instance`);
+      return job;
+    }
+
+    try {
+      return await this.runSteps(round, overrides);
+    } finally {
+      await this.store.unclaim(id);
+    }
+  }
+
+  private async runSteps(
+    round: number,
+    overrides?: { tokenId?: number; auctionId?: number }
+  ): Promise<ElevationJob> {
+    const job = await this.getJob(round);
+    if (!job) {
+      throw new Error(`No elevation job for round ${round}`);
+    }
+
+    if (overrides?.tokenId !== undefined && job.tokenId === undefined) {
+      job.tokenId = overrides.tokenId;
+      await this.transition(job, "minted");
+    }
+    if (overrides?.auctionId !== undefined && job.auctionId === undefined) {
+      job.auctionId = overrides.auctionId;
+      await this.transition(job, "auction-created");
+    }
+
+    if (job.state === "auction-created") {
+      return job;
+    }
+
+    if (!abrahamService.isConfigured()) {
+      throw new Error("Abraham service not configured");
+    }
+
+    job.attempts += 1;
+    job.failedAtStep = null;
+
+    // STEP 1: Mint the Abraham creation
+    if (job.tokenId === undefined) {
+      if (job.mintStartedAt && (await abrahamService.hasCommittedToday())) {
+        job.failedAtStep = "mint";
+        await this.transition(
+          job,
+          "failed",
+          "A previous mint attempt may have succeeded (covenant already committed today). " +
+            "Verify on-chain and resume with the minted tokenId."
+        );
+        return job;
+      }
+
+      job.mintStartedAt = new Date().toISOString();
+      await this.save(job);
+
+      console.log(`🗂️  Round ${round}: minting seed ${job.seedId}...`);
+      const mintResult = await abrahamService.commitDailyWork(job.seed.ipfsHash);
+
+      if (mintResult.txHash) {
+        job.mintTxHash = mintResult.txHash;
+      }
+
+      if (!mintResult.success || mintResult.tokenId === undefined) {
+        job.failedAtStep = "mint";
+        await this.transition(
+          job,
+          "failed",
+          mintResult.error || "Mint succeeded but token ID is missing"
+        );
+        return job;
+      }
+
+      job.tokenId = mintResult.tokenId;
+      await this.transition(job, "minted");
+
+      await webhookService.emit("seed.elevated", {
+        seedId: job.seedId,
+        round,
+        creator: job.seed.creator,
+        ipfsHash: job.seed.ipfsHash,
+        blessings: job.seed.blessings,
+        tokenId: job.tokenId,
+        mintTxHash: job.mintTxHash,
+        mintExplorer: `https://sepolia.etherscan.io/tx/${job.mintTxHash}`,
+      });
+    }
+
+    // STEP 2: Create the auction
+    if (job.auctionId === undefined) {
+      job.auctionStartedAt = new Date().toISOString();
+      await this.save(job);
+
+      console.log(`🗂️  Round ${round}: creating auction for token ${job.tokenId}...`);
+      const auctionResult = await abrahamService.createDailyAuction(
+        job.tokenId!,
+        this.AUCTION_DURATION_DAYS,
+        this.AUCTION_MIN_BID_ETH
+      );
+
+      if (auctionResult.txHash) {
+        job.auctionTxHash = auctionResult.txHash;
+      }
+
+      if (!auctionResult.success || auctionResult.auctionId === undefined) {
+        job.failedAtStep = "auction";
+        await this.transition(
+          job,
+          "failed",
+          auctionResult.error || "Auction created but auction ID is missing"
+        );
+        return job;
+      }
+
+      job.auctionId = auctionResult.auctionId;
+      await this.transition(job, "auction-created");
+
+      await webhookService.emit("auction.created", {
+        tokenId: job.tokenId,
+        auctionId: job.auctionId,
+        seedId: job.seedId,
+        round,
+        txHash: job.auctionTxHash,
+        explorer: `https://sepolia.etherscan.io/tx/${job.auctionTxHash}`,
+      });
+    }
+
+    console.log(`🗂️  Round ${round}: elevation job complete`);
+    return job;
+  }
+}
+
+export const elevationJobService = new ElevationJobService();
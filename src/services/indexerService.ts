@@ -0,0 +1,604 @@
+/**
+ * Indexer Service
+ *
+ * Purpose: Incrementally index seeds contract events into a local store so
+ * routes can query blessings, commandments, seeds and winners without
+ * rescanning logs from the deployment block.
+ *
+ * Features:
+ * - Tracks the last processed block and only fetches new ranges
+ * - Pluggable storage (in-memory or JSON file, see INDEXER_STORE); the file
+ *   is written once per sync
+ * - Only indexes blocks with INDEXER_CONFIRMATIONS confirmations, so the
+ *   index trails the chain head by that many blocks and shallow reorgs never
+ *   reach it
+ * - Deeper reorgs: if the hash of the last processed block changed, rewinds
+ *   INDEXER_CONFIRMATIONS blocks and re-indexes them
+ * - Lazy, throttled sync triggered by queries (INDEXER_SYNC_INTERVAL_MS)
+ * - If a sync fails, queries serve the data indexed so far (isStale() is
+ *   true until a sync succeeds); with nothing indexed yet they throw
+ *   IndexerUnavailableError instead of returning empty results
+ * - Listeners notified of newly indexed events (not of the initial backfill)
+ */
+
+import type { Address, Hash } from "viem";
+import {
+  contractService,
+  type SeedsContractEvent,
+} from "./contractService.js";
+import { readJsonFile, writeJsonFile } from "../../lib/storage/jsonFileStore.js";
+
+export type IndexedEventType = SeedsContractEvent["type"];
+
+export type IndexedEvent<T extends IndexedEventType = IndexedEventType> =
+  Extract<SeedsContractEvent, { type: T }>;
+
+const EVENT_TYPES: IndexedEventType[] = [
+  "blessing",
+  "commandment",
+  "seed",
+  "winner",
+  "scoreUpdate",
+  "roundStart",
+  "delegateApproval",
+];
+
+export interface IndexerCursor {
+  lastProcessedBlock: bigint;
+  lastProcessedHash: Hash | null;
+}
+
+export interface IndexerStatus {
+  store: string;
+  lastProcessedBlock: number | null;
+  lastSyncedAt: number | null;
+  lastError: string | null;
+  stale: boolean;
+  syncing: boolean;
+  eventCounts: Record<IndexedEventType, number>;
+}
+
+/**
+ * Thrown by queries when nothing has been indexed and the sync failed, so
+ * callers don't mistake an unreachable chain for an empty one
+ */
+export class IndexerUnavailableError extends Error {
+  constructor(cause: string | null) {
+    super(`Chain event index is not available yet: ${cause ?? "sync failed"}`);
+    this.name = "IndexerUnavailableError";
+  }
+}
+
+/**
+ * Storage adapter for indexed events
+ */
+export interface IndexerStore {
+  readonly name: string;
+  getCursor(): Promise<IndexerCursor | null>;
+  /** Insert events and advance the cursor in one step */
+  commit(events: SeedsContractEvent[], cursor: IndexerCursor): Promise<void>;
+  /** Remove all events at or above a block and reset the cursor below it */
+  rewind(fromBlock: bigint, cursor: IndexerCursor | null): Promise<void>;
+  /** Persist changes (called once at the end of each sync) */
+  flush(): Promise<void>;
+  getEvents<T extends IndexedEventType>(type: T): Promise<IndexedEvent<T>[]>;
+}
+
+/**
+ * In-memory store (lost on restart)
+ */
+export class MemoryIndexerStore implements IndexerStore {
+  readonly name: string = "memory";
+  protected cursor: IndexerCursor | null = null;
+  protected events: SeedsContractEvent[] = [];
+  protected keys = new Set<string>();
+
+  async getCursor(): Promise<IndexerCursor | null> {
+    return this.cursor;
+  }
+
+  async commit(
+    events: SeedsContractEvent[],
+    cursor: IndexerCursor
+  ): Promise<void> {
+    const added = events
+      .filter((event) => !this.keys.has(eventKey(event)))
+      .sort(compareEvents);
+    const last = this.events[this.events.length - 1];
+
+    for (const event of added) {
+      this.keys.add(eventKey(event));
+      this.events.push(event);
+    }
+    // Batches arrive in chain order; only re-sort if one overlaps
+    if (last && added.length > 0 && compareEvents(last, added[0]) > 0) {
+      this.events.sort(compareEvents);
+    }
+    this.cursor = cursor;
+  }
+
+  async rewind(
+    fromBlock: bigint,
+    cursor: IndexerCursor | null
+  ): Promise<void> {
+    this.events = this.events.filter((event) => event.blockNumber < fromBlock);
+    this.keys = new Set(this.events.map(eventKey));
+    this.cursor = cursor;
+  }
+
+  async flush(): Promise<void> {}
+
+  async getEvents<T extends IndexedEventType>(
+    type: T
+  ): Promise<IndexedEvent<T>[]> {
+    return this.events.filter(
+      (event): event is IndexedEvent<T> => event.type === type
+    );
+  }
+}
+
+// Bump when the stored event shape changes to force a full re-index
+const INDEXER_FILE_VERSION = 4;
+
+interface IndexerFileData {
+  version?: number;
+  contractAddress: string;
+  cursor: IndexerCursor | null;
+  events: SeedsContractEvent[];
+}
+
+/**
+ * JSON file store (persisted in the data directory)
+ */
+export class JsonFileIndexerStore extends MemoryIndexerStore {
+  readonly name = "file";
+  private loaded = false;
+  private dirty = false;
+
+  constructor(
+    private readonly filename: string,
+    private readonly contractAddress: string
+  ) {
+    super();
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) return;
+
+    const data = await readJsonFile<IndexerFileData>(this.filename);
+    // Ignore data indexed for a different contract deployment or format
+    if (
+      data &&
+      data.version === INDEXER_FILE_VERSION &&
+      data.contractAddress.toLowerCase() === this.contractAddress.toLowerCase()
+    ) {
+      this.cursor = data.cursor;
+      this.events = data.events;
+      this.keys = new Set(this.events.map(eventKey));
+    }
+    this.loaded = true;
+  }
+
+  async flush(): Promise<void> {
+    if (!this.dirty) return;
+
+    this.dirty = false;
+    await writeJsonFile(this.filename, {
+      version: INDEXER_FILE_VERSION,
+      contractAddress: this.contractAddress,
+      cursor: this.cursor,
+      events: this.events,
+    } satisfies IndexerFileData);
+  }
+
+  async getCursor(): Promise<IndexerCursor | null> {
+    await this.load();
+    return super.getCursor();
+  }
+
+  async commit(
+    events: SeedsContractEvent[],
+    cursor: IndexerCursor
+  ): Promise<void> {
+    await this.load();
+    await super.commit(events, cursor);
+    this.dirty = true;
+  }
+
+  async rewind(
+    fromBlock: bigint,
+    cursor: IndexerCursor | null
+  ): Promise<void> {
+    await this.load();
+    await super.rewind(fromBlock, cursor);
+    this.dirty = true;
+  }
+
+  async getEvents<T extends IndexedEventType>(
+    type: T
+  ): Promise<IndexedEvent<T>[]> {
+    await this.load();
+    return super.getEvents(type);
+  }
+}
+
+function eventKey(event: SeedsContractEvent): string {
+  return `${event.blockNumber}:${event.logIndex}`;
+}
+
+function compareEvents(a: SeedsContractEvent, b: SeedsContractEvent): number {
+  if (a.blockNumber !== b.blockNumber) {
+    return a.blockNumber < b.blockNumber ? -1 : 1;
+  }
+  return a.logIndex - b.logIndex;
+}
+
+function createStore(): IndexerStore {
+  const storeType = (process.env.INDEXER_STORE || "file").toLowerCase();
+
+  if (storeType === "memory") {
+    return new MemoryIndexerStore();
+  }
+  return new JsonFileIndexerStore(
+    "indexer/seeds-events.json",
+    contractService.getContractAddress()
+  );
+}
+
+type IndexedEventsListener = (events: SeedsContractEvent[]) => void;
+
+class IndexerService {
+  private store: IndexerStore = createStore();
+  private listeners = new Set<IndexedEventsListener>();
+  private readonly BATCH_SIZE = 50000n;
+  private readonly CONFIRMATIONS = BigInt(
+    process.env.INDEXER_CONFIRMATIONS || "12"
+  );
+  private readonly SYNC_INTERVAL =
+    Number(process.env.INDEXER_SYNC_INTERVAL_MS) || 15 * 1000;
+
+  private syncPromise: Promise<void> | null = null;
+  private lastSyncedAt: number | null = null;
+  private lastError: string | null = null;
+
+  /**
+   * Sync if the last sync is older than the sync interval
+   * Concurrent callers share the same in-flight sync
+   */
+  async ensureSynced(): Promise<void> {
+    if (this.lastSyncedAt && Date.now() - this.lastSyncedAt < this.SYNC_INTERVAL) {
+      return;
+    }
+    await this.sync();
+  }
+
+  /**
+   * Be notified of events indexed by later syncs
+   * The initial backfill (and a full re-index after a deep reorg) is not
+   * reported: those events are history, not news.
+   *
+   * @returns Function that removes the listener
+   */
+  onEventsIndexed(listener: IndexedEventsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Mark the index as stale so the next query syncs immediately
+   */
+  invalidate(): void {
+    this.lastSyncedAt = null;
+  }
+
+  /**
+   * Whether the last sync failed (queries serve older data until one succeeds)
+   */
+  isStale(): boolean {
+    return this.lastError !== null;
+  }
+
+  /**
+   * Index all new blocks up to the chain head minus INDEXER_CONFIRMATIONS
+   */
+  async sync(): Promise<void> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.runSync().finally(() => {
+        this.syncPromise = null;
+      });
+    }
+    return this.syncPromise;
+  }
+
+  private async runSync(): Promise<void> {
+    try {
+      let cursor = await this.detectReorg(await this.store.getCursor());
+      const backfill = cursor === null;
+      const head = (await contractService.getBlockNumber()) - this.CONFIRMATIONS;
+
+      let fromBlock = cursor
+        ? cursor.lastProcessedBlock + 1n
+        : contractService.getDeploymentBlock();
+
+      if (fromBlock <= head) {
+        console.log(`🔎 Indexing seeds events from block ${fromBlock} to ${head}`);
+      }
+
+      while (fromBlock <= head) {
+        const toBlock =
+          fromBlock + this.BATCH_SIZE - 1n > head
+            ? head
+            : fromBlock + this.BATCH_SIZE - 1n;
+
+        const events = await contractService.getSeedsContractEvents(
+          fromBlock,
+          toBlock
+        );
+        cursor = {
+          lastProcessedBlock: toBlock,
+          lastProcessedHash: await contractService.getBlockHash(toBlock),
+        };
+        await this.store.commit(events, cursor);
+        if (!backfill && events.length > 0) {
+          this.notify(events);
+        }
+
+        fromBlock = toBlock + 1n;
+      }
+
+      await this.store.flush();
+      this.lastSyncedAt = Date.now();
+      this.lastError = null;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      console.error("❌ Indexer sync failed:", error);
+      // Keep the batches indexed before the failure
+      await this.store.flush().catch((flushError) => {
+        console.error("❌ Failed to persist the index:", flushError);
+      });
+      throw error;
+    }
+  }
+
+  private notify(events: SeedsContractEvent[]): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(events);
+      } catch (error) {
+        console.error("❌ Indexed events listener failed:", error);
+      }
+    }
+  }
+
+  /**
+   * Rewind the confirmation window if the last processed block was reorged out
+   */
+  private async detectReorg(
+    cursor: IndexerCursor | null
+  ): Promise<IndexerCursor | null> {
+    if (!cursor || !cursor.lastProcessedHash) {
+      return cursor;
+    }
+
+    const currentHash = await contractService.getBlockHash(
+      cursor.lastProcessedBlock
+    );
+    if (currentHash === cursor.lastProcessedHash) {
+      return cursor;
+    }
+
+    const deploymentBlock = contractService.getDeploymentBlock();
+    const rewindTo =
+      cursor.lastProcessedBlock - this.CONFIRMATIONS > deploymentBlock
+        ? cursor.lastProcessedBlock - this.CONFIRMATIONS
+        : deploymentBlock;
+
+    console.warn(
+      `⚠️  Reorg detected at block ${cursor.lastProcessedBlock}, rewinding to block ${rewindTo}`
+    );
+
+    const rewoundCursor: IndexerCursor | null =
+      rewindTo > deploymentBlock
+        ? {
+            lastProcessedBlock: rewindTo - 1n,
+            lastProcessedHash: await contractService.getBlockHash(rewindTo - 1n),
+          }
+        : null;
+
+    await this.store.rewind(rewindTo, rewoundCursor);
+    return rewoundCursor;
+  }
+
+  /**
+   * Query events of a type, syncing first if stale
+   * Falls back to already indexed data if the sync fails (see isStale());
+   * throws IndexerUnavailableError if there is none
+   */
+  private async query<T extends IndexedEventType>(
+    type: T
+  ): Promise<IndexedEvent<T>[]> {
+    try {
+      await this.ensureSynced();
+    } catch {
+      if (!(await this.store.getCursor())) {
+        throw new IndexerUnavailableError(this.lastError);
+      }
+    }
+    return this.store.getEvents(type);
+  }
+
+  /**
+   * Get indexed blessings, optionally filtered by seed and/or blesser
+   */
+  async getBlessings(filter?: {
+    seedId?: number;
+    blesser?: Address;
+  }): Promise<IndexedEvent<"blessing">[]> {
+    const events = await this.query("blessing");
+    return events.filter(
+      (event) =>
+        (filter?.seedId === undefined || event.seedId === BigInt(filter.seedId)) &&
+        (!filter?.blesser ||
+          event.blesser.toLowerCase() === filter.blesser.toLowerCase())
+    );
+  }
+
+  /**
+   * Get indexed commandments, optionally filtered by seed and/or author
+   */
+  async getCommandments(filter?: {
+    seedId?: number;
+    author?: Address;
+  }): Promise<IndexedEvent<"commandment">[]> {
+    const events = await this.query("commandment");
+    return events.filter(
+      (event) =>
+        (filter?.seedId === undefined || event.seedId === BigInt(filter.seedId)) &&
+        (!filter?.author ||
+          event.author.toLowerCase() === filter.author.toLowerCase())
+    );
+  }
+
+  /**
+   * Look up commandments by ID, including ones not confirmed yet
+   * The index stops INDEXER_CONFIRMATIONS blocks below the chain head, so a
+   * commandment posted seconds ago (the usual target of a reply) is read
+   * from the logs above the indexed head when the index does not have it.
+   *
+   * @returns Found commandments by ID (missing IDs are left out)
+   */
+  async getCommandmentsById(
+    ids: number[]
+  ): Promise<Map<number, IndexedEvent<"commandment">>> {
+    const wanted = new Set(ids);
+    const found = new Map<number, IndexedEvent<"commandment">>();
+    const collect = (events: IndexedEvent<"commandment">[]) => {
+      for (const event of events) {
+        if (wanted.has(Number(event.id))) {
+          found.set(Number(event.id), event);
+        }
+      }
+    };
+
+    collect(await this.getCommandments());
+    if (found.size < wanted.size) {
+      collect(
+        (await this.getUnconfirmedEvents()).filter(
+          (event): event is IndexedEvent<"commandment"> => event.type === "commandment"
+        )
+      );
+    }
+    return found;
+  }
+
+  /**
+   * Read the events in the blocks above the indexed head, in chain order
+   * They may still be reorged out, so they are never stored
+   */
+  async getUnconfirmedEvents(): Promise<SeedsContractEvent[]> {
+    const cursor = await this.store.getCursor();
+    const head = await contractService.getBlockNumber();
+    if (!cursor || cursor.lastProcessedBlock >= head) {
+      return [];
+    }
+
+    return contractService.getSeedsContractEvents(
+      cursor.lastProcessedBlock + 1n,
+      head
+    );
+  }
+
+  /**
+   * Get indexed seed submissions
+   */
+  async getSeedSubmissions(): Promise<IndexedEvent<"seed">[]> {
+    return this.query("seed");
+  }
+
+  /**
+   * Get indexed round winners
+   */
+  async getWinners(): Promise<IndexedEvent<"winner">[]> {
+    return this.query("winner");
+  }
+
+  /**
+   * Get indexed score updates, optionally filtered by seed
+   */
+  async getScoreUpdates(seedId?: number): Promise<IndexedEvent<"scoreUpdate">[]> {
+    const events = await this.query("scoreUpdate");
+    return seedId === undefined
+      ? events
+      : events.filter((event) => event.seedId === BigInt(seedId));
+  }
+
+  /**
+   * Get indexed round starts
+   */
+  async getRoundStarts(): Promise<IndexedEvent<"roundStart">[]> {
+    return this.query("roundStart");
+  }
+
+  /**
+   * Get indexed delegate approvals and revocations, optionally filtered by
+   * user and/or delegate, in chain order
+   */
+  async getDelegateApprovals(filter?: {
+    user?: Address;
+    delegate?: Address;
+  }): Promise<IndexedEvent<"delegateApproval">[]> {
+    const events = await this.query("delegateApproval");
+    return events.filter(
+      (event) =>
+        (!filter?.user || event.user.toLowerCase() === filter.user.toLowerCase()) &&
+        (!filter?.delegate ||
+          event.delegate.toLowerCase() === filter.delegate.toLowerCase())
+    );
+  }
+
+  /**
+   * Get all indexed events after a log position, in chain order
+   * Used to replay missed events for resumable streams
+   */
+  async getEventsAfter(
+    blockNumber: bigint,
+    logIndex: number
+  ): Promise<SeedsContractEvent[]> {
+    const events: SeedsContractEvent[] = [];
+    for (const type of EVENT_TYPES) {
+      events.push(
+        ...(await this.query(type)).filter(
+          (event) =>
+            event.blockNumber > blockNumber ||
+            (event.blockNumber === blockNumber && event.logIndex > logIndex)
+        )
+      );
+    }
+    return events.sort(compareEvents);
+  }
+
+  /**
+   * Get indexer status (does not trigger a sync)
+   */
+  async getStatus(): Promise<IndexerStatus> {
+    const cursor = await this.store.getCursor();
+    const eventCounts = {} as Record<IndexedEventType, number>;
+    for (const type of EVENT_TYPES) {
+      eventCounts[type] = (await this.store.getEvents(type)).length;
+    }
+
+    return {
+      store: this.store.name,
+      lastProcessedBlock: cursor ? Number(cursor.lastProcessedBlock) : null,
+      lastSyncedAt: this.lastSyncedAt,
+      lastError: this.lastError,
+      stale: this.isStale(),
+      syncing: this.syncPromise !== null,
+      eventCounts,
+    };
+  }
+}
+
+export const indexerService = new IndexerService();
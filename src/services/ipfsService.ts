@@ -1,7 +1,10 @@
 /**
  * IPFS Service
  *
- * This service handles uploading commandment content to IPFS using Pinata.
+ * This service handles uploading commandment content to IPFS through the
+ * configured provider (Pinata, a Kubo node, or a local stand-in; see
+ * lib/ipfs/ipfsProvider.ts) and reading content back through the gateway
+ * fetcher, which verifies it against its CID.
  *
  * Features:
  * - Upload commandment messages and metadata to IPFS
@@ -9,7 +12,15 @@
  * - JSON metadata structure
  */
 
-import { PinataSDK } from 'pinata';
+import { getIpfsProvider, getIpfsProviderName } from '../../lib/ipfs/ipfsProvider.js';
+import { fetchIpfsJson, toGatewayUrl } from '../../lib/ipfs/gatewayFetcher.js';
+
+/**
+ * Version written to new commandments
+ * - 1.0: message only
+ * - 2.0: optional replyTo and quotes
+ */
+export const COMMANDMENT_METADATA_VERSION = '2.0';
 
 export interface CommandmentMetadata {
   type: 'commandment';
@@ -18,6 +29,16 @@ export interface CommandmentMetadata {
   seedId: number;
   timestamp: number;
   version: string;
+  replyTo?: number; // Parent commandment ID (same seed)
+  quotes?: number[]; // Quoted commandment IDs
+}
+
+/**
+ * Where a commandment sits in a conversation
+ */
+export interface CommandmentThreadFields {
+  replyTo?: number;
+  quotes?: number[];
 }
 
 export interface IPFSUploadResult {
@@ -27,52 +48,41 @@ export interface IPFSUploadResult {
   error?: string;
 }
 
-// Initialize Pinata client
-let pinata: PinataSDK | null = null;
-
-function getPinataClient(): PinataSDK | null {
-  if (pinata) return pinata;
-
-  const jwt = process.env.PINATA_JWT;
-  if (!jwt) {
-    console.warn('PINATA_JWT not configured');
-    return null;
-  }
-
-  pinata = new PinataSDK({ pinataJwt: jwt });
-  return pinata;
-}
+const NOT_CONFIGURED_ERROR =
+  'IPFS not configured. Set IPFS_PROVIDER, PINATA_JWT or KUBO_API_URL in environment.';
 
 /**
  * Check if IPFS service is configured
  */
 export function isIPFSServiceConfigured(): boolean {
-  return !!process.env.PINATA_JWT;
+  try {
+    return getIpfsProviderName() !== null;
+  } catch {
+    return false;
+  }
 }
 
 /**
- * Upload commandment content to IPFS via Pinata
+ * Upload commandment content to IPFS
  *
  * @param message - Commandment message text
  * @param author - Author address
  * @param seedId - Seed ID being commented on
+ * @param thread - Parent and quoted commandments (optional)
  * @returns Upload result with hash and URL
  */
 export async function uploadCommandment(
   message: string,
   author: string,
-  seedId: number
+  seedId: number,
+  thread: CommandmentThreadFields = {}
 ): Promise<IPFSUploadResult> {
-  const client = getPinataClient();
-
-  if (!client) {
-    return {
-      success: false,
-      error: 'IPFS not configured. Set PINATA_JWT in environment.'
-    };
-  }
-
   try {
+    const provider = await getIpfsProvider();
+    if (!provider) {
+      return { success: false, error: NOT_CONFIGURED_ERROR };
+    }
+
     // Create metadata structure
     const metadata: CommandmentMetadata = {
       type: 'commandment',
@@ -80,12 +90,15 @@ export async function uploadCommandment(
       author,
       seedId,
       timestamp: Date.now(),
-      version: '1.0'
+      version: COMMANDMENT_METADATA_VERSION,
+      ...(thread.replyTo !== undefined && { replyTo: thread.replyTo }),
+      ...(thread.quotes?.length && { quotes: thread.quotes })
     };
 
-    // Upload to IPFS via Pinata
-    const upload = await client.upload.public.json(metadata)
-      .name(`commandment-seed-${seedId}-${Date.now()}.json`);
+    // Upload to IPFS via the configured provider
+    const upload = await provider.addJson(metadata, {
+      name: `commandment-seed-${seedId}-${Date.now()}.json`
+    });
 
     const ipfsHash = upload.cid;
     const ipfsUrl = ipfsHashToUrl(ipfsHash);
@@ -108,29 +121,68 @@ export async function uploadCommandment(
 }
 
 /**
- * Upload arbitrary JSON data to IPFS via Pinata
+ * Upload arbitrary JSON data to IPFS
  *
  * @param data - JSON data to upload
+ * @param name - File name shown in the pinning service
  * @returns Upload result with hash and URL
  */
-export async function uploadJSON(data: any): Promise<IPFSUploadResult> {
-  const client = getPinataClient();
+export async function uploadJSON(
+  data: any,
+  name = `json-${Date.now()}.json`
+): Promise<IPFSUploadResult> {
+  try {
+    const provider = await getIpfsProvider();
+    if (!provider) {
+      return { success: false, error: NOT_CONFIGURED_ERROR };
+    }
 
-  if (!client) {
+    const upload = await provider.addJson(data, { name });
+
+    const ipfsHash = upload.cid;
+    const ipfsUrl = ipfsHashToUrl(ipfsHash);
+
+    console.log(`✓ Uploaded JSON to IPFS: ${ipfsHash}`);
+
+    return {
+      success: true,
+      ipfsHash,
+      url: ipfsUrl
+    };
+  } catch (error) {
+    console.error('Error uploading JSON to IPFS:', error);
     return {
       success: false,
-      error: 'IPFS not configured. Set PINATA_JWT in environment.'
+      error: error instanceof Error ? error.message : 'Upload failed'
     };
   }
+}
 
+/**
+ * Upload a file (e.g. seed media) to IPFS
+ *
+ * @param content - File content
+ * @param name - File name shown in the pinning service
+ * @param contentType - MIME type of the content
+ * @returns Upload result with hash and URL
+ */
+export async function uploadFile(
+  content: Uint8Array,
+  name: string,
+  contentType: string
+): Promise<IPFSUploadResult> {
   try {
-    const upload = await client.upload.public.json(data)
-      .name(`json-${Date.now()}.json`);
+    const provider = await getIpfsProvider();
+    if (!provider) {
+      return { success: false, error: NOT_CONFIGURED_ERROR };
+    }
+
+    const upload = await provider.addFile(content, { name, contentType });
 
     const ipfsHash = upload.cid;
     const ipfsUrl = ipfsHashToUrl(ipfsHash);
 
-    console.log(`✓ Uploaded JSON to IPFS: ${ipfsHash}`);
+    console.log(`✓ Uploaded ${contentType} file to IPFS: ${ipfsHash} (${upload.size} bytes)`);
 
     return {
       success: true,
@@ -138,7 +190,7 @@ export async function uploadJSON(data: any): Promise<IPFSUploadResult> {
       url: ipfsUrl
     };
   } catch (error) {
-    console.error('Error uploading JSON to IPFS:', error);
+    console.error('Error uploading file to IPFS:', error);
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Upload failed'
@@ -155,20 +207,33 @@ export async function uploadJSON(data: any): Promise<IPFSUploadResult> {
 export async function fetchCommandmentByHash(
   hash: string
 ): Promise<CommandmentMetadata | null> {
-  try {
-    const url = ipfsHashToUrl(hash);
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      console.warn(`Failed to fetch commandment ${hash}: HTTP ${response.status} ${response.statusText}`);
-      return null;
-    }
+  const { metadata, metadataError } = await fetchMetadata<CommandmentMetadata>(hash);
+  if (metadataError) {
+    console.warn(`Failed to fetch commandment ${hash}: ${metadataError}`);
+  }
+  return metadata;
+}
 
-    const data = await response.json();
-    return data as CommandmentMetadata;
+/**
+ * Fetch JSON metadata (seed, commandment or token metadata) by IPFS hash,
+ * ipfs:// URI or HTTP URL
+ *
+ * Gateways are raced and content is verified against its CID; a gateway
+ * returning tampered content counts as failed.
+ *
+ * @returns The parsed metadata, or the reason it could not be fetched
+ */
+export async function fetchMetadata<T = any>(
+  ref: string
+): Promise<{ metadata: T | null; metadataError: string | null }> {
+  try {
+    const { data } = await fetchIpfsJson<T>(ref);
+    return { metadata: data, metadataError: null };
   } catch (error) {
-    console.error(`Error fetching commandment ${hash}:`, error);
-    return null;
+    return {
+      metadata: null,
+      metadataError: error instanceof Error ? error.message : 'Failed to fetch metadata'
+    };
   }
 }
 
@@ -176,24 +241,10 @@ export async function fetchCommandmentByHash(
  * Convert an IPFS hash to a fetchable HTTP URL via gateway
  *
  * @param ipfsHash - IPFS hash or URL
- * @returns HTTP URL
+ * @returns HTTP URL on the preferred gateway (IPFS_GATEWAYS / IPFS_GATEWAY)
  */
 export function ipfsHashToUrl(ipfsHash: string): string {
-  // If it's already an HTTP URL, return as-is
-  if (ipfsHash.startsWith('http://') || ipfsHash.startsWith('https://')) {
-    return ipfsHash;
-  }
-
-  // Get IPFS gateway from environment or use default Pinata gateway
-  const ipfsGateway = process.env.IPFS_GATEWAY || 'https://tomato-causal-partridge-743.mypinata.cloud/ipfs/';
-
-  // If it's an ipfs:// URL, convert to HTTP gateway
-  if (ipfsHash.startsWith('ipfs://')) {
-    return ipfsHash.replace('ipfs://', ipfsGateway);
-  }
-
-  // Convert hash to gateway URL
-  return `${ipfsGateway}${ipfsHash}`;
+  return toGatewayUrl(ipfsHash);
 }
 
 /**
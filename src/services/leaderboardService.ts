@@ -1,6 +1,7 @@
 import { Address } from "viem";
 import { contractService } from "./contractService.js";
 import { blessingService } from "./blessingService.js";
+import { indexerService, type IndexedEvent } from "./indexerService.js";
 
 // Leaderboard timeframe options
 export type LeaderboardTimeframe = "daily" | "weekly" | "monthly" | "yearly" | "lifetime";
@@ -59,33 +60,11 @@ interface UserStats {
 }
 
 class LeaderboardService {
-  // Cache for blessing events (refreshed every 5 minutes)
-  private blessingEventsCache: {
-    data: any[];
-    timestamp: number;
-  } | null = null;
-  private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-
   /**
-   * Get all blessing events with caching
+   * Get all blessing events from the event indexer
    */
-  private async getAllBlessingEvents(): Promise<any[]> {
-    const now = Date.now();
-
-    // Return cached data if still valid
-    if (this.blessingEventsCache && (now - this.blessingEventsCache.timestamp) < this.CACHE_TTL) {
-      return this.blessingEventsCache.data;
-    }
-
-    const events = await contractService.getBlessingEvents();
-
-    // Update cache
-    this.blessingEventsCache = {
-      data: events,
-      timestamp: now,
-    };
-
-    return events;
+  private async getAllBlessingEvents(): Promise<IndexedEvent<"blessing">[]> {
+    return indexerService.getBlessings();
   }
 
   /**
@@ -102,7 +81,7 @@ class LeaderboardService {
       });
     }
 
-    // Get all blessing events from cache/blockchain
+    // Get all blessing events from the indexer
     const blessings = await this.getAllBlessingEvents();
     blessings.forEach((blessing) => {
       participants.add(blessing.blesser.toLowerCase());
@@ -126,7 +105,7 @@ class LeaderboardService {
     const snapshot = await blessingService.getSnapshot();
     const nftCount = snapshot?.holderIndex[lowerAddress]?.length || 0;
 
-    // Get all blessing events from cache and filter for this user
+    // Get all blessing events from the indexer and filter for this user
     const allBlessings = (await this.getAllBlessingEvents()).filter(
       (blessing) => blessing.blesser.toLowerCase() === lowerAddress
     );
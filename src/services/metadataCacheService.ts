@@ -0,0 +1,302 @@
+/**
+ * Metadata Cache Service
+ *
+ * Purpose: Resolve seed and commandment metadata without a gateway round-trip
+ * per item per request. Content behind a CID never changes, so once fetched
+ * (and verified, see lib/ipfs/gatewayFetcher.ts) it is kept for good.
+ *
+ * Layers:
+ * - Memory LRU (METADATA_CACHE_SIZE entries, default 1000)
+ * - Persistent store, keyed by CID (METADATA_CACHE_STORE):
+ *   - file   One JSON file per CID in DATA_DIR (single instance)
+ *   - redis  Any Redis-protocol server via REDIS_URL (shared by instances)
+ *   - memory No persistence
+ *   Default: redis if REDIS_URL is set, otherwise file.
+ *
+ * Failures are cached in memory for METADATA_CACHE_FAILURE_TTL_MS (default
+ * 5 minutes) so an unreachable CID is not fetched again for every seed on
+ * every page. Concurrent requests for the same CID share one fetch.
+ *
+ * References without a CID (plain HTTP URLs) can change and are not cached.
+ *
+ * Newly submitted seeds are prefetched in the background: when the indexer
+ * picks up a SeedSubmitted event, and when a seed is submitted or prepared
+ * through the API.
+ */
+
+import { extractCid } from "../../lib/ipfs/cid.js";
+import { fetchIpfsJson } from "../../lib/ipfs/gatewayFetcher.js";
+import { readJsonFile, writeJsonFile } from "../../lib/storage/jsonFileStore.js";
+import { getRedisClient, selectStoreType, type Redis } from "../../lib/storage/redisClient.js";
+import { indexerService } from "./indexerService.js";
+
+/**
+ * - verified: content matches its CID
+ * - unverified: fetched, but could not be checked against a CID (plain HTTP
+ *   URL, path inside a directory, large file)
+ * - unavailable: could not be fetched (see metadataError)
+ * - none: nothing to fetch (no metadata reference)
+ */
+export type MetadataStatus = "verified" | "unverified" | "unavailable" | "none";
+
+export interface ResolvedMetadata<T = any> {
+  metadata: T | null;
+  metadataError: string | null;
+  metadataStatus: MetadataStatus;
+}
+
+interface CachedMetadata {
+  metadata: unknown;
+  verification: "verified" | "unverifiable";
+  source: string; // Provider or gateway that served it
+  fetchedAt: number; // ms since epoch
+}
+
+interface CachedFailure {
+  error: string;
+  expiresAt: number; // ms since epoch
+}
+
+/**
+ * Persistent layer of the cache
+ */
+interface MetadataStore {
+  readonly name: string;
+  get(key: string): Promise<CachedMetadata | null>;
+  set(key: string, entry: CachedMetadata): Promise<void>;
+}
+
+/**
+ * One JSON file per CID (persisted in the data directory)
+ */
+class JsonFileMetadataStore implements MetadataStore {
+  readonly name = "file";
+
+  constructor(private readonly dir: string) {}
+
+  // Keys are CIDs, optionally followed by a path
+  private filename(key: string): string {
+    return `${this.dir}/${encodeURIComponent(key)}.json`;
+  }
+
+  async get(key: string): Promise<CachedMetadata | null> {
+    return readJsonFile<CachedMetadata>(this.filename(key));
+  }
+
+  async set(key: string, entry: CachedMetadata): Promise<void> {
+    await writeJsonFile(this.filename(key), entry);
+  }
+}
+
+class RedisMetadataStore implements MetadataStore {
+  readonly name = "redis";
+
+  constructor(
+    private readonly client: Redis,
+    private readonly prefix = "abraham:metadata:"
+  ) {}
+
+  async get(key: string): Promise<CachedMetadata | null> {
+    const reply = await this.client.get(`${this.prefix}${key}`);
+    return reply !== null ? (JSON.parse(reply) as CachedMetadata) : null;
+  }
+
+  async set(key: string, entry: CachedMetadata): Promise<void> {
+    await this.client.set(`${this.prefix}${key}`, JSON.stringify(entry));
+  }
+}
+
+function createStore(): MetadataStore | null {
+  const storeType = selectStoreType("METADATA_CACHE_STORE", "file");
+  const redis = getRedisClient();
+
+  if (storeType === "memory") {
+    return null;
+  }
+  if (storeType === "redis" && redis) {
+    return new RedisMetadataStore(redis);
+  }
+  return new JsonFileMetadataStore("metadata-cache");
+}
+
+/**
+ * Least-recently-used map (Map iterates in insertion order)
+ */
+class LruCache<V> {
+  private entries = new Map<string, V>();
+
+  constructor(private readonly maxSize: number) {}
+
+  get(key: string): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: string, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    if (this.entries.size > this.maxSize) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+const toResolved = (entry: CachedMetadata): ResolvedMetadata => ({
+  metadata: entry.metadata,
+  metadataError: null,
+  metadataStatus: entry.verification === "verified" ? "verified" : "unverified",
+});
+
+class MetadataCacheService {
+  private store = createStore();
+  private readonly MAX_SIZE = Number(process.env.METADATA_CACHE_SIZE) || 1000;
+  private readonly FAILURE_TTL =
+    Number(process.env.METADATA_CACHE_FAILURE_TTL_MS) || 5 * 60 * 1000;
+  private readonly PREFETCH_CONCURRENCY = 4;
+
+  private memory = new LruCache<CachedMetadata>(this.MAX_SIZE);
+  private failures = new LruCache<CachedFailure>(this.MAX_SIZE);
+  private inFlight = new Map<string, Promise<ResolvedMetadata>>();
+
+  private prefetchQueue: string[] = [];
+  private prefetching = 0;
+
+  constructor() {
+    indexerService.onEventsIndexed((events) => {
+      for (const event of events) {
+        if (event.type === "seed") {
+          this.prefetch(event.ipfsHash);
+        }
+      }
+    });
+  }
+
+  /**
+   * Resolve metadata by IPFS hash, ipfs:// URI or URL
+   *
+   * @param options.retryFailed - Fetch again even if the last fetch failed
+   *        less than METADATA_CACHE_FAILURE_TTL_MS ago
+   */
+  async resolve<T = any>(
+    ref: string | null | undefined,
+    options: { retryFailed?: boolean } = {}
+  ): Promise<ResolvedMetadata<T>> {
+    if (!ref) {
+      return { metadata: null, metadataError: null, metadataStatus: "none" };
+    }
+
+    const target = extractCid(ref);
+    if (!target) {
+      // Not content-addressed: may change, always fetch
+      return this.fetch(ref, null);
+    }
+
+    const key = `${target.cid}${target.path}`;
+
+    const cached = this.memory.get(key);
+    if (cached) {
+      return toResolved(cached);
+    }
+
+    const failure = this.failures.get(key);
+    if (failure && failure.expiresAt > Date.now() && !options.retryFailed) {
+      return { metadata: null, metadataError: failure.error, metadataStatus: "unavailable" };
+    }
+
+    // Share one lookup between concurrent callers
+    let pending = this.inFlight.get(key);
+    if (!pending) {
+      pending = this.lookup(ref, key).finally(() => {
+        this.inFlight.delete(key);
+      });
+      this.inFlight.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Warm the cache in the background (e.g. for a newly submitted seed)
+   */
+  prefetch(ref: string | null | undefined): void {
+    const target = ref ? extractCid(ref) : null;
+    if (!ref || !target || this.memory.get(`${target.cid}${target.path}`)) {
+      return;
+    }
+
+    this.prefetchQueue.push(ref);
+    this.drainPrefetchQueue();
+  }
+
+  private drainPrefetchQueue(): void {
+    while (this.prefetching < this.PREFETCH_CONCURRENCY && this.prefetchQueue.length > 0) {
+      const ref = this.prefetchQueue.shift()!;
+      this.prefetching++;
+      // Failures are logged and negative-cached by resolve()
+      void this.resolve(ref).finally(() => {
+        this.prefetching--;
+        this.drainPrefetchQueue();
+      });
+    }
+  }
+
+  private async lookup(ref: string, key: string): Promise<ResolvedMetadata> {
+    if (this.store) {
+      try {
+        const stored = await this.store.get(key);
+        if (stored) {
+          this.memory.set(key, stored);
+          return toResolved(stored);
+        }
+      } catch (error) {
+        console.error(`Error reading metadata cache (${this.store.name}) for ${key}:`, error);
+      }
+    }
+
+    return this.fetch(ref, key);
+  }
+
+  /**
+   * Fetch from IPFS, caching the outcome under key (if any)
+   */
+  private async fetch(ref: string, key: string | null): Promise<ResolvedMetadata> {
+    try {
+      const result = await fetchIpfsJson(ref);
+      const entry: CachedMetadata = {
+        metadata: result.data,
+        verification: result.verification,
+        source: result.source,
+        fetchedAt: Date.now(),
+      };
+
+      if (key) {
+        this.memory.set(key, entry);
+        this.failures.delete(key);
+        await this.store?.set(key, entry).catch((error) => {
+          console.error(`Error writing metadata cache (${this.store!.name}) for ${key}:`, error);
+        });
+      }
+      return toResolved(entry);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to fetch metadata";
+      console.error(`Error fetching metadata ${ref}: ${message}`);
+      if (key) {
+        this.failures.set(key, { error: message, expiresAt: Date.now() + this.FAILURE_TTL });
+      }
+      return { metadata: null, metadataError: message, metadataStatus: "unavailable" };
+    }
+  }
+}
+
+export const metadataCacheService = new MetadataCacheService();
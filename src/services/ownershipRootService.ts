@@ -0,0 +1,199 @@
+/**
+ * Ownership Root Service
+ *
+ * Blessings and commandments carry a Merkle proof built from the local tree
+ * (firstWorks_merkle.json). If its root differs from the root the contract
+ * verifies against - e.g. right after updateOwnershipRoot, or after a snapshot
+ * update that skipped the contract step - every proof reverts on-chain.
+ *
+ * This service compares the two roots and refuses to prepare or relay
+ * transactions while they diverge. The on-chain root is cached for
+ * OWNERSHIP_ROOT_CACHE_MS. A mismatch re-reads it and reloads the local tree
+ * at most once per OWNERSHIP_ROOT_CACHE_MS (a reload downloads the whole
+ * snapshot); requests in between are refused from the cached roots.
+ */
+
+import { contractService } from "./contractService.js";
+
+export type RootConsistencyStatus =
+  | "consistent"
+  | "mismatch"
+  | "unavailable" // On-chain root could not be read
+  | "not-applicable"; // Gating module is not merkle-based
+
+export interface RootConsistency {
+  status: RootConsistencyStatus;
+  localRoot: string | null;
+  onChainRoot: string | null;
+  onChainUpdatedAt: string | null; // ISO timestamp of the last root update
+  rootContract: string | null;
+  checkedAt: string;
+  error?: string;
+}
+
+interface OnChainRoot {
+  root: string;
+  updatedAt: bigint;
+  contract: string;
+}
+
+export const ROOT_MISMATCH_ERROR =
+  "Ownership proofs are out of sync with the on-chain merkle root. Please try again once the snapshot update completes.";
+
+class OwnershipRootService {
+  private readonly CACHE_MS =
+    Number(process.env.OWNERSHIP_ROOT_CACHE_MS) || 60 * 1000;
+  private readonly ENABLED = process.env.OWNERSHIP_ROOT_GUARD !== "false";
+
+  private onChainRoot: OnChainRoot | null = null;
+  private fetchedAt = 0;
+  private fetchPromise: Promise<OnChainRoot | null> | null = null;
+  private recheckedAt = 0;
+  private recheckPromise: Promise<RootConsistency> | null = null;
+
+  /**
+   * Get the on-chain root (cached)
+   * Concurrent callers share the same in-flight read
+   */
+  private async getOnChainRoot(force = false): Promise<OnChainRoot | null> {
+    if (!force && this.fetchedAt && Date.now() - this.fetchedAt < this.CACHE_MS) {
+      return this.onChainRoot;
+    }
+
+    if (!this.fetchPromise) {
+      this.fetchPromise = contractService
+        .getOwnershipRoot()
+        .then((result) => {
+          this.onChainRoot = result;
+          this.fetchedAt = Date.now();
+          return result;
+        })
+        .finally(() => {
+          this.fetchPromise = null;
+        });
+    }
+    return this.fetchPromise;
+  }
+
+  /**
+   * Drop the cached on-chain root (e.g. after pushing a new root)
+   */
+  invalidate(): void {
+    this.fetchedAt = 0;
+    this.recheckedAt = 0;
+  }
+
+  /**
+   * Compare a local merkle root with the on-chain root
+   */
+  async check(localRoot: string | null, force = false): Promise<RootConsistency> {
+    const checkedAt = new Date().toISOString();
+
+    let onChain: OnChainRoot | null;
+    try {
+      onChain = await this.getOnChainRoot(force);
+    } catch (error: any) {
+      return {
+        status: "unavailable",
+        localRoot,
+        onChainRoot: null,
+        onChainUpdatedAt: null,
+        rootContract: null,
+        checkedAt,
+        error: error?.shortMessage || error?.message || String(error),
+      };
+    }
+
+    if (!onChain) {
+      return {
+        status: "not-applicable",
+        localRoot,
+        onChainRoot: null,
+        onChainUpdatedAt: null,
+        rootContract: null,
+        checkedAt,
+      };
+    }
+
+    const consistent =
+      !!localRoot && localRoot.toLowerCase() === onChain.root.toLowerCase();
+
+    return {
+      status: consistent ? "consistent" : "mismatch",
+      localRoot,
+      onChainRoot: onChain.root,
+      onChainUpdatedAt:
+        onChain.updatedAt > 0n
+          ? new Date(Number(onChain.updatedAt) * 1000).toISOString()
+          : null,
+      rootContract: onChain.contract,
+      checkedAt,
+    };
+  }
+
+  /**
+   * Check that proofs from a local tree will verify on-chain
+   *
+   * On a mismatch the on-chain root is re-read and the local tree reloaded
+   * (via reloadLocalRoot) before giving up, since either side may just have
+   * been updated - at most once per CACHE_MS, concurrent callers sharing
+   * the re-check. If the on-chain root cannot be read, requests are let
+   * through: the contract still rejects invalid proofs.
+   *
+   * @returns Error message if the roots diverge, null otherwise
+   */
+  async assertConsistent(
+    localRoot: string | null,
+    reloadLocalRoot?: () => Promise<string | null>
+  ): Promise<string | null> {
+    if (!this.ENABLED) return null;
+
+    let result = await this.check(localRoot);
+
+    if (result.status === "mismatch") {
+      result = await this.recheck(result, reloadLocalRoot);
+    }
+
+    if (result.status === "unavailable") {
+      console.warn(`⚠️  Could not read on-chain ownership root: ${result.error}`);
+      return null;
+    }
+
+    if (result.status === "mismatch") {
+      console.error(
+        `❌ Merkle root mismatch: local ${result.localRoot}, on-chain ${result.onChainRoot}`
+      );
+      return ROOT_MISMATCH_ERROR;
+    }
+
+    return null;
+  }
+
+  /**
+   * Reload the local root and re-read the on-chain root after a mismatch,
+   * unless that was done less than CACHE_MS ago
+   */
+  private async recheck(
+    mismatch: RootConsistency,
+    reloadLocalRoot?: () => Promise<string | null>
+  ): Promise<RootConsistency> {
+    if (this.recheckPromise) {
+      return this.recheckPromise;
+    }
+    if (Date.now() - this.recheckedAt < this.CACHE_MS) {
+      return mismatch;
+    }
+
+    this.recheckedAt = Date.now();
+    this.recheckPromise = (async () => {
+      const reloadedRoot = reloadLocalRoot ? await reloadLocalRoot() : mismatch.localRoot;
+      return this.check(reloadedRoot, true);
+    })().finally(() => {
+      this.recheckPromise = null;
+    });
+    return this.recheckPromise;
+  }
+}
+
+// Singleton instance
+export const ownershipRootService = new OwnershipRootService();
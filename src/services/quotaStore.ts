@@ -0,0 +1,435 @@
+/**
+ * Quota Store
+ *
+ * Purpose: Shared usage counters for blessing/commandment allowances and
+ * HTTP rate limits, so limits hold across restarts and across instances
+ *
+ * Logic:
+ * - A quota is a counter per key (e.g. "blessings:0xabc...") that resets at
+ *   a given time (end of the blessing period, end of a rate-limit window)
+ * - reserve() atomically checks used + reserved + amount <= limit and holds
+ *   the amount; commit() turns the hold into usage, release() drops it.
+ *   Two parallel requests can therefore never both pass the same check.
+ * - Reservations expire on their own (ttlMs) so a crashed request does not
+ *   hold quota forever
+ *
+ * Implementations:
+ * - memory  Per process, lost on restart
+ * - file    Persisted in DATA_DIR (single instance only)
+ * - redis   Any Redis-protocol server via REDIS_URL (multi-instance safe)
+ *
+ * Two stores are created:
+ * - quotaStore (QUOTA_STORE): blessing/commandment allowances.
+ *   Default: redis if REDIS_URL is set, otherwise file.
+ * - rateLimitStore (RATE_LIMIT_STORE): HTTP rate-limit counters, touched on
+ *   every limited request. Default: redis if REDIS_URL is set, otherwise
+ *   memory (the file store rewrites its whole file on every operation).
+ */
+
+import { randomUUID } from "crypto";
+import { readJsonFile, writeJsonFile } from "../../lib/storage/jsonFileStore.js";
+import { getRedisClient, selectStoreType, type Redis } from "../../lib/storage/redisClient.js";
+
+export interface QuotaUsage {
+  /** Committed usage in the current window */
+  used: number;
+  /** Amount held by open reservations */
+  reserved: number;
+  /** When the counter resets (ms since epoch) */
+  resetsAt: number;
+}
+
+export interface QuotaReservation {
+  id: string;
+  key: string;
+  amount: number;
+}
+
+export interface QuotaReserveResult {
+  /** null if the reservation would exceed the limit */
+  reservation: QuotaReservation | null;
+  usage: QuotaUsage;
+}
+
+/**
+ * Storage adapter for quotas
+ */
+export interface QuotaStore {
+  readonly name: string;
+  getUsage(key: string): Promise<QuotaUsage | null>;
+  /**
+   * Record usage known from elsewhere (e.g. on-chain counts) for a window
+   * Keeps the higher of the stored and the given value
+   */
+  sync(key: string, used: number, resetsAt: number): Promise<QuotaUsage>;
+  /** Hold an amount if it fits under the limit */
+  reserve(
+    key: string,
+    amount: number,
+    limit: number,
+    resetsAt: number,
+    ttlMs: number
+  ): Promise<QuotaReserveResult>;
+  /**
+   * Turn a reservation into usage (no-op if it expired or the window reset)
+   * Pass amount to use only part of it (e.g. some blessings failed); the
+   * rest is released
+   */
+  commit(reservation: QuotaReservation, amount?: number): Promise<void>;
+  /** Drop a reservation without using it */
+  release(reservation: QuotaReservation): Promise<void>;
+}
+
+interface QuotaBucket {
+  used: number;
+  resetsAt: number;
+  // Reservation ID -> held amount and expiry
+  reservations: Record<string, { amount: number; expiresAt: number }>;
+}
+
+/**
+ * In-memory store (lost on restart)
+ */
+export class MemoryQuotaStore implements QuotaStore {
+  readonly name: string = "memory";
+  protected buckets = new Map<string, QuotaBucket>();
+
+  /**
+   * Get the live bucket for a key, resetting it if its window ended
+   */
+  protected getBucket(key: string, resetsAt?: number): QuotaBucket | null {
+    const now = Date.now();
+    let bucket = this.buckets.get(key);
+
+    if (bucket && bucket.resetsAt <= now) {
+      this.buckets.delete(key);
+      bucket = undefined;
+    }
+
+    if (!bucket) {
+      if (resetsAt === undefined) return null;
+      bucket = { used: 0, resetsAt, reservations: {} };
+      this.buckets.set(key, bucket);
+    }
+
+    for (const [id, reservation] of Object.entries(bucket.reservations)) {
+      if (reservation.expiresAt <= now) {
+        delete bucket.reservations[id];
+      }
+    }
+
+    return bucket;
+  }
+
+  protected toUsage(bucket: QuotaBucket): QuotaUsage {
+    return {
+      used: bucket.used,
+      reserved: Object.values(bucket.reservations).reduce(
+        (sum, r) => sum + r.amount,
+        0
+      ),
+      resetsAt: bucket.resetsAt,
+    };
+  }
+
+  async getUsage(key: string): Promise<QuotaUsage | null> {
+    const bucket = this.getBucket(key);
+    return bucket ? this.toUsage(bucket) : null;
+  }
+
+  async sync(key: string, used: number, resetsAt: number): Promise<QuotaUsage> {
+    const bucket = this.getBucket(key, resetsAt)!;
+    bucket.used = Math.max(bucket.used, used);
+    return this.toUsage(bucket);
+  }
+
+  async reserve(
+    key: string,
+    amount: number,
+    limit: number,
+    resetsAt: number,
+    ttlMs: number
+  ): Promise<QuotaReserveResult> {
+    const bucket = this.getBucket(key, resetsAt)!;
+    const usage = this.toUsage(bucket);
+
+    if (usage.used + usage.reserved + amount > limit) {
+      return { reservation: null, usage };
+    }
+
+    const id = randomUUID();
+    bucket.reservations[id] = { amount, expiresAt: Date.now() + ttlMs };
+
+    return {
+      reservation: { id, key, amount },
+      usage: { ...usage, reserved: usage.reserved + amount },
+    };
+  }
+
+  async commit(reservation: QuotaReservation, amount?: number): Promise<void> {
+    const bucket = this.getBucket(reservation.key);
+    const held = bucket?.reservations[reservation.id];
+    if (!bucket || !held) return;
+
+    delete bucket.reservations[reservation.id];
+    bucket.used += Math.min(held.amount, amount ?? held.amount);
+  }
+
+  async release(reservation: QuotaReservation): Promise<void> {
+    const bucket = this.getBucket(reservation.key);
+    if (bucket) {
+      delete bucket.reservations[reservation.id];
+    }
+  }
+}
+
+/**
+ * JSON file store (persisted in the data directory)
+ * Operations are serialized in-process; not safe across instances
+ */
+export class JsonFileQuotaStore extends MemoryQuotaStore {
+  readonly name = "file";
+  private loaded = false;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filename: string) {
+    super();
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) return;
+
+    const data = await readJsonFile<{ buckets: Record<string, QuotaBucket> }>(
+      this.filename
+    );
+    this.buckets = new Map(Object.entries(data?.buckets || {}));
+    this.loaded = true;
+  }
+
+  private async persist(): Promise<void> {
+    // Drop expired windows so the file doesn't grow forever
+    const now = Date.now();
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.resetsAt <= now) this.buckets.delete(key);
+    }
+
+    await writeJsonFile(this.filename, {
+      buckets: Object.fromEntries(this.buckets),
+    });
+  }
+
+  /**
+   * Run a read-modify-write step while holding the store lock
+   */
+  private exclusive<T>(fn: () => Promise<T>, write = true): Promise<T> {
+    const run = async () => {
+      await this.load();
+      const result = await fn();
+      if (write) await this.persist();
+      return result;
+    };
+
+    const result = this.lock.then(run, run);
+    this.lock = result.catch(() => undefined);
+    return result;
+  }
+
+  async getUsage(key: string): Promise<QuotaUsage | null> {
+    return this.exclusive(() => super.getUsage(key), false);
+  }
+
+  async sync(key: string, used: number, resetsAt: number): Promise<QuotaUsage> {
+    return this.exclusive(() => super.sync(key, used, resetsAt));
+  }
+
+  async reserve(
+    key: string,
+    amount: number,
+    limit: number,
+    resetsAt: number,
+    ttlMs: number
+  ): Promise<QuotaReserveResult> {
+    return this.exclusive(() =>
+      super.reserve(key, amount, limit, resetsAt, ttlMs)
+    );
+  }
+
+  async commit(reservation: QuotaReservation, amount?: number): Promise<void> {
+    return this.exclusive(() => super.commit(reservation, amount));
+  }
+
+  async release(reservation: QuotaReservation): Promise<void> {
+    return this.exclusive(() => super.release(reservation));
+  }
+}
+
+/*//////////////////////////////////////////////////////////////
+                          REDIS STORE
+//////////////////////////////////////////////////////////////*/
+
+// Shared Lua prelude: reset the bucket if its window ended, drop expired
+// reservations and sum the rest.
+// KEYS[1] = bucket hash (used, resetsAt), KEYS[2] = reservations hash (id -> "amount:expiresAt")
+// ARGV[1] = now, ARGV[2] = resetsAt for a new window (or "" to not create one)
+const LUA_LOAD_BUCKET = `
+local now = tonumber(ARGV[1])
+local resetsAt = tonumber(redis.call('HGET', KEYS[1], 'resetsAt') or '0')
+if resetsAt <= now then
+  redis.call('DEL', KEYS[1], KEYS[2])
+  if ARGV[2] == '' then return {0, 0, 0} end
+  resetsAt = tonumber(ARGV[2])
+  redis.call('HSET', KEYS[1], 'used', 0, 'resetsAt', resetsAt)
+  redis.call('PEXPIREAT', KEYS[1], resetsAt)
+end
+local used = tonumber(redis.call('HGET', KEYS[1], 'used') or '0')
+local reserved = 0
+local entries = redis.call('HGETALL', KEYS[2])
+for i = 1, #entries, 2 do
+  local amount, expiresAt = string.match(entries[i + 1], '(%d+):(%d+)')
+  if tonumber(expiresAt) <= now then
+    redis.call('HDEL', KEYS[2], entries[i])
+  else
+    reserved = reserved + tonumber(amount)
+  end
+end
+`;
+
+const LUA_GET_USAGE = `${LUA_LOAD_BUCKET}
+return {used, reserved, resetsAt}
+`;
+
+// ARGV[3] = used
+const LUA_SYNC = `${LUA_LOAD_BUCKET}
+if tonumber(ARGV[3]) > used then
+  used = tonumber(ARGV[3])
+  redis.call('HSET', KEYS[1], 'used', used)
+end
+return {used, reserved, resetsAt}
+`;
+
+// ARGV[3] = amount, ARGV[4] = limit, ARGV[5] = reservation ID, ARGV[6] = expiresAt
+const LUA_RESERVE = `${LUA_LOAD_BUCKET}
+local amount = tonumber(ARGV[3])
+if used + reserved + amount > tonumber(ARGV[4]) then
+  return {used, reserved, resetsAt, 0}
+end
+redis.call('HSET', KEYS[2], ARGV[5], ARGV[3] .. ':' .. ARGV[6])
+redis.call('PEXPIREAT', KEYS[2], resetsAt)
+return {used, reserved + amount, resetsAt, 1}
+`;
+
+// ARGV[1] = reservation ID, ARGV[2] = amount to use (or "" for all)
+const LUA_COMMIT = `
+local entry = redis.call('HGET', KEYS[2], ARGV[1])
+if not entry then return 0 end
+redis.call('HDEL', KEYS[2], ARGV[1])
+if redis.call('EXISTS', KEYS[1]) == 0 then return 0 end
+local amount = tonumber(string.match(entry, '(%d+):'))
+if ARGV[2] ~= '' then amount = math.min(amount, tonumber(ARGV[2])) end
+redis.call('HINCRBY', KEYS[1], 'used', amount)
+return 1
+`;
+
+/**
+ * Redis-protocol store (atomic via Lua scripts, shared across instances)
+ */
+export class RedisQuotaStore implements QuotaStore {
+  readonly name = "redis";
+
+  constructor(
+    private readonly client: Redis,
+    private readonly prefix = "abraham:quota:"
+  ) {}
+
+  private async eval(
+    script: string,
+    key: string,
+    args: Array<string | number>
+  ): Promise<number[]> {
+    return (await this.client.eval(script, 2, ...this.keys(key), ...args)) as number[];
+  }
+
+  private keys(key: string): string[] {
+    return [`${this.prefix}${key}`, `${this.prefix}${key}:reservations`];
+  }
+
+  private toUsage(reply: number[]): QuotaUsage {
+    const [used, reserved, resetsAt] = reply;
+    return { used, reserved, resetsAt };
+  }
+
+  async getUsage(key: string): Promise<QuotaUsage | null> {
+    const usage = this.toUsage(
+      await this.eval(LUA_GET_USAGE, key, [Date.now(), ""])
+    );
+    return usage.resetsAt ? usage : null;
+  }
+
+  async sync(key: string, used: number, resetsAt: number): Promise<QuotaUsage> {
+    return this.toUsage(
+      await this.eval(LUA_SYNC, key, [Date.now(), resetsAt, used])
+    );
+  }
+
+  async reserve(
+    key: string,
+    amount: number,
+    limit: number,
+    resetsAt: number,
+    ttlMs: number
+  ): Promise<QuotaReserveResult> {
+    const id = randomUUID();
+    const now = Date.now();
+    const reply = await this.eval(LUA_RESERVE, key, [
+      now,
+      resetsAt,
+      amount,
+      limit,
+      id,
+      now + ttlMs,
+    ]);
+
+    return {
+      reservation: reply[3] === 1 ? { id, key, amount } : null,
+      usage: this.toUsage(reply),
+    };
+  }
+
+  async commit(reservation: QuotaReservation, amount?: number): Promise<void> {
+    await this.eval(LUA_COMMIT, reservation.key, [reservation.id, amount ?? ""]);
+  }
+
+  async release(reservation: QuotaReservation): Promise<void> {
+    await this.client.hdel(this.keys(reservation.key)[1], reservation.id);
+  }
+}
+
+/**
+ * @param variable - Environment variable selecting the backend
+ * @param defaultType - Backend when neither the variable nor REDIS_URL is set
+ * @param filename - File used by the file backend
+ */
+function createStore(
+  variable: string,
+  defaultType: "memory" | "file",
+  filename: string
+): QuotaStore {
+  const storeType = selectStoreType(variable, defaultType);
+  const redis = getRedisClient();
+
+  if (storeType === "redis" && redis) {
+    return new RedisQuotaStore(redis);
+  }
+  if (storeType === "file") {
+    return new JsonFileQuotaStore(filename);
+  }
+  return new MemoryQuotaStore();
+}
+
+export const quotaStore = createStore("QUOTA_STORE", "file", "quotas/quotas.json");
+export const rateLimitStore = createStore(
+  "RATE_LIMIT_STORE",
+  "memory",
+  "quotas/rate-limits.json"
+);
+console.log(`🧮 Quota store: ${quotaStore.name}, rate limits: ${rateLimitStore.name}`);
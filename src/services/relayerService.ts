@@ -0,0 +1,537 @@
+/**
+ * Relayer Transaction Manager
+ *
+ * Purpose: Coordinate every transaction sent from the relayer wallet
+ *
+ * Features:
+ * - Serialized nonce assignment (concurrent requests never reuse a nonce)
+ * - Persisted transaction log with purpose and status, addressable by txId
+ * - Stuck transaction replacement: if a transaction is not mined within
+ *   RELAYER_STUCK_TIMEOUT_MS, it is re-sent with the same nonce and bumped
+ *   fees (up to RELAYER_MAX_REPLACEMENTS times). The encoded call is stored
+ *   with the transaction, so any instance can replace it
+ * - Nonce gap repair: if a transaction is dropped from the mempool, the next
+ *   submission re-sends it, or gives up on it and reuses its nonce
+ *
+ * Storage: the transaction log and the last nonce handed out live in the
+ * shared record store (STATE_STORE, see lib/storage/recordStore.ts), so a
+ * txId can be polled on any instance and instances using the same relayer
+ * key take turns broadcasting. The file store only covers a single process.
+ *
+ * Statuses:
+ * - queued     Waiting for a nonce
+ * - pending    Broadcast, not mined yet
+ * - confirmed  Mined successfully
+ * - reverted   Mined but reverted
+ * - failed     Could not be broadcast or confirmed
+ */
+
+import { randomUUID } from "crypto";
+import {
+  encodeFunctionData,
+  type Abi,
+  type Address,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  type TransactionReceipt,
+  type WalletClient,
+} from "viem";
+import type { privateKeyToAccount } from "viem/accounts";
+import { createRecordStore } from "../../lib/storage/recordStore.js";
+
+export type RelayerTxPurpose =
+  | "bless"
+  | "batchBless"
+  | "commandment"
+  | "submitSeed"
+  | "addCreator"
+  | "selectWinner"
+  | "rewardPriests"
+  | "setBaseURI";
+
+export type RelayerTxStatus =
+  | "queued"
+  | "pending"
+  | "confirmed"
+  | "reverted"
+  | "failed";
+
+/**
+ * Everything needed to broadcast a transaction again
+ */
+export interface RelayerCall {
+  to: Address;
+  data: Hex;
+  value?: bigint;
+  gas: bigint;
+}
+
+export interface RelayerTransaction {
+  id: string;
+  purpose: RelayerTxPurpose;
+  functionName: string;
+  status: RelayerTxStatus;
+  metadata: Record<string, unknown>;
+  call?: RelayerCall;
+  nonce?: number;
+  hash?: Hash;
+  // Every broadcast hash for this nonce (original + fee-bump replacements)
+  hashes: Hash[];
+  replacements: number;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  blockNumber?: bigint;
+  gasUsed?: bigint;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  submittedAt?: string;
+  lastBroadcastAt?: string;
+  confirmedAt?: string;
+}
+
+export interface RelayerTxRequest {
+  purpose: RelayerTxPurpose;
+  address: Address;
+  abi: Abi;
+  functionName: string;
+  args: readonly unknown[];
+  value?: bigint;
+  metadata?: Record<string, unknown>;
+}
+
+interface RelayerNonce {
+  address: Address;
+  nextNonce: number;
+  updatedAt: string;
+}
+
+export const RELAYER_TX_STATUSES = [
+  "queued",
+  "pending",
+  "confirmed",
+  "reverted",
+  "failed",
+] as const satisfies readonly RelayerTxStatus[];
+
+/**
+ * Convert a transaction record into a JSON-safe payload
+ */
+export function serializeRelayerTransaction(
+  tx: RelayerTransaction
+): Record<string, unknown> {
+  return {
+    ...tx,
+    call: tx.call && {
+      ...tx.call,
+      value: tx.call.value?.toString(),
+      gas: tx.call.gas.toString(),
+    },
+    maxFeePerGas: tx.maxFeePerGas?.toString(),
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas?.toString(),
+    blockNumber: tx.blockNumber !== undefined ? Number(tx.blockNumber) : undefined,
+    gasUsed: tx.gasUsed?.toString(),
+  };
+}
+
+export class RelayerTransactionManager {
+  private transactions = createRecordStore<RelayerTransaction>({
+    collection: "relayer-transactions",
+    filename: "relayer/transactions.json",
+    field: "transactions",
+    id: (tx) => tx.id,
+  });
+  private nonces = createRecordStore<RelayerNonce>({
+    collection: "relayer-nonces",
+    filename: "relayer/nonces.json",
+    field: "nonces",
+    id: (nonce) => nonce.address.toLowerCase(),
+  });
+  private nonceLock: Promise<unknown> = Promise.resolve();
+  private lastTrimAt = 0;
+
+  private readonly STUCK_TIMEOUT_MS =
+    Number(process.env.RELAYER_STUCK_TIMEOUT_MS) || 60 * 1000;
+  private readonly MAX_REPLACEMENTS =
+    Number(process.env.RELAYER_MAX_REPLACEMENTS) || 3;
+  private readonly CONFIRMATION_TIMEOUT_MS = 10 * 60 * 1000;
+  private readonly POLL_INTERVAL_MS = 2000;
+  // Replacement transactions must pay at least 10% more (geth rule); use 20%
+  private readonly FEE_BUMP_PERCENT = 120n;
+  private readonly MAX_LOGGED_TRANSACTIONS = 2000;
+  private readonly TRIM_INTERVAL_MS = 5 * 60 * 1000;
+  // Longer than fee estimation plus a broadcast; a crashed holder's lock runs out after this
+  private readonly NONCE_LOCK_TTL_MS = 30 * 1000;
+  private readonly NONCE_LOCK_WAIT_MS = 60 * 1000;
+
+  constructor(
+    private readonly publicClient: PublicClient,
+    private readonly walletClient: WalletClient,
+    private readonly account: ReturnType<typeof privateKeyToAccount>
+  ) {}
+
+  /*//////////////////////////////////////////////////////////////
+                            TRANSACTION LOG
+  //////////////////////////////////////////////////////////////*/
+
+  /**
+   * Keep the log bounded: drop the oldest finished transactions (at most
+   * every TRIM_INTERVAL_MS, as it reads the whole log)
+   */
+  private async trim(): Promise<void> {
+    if (Date.now() - this.lastTrimAt < this.TRIM_INTERVAL_MS) {
+      return;
+    }
+    this.lastTrimAt = Date.now();
+
+    const finished = (await this.transactions.list())
+      .filter((tx) => tx.status !== "queued" && tx.status !== "pending")
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    if (finished.length > this.MAX_LOGGED_TRANSACTIONS) {
+      await this.transactions.delete(
+        finished.slice(this.MAX_LOGGED_TRANSACTIONS).map((tx) => tx.id)
+      );
+    }
+  }
+
+  private async update(
+    tx: RelayerTransaction,
+    changes: Partial<RelayerTransaction>
+  ): Promise<void> {
+    Object.assign(tx, changes, { updatedAt: new Date().toISOString() });
+    await this.transactions.set(tx.id, tx);
+  }
+
+  async getTransaction(txId: string): Promise<RelayerTransaction | null> {
+    return this.transactions.get(txId);
+  }
+
+  /**
+   * List transactions, newest first
+   */
+  async listTransactions(filter?: {
+    status?: RelayerTxStatus;
+    purpose?: RelayerTxPurpose;
+    limit?: number;
+  }): Promise<RelayerTransaction[]> {
+    return (await this.transactions.list())
+      .filter(
+        (tx) =>
+          (!filter?.status || tx.status === filter.status) &&
+          (!filter?.purpose || tx.purpose === filter.purpose)
+      )
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, filter?.limit || 100);
+  }
+
+  /*//////////////////////////////////////////////////////////////
+                              SENDING
+  //////////////////////////////////////////////////////////////*/
+
+  /**
+   * Assign a nonce and broadcast a contract call
+   * Throws if the transaction could not be broadcast (the record is kept as failed)
+   */
+  async submit(request: RelayerTxRequest): Promise<RelayerTransaction> {
+    const now = new Date().toISOString();
+
+    const tx: RelayerTransaction = {
+      id: randomUUID(),
+      purpose: request.purpose,
+      functionName: request.functionName,
+      status: "queued",
+      metadata: request.metadata || {},
+      hashes: [],
+      replacements: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.transactions.set(tx.id, tx);
+    await this.trim();
+
+    try {
+      // Estimating first surfaces contract reverts before a nonce is taken
+      const call: RelayerCall = {
+        to: request.address,
+        data: encodeFunctionData({
+          abi: request.abi,
+          functionName: request.functionName,
+          args: request.args,
+        }),
+        value: request.value,
+        gas: await this.publicClient.estimateContractGas({
+          address: request.address,
+          abi: request.abi,
+          functionName: request.functionName,
+          args: request.args,
+          value: request.value,
+          account: this.account,
+        }),
+      };
+      await this.update(tx, { call });
+
+      await this.withNonceLock(async () => {
+        const { nonce, nextNonce } = await this.getNextNonce();
+        const fees = await this.publicClient.estimateFeesPerGas();
+
+        const hash = await this.broadcast(call, nonce, fees);
+
+        await this.setNextNonce(Math.max(nonce + 1, nextNonce));
+        const broadcastAt = new Date().toISOString();
+        await this.update(tx, {
+          status: "pending",
+          nonce,
+          hash,
+          hashes: [hash],
+          maxFeePerGas: fees.maxFeePerGas,
+          maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+          submittedAt: broadcastAt,
+          lastBroadcastAt: broadcastAt,
+        });
+      });
+    } catch (error) {
+      // The pending nonce may or may not have been consumed - re-read it next time
+      await this.nonces.delete([this.account.address.toLowerCase()]).catch(() => undefined);
+      await this.update(tx, {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+
+    console.log(`📤 Relayer tx ${tx.id} (${tx.purpose}) sent with nonce ${tx.nonce}: ${tx.hash}`);
+    return tx;
+  }
+
+  /**
+   * Wait until a submitted transaction is mined
+   * Re-sends it with bumped fees while it stays stuck
+   */
+  async waitForReceipt(txId: string): Promise<TransactionReceipt> {
+    const tx = await this.getTransaction(txId);
+    if (!tx || !tx.hash || tx.nonce === undefined) {
+      throw new Error(`Relayer transaction ${txId} was not submitted`);
+    }
+
+    const startedAt = Date.now();
+
+    try {
+      while (Date.now() - startedAt < this.CONFIRMATION_TIMEOUT_MS) {
+        // Any of the broadcast hashes may be the one that gets mined
+        for (const hash of [...tx.hashes].reverse()) {
+          const receipt = await this.publicClient
+            .getTransactionReceipt({ hash })
+            .catch(() => null);
+
+          if (receipt) {
+            await this.update(tx, {
+              status: receipt.status === "success" ? "confirmed" : "reverted",
+              hash,
+              blockNumber: receipt.blockNumber,
+              gasUsed: receipt.gasUsed,
+              confirmedAt: new Date().toISOString(),
+              ...(receipt.status !== "success" && {
+                error: "Transaction reverted",
+              }),
+            });
+            return receipt;
+          }
+        }
+
+        const lastBroadcast = Date.parse(tx.lastBroadcastAt || tx.createdAt);
+        if (
+          Date.now() - lastBroadcast > this.STUCK_TIMEOUT_MS &&
+          tx.replacements < this.MAX_REPLACEMENTS
+        ) {
+          await this.bumpFees(tx);
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, this.POLL_INTERVAL_MS));
+      }
+
+      throw new Error(
+        `Transaction not mined after ${this.CONFIRMATION_TIMEOUT_MS / 1000}s (nonce ${tx.nonce})`
+      );
+    } catch (error) {
+      if (tx.status === "pending") {
+        await this.update(tx, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Submit a contract call and wait for it to be mined
+   */
+  async send(
+    request: RelayerTxRequest
+  ): Promise<{ tx: RelayerTransaction; receipt: TransactionReceipt }> {
+    const tx = await this.submit(request);
+    const receipt = await this.waitForReceipt(tx.id);
+    return { tx, receipt };
+  }
+
+  /**
+   * Re-send a pending transaction with the same nonce and higher fees
+   *
+   * @returns false if the replacement could not be broadcast
+   */
+  private async bumpFees(tx: RelayerTransaction): Promise<boolean> {
+    if (!tx.call || tx.nonce === undefined) {
+      return false;
+    }
+
+    const current = await this.publicClient.estimateFeesPerGas();
+    const bump = (previous: bigint | undefined, market: bigint) => {
+      const bumped = ((previous || 0n) * this.FEE_BUMP_PERCENT) / 100n;
+      return bumped > market ? bumped : market;
+    };
+    const fees = {
+      maxFeePerGas: bump(tx.maxFeePerGas, current.maxFeePerGas),
+      maxPriorityFeePerGas: bump(
+        tx.maxPriorityFeePerGas,
+        current.maxPriorityFeePerGas
+      ),
+    };
+
+    try {
+      const hash = await this.broadcast(tx.call, tx.nonce, fees);
+      console.warn(
+        `⛽ Relayer tx ${tx.id} stuck - replaced nonce ${tx.nonce} with ${hash} (maxFeePerGas ${fees.maxFeePerGas})`
+      );
+      await this.update(tx, {
+        hash,
+        hashes: [...tx.hashes, hash],
+        replacements: tx.replacements + 1,
+        maxFeePerGas: fees.maxFeePerGas,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+        lastBroadcastAt: new Date().toISOString(),
+      });
+      return true;
+    } catch (error: any) {
+      const message: string = error?.message || String(error);
+
+      // The original got mined in the meantime - the receipt loop will pick it up
+      if (message.includes("nonce too low") || message.includes("already known")) {
+        return true;
+      }
+
+      // Still underpriced: remember the attempted fees so the next bump goes higher
+      console.warn(`⚠️  Fee bump for relayer tx ${tx.id} failed: ${message}`);
+      await this.update(tx, {
+        replacements: tx.replacements + 1,
+        maxFeePerGas: fees.maxFeePerGas,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+        lastBroadcastAt: new Date().toISOString(),
+      });
+      return false;
+    }
+  }
+
+  private async broadcast(
+    call: RelayerCall,
+    nonce: number,
+    fees: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+  ): Promise<Hash> {
+    return this.walletClient.sendTransaction({
+      to: call.to,
+      data: call.data,
+      value: call.value,
+      gas: call.gas,
+      account: this.account,
+      chain: this.walletClient.chain,
+      nonce,
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+    });
+  }
+
+  /**
+   * Nonce for the next broadcast, and the next nonce this relayer would hand
+   * out after the ones already in flight
+   *
+   * Usually the chain's pending count. If the relayer has handed out more
+   * nonces than that, either the RPC has not seen the latest broadcasts yet,
+   * or the transaction holding the pending nonce was dropped from the
+   * mempool - which leaves every later nonce stuck behind the gap. A dropped
+   * transaction (not re-broadcast within STUCK_TIMEOUT_MS) is re-sent with
+   * bumped fees; if that is not possible, it is marked failed and its nonce
+   * is reused.
+   */
+  private async getNextNonce(): Promise<{ nonce: number; nextNonce: number }> {
+    const [pending, stored] = await Promise.all([
+      this.publicClient.getTransactionCount({
+        address: this.account.address,
+        blockTag: "pending",
+      }),
+      this.nonces.get(this.account.address.toLowerCase()),
+    ]);
+    if (!stored || stored.nextNonce <= pending) {
+      return { nonce: pending, nextNonce: pending };
+    }
+
+    const holder = (await this.transactions.list()).find(
+      (tx) => tx.status === "pending" && tx.nonce === pending
+    );
+    if (holder) {
+      const lastBroadcast = Date.parse(holder.lastBroadcastAt || holder.createdAt);
+      if (Date.now() - lastBroadcast <= this.STUCK_TIMEOUT_MS) {
+        return { nonce: stored.nextNonce, nextNonce: stored.nextNonce };
+      }
+
+      if (holder.replacements < this.MAX_REPLACEMENTS && (await this.bumpFees(holder))) {
+        console.warn(`🕳️  Relayer nonce ${pending} was missing from the mempool - re-sent tx ${holder.id}`);
+        return { nonce: stored.nextNonce, nextNonce: stored.nextNonce };
+      }
+
+      await this.update(holder, {
+        status: "failed",
+        error: `Dropped from the mempool; nonce ${pending} was reused`,
+      });
+    }
+
+    console.warn(`🕳️  Relayer nonce ${pending} was never mined - reusing it (next nonce was ${stored.nextNonce})`);
+    return { nonce: pending, nextNonce: stored.nextNonce };
+  }
+
+  private async setNextNonce(nextNonce: number): Promise<void> {
+    await this.nonces.set(this.account.address.toLowerCase(), {
+      address: this.account.address,
+      nextNonce,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Run a function while holding the nonce lock (one broadcast at a time)
+   * Calls are queued in-process, and the lock is claimed in the record store
+   * so instances sharing it (STATE_STORE=redis) take turns as well
+   */
+  private withNonceLock<T>(fn: () => Promise<T>): Promise<T> {
+    const run = async () => {
+      const lockId = this.account.address.toLowerCase();
+      const deadline = Date.now() + this.NONCE_LOCK_WAIT_MS;
+
+      while (!(await this.nonces.claim(lockId, this.NONCE_LOCK_TTL_MS))) {
+        if (Date.now() > deadline) {
+          throw new Error("Timed out waiting for the relayer nonce lock");
+        }
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+
+      try {
+        return await fn();
+      } finally {
+        await this.nonces.unclaim(lockId);
+      }
+    };
+
+    const result = this.nonceLock.then(run, run);
+    this.nonceLock = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,365 @@
+/**
+ * Round Analytics Service
+ *
+ * Purpose: Reconstruct how a round unfolded from indexed contract events:
+ * each seed's score over time, lead changes, unique blessers, blessing
+ * concentration and the share of blessings that went to the winner.
+ *
+ * Round window:
+ * - Starts after the round's RoundStarted / BlessingPeriodStarted event (or
+ *   the previous round's winner selection, or the deployment block for round 1)
+ * - Ends before the round's winner selection (CreationMinted / WinnerSelected)
+ *   or the next round's start; an open round runs up to the indexed head
+ *
+ * Scores come from ReactionSubmitted / SeedScoreUpdated events. If the
+ * contract emitted none in the window, a seed's score is its blessing count.
+ */
+
+import type { Hash } from "viem";
+import { contractService } from "./contractService.js";
+import { indexerService, type IndexedEvent } from "./indexerService.js";
+
+export interface ScorePoint {
+  timestamp: number;
+  blockNumber: number;
+  score: number;
+}
+
+export interface BlessingPoint {
+  timestamp: number;
+  blessings: number; // Cumulative
+}
+
+export interface SeedRoundAnalytics {
+  seedId: number;
+  blessings: number;
+  uniqueBlessers: number;
+  blessingShare: number; // Share of the round's blessings (0-1)
+  finalScore: number;
+  isWinner: boolean;
+  scoreTimeline: ScorePoint[];
+  blessingCurve: BlessingPoint[];
+}
+
+export interface LeadChange {
+  timestamp: number;
+  blockNumber: number;
+  transactionHash: Hash;
+  seedId: number;
+  previousLeader: number | null;
+  score: number;
+}
+
+export interface Concentration {
+  gini: number; // 0 = perfectly even, 1 = all blessings in one place
+  top10Share: number; // Share of blessings held by the top 10 (0-1)
+}
+
+export interface RoundAnalytics {
+  round: number;
+  status: "open" | "closed";
+  startBlock: number;
+  endBlock: number | null; // null while the round is open
+  startedAt: number | null;
+  endedAt: number | null;
+  scoreSource: "scoreUpdates" | "blessings";
+  interval: number; // Seconds per curve bucket
+  totals: {
+    blessings: number;
+    uniqueBlessers: number;
+    seeds: number;
+  };
+  winner: {
+    seedId: number;
+    blessings: number;
+    blessingShare: number; // Share of the round's blessings that went to the winner
+  } | null;
+  leadChanges: LeadChange[];
+  concentration: {
+    blessers: Concentration; // How evenly blessings are spread across blessers
+    seeds: Concentration; // How evenly blessings are spread across seeds
+  };
+  seeds: SeedRoundAnalytics[];
+}
+
+// Position of an event on chain; windows are bounded by event positions so
+// events in the same block as a winner selection land in the right round
+type LogPosition = { blockNumber: bigint; logIndex: number };
+
+const comparePositions = (a: LogPosition, b: LogPosition): number =>
+  a.blockNumber !== b.blockNumber
+    ? a.blockNumber < b.blockNumber
+      ? -1
+      : 1
+    : a.logIndex - b.logIndex;
+
+interface RoundBoundary extends LogPosition {
+  timestamp: number | null;
+}
+
+/**
+ * Gini coefficient of a distribution of counts
+ */
+function gini(values: number[]): number {
+  const sorted = values.filter((value) => value > 0).sort((a, b) => a - b);
+  const total = sorted.reduce((sum, value) => sum + value, 0);
+  if (sorted.length < 2 || total === 0) {
+    return 0;
+  }
+
+  // G = sum((2i - n - 1) * x_i) / (n * sum(x)), i = 1..n over ascending values
+  const n = sorted.length;
+  const weighted = sorted.reduce(
+    (sum, value, index) => sum + (2 * (index + 1) - n - 1) * value,
+    0
+  );
+  return round4(weighted / (n * total));
+}
+
+function concentration(counts: Iterable<number>): Concentration {
+  const values = [...counts];
+  const total = values.reduce((sum, value) => sum + value, 0);
+  const top10 = [...values]
+    .sort((a, b) => b - a)
+    .slice(0, 10)
+    .reduce((sum, value) => sum + value, 0);
+
+  return {
+    gini: gini(values),
+    top10Share: total > 0 ? round4(top10 / total) : 0,
+  };
+}
+
+function round4(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Keep the last point of each time bucket
+ */
+function bucketize<T extends { timestamp: number }>(points: T[], interval: number): T[] {
+  const buckets = new Map<number, T>();
+  for (const point of points) {
+    buckets.set(Math.floor(point.timestamp / interval), point);
+  }
+  return [...buckets.values()];
+}
+
+class RoundAnalyticsService {
+  /**
+   * Event positions bounding a round
+   *
+   * @returns null if the round has not started
+   */
+  private async getRoundWindow(round: number): Promise<{
+    start: RoundBoundary;
+    end: RoundBoundary | null; // null while the round is open
+    winnerEvent: IndexedEvent<"winner"> | null;
+  } | null> {
+    const [roundStarts, winners] = await Promise.all([
+      indexerService.getRoundStarts(),
+      indexerService.getWinners(),
+    ]);
+
+    const boundary = (event: IndexedEvent): RoundBoundary => ({
+      blockNumber: event.blockNumber,
+      logIndex: event.logIndex,
+      timestamp: Number(event.blockTimestamp),
+    });
+
+    const roundStart = roundStarts.find((event) => Number(event.round) === round);
+    const previousWinner = winners.find((event) => Number(event.round) === round - 1);
+    const winnerEvent = winners.find((event) => Number(event.round) === round) ?? null;
+    const nextStart = roundStarts.find((event) => Number(event.round) === round + 1);
+
+    let start: RoundBoundary;
+    if (roundStart) {
+      start = boundary(roundStart);
+    } else if (previousWinner) {
+      start = boundary(previousWinner);
+    } else if (round === 1) {
+      start = {
+        blockNumber: contractService.getDeploymentBlock(),
+        logIndex: -1,
+        timestamp: null,
+      };
+    } else {
+      return null;
+    }
+
+    const end = winnerEvent ?? nextStart;
+    return {
+      start,
+      end: end ? boundary(end) : null,
+      winnerEvent,
+    };
+  }
+
+  /**
+   * Reconstruct a round from indexed events
+   *
+   * @param interval - Seconds per bucket of the score timelines and blessing curves
+   * @returns null if the round has not started
+   */
+  async getRoundAnalytics(
+    round: number,
+    interval = 3600
+  ): Promise<RoundAnalytics | null> {
+    const window = await this.getRoundWindow(round);
+    if (!window) {
+      return null;
+    }
+
+    const { start, end, winnerEvent } = window;
+    const inWindow = (event: LogPosition) =>
+      comparePositions(event, start) > 0 && (!end || comparePositions(event, end) < 0);
+
+    const [allBlessings, allScoreUpdates] = await Promise.all([
+      indexerService.getBlessings(),
+      indexerService.getScoreUpdates(),
+    ]);
+    const blessings = allBlessings.filter(inWindow);
+    const scoreUpdates = allScoreUpdates.filter(inWindow);
+    const scoreSource = scoreUpdates.length > 0 ? "scoreUpdates" : "blessings";
+
+    // Per-seed blessings, blessers and curves
+    const seedBlessings = new Map<number, IndexedEvent<"blessing">[]>();
+    const blesserCounts = new Map<string, number>();
+    for (const blessing of blessings) {
+      const seedId = Number(blessing.seedId);
+      if (!seedBlessings.has(seedId)) {
+        seedBlessings.set(seedId, []);
+      }
+      seedBlessings.get(seedId)!.push(blessing);
+      const blesser = blessing.blesser.toLowerCase();
+      blesserCounts.set(blesser, (blesserCounts.get(blesser) || 0) + 1);
+    }
+
+    // Score changes in chain order: score updates, or cumulative blessing counts
+    const scoreChanges: Array<{
+      seedId: number;
+      score: number;
+      timestamp: number;
+      blockNumber: number;
+      transactionHash: Hash;
+    }> = [];
+    if (scoreSource === "scoreUpdates") {
+      for (const update of scoreUpdates) {
+        scoreChanges.push({
+          seedId: Number(update.seedId),
+          score: Number(update.newScore),
+          timestamp: Number(update.blockTimestamp),
+          blockNumber: Number(update.blockNumber),
+          transactionHash: update.transactionHash,
+        });
+      }
+    } else {
+      const counts = new Map<number, number>();
+      for (const blessing of blessings) {
+        const seedId = Number(blessing.seedId);
+        counts.set(seedId, (counts.get(seedId) || 0) + 1);
+        scoreChanges.push({
+          seedId,
+          score: counts.get(seedId)!,
+          timestamp: Number(blessing.blockTimestamp),
+          blockNumber: Number(blessing.blockNumber),
+          transactionHash: blessing.transactionHash,
+        });
+      }
+    }
+
+    // Lead changes: the leader changes only when strictly overtaken
+    const scores = new Map<number, number>();
+    const timelines = new Map<number, ScorePoint[]>();
+    const leadChanges: LeadChange[] = [];
+    let leader: number | null = null;
+
+    for (const change of scoreChanges) {
+      scores.set(change.seedId, change.score);
+      if (!timelines.has(change.seedId)) {
+        timelines.set(change.seedId, []);
+      }
+      timelines.get(change.seedId)!.push({
+        timestamp: change.timestamp,
+        blockNumber: change.blockNumber,
+        score: change.score,
+      });
+
+      const leaderScore = leader === null ? 0 : scores.get(leader) ?? 0;
+      if (leader !== change.seedId && change.score > leaderScore) {
+        leadChanges.push({
+          timestamp: change.timestamp,
+          blockNumber: change.blockNumber,
+          transactionHash: change.transactionHash,
+          seedId: change.seedId,
+          previousLeader: leader,
+          score: change.score,
+        });
+        leader = change.seedId;
+      }
+    }
+
+    const winnerSeedId = winnerEvent ? Number(winnerEvent.seedId) : null;
+    const seedIds = new Set([...seedBlessings.keys(), ...timelines.keys()]);
+
+    const seeds: SeedRoundAnalytics[] = [...seedIds].map((seedId) => {
+      const records = seedBlessings.get(seedId) || [];
+      const curve = records.map((blessing, index) => ({
+        timestamp: Number(blessing.blockTimestamp),
+        blessings: index + 1,
+      }));
+
+      return {
+        seedId,
+        blessings: records.length,
+        uniqueBlessers: new Set(records.map((b) => b.blesser.toLowerCase())).size,
+        blessingShare: blessings.length > 0 ? round4(records.length / blessings.length) : 0,
+        finalScore: scores.get(seedId) ?? 0,
+        isWinner: seedId === winnerSeedId,
+        scoreTimeline: bucketize(timelines.get(seedId) || [], interval),
+        blessingCurve: bucketize(curve, interval),
+      };
+    });
+
+    // Highest final score first
+    seeds.sort((a, b) => b.finalScore - a.finalScore || b.blessings - a.blessings);
+
+    const winnerBlessings =
+      winnerSeedId !== null ? seedBlessings.get(winnerSeedId)?.length ?? 0 : 0;
+
+    return {
+      round,
+      status: end ? "closed" : "open",
+      startBlock: Number(start.blockNumber),
+      endBlock: end ? Number(end.blockNumber) : null,
+      // Round 1 without a start event: fall back to its first blessing
+      startedAt:
+        start.timestamp ?? (blessings[0] ? Number(blessings[0].blockTimestamp) : null),
+      endedAt: end?.timestamp ?? null,
+      scoreSource,
+      interval,
+      totals: {
+        blessings: blessings.length,
+        uniqueBlessers: blesserCounts.size,
+        seeds: seeds.length,
+      },
+      winner:
+        winnerSeedId !== null
+          ? {
+              seedId: winnerSeedId,
+              blessings: winnerBlessings,
+              blessingShare:
+                blessings.length > 0 ? round4(winnerBlessings / blessings.length) : 0,
+            }
+          : null,
+      leadChanges,
+      concentration: {
+        blessers: concentration(blesserCounts.values()),
+        seeds: concentration(seeds.map((seed) => seed.blessings)),
+      },
+      seeds,
+    };
+  }
+}
+
+export const roundAnalyticsService = new RoundAnalyticsService();
@@ -0,0 +1,233 @@
+/**
+ * Round Archive Service
+ *
+ * Purpose: One record per round for the archive page, combining:
+ * - the winner (indexed WinnerSelected / CreationMinted event, falling back
+ *   to getRoundWinner) and its score in that round
+ * - the Seeds NFT minted for the winning seed
+ * - the elevation outcome: Abraham creation token and auction result
+ *   (from the elevation job and AbrahamAuction.getAuction)
+ *
+ * Rounds before the current one are closed, with or without a winner. Their
+ * winner can no longer change and is cached; so are whole records once the
+ * auction is settled. The elevation job is read on every request, since an
+ * operator may still elevate a past round.
+ */
+
+import { zeroAddress, type Address, type Hash } from "viem";
+import { abrahamService } from "./abrahamService.js";
+import { contractService } from "./contractService.js";
+import {
+  elevationJobService,
+  type ElevationJobState,
+} from "./elevationJobService.js";
+import { indexerService, type IndexedEvent } from "./indexerService.js";
+
+export interface RoundWinner {
+  seedId: number;
+  ipfsHash: string;
+  creator: Address;
+  blessings: number;
+  score: number; // Score in the winning round
+  seedsTokenId: number | null; // Seeds NFT minted for the winning seed
+  selectedAt: number | null; // Unix seconds
+  blockNumber: number | null;
+  transactionHash: Hash | null;
+}
+
+export interface RoundAuction {
+  auctionId: number;
+  status: "active" | "ended" | "settled";
+  startTime: number;
+  endTime: number;
+  minBid: string; // Wei
+  highestBidder: Address | null;
+  highestBid: string; // Wei
+  settled: boolean;
+}
+
+export interface RoundElevation {
+  state: ElevationJobState;
+  abrahamTokenId: number | null;
+  auctionId: number | null;
+  mintTxHash: Hash | null;
+  auctionTxHash: Hash | null;
+  auction: RoundAuction | null;
+  auctionError?: string;
+}
+
+export interface RoundRecord {
+  round: number;
+  status: "open" | "closed";
+  winner: RoundWinner | null;
+  elevation: RoundElevation | null;
+}
+
+class RoundArchiveService {
+  // Final records (winner selected, auction settled)
+  private cache = new Map<number, RoundRecord>();
+  // Winners of closed rounds (null: closed without a winner)
+  private winners = new Map<number, RoundWinner | null>();
+  // Rounds built at once when listing (each takes ~5 RPC reads)
+  private readonly ROUND_FETCH_CONCURRENCY = 5;
+
+  /**
+   * Get the archive record of a round
+   *
+   * @returns null if the round has not started
+   */
+  async getRound(round: number, currentRound?: number): Promise<RoundRecord | null> {
+    const cached = this.cache.get(round);
+    if (cached) {
+      return cached;
+    }
+
+    const current = currentRound ?? Number(await contractService.getCurrentRound());
+    if (round > current) {
+      return null;
+    }
+
+    let winner = this.winners.get(round);
+    if (winner === undefined) {
+      const winners = await indexerService.getWinners();
+      const winnerEvent = winners.find((event) => Number(event.round) === round) ?? null;
+
+      winner = await this.getWinner(round, current, winnerEvent);
+      if (round < current) {
+        this.winners.set(round, winner);
+      }
+    }
+    const elevation = await this.getElevation(round);
+
+    const record: RoundRecord = {
+      round,
+      status: winner || round < current ? "closed" : "open",
+      winner,
+      elevation,
+    };
+
+    if (winner && elevation?.auction?.settled) {
+      this.cache.set(round, record);
+    }
+    return record;
+  }
+
+  /**
+   * List rounds, newest first
+   */
+  async listRounds(
+    page: number,
+    limit: number
+  ): Promise<{ rounds: RoundRecord[]; total: number }> {
+    const total = Number(await contractService.getCurrentRound());
+
+    const roundNumbers: number[] = [];
+    const first = total - (page - 1) * limit;
+    for (let round = first; round > Math.max(first - limit, 0); round--) {
+      roundNumbers.push(round);
+    }
+
+    const rounds: (RoundRecord | null)[] = [];
+    for (let i = 0; i < roundNumbers.length; i += this.ROUND_FETCH_CONCURRENCY) {
+      const batch = roundNumbers.slice(i, i + this.ROUND_FETCH_CONCURRENCY);
+      rounds.push(...(await Promise.all(batch.map((round) => this.getRound(round, total)))));
+    }
+
+    return {
+      rounds: rounds.filter((record): record is RoundRecord => record !== null),
+      total,
+    };
+  }
+
+  private async getWinner(
+    round: number,
+    currentRound: number,
+    winnerEvent: IndexedEvent<"winner"> | null
+  ): Promise<RoundWinner | null> {
+    let seedId: number;
+
+    if (winnerEvent) {
+      seedId = Number(winnerEvent.seedId);
+    } else if (round < currentRound) {
+      // Not indexed (yet): ask the contract
+      seedId = Number(await contractService.getRoundWinner(round));
+    } else {
+      return null;
+    }
+
+    const seed = await contractService.getSeed(seedId);
+
+    // getRoundWinner returns 0 for rounds without a winner
+    if (!winnerEvent && !(seed.isWinner && Number(seed.winnerInRound) === round)) {
+      return null;
+    }
+
+    const [score, seedsTokenId] = await Promise.all([
+      winnerEvent?.score ?? contractService.getSeedScoreByRound(round, seedId),
+      // CreationMinted carries the token ID; otherwise 0 means nothing was minted
+      winnerEvent?.tokenId ??
+        contractService
+          .getTokenIdBySeedId(seedId)
+          .then((tokenId) => (tokenId > 0n ? tokenId : null))
+          .catch(() => null),
+    ]);
+
+    return {
+      seedId,
+      ipfsHash: seed.ipfsHash,
+      creator: seed.creator,
+      blessings: Number(seed.blessings),
+      score: Number(score),
+      seedsTokenId: seedsTokenId !== null ? Number(seedsTokenId) : null,
+      selectedAt: winnerEvent ? Number(winnerEvent.blockTimestamp) : null,
+      blockNumber: winnerEvent ? Number(winnerEvent.blockNumber) : null,
+      transactionHash: winnerEvent?.transactionHash ?? null,
+    };
+  }
+
+  private async getElevation(round: number): Promise<RoundElevation | null> {
+    const job = await elevationJobService.getJob(round);
+    if (!job) {
+      return null;
+    }
+
+    const elevation: RoundElevation = {
+      state: job.state,
+      abrahamTokenId: job.tokenId ?? null,
+      auctionId: job.auctionId ?? null,
+      mintTxHash: job.mintTxHash ?? null,
+      auctionTxHash: job.auctionTxHash ?? null,
+      auction: null,
+    };
+
+    if (job.auctionId !== undefined) {
+      try {
+        const auction = await abrahamService.getAuction(job.auctionId);
+        const now = Math.floor(Date.now() / 1000);
+
+        elevation.auction = {
+          auctionId: job.auctionId,
+          status: auction.settled
+            ? "settled"
+            : now >= Number(auction.endTime)
+              ? "ended"
+              : "active",
+          startTime: Number(auction.startTime),
+          endTime: Number(auction.endTime),
+          minBid: auction.minBid.toString(),
+          highestBidder:
+            auction.highestBidder === zeroAddress ? null : auction.highestBidder,
+          highestBid: auction.highestBid.toString(),
+          settled: auction.settled,
+        };
+      } catch (error) {
+        // Keep the rest of the record (e.g. AbrahamAuction not configured)
+        elevation.auctionError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    return elevation;
+  }
+}
+
+export const roundArchiveService = new RoundArchiveService();
@@ -0,0 +1,252 @@
+/**
+ * Seed Metadata Service
+ *
+ * Purpose: One shape for seed metadata, whatever JSON a creator pinned.
+ *
+ * - Submission: the metadata behind a seed's IPFS hash must match the current
+ *   schema (SEED_METADATA_VERSION) before it goes on-chain
+ * - Reading: older or non-standard shapes (title, image_url, tags, attribute
+ *   maps, ...) are mapped onto the schema; whatever still does not fit is
+ *   dropped and reported in validationErrors
+ *
+ * Schema (ERC-721 metadata plus a few fields of our own):
+ * {
+ *   "schema_version": 1,          // Optional on submission, always set when read
+ *   "name": string,               // 1-200 chars
+ *   "description": string,        // 1-5000 chars
+ *   "image": "ipfs://...",        // ipfs://, ar:// or http(s):// URI
+ *   "animation_url": "ipfs://...",
+ *   "attributes": [{ "trait_type": string, "value": string | number | boolean, "display_type": string }],
+ *   "creator_notes": string       // Up to 5000 chars
+ * }
+ * Any other fields (e.g. "properties") are kept as-is.
+ */
+
+import { z } from "zod/v4";
+import { extractCid } from "../../lib/ipfs/cid.js";
+import { metadataCacheService, type ResolvedMetadata } from "./metadataCacheService.js";
+
+export const SEED_METADATA_VERSION = 1;
+
+const MAX_ATTRIBUTES = 50;
+
+const UriSchema = z
+  .string()
+  .regex(/^(ipfs|ar|https?):\/\/\S+$/, "Expected an ipfs://, ar:// or http(s):// URI");
+
+const AttributeSchema = z.object({
+  trait_type: z.string().max(100).optional(),
+  value: z.union([z.string().max(1000), z.number(), z.boolean()]),
+  display_type: z.string().max(50).optional(),
+});
+
+export const SeedMetadataSchema = z.looseObject({
+  schema_version: z
+    .literal(SEED_METADATA_VERSION, `Unsupported schema_version (expected ${SEED_METADATA_VERSION})`)
+    .default(SEED_METADATA_VERSION),
+  name: z.string().trim().min(1).max(200),
+  description: z.string().trim().min(1).max(5000),
+  image: UriSchema.optional(),
+  animation_url: UriSchema.optional(),
+  attributes: z.array(AttributeSchema).max(MAX_ATTRIBUTES).default([]),
+  creator_notes: z.string().trim().max(5000).optional(),
+});
+
+export type SeedMetadata = z.output<typeof SeedMetadataSchema>;
+export type SeedMetadataAttribute = z.output<typeof AttributeSchema>;
+
+/**
+ * Seed metadata as read: every field present is valid, but name and
+ * description may be missing (see validationErrors)
+ */
+export type NormalizedSeedMetadata = Omit<SeedMetadata, "name" | "description"> &
+  Partial<Pick<SeedMetadata, "name" | "description">>;
+
+export interface ResolvedSeedMetadata extends ResolvedMetadata<NormalizedSeedMetadata> {
+  validationErrors: string[];
+}
+
+export interface SeedMetadataCheck {
+  valid: boolean;
+  metadataStatus: ResolvedMetadata["metadataStatus"];
+  validationErrors: string[];
+  error?: string;
+}
+
+/**
+ * Legacy field names, in order of preference, for each schema field
+ */
+const LEGACY_FIELDS = {
+  name: ["name", "title"],
+  description: ["description", "desc"],
+  image: ["image", "image_url", "imageUrl", "imageURL"],
+  animation_url: ["animation_url", "animationUrl", "video", "video_url", "videoUrl"],
+  creator_notes: ["creator_notes", "creatorNotes", "notes"],
+} as const;
+
+const formatIssue = (issue: z.core.$ZodIssue): string =>
+  issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Bare CIDs and ipfs://ipfs/ URIs become ipfs://<cid>
+ */
+function normalizeUri(value: unknown): unknown {
+  if (typeof value !== "string") {
+    return value;
+  }
+  const uri = value.trim();
+  if (/^ipfs:\/\/ipfs\//.test(uri) || !/^[a-z]+:/i.test(uri)) {
+    const target = extractCid(uri);
+    if (target) {
+      return `ipfs://${target.cid}${target.path}`;
+    }
+  }
+  return uri;
+}
+
+/**
+ * Attributes as an array, an object map ({ "Style": "Abstract" }) and/or
+ * a list of tags
+ */
+function normalizeAttributes(attributes: unknown, tags: unknown): unknown {
+  let result: unknown[];
+  if (Array.isArray(attributes)) {
+    result = attributes;
+  } else if (isObject(attributes)) {
+    result = Object.entries(attributes).map(([trait_type, value]) => ({ trait_type, value }));
+  } else if (attributes === undefined || attributes === null) {
+    result = [];
+  } else {
+    return attributes; // Left for the schema to reject
+  }
+
+  if (Array.isArray(tags)) {
+    for (const tag of tags) {
+      if (typeof tag === "string" && tag.trim()) {
+        result.push({ trait_type: "Tag", value: tag.trim() });
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Map legacy shapes onto the current schema, drop what does not fit
+ *
+ * @returns The normalized metadata (null if it is not a JSON object) and
+ *          why any field was dropped
+ */
+export function normalizeSeedMetadata(raw: unknown): {
+  metadata: NormalizedSeedMetadata | null;
+  validationErrors: string[];
+} {
+  if (!isObject(raw)) {
+    return { metadata: null, validationErrors: ["Metadata must be a JSON object"] };
+  }
+
+  const candidate: Record<string, unknown> = { ...raw };
+  for (const [field, names] of Object.entries(LEGACY_FIELDS)) {
+    const value = names.map((name) => raw[name]).find((v) => v !== undefined && v !== null);
+    for (const name of names) {
+      delete candidate[name];
+    }
+    if (value !== undefined) {
+      candidate[field] = field === "image" || field === "animation_url" ? normalizeUri(value) : value;
+    }
+  }
+  candidate.attributes = normalizeAttributes(raw.attributes ?? raw.traits, raw.tags);
+  delete candidate.traits;
+  delete candidate.tags;
+
+  // Metadata written before versioning is read as the current version
+  candidate.schema_version ??= SEED_METADATA_VERSION;
+
+  const result = SeedMetadataSchema.safeParse(candidate);
+  if (result.success) {
+    return { metadata: result.data, validationErrors: [] };
+  }
+
+  // Drop invalid fields (single attributes rather than all of them) and parse
+  // again; only name and description can still be missing after that
+  const invalidAttributes = new Set<number>();
+  for (const issue of result.error.issues) {
+    const [field, index] = issue.path;
+    if (field === "attributes" && typeof index === "number") {
+      invalidAttributes.add(index);
+    } else if (typeof field === "string" && !(field === "attributes" && Array.isArray(candidate.attributes))) {
+      delete candidate[field];
+    }
+  }
+  if (Array.isArray(candidate.attributes)) {
+    candidate.attributes = candidate.attributes
+      .filter((_, index) => !invalidAttributes.has(index))
+      .slice(0, MAX_ATTRIBUTES);
+  }
+  candidate.schema_version = SEED_METADATA_VERSION;
+
+  const partial = SeedMetadataSchema.partial({ name: true, description: true }).safeParse(candidate);
+
+  return {
+    metadata: partial.success ? partial.data : null,
+    validationErrors: result.error.issues.map(formatIssue),
+  };
+}
+
+/**
+ * Check metadata against the current schema, without legacy mapping
+ *
+ * @returns Validation errors (empty if valid)
+ */
+export function validateSeedMetadata(raw: unknown): string[] {
+  if (!isObject(raw)) {
+    return ["Metadata must be a JSON object"];
+  }
+  const result = SeedMetadataSchema.safeParse(raw);
+  return result.success ? [] : result.error.issues.map(formatIssue);
+}
+
+class SeedMetadataService {
+  /**
+   * Resolve and normalize a seed's metadata (cached by CID)
+   */
+  async resolve(ipfsHash: string | null | undefined): Promise<ResolvedSeedMetadata> {
+    const resolved = await metadataCacheService.resolve(ipfsHash);
+    if (resolved.metadata === null) {
+      return { ...resolved, metadata: null, validationErrors: [] };
+    }
+
+    const { metadata, validationErrors } = normalizeSeedMetadata(resolved.metadata);
+    return { ...resolved, metadata, validationErrors };
+  }
+
+  /**
+   * Fetch the metadata behind an IPFS hash and check it before the seed is
+   * submitted. Earlier failed fetches are retried (the content may have been
+   * pinned since).
+   */
+  async checkForSubmission(ipfsHash: string): Promise<SeedMetadataCheck> {
+    const resolved = await metadataCacheService.resolve(ipfsHash, { retryFailed: true });
+
+    if (resolved.metadataStatus === "unavailable") {
+      return {
+        valid: false,
+        metadataStatus: resolved.metadataStatus,
+        validationErrors: [],
+        error: `Seed metadata could not be fetched: ${resolved.metadataError}`,
+      };
+    }
+
+    const validationErrors = validateSeedMetadata(resolved.metadata);
+    return {
+      valid: validationErrors.length === 0,
+      metadataStatus: resolved.metadataStatus,
+      validationErrors,
+      error: validationErrors.length > 0 ? "Seed metadata does not match the schema" : undefined,
+    };
+  }
+}
+
+export const seedMetadataService = new SeedMetadataService();
@@ -0,0 +1,274 @@
+/**
+ * Seed Upload Service
+ *
+ * Purpose: Let creators start a seed from a media file instead of an IPFS
+ * hash. The media (and an optional video thumbnail) and a metadata JSON
+ * following the seed metadata schema (see seedMetadataService) are pinned
+ * through the IPFS service; the metadata CID is what submitSeed /
+ * prepareSeedSubmissionTransaction expect.
+ *
+ * The media type is detected from the file's leading bytes, not from the
+ * declared Content-Type or file name.
+ *
+ * Limits (override via environment):
+ * - SEED_UPLOAD_MAX_IMAGE_MB (default 10)
+ * - SEED_UPLOAD_MAX_VIDEO_MB (default 50)
+ *
+ * On Vercel, functions reject request bodies over 4.5 MB before the handler
+ * runs, so each file is capped at 4 MB and the request at 4.5 MB whatever
+ * is configured. Larger media must be pinned elsewhere and submitted by
+ * IPFS hash (POST /api/seeds).
+ */
+
+import type { Address } from "viem";
+import * as ipfsService from "./ipfsService.js";
+import { metadataCacheService } from "./metadataCacheService.js";
+import { SEED_METADATA_VERSION, type SeedMetadata } from "./seedMetadataService.js";
+
+export type SeedMediaKind = "image" | "video";
+
+export interface SeedMediaType {
+  mimeType: string;
+  kind: SeedMediaKind;
+  extension: string;
+}
+
+export interface PinnedMedia {
+  cid: string;
+  uri: string; // ipfs://
+  url: string; // Gateway URL
+  mimeType: string;
+  size: number; // Bytes
+}
+
+export interface SeedUploadInput {
+  media: File;
+  thumbnail?: File; // Preview image for videos
+  title: string;
+  description: string;
+  tags: string[];
+  notes?: string; // creator_notes
+  creator: Address;
+}
+
+export type SeedUploadErrorCode =
+  | "unsupported-type"
+  | "too-large"
+  | "not-configured"
+  | "upload-failed";
+
+export interface SeedUploadResult {
+  success: boolean;
+  data?: {
+    ipfsHash: string; // Metadata CID, pass to POST /api/seeds or /api/seeds/prepare
+    metadataUri: string;
+    metadataUrl: string;
+    media: PinnedMedia;
+    thumbnail: PinnedMedia | null;
+    metadata: SeedMetadata;
+  };
+  error?: string;
+  errorCode?: SeedUploadErrorCode;
+}
+
+const MB = 1024 * 1024;
+const VERCEL_MAX_FILE_BYTES = 4 * MB;
+const VERCEL_MAX_BODY_BYTES = 4.5 * MB;
+
+/**
+ * Detect a supported media type from a file's leading bytes
+ * PNG, JPEG, GIF, WebP, MP4 / MOV (ISO base media) and WebM
+ */
+export function detectMediaType(bytes: Uint8Array): SeedMediaType | null {
+  const ascii = (start: number, end: number) =>
+    String.fromCharCode(...bytes.subarray(start, end));
+  const startsWith = (signature: number[]) =>
+    signature.every((byte, index) => bytes[index] === byte);
+
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return { mimeType: "image/png", kind: "image", extension: "png" };
+  }
+  if (startsWith([0xff, 0xd8, 0xff])) {
+    return { mimeType: "image/jpeg", kind: "image", extension: "jpg" };
+  }
+  if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") {
+    return { mimeType: "image/gif", kind: "image", extension: "gif" };
+  }
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") {
+    return { mimeType: "image/webp", kind: "image", extension: "webp" };
+  }
+  if (ascii(4, 8) === "ftyp") {
+    return ascii(8, 12) === "qt  "
+      ? { mimeType: "video/quicktime", kind: "video", extension: "mov" }
+      : { mimeType: "video/mp4", kind: "video", extension: "mp4" };
+  }
+  if (startsWith([0x1a, 0x45, 0xdf, 0xa3])) {
+    return { mimeType: "video/webm", kind: "video", extension: "webm" };
+  }
+  return null;
+}
+
+class SeedUploadService {
+  /**
+   * Maximum file size per media kind, in bytes
+   */
+  getLimits(): Record<SeedMediaKind, number> {
+    const cap = (bytes: number) =>
+      process.env.VERCEL ? Math.min(bytes, VERCEL_MAX_FILE_BYTES) : bytes;
+    return {
+      image: cap((Number(process.env.SEED_UPLOAD_MAX_IMAGE_MB) || 10) * MB),
+      video: cap((Number(process.env.SEED_UPLOAD_MAX_VIDEO_MB) || 50) * MB),
+    };
+  }
+
+  /**
+   * Largest request body accepted: a maximum-size video, a maximum-size
+   * thumbnail and the text fields (at most the platform's body limit)
+   */
+  getMaxRequestBytes(): number {
+    const limits = this.getLimits();
+    const bytes = Math.max(limits.image, limits.video) + limits.image + MB;
+    return process.env.VERCEL ? Math.min(bytes, VERCEL_MAX_BODY_BYTES) : bytes;
+  }
+
+  /**
+   * Read a file and check its type and size
+   */
+  private async readMedia(
+    file: File,
+    field: string,
+    kinds: SeedMediaKind[]
+  ): Promise<
+    | { content: Uint8Array; type: SeedMediaType }
+    | { error: string; errorCode: SeedUploadErrorCode }
+  > {
+    const content = new Uint8Array(await file.arrayBuffer());
+    const type = detectMediaType(content);
+
+    if (!type || !kinds.includes(type.kind)) {
+      return {
+        error: `Unsupported ${field} type: expected ${kinds
+          .map((kind) => (kind === "image" ? "PNG, JPEG, GIF or WebP image" : "MP4, WebM or MOV video"))
+          .join(" or ")}`,
+        errorCode: "unsupported-type",
+      };
+    }
+
+    const limit = this.getLimits()[type.kind];
+    if (content.length > limit) {
+      return {
+        error: `${field[0].toUpperCase()}${field.slice(1)} is too large: ${(content.length / MB).toFixed(1)} MB (max ${limit / MB} MB for ${type.kind}s)`,
+        errorCode: "too-large",
+      };
+    }
+
+    return { content, type };
+  }
+
+  private async pin(
+    content: Uint8Array,
+    type: SeedMediaType,
+    name: string
+  ): Promise<PinnedMedia | { error: string }> {
+    const upload = await ipfsService.uploadFile(content, `${name}.${type.extension}`, type.mimeType);
+    if (!upload.success || !upload.ipfsHash) {
+      return { error: upload.error || "Upload failed" };
+    }
+    return {
+      cid: upload.ipfsHash,
+      uri: `ipfs://${upload.ipfsHash}`,
+      url: upload.url!,
+      mimeType: type.mimeType,
+      size: content.length,
+    };
+  }
+
+  /**
+   * Validate and pin a seed's media and metadata
+   */
+  async upload(input: SeedUploadInput): Promise<SeedUploadResult> {
+    if (!ipfsService.isIPFSServiceConfigured()) {
+      return {
+        success: false,
+        error: "IPFS not configured on server",
+        errorCode: "not-configured",
+      };
+    }
+
+    const media = await this.readMedia(input.media, "media", ["image", "video"]);
+    if ("error" in media) {
+      return { success: false, ...media };
+    }
+
+    let thumbnail: { content: Uint8Array; type: SeedMediaType } | null = null;
+    if (input.thumbnail && media.type.kind === "video") {
+      const result = await this.readMedia(input.thumbnail, "thumbnail", ["image"]);
+      if ("error" in result) {
+        return { success: false, ...result };
+      }
+      thumbnail = result;
+    }
+
+    const baseName = `seed-${input.creator.toLowerCase()}-${Date.now()}`;
+
+    const [pinnedMedia, pinnedThumbnail] = await Promise.all([
+      this.pin(media.content, media.type, baseName),
+      thumbnail ? this.pin(thumbnail.content, thumbnail.type, `${baseName}-thumbnail`) : null,
+    ]);
+    for (const pinned of [pinnedMedia, pinnedThumbnail]) {
+      if (pinned && "error" in pinned) {
+        return { success: false, error: pinned.error, errorCode: "upload-failed" };
+      }
+    }
+    const mediaResult = pinnedMedia as PinnedMedia;
+    const thumbnailResult = pinnedThumbnail as PinnedMedia | null;
+
+    const metadata: SeedMetadata = {
+      schema_version: SEED_METADATA_VERSION,
+      name: input.title,
+      description: input.description,
+      ...(media.type.kind === "image"
+        ? { image: mediaResult.uri }
+        : { image: thumbnailResult?.uri, animation_url: mediaResult.uri }),
+      attributes: input.tags.map((tag) => ({ trait_type: "Tag", value: tag })),
+      ...(input.notes ? { creator_notes: input.notes } : {}),
+      properties: {
+        creator: input.creator,
+        media: {
+          uri: mediaResult.uri,
+          mimeType: mediaResult.mimeType,
+          size: mediaResult.size,
+        },
+      },
+    };
+    if (!metadata.image) {
+      delete metadata.image;
+    }
+
+    const upload = await ipfsService.uploadJSON(metadata, `${baseName}.json`);
+    if (!upload.success || !upload.ipfsHash) {
+      return {
+        success: false,
+        error: upload.error || "Metadata upload failed",
+        errorCode: "upload-failed",
+      };
+    }
+
+    // Listings will ask for it as soon as the seed is submitted
+    metadataCacheService.prefetch(upload.ipfsHash);
+
+    return {
+      success: true,
+      data: {
+        ipfsHash: upload.ipfsHash,
+        metadataUri: `ipfs://${upload.ipfsHash}`,
+        metadataUrl: upload.url!,
+        media: mediaResult,
+        thumbnail: thumbnailResult,
+        metadata,
+      },
+    };
+  }
+}
+
+export const seedUploadService = new SeedUploadService();
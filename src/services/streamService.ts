@@ -0,0 +1,233 @@
+/**
+ * Stream Service
+ *
+ * Purpose: Fan out live seeds contract events to Server-Sent Events clients
+ *
+ * Logic:
+ * - A single contract watcher is started when the first client subscribes
+ *   and stopped when the last one disconnects
+ * - Events are identified by "<blockNumber>-<logIndex>" so clients can
+ *   resume with Last-Event-ID
+ * - Missed events are replayed from the event indexer, then from the logs
+ *   above the indexed head up to the chain head (read on replay, so nothing
+ *   is missed while no client was connected and the watcher was stopped)
+ * - Every event carries `confirmed`: false for events within the last
+ *   INDEXER_CONFIRMATIONS blocks (all live events), which a reorg may still
+ *   drop without further notice. A replay only includes events that are
+ *   still on chain.
+ *
+ * Topics:
+ * - seed:<id>       blessings, commandments, score updates and wins for a seed
+ * - user:<address>  blessings, commandments, seeds and score updates by a user
+ * - round           winner selection and round start
+ */
+
+import type { Address } from "viem";
+import {
+  contractService,
+  type SeedsContractEvent,
+} from "./contractService.js";
+import { indexerService } from "./indexerService.js";
+
+export type StreamTopic =
+  | { kind: "seed"; seedId: bigint }
+  | { kind: "user"; address: string }
+  | { kind: "round" };
+
+export type StreamEvent = SeedsContractEvent & { confirmed: boolean };
+
+type StreamListener = (event: StreamEvent) => void;
+
+class StreamService {
+  private listeners = new Set<StreamListener>();
+  private unwatch: (() => void) | null = null;
+
+  /**
+   * Subscribe to live events
+   *
+   * @returns Function that removes the subscription
+   */
+  subscribe(listener: StreamListener): () => void {
+    this.listeners.add(listener);
+    this.startWatching();
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.stopWatching();
+      }
+    };
+  }
+
+  /**
+   * Get events observed after a stream event ID, in chain order
+   */
+  async getEventsAfter(lastEventId: string): Promise<StreamEvent[]> {
+    const position = this.parseEventId(lastEventId);
+    if (!position) {
+      return [];
+    }
+
+    const indexed = await indexerService.getEventsAfter(
+      position.blockNumber,
+      position.logIndex
+    );
+    const unconfirmed = await indexerService.getUnconfirmedEvents();
+
+    const events = new Map<string, StreamEvent>();
+    for (const event of indexed) {
+      events.set(this.getEventId(event), { ...event, confirmed: true });
+    }
+    for (const event of unconfirmed) {
+      if (this.isAfter(event, position.blockNumber, position.logIndex)) {
+        events.set(this.getEventId(event), { ...event, confirmed: false });
+      }
+    }
+
+    return [...events.values()].sort((a, b) =>
+      a.blockNumber === b.blockNumber
+        ? a.logIndex - b.logIndex
+        : a.blockNumber < b.blockNumber
+        ? -1
+        : 1
+    );
+  }
+
+  /**
+   * Build the SSE event ID for an event
+   */
+  getEventId(event: SeedsContractEvent): string {
+    return `${event.blockNumber}-${event.logIndex}`;
+  }
+
+  /**
+   * Parse a topic filter string ("seed:42", "user:0x...", "round")
+   *
+   * @returns Parsed topics, or an error for the first invalid topic
+   */
+  parseTopics(
+    raw: string | undefined
+  ): { topics: StreamTopic[]; error?: string } {
+    const topics: StreamTopic[] = [];
+    if (!raw) {
+      return { topics };
+    }
+
+    for (const part of raw.split(",").map((t) => t.trim()).filter(Boolean)) {
+      const [kind, value] = part.split(":");
+
+      if (kind === "round" && value === undefined) {
+        topics.push({ kind: "round" });
+      } else if (kind === "seed" && value && /^\d+$/.test(value)) {
+        topics.push({ kind: "seed", seedId: BigInt(value) });
+      } else if (kind === "user" && value && /^0x[a-fA-F0-9]{40}$/.test(value)) {
+        topics.push({ kind: "user", address: value.toLowerCase() });
+      } else {
+        return { topics: [], error: `Invalid topic: ${part}` };
+      }
+    }
+
+    return { topics };
+  }
+
+  /**
+   * Check whether an event matches any of the topics (no topics = everything)
+   */
+  matchesTopics(event: SeedsContractEvent, topics: StreamTopic[]): boolean {
+    if (topics.length === 0) {
+      return true;
+    }
+
+    return topics.some((topic) => {
+      switch (topic.kind) {
+        case "round":
+          return event.type === "winner" || event.type === "roundStart";
+        case "seed":
+          return "seedId" in event && event.seedId === topic.seedId;
+        case "user":
+          return this.getEventActor(event)?.toLowerCase() === topic.address;
+      }
+    });
+  }
+
+  /**
+   * Convert an event into a JSON-safe payload
+   */
+  serializeEvent(event: StreamEvent): Record<string, unknown> {
+    const payload: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(event)) {
+      payload[key] = typeof value === "bigint" ? Number(value) : value;
+    }
+    return payload;
+  }
+
+  private getEventActor(event: SeedsContractEvent): Address | undefined {
+    switch (event.type) {
+      case "blessing":
+      case "scoreUpdate":
+        return event.blesser;
+      case "commandment":
+        return event.author;
+      case "seed":
+        return event.creator;
+      case "delegateApproval":
+        return event.user;
+      default:
+        return undefined;
+    }
+  }
+
+  private parseEventId(
+    id: string
+  ): { blockNumber: bigint; logIndex: number } | null {
+    const match = /^(\d+)-(\d+)$/.exec(id.trim());
+    if (!match) {
+      return null;
+    }
+    return { blockNumber: BigInt(match[1]), logIndex: Number(match[2]) };
+  }
+
+  private isAfter(
+    event: SeedsContractEvent,
+    blockNumber: bigint,
+    logIndex: number
+  ): boolean {
+    return (
+      event.blockNumber > blockNumber ||
+      (event.blockNumber === blockNumber && event.logIndex > logIndex)
+    );
+  }
+
+  private startWatching(): void {
+    if (this.unwatch) return;
+
+    console.log("📡 Starting seeds contract event watcher");
+    this.unwatch = contractService.watchSeedsContractEvents(
+      (events) => this.handleEvents(events),
+      (error) => console.error("❌ Seeds contract watcher error:", error)
+    );
+  }
+
+  private stopWatching(): void {
+    if (!this.unwatch) return;
+
+    console.log("📡 Stopping seeds contract event watcher");
+    this.unwatch();
+    this.unwatch = null;
+  }
+
+  private handleEvents(events: SeedsContractEvent[]): void {
+    const live = events.map((event): StreamEvent => ({ ...event, confirmed: false }));
+
+    // New on-chain activity: let the indexer catch up on the next query
+    indexerService.invalidate();
+
+    for (const event of live) {
+      for (const listener of this.listeners) {
+        listener(event);
+      }
+    }
+  }
+}
+
+export const streamService = new StreamService();
@@ -0,0 +1,567 @@
+/**
+ * Webhook Service
+ *
+ * Purpose: Notify external services (Discord bots, internal services) about
+ * contest lifecycle events via outbound HTTP webhooks
+ *
+ * Events:
+ * - winner.selected   A round winner was selected on the seeds contract
+ * - seed.elevated     A winning seed was minted as an Abraham creation
+ * - auction.created   An auction was created for an Abraham creation
+ * - auction.settled   An Abraham creation auction was settled on-chain
+ * - snapshot.updated  The FirstWorks snapshot merkle root changed
+ *
+ * Delivery:
+ * - JSON body: { id, event, createdAt, data }
+ * - Signed with HMAC-SHA256 over "<timestamp>.<body>" using the webhook secret:
+ *     X-Abraham-Signature: t=<unix seconds>,v1=<hex digest>
+ * - emit() records the deliveries and sends them in the background, so the
+ *   calling request does not wait for webhook endpoints
+ * - Retries with exponential backoff (1s, 2s, 4s, ... capped at 1 hour)
+ * - Every attempt is recorded in a persisted delivery log
+ *
+ * Webhooks and deliveries live in the shared record store (STATE_STORE, see
+ * lib/storage/recordStore.ts). In-process retry timers do not survive on
+ * serverless; there the deliveries/process cron sends what is due.
+ */
+
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { createRecordStore } from "../../lib/storage/recordStore.js";
+import { abrahamService } from "./abrahamService.js";
+
+export const WEBHOOK_EVENTS = [
+  "winner.selected",
+  "seed.elevated",
+  "auction.created",
+  "auction.settled",
+  "snapshot.updated",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+export interface Webhook {
+  id: string;
+  url: string;
+  events: WebhookEventType[];
+  secret: string;
+  active: boolean;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export interface WebhookDeliveryAttempt {
+  attemptedAt: string;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEventType | "webhook.test";
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookDeliveryAttempt[];
+  nextAttemptAt: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+class WebhookService {
+  private webhooks = createRecordStore<Webhook>({
+    collection: "webhooks",
+    filename: "webhooks/registry.json",
+    field: "webhooks",
+    id: (webhook) => webhook.id,
+  });
+  private deliveries = createRecordStore<WebhookDelivery>({
+    collection: "webhook-deliveries",
+    filename: "webhooks/deliveries.json",
+    field: "deliveries",
+    id: (delivery) => delivery.id,
+  });
+  private retryTimers = new Map<string, NodeJS.Timeout>();
+  private stopSettledWatcher: (() => void) | null = null;
+
+  private readonly MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 6;
+  private readonly BASE_DELAY_MS = 1000;
+  private readonly MAX_DELAY_MS = 60 * 60 * 1000; // 1 hour
+  private readonly REQUEST_TIMEOUT_MS = 10 * 1000;
+  private readonly MAX_DELIVERY_LOG = 1000;
+  // Long enough for one attempt; a crashed worker's claim runs out after this
+  private readonly ATTEMPT_CLAIM_TTL_MS = 30 * 1000;
+
+  /*//////////////////////////////////////////////////////////////
+                            REGISTRY
+  //////////////////////////////////////////////////////////////*/
+
+  private async saveWebhook(webhook: Webhook): Promise<void> {
+    await this.webhooks.set(webhook.id, webhook);
+  }
+
+  private async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    await this.deliveries.set(delivery.id, delivery);
+  }
+
+  /**
+   * Keep the delivery log bounded: drop the oldest completed deliveries
+   * (pending ones are never dropped)
+   */
+  private async trimDeliveries(): Promise<void> {
+    const completed = (await this.deliveries.list())
+      .filter((delivery) => delivery.status !== "pending")
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    if (completed.length > this.MAX_DELIVERY_LOG) {
+      await this.deliveries.delete(
+        completed.slice(this.MAX_DELIVERY_LOG).map((delivery) => delivery.id)
+      );
+    }
+  }
+
+  /**
+   * Validate a webhook URL and event list
+   *
+   * @returns Error message or null if valid
+   */
+  validate(input: { url?: unknown; events?: unknown }): string | null {
+    if (input.url !== undefined) {
+      if (typeof input.url !== "string") {
+        return "url must be a string";
+      }
+      try {
+        const parsed = new URL(input.url);
+        if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+          return "url must use http or https";
+        }
+      } catch {
+        return "url is not a valid URL";
+      }
+    }
+
+    if (input.events !== undefined) {
+      if (!Array.isArray(input.events) || input.events.length === 0) {
+        return "events must be a non-empty array";
+      }
+      const invalid = input.events.filter(
+        (event) => !WEBHOOK_EVENTS.includes(event as WebhookEventType)
+      );
+      if (invalid.length > 0) {
+        return `Unknown events: ${invalid.join(", ")}. Valid events: ${WEBHOOK_EVENTS.join(", ")}`;
+      }
+    }
+
+    return null;
+  }
+
+  async listWebhooks(): Promise<Webhook[]> {
+    return (await this.webhooks.list()).sort((a, b) =>
+      a.createdAt.localeCompare(b.createdAt)
+    );
+  }
+
+  async getWebhook(id: string): Promise<Webhook | null> {
+    return this.webhooks.get(id);
+  }
+
+  async createWebhook(input: {
+    url: string;
+    events: WebhookEventType[];
+    secret?: string;
+    description?: string;
+  }): Promise<Webhook> {
+    const now = new Date().toISOString();
+
+    const webhook: Webhook = {
+      id: randomUUID(),
+      url: input.url,
+      events: [...new Set(input.events)],
+      secret: input.secret || `whsec_${randomBytes(24).toString("hex")}`,
+      active: true,
+      description: input.description,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.saveWebhook(webhook);
+
+    console.log(`🪝 Webhook registered: ${webhook.url} (${webhook.events.join(", ")})`);
+    return webhook;
+  }
+
+  async updateWebhook(
+    id: string,
+    input: {
+      url?: string;
+      events?: WebhookEventType[];
+      active?: boolean;
+      description?: string;
+      rotateSecret?: boolean;
+    }
+  ): Promise<Webhook | null> {
+    const webhook = await this.getWebhook(id);
+    if (!webhook) {
+      return null;
+    }
+
+    if (input.url !== undefined) webhook.url = input.url;
+    if (input.events !== undefined) webhook.events = [...new Set(input.events)];
+    if (input.active !== undefined) webhook.active = input.active;
+    if (input.description !== undefined) webhook.description = input.description;
+    if (input.rotateSecret) {
+      webhook.secret = `whsec_${randomBytes(24).toString("hex")}`;
+    }
+    webhook.updatedAt = new Date().toISOString();
+
+    await this.saveWebhook(webhook);
+    return webhook;
+  }
+
+  async deleteWebhook(id: string): Promise<boolean> {
+    if (!(await this.getWebhook(id))) {
+      return false;
+    }
+
+    await this.webhooks.delete([id]);
+
+    // Stop pending retries for the removed webhook
+    for (const delivery of await this.deliveries.list()) {
+      if (delivery.webhookId === id && delivery.status === "pending") {
+        this.cancelRetry(delivery.id);
+        delivery.status = "failed";
+        delivery.nextAttemptAt = null;
+        delivery.completedAt = new Date().toISOString();
+        await this.saveDelivery(delivery);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Get delivery log entries, newest first
+   */
+  async getDeliveries(filter?: {
+    webhookId?: string;
+    status?: WebhookDeliveryStatus;
+    limit?: number;
+  }): Promise<WebhookDelivery[]> {
+    return (await this.deliveries.list())
+      .filter(
+        (delivery) =>
+          (!filter?.webhookId || delivery.webhookId === filter.webhookId) &&
+          (!filter?.status || delivery.status === filter.status)
+      )
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, filter?.limit || 100);
+  }
+
+  /**
+   * Hide the secret when returning webhooks from list/get endpoints
+   */
+  redact(webhook: Webhook): Webhook {
+    return { ...webhook, secret: `${webhook.secret.slice(0, 10)}…` };
+  }
+
+  /*//////////////////////////////////////////////////////////////
+                            DELIVERY
+  //////////////////////////////////////////////////////////////*/
+
+  /**
+   * Emit an event to all active webhooks subscribed to it
+   *
+   * Resolves once the deliveries are recorded; they are sent in the
+   * background (and by processDueDeliveries if this process goes away first).
+   * Never throws - webhook failures must not break the calling flow
+   */
+  async emit(event: WebhookEventType, data: Record<string, unknown>): Promise<void> {
+    try {
+      const targets = (await this.webhooks.list()).filter(
+        (hook) => hook.active && hook.events.includes(event)
+      );
+
+      if (targets.length === 0) {
+        return;
+      }
+
+      console.log(`🪝 Emitting ${event} to ${targets.length} webhook(s)`);
+
+      const deliveries = targets.map((hook) =>
+        this.createDelivery(hook, event, data)
+      );
+      for (const delivery of deliveries) {
+        await this.saveDelivery(delivery);
+      }
+      await this.trimDeliveries();
+
+      for (const delivery of deliveries) {
+        void this.attempt(delivery.id).catch((error) => {
+          console.error(`❌ Webhook delivery ${delivery.id} (${event}) failed:`, error);
+        });
+      }
+    } catch (error) {
+      console.error(`❌ Failed to emit webhook event ${event}:`, error);
+    }
+  }
+
+  /**
+   * Send a test event to a single webhook
+   */
+  async sendTest(id: string): Promise<WebhookDelivery | null> {
+    const webhook = await this.getWebhook(id);
+    if (!webhook) {
+      return null;
+    }
+
+    const delivery = this.createDelivery(webhook, "webhook.test", {
+      message: "Test delivery from Abraham API",
+    });
+    await this.saveDelivery(delivery);
+    await this.trimDeliveries();
+
+    return (await this.attempt(delivery.id)) ?? delivery;
+  }
+
+  /**
+   * Manually retry a delivery (resets it to pending and attempts immediately)
+   */
+  async retryDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    const delivery = await this.deliveries.get(deliveryId);
+    if (!delivery) {
+      return null;
+    }
+
+    this.cancelRetry(delivery.id);
+    delivery.status = "pending";
+    delivery.completedAt = null;
+    delivery.nextAttemptAt = new Date().toISOString();
+    await this.saveDelivery(delivery);
+
+    return (await this.attempt(delivery.id, true)) ?? delivery;
+  }
+
+  /**
+   * Attempt all pending deliveries whose retry time has passed
+   * Called on startup and usable from cron on serverless deployments,
+   * where in-process retry timers do not survive the request
+   */
+  async processDueDeliveries(): Promise<number> {
+    const now = Date.now();
+    const due = (await this.deliveries.list()).filter(
+      (delivery) =>
+        delivery.status === "pending" &&
+        (!delivery.nextAttemptAt || Date.parse(delivery.nextAttemptAt) <= now)
+    );
+
+    for (const delivery of due) {
+      this.cancelRetry(delivery.id);
+      await this.attempt(delivery.id);
+    }
+
+    return due.length;
+  }
+
+  /**
+   * Start background work for long-running servers:
+   * - resume pending deliveries
+   * - watch AbrahamAuction for settled auctions (auction.settled)
+   */
+  async start(): Promise<void> {
+    const resumed = await this.processDueDeliveries();
+    if (resumed > 0) {
+      console.log(`🪝 Resumed ${resumed} pending webhook deliveries`);
+    }
+
+    // Schedule retries that are not due yet
+    for (const delivery of await this.deliveries.list()) {
+      if (delivery.status === "pending" && !this.retryTimers.has(delivery.id)) {
+        this.scheduleRetry(delivery);
+      }
+    }
+
+    if (!this.stopSettledWatcher) {
+      this.stopSettledWatcher = abrahamService.watchAuctionSettled((settlement) => {
+        void this.emit("auction.settled", {
+          auctionId: settlement.auctionId,
+          tokenId: settlement.tokenId,
+          winner: settlement.winner,
+          winningBid: settlement.winningBid.toString(),
+          txHash: settlement.txHash,
+        });
+      });
+    }
+  }
+
+  /**
+   * Sign a payload body for a webhook secret
+   */
+  sign(secret: string, timestamp: number, body: string): string {
+    return createHmac("sha256", secret)
+      .update(`${timestamp}.${body}`)
+      .digest("hex");
+  }
+
+  /**
+   * Delay before the next attempt after a number of failed attempts
+   * (1s, 2s, 4s, ... capped at MAX_DELAY_MS)
+   */
+  retryDelay(failedAttempts: number): number {
+    return Math.min(
+      this.BASE_DELAY_MS * 2 ** (failedAttempts - 1),
+      this.MAX_DELAY_MS
+    );
+  }
+
+  private createDelivery(
+    webhook: Webhook,
+    event: WebhookDelivery["event"],
+    data: Record<string, unknown>
+  ): WebhookDelivery {
+    const id = randomUUID();
+    const createdAt = new Date().toISOString();
+
+    return {
+      id,
+      webhookId: webhook.id,
+      event,
+      payload: JSON.stringify({ id, event, createdAt, data }),
+      status: "pending",
+      attempts: [],
+      nextAttemptAt: createdAt,
+      createdAt,
+      completedAt: null,
+    };
+  }
+
+  /**
+   * Send a pending delivery once, unless another worker is sending it
+   *
+   * @returns The updated delivery, or null if it was not attempted
+   */
+  private async attempt(
+    deliveryId: string,
+    manual = false
+  ): Promise<WebhookDelivery | null> {
+    if (!(await this.deliveries.claim(deliveryId, this.ATTEMPT_CLAIM_TTL_MS))) {
+      return null;
+    }
+
+    try {
+      return await this.send(deliveryId, manual);
+    } finally {
+      await this.deliveries.unclaim(deliveryId);
+    }
+  }
+
+  private async send(
+    deliveryId: string,
+    manual: boolean
+  ): Promise<WebhookDelivery | null> {
+    // Read after claiming - another worker may have completed it meanwhile
+    const delivery = await this.deliveries.get(deliveryId);
+    if (!delivery || delivery.status !== "pending") {
+      return null;
+    }
+
+    const webhook = await this.getWebhook(delivery.webhookId);
+    if (!webhook || (!webhook.active && !manual)) {
+      delivery.status = "failed";
+      delivery.nextAttemptAt = null;
+      delivery.completedAt = new Date().toISOString();
+      await this.saveDelivery(delivery);
+      return delivery;
+    }
+
+    const timestamp = Math.floor(Date.now() / 1000);
+    const started = Date.now();
+    const attempt: WebhookDeliveryAttempt = {
+      attemptedAt: new Date(started).toISOString(),
+      durationMs: 0,
+    };
+
+    try {
+      const response = await fetch(webhook.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "Abraham-Webhooks/1.0",
+          "X-Abraham-Event": delivery.event,
+          "X-Abraham-Delivery": delivery.id,
+          "X-Abraham-Signature": `t=${timestamp},v1=${this.sign(
+            webhook.secret,
+            timestamp,
+            delivery.payload
+          )}`,
+        },
+        body: delivery.payload,
+        signal: AbortSignal.timeout(this.REQUEST_TIMEOUT_MS),
+      });
+
+      attempt.statusCode = response.status;
+      if (!response.ok) {
+        attempt.error = `HTTP ${response.status}`;
+      }
+    } catch (error) {
+      attempt.error = error instanceof Error ? error.message : String(error);
+    }
+
+    attempt.durationMs = Date.now() - started;
+    delivery.attempts.push(attempt);
+
+    if (!attempt.error) {
+      delivery.status = "succeeded";
+      delivery.nextAttemptAt = null;
+      delivery.completedAt = new Date().toISOString();
+    } else if (delivery.attempts.length >= this.MAX_ATTEMPTS) {
+      delivery.status = "failed";
+      delivery.nextAttemptAt = null;
+      delivery.completedAt = new Date().toISOString();
+      console.error(
+        `❌ Webhook delivery ${delivery.id} (${delivery.event}) to ${webhook.url} failed after ${delivery.attempts.length} attempts: ${attempt.error}`
+      );
+    } else {
+      const delay = this.retryDelay(delivery.attempts.length);
+      delivery.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+      console.warn(
+        `⚠️  Webhook delivery ${delivery.id} (${delivery.event}) failed: ${attempt.error} - retrying in ${delay}ms`
+      );
+      this.scheduleRetry(delivery);
+    }
+
+    await this.saveDelivery(delivery);
+    return delivery;
+  }
+
+  private scheduleRetry(delivery: WebhookDelivery): void {
+    this.cancelRetry(delivery.id);
+
+    const delay = delivery.nextAttemptAt
+      ? Math.max(0, Date.parse(delivery.nextAttemptAt) - Date.now())
+      : 0;
+
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(delivery.id);
+      void this.attempt(delivery.id).catch((error) => {
+        console.error(`❌ Webhook delivery ${delivery.id} (${delivery.event}) retry failed:`, error);
+      });
+    }, delay);
+    // Don't keep the process alive just for webhook retries
+    timer.unref();
+
+    this.retryTimers.set(delivery.id, timer);
+  }
+
+  private cancelRetry(deliveryId: string): void {
+    const timer = this.retryTimers.get(deliveryId);
+    if (timer) {
+      clearTimeout(timer);
+      this.retryTimers.delete(deliveryId);
+    }
+  }
+}
+
+export const webhookService = new WebhookService();
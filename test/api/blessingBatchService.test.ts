@@ -0,0 +1,82 @@
+import { expect } from "chai";
+
+process.env.STATE_STORE = "memory";
+const { contractService } = await import("../../src/services/contractService.js");
+const { indexerService } = await import("../../src/services/indexerService.js");
+const { blessingBatchService } = await import("../../src/services/blessingBatchService.js");
+
+const blesser = "0x00000000000000000000000000000000000000aa";
+
+describe("blessingBatchService", function () {
+  const service = blessingBatchService as any;
+  const originals = {
+    batchBlessSeedsFor: contractService.batchBlessSeedsFor,
+    invalidate: indexerService.invalidate,
+  };
+  let batches: number[][];
+
+  before(function () {
+    Object.assign(contractService, {
+      batchBlessSeedsFor: async (items: Array<{ seedId: number }>) => {
+        batches.push(items.map((item) => item.seedId));
+        // The contract skips the blessing of seed 2
+        return {
+          success: true,
+          txId: "tx-1",
+          txHash: "0xabc",
+          blessed: items.map((item) => item.seedId !== 2),
+        };
+      },
+    });
+    Object.assign(indexerService, { invalidate: () => {} });
+  });
+
+  after(function () {
+    Object.assign(contractService, { batchBlessSeedsFor: originals.batchBlessSeedsFor });
+    Object.assign(indexerService, { invalidate: originals.invalidate });
+  });
+
+  beforeEach(function () {
+    batches = [];
+  });
+
+  function enqueue(seedId: number) {
+    return blessingBatchService.enqueue({ seedId, blesser, tokenIds: [1], merkleProof: [] });
+  }
+
+  it("sends queued blessings in one batch and resolves each receipt", async function () {
+    const receipts = [await enqueue(1), await enqueue(2), await enqueue(3)];
+
+    expect(await blessingBatchService.flush()).to.equal(3);
+
+    expect(batches).to.deep.equal([[1, 2, 3]]);
+    const resolved = await Promise.all(
+      receipts.map((receipt) => blessingBatchService.getReceipt(receipt.id))
+    );
+    expect(resolved.map((receipt) => receipt?.status)).to.deep.equal([
+      "confirmed",
+      "failed",
+      "confirmed",
+    ]);
+    expect(resolved[0]).to.include({ txId: "tx-1", txHash: "0xabc", batchSize: 3 });
+  });
+
+  it("leaves receipts claimed by another instance's flush alone", async function () {
+    const mine = await enqueue(4);
+    const theirs = await enqueue(5);
+    await service.receipts.claim(theirs.id, 60 * 1000);
+
+    try {
+      await blessingBatchService.flush();
+    } finally {
+      await service.receipts.unclaim(theirs.id);
+    }
+
+    expect(batches).to.deep.equal([[4]]);
+    expect((await blessingBatchService.getReceipt(mine.id))?.status).to.equal("confirmed");
+    expect((await blessingBatchService.getReceipt(theirs.id))?.status).to.equal("queued");
+
+    await blessingBatchService.flush();
+    expect(batches).to.deep.equal([[4], [5]]);
+  });
+});
@@ -0,0 +1,91 @@
+import { expect } from "chai";
+import {
+  CODEC_DAG_PB,
+  CODEC_RAW,
+  computeRawCid,
+  extractCid,
+  parseCid,
+  verifyCidContent,
+} from "../../lib/ipfs/cid.js";
+
+// `ipfs add` of "hello world\n" (CIDv0) and the same node as CIDv1
+const DAG_PB_V0 = "QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o";
+const DAG_PB_V1 = "bafybeicg2rebjoofv4kbyovkw7af3rpiitvnl6i7ckcywaq6xjcxnc2mby";
+// `ipfs add --cid-version=1 --raw-leaves` of "hello world"
+const RAW_V1 = "bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e";
+const RAW_V1_HEX = "f01551220b94d27b9934d3e08a52e52d7da7dabfac484efe37a5380ee9088f7ace2efcde9";
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+function verify(cid: string, content: Uint8Array) {
+  const parsed = parseCid(cid);
+  expect(parsed, cid).to.not.equal(null);
+  return verifyCidContent(parsed!, content);
+}
+
+describe("CID verification", function () {
+  it("parses CIDv0 as dag-pb", function () {
+    expect(parseCid(DAG_PB_V0)).to.include({ version: 0, codec: CODEC_DAG_PB, hashCode: 0x12 });
+  });
+
+  it("parses CIDv1 in base32 and base16", function () {
+    expect(parseCid(RAW_V1)).to.include({ version: 1, codec: CODEC_RAW });
+    expect(parseCid(RAW_V1_HEX)!.digest).to.deep.equal(parseCid(RAW_V1)!.digest);
+    expect(parseCid(DAG_PB_V1)).to.include({ version: 1, codec: CODEC_DAG_PB });
+  });
+
+  it("rejects strings that are not CIDs", function () {
+    expect(parseCid("not-a-cid")).to.equal(null);
+    expect(parseCid("Qm" + "0".repeat(44))).to.equal(null);
+    expect(parseCid(RAW_V1.slice(0, -4))).to.equal(null);
+  });
+
+  it("verifies CIDv0 content as a single-block UnixFS file", function () {
+    expect(verify(DAG_PB_V0, bytes("hello world\n"))).to.equal("verified");
+  });
+
+  it("verifies CIDv1 raw content", function () {
+    expect(verify(RAW_V1, bytes("hello world"))).to.equal("verified");
+    expect(verify(RAW_V1_HEX, bytes("hello world"))).to.equal("verified");
+  });
+
+  it("verifies CIDv1 dag-pb content", function () {
+    expect(verify(DAG_PB_V1, bytes("hello world\n"))).to.equal("verified");
+  });
+
+  it("reports content that does not match the CID", function () {
+    expect(verify(DAG_PB_V0, bytes("hello world"))).to.equal("mismatch");
+    expect(verify(RAW_V1, bytes("hello world\n"))).to.equal("mismatch");
+    // Same bytes, but raw content is not wrapped in a UnixFS node
+    expect(verify(DAG_PB_V1, bytes("hello world"))).to.equal("mismatch");
+  });
+
+  it("reports multi-block dag-pb files as unverifiable", function () {
+    const large = new Uint8Array(256 * 1024 + 1);
+    expect(verify(DAG_PB_V0, large)).to.equal("unverifiable");
+  });
+
+  it("reports unsupported hash functions as unverifiable", function () {
+    // CIDv1 raw with a sha2-512 (0x13) multihash
+    const cid = "f01551340" + "00".repeat(64);
+    expect(verify(cid, bytes("hello world"))).to.equal("unverifiable");
+  });
+
+  it("computes the CIDv1 raw CID of content", function () {
+    expect(computeRawCid(bytes("hello world"))).to.equal(RAW_V1);
+  });
+
+  it("extracts CIDs and paths from references", function () {
+    expect(extractCid(DAG_PB_V0)).to.deep.equal({ cid: DAG_PB_V0, path: "" });
+    expect(extractCid(`ipfs://${RAW_V1}/meta.json`)).to.deep.equal({ cid: RAW_V1, path: "/meta.json" });
+    expect(extractCid(`https://gateway.pinata.cloud/ipfs/${DAG_PB_V0}`)).to.deep.equal({
+      cid: DAG_PB_V0,
+      path: "",
+    });
+    expect(extractCid(`https://${RAW_V1}.ipfs.dweb.link/a.json`)).to.deep.equal({
+      cid: RAW_V1,
+      path: "/a.json",
+    });
+    expect(extractCid("https://example.com/image.png")).to.equal(null);
+  });
+});
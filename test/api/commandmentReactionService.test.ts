@@ -0,0 +1,122 @@
+import { expect } from "chai";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+
+process.env.STATE_STORE = "memory";
+const { blessingService } = await import("../../src/services/blessingService.js");
+const { indexerService } = await import("../../src/services/indexerService.js");
+const { commandmentReactionService, getReactionMessage } = await import(
+  "../../src/services/commandmentReactionService.js"
+);
+
+const holder = privateKeyToAccount(generatePrivateKey());
+const outsider = privateKeyToAccount(generatePrivateKey());
+
+async function signed(
+  account: typeof holder,
+  options: { commandmentId?: number; reaction?: string; action?: "add" | "remove"; issuedAt?: string } = {}
+) {
+  const request = {
+    commandmentId: options.commandmentId ?? 1,
+    reactor: account.address,
+    reaction: options.reaction ?? "🔥",
+    action: options.action ?? ("add" as const),
+    issuedAt: options.issuedAt ?? new Date().toISOString(),
+  };
+  const signature = await account.signMessage({ message: getReactionMessage(request) });
+  return { ...request, signature };
+}
+
+function secondsAgo(seconds: number): string {
+  return new Date(Date.now() - seconds * 1000).toISOString();
+}
+
+describe("commandmentReactionService", function () {
+  const originals = {
+    getSnapshot: blessingService.getSnapshot,
+    getCommandments: indexerService.getCommandments,
+    getUnconfirmedEvents: (indexerService as any).getUnconfirmedEvents,
+  };
+  let commandmentId = 100;
+
+  before(function () {
+    (blessingService as any).getSnapshot = async () => ({
+      holderIndex: { [holder.address.toLowerCase()]: [1] },
+    });
+    (indexerService as any).getCommandments = async () =>
+      [1, 2, 3, 4, 100, 101, 102, 103, 104, 105].map((id) => ({ id: BigInt(id), seedId: 7n }));
+    // Posted in a block the indexer has not confirmed yet
+    (indexerService as any).getUnconfirmedEvents = async () => [
+      { type: "commandment", id: 500n, seedId: 8n },
+    ];
+  });
+
+  after(function () {
+    Object.assign(blessingService, { getSnapshot: originals.getSnapshot });
+    Object.assign(indexerService, {
+      getCommandments: originals.getCommandments,
+      getUnconfirmedEvents: originals.getUnconfirmedEvents,
+    });
+  });
+
+  beforeEach(function () {
+    commandmentId += 1;
+  });
+
+  it("records a signed reaction and counts it on the seed", async function () {
+    const result = await commandmentReactionService.react(await signed(holder, { commandmentId }));
+
+    expect(result.success).to.equal(true);
+    expect(result.reaction).to.include({ commandmentId, seedId: 7, reaction: "🔥", active: true });
+
+    const counts = await commandmentReactionService.countReactionsBySeed(7);
+    expect(counts.get(commandmentId)).to.deep.equal({ "🔥": 1 });
+  });
+
+  it("rejects a signature from another wallet", async function () {
+    const request = await signed(outsider, { commandmentId });
+
+    const result = await commandmentReactionService.react({ ...request, reactor: holder.address });
+
+    expect(result).to.deep.equal({ success: false, error: "Invalid signature" });
+  });
+
+  it("rejects old signatures and replays of an earlier change", async function () {
+    const expired = await commandmentReactionService.react(
+      await signed(holder, { commandmentId, issuedAt: secondsAgo(11 * 60) })
+    );
+    expect(expired.error).to.match(/^Signature expired/);
+
+    const add = await signed(holder, { commandmentId, issuedAt: secondsAgo(20) });
+    await commandmentReactionService.react(add);
+    await commandmentReactionService.react(
+      await signed(holder, { commandmentId, action: "remove", issuedAt: secondsAgo(10) })
+    );
+
+    const replayed = await commandmentReactionService.react(add);
+    expect(replayed.error).to.match(/^Signature expired/);
+    expect(await commandmentReactionService.getReactionsByCommandment(commandmentId)).to.be.empty;
+  });
+
+  it("only lets gating NFT holders react", async function () {
+    const result = await commandmentReactionService.react(await signed(outsider, { commandmentId }));
+
+    expect(result.error).to.match(/must own at least one/);
+  });
+
+  it("rejects reactions to unknown commandments", async function () {
+    const result = await commandmentReactionService.react(
+      await signed(holder, { commandmentId: 999 })
+    );
+
+    expect(result.error).to.equal("Commandment 999 not found");
+  });
+
+  it("accepts reactions to commandments not confirmed by the indexer yet", async function () {
+    const result = await commandmentReactionService.react(
+      await signed(holder, { commandmentId: 500 })
+    );
+
+    expect(result.success).to.equal(true);
+    expect(result.reaction).to.include({ commandmentId: 500, seedId: 8 });
+  });
+});
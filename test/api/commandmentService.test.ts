@@ -0,0 +1,163 @@
+import { expect } from "chai";
+
+process.env.STATE_STORE = "memory";
+const { commandmentService } = await import("../../src/services/commandmentService.js");
+const { commandmentReactionService } = await import(
+  "../../src/services/commandmentReactionService.js"
+);
+const { contractService } = await import("../../src/services/contractService.js");
+const { indexerService, MemoryIndexerStore } = await import("../../src/services/indexerService.js");
+
+function commandment(id: number, thread: { replyTo?: number; quotes?: number[] } = {}) {
+  return {
+    id,
+    seedId: 7,
+    author: "0x00000000000000000000000000000000000000aa",
+    ipfsHash: `Qm${id}`,
+    createdAt: id,
+    metadata: {
+      type: "commandment",
+      message: `message ${id}`,
+      author: "0x00000000000000000000000000000000000000aa",
+      seedId: 7,
+      timestamp: id,
+      version: "2.0",
+      ...thread,
+    },
+  };
+}
+
+describe("commandmentService threads", function () {
+  const service = commandmentService as any;
+  const originals = {
+    getCommandmentsBySeed: service.getCommandmentsBySeed,
+    countReactionsBySeed: commandmentReactionService.countReactionsBySeed,
+  };
+  let commandments: ReturnType<typeof commandment>[];
+  let reactions: Map<number, Record<string, number>>;
+
+  before(function () {
+    service.getCommandmentsBySeed = async () => commandments;
+    (commandmentReactionService as any).countReactionsBySeed = async () => reactions;
+  });
+
+  after(function () {
+    service.getCommandmentsBySeed = originals.getCommandmentsBySeed;
+    Object.assign(commandmentReactionService, {
+      countReactionsBySeed: originals.countReactionsBySeed,
+    });
+  });
+
+  beforeEach(function () {
+    reactions = new Map();
+  });
+
+  it("nests replies under their parents with reply counts at any depth", async function () {
+    commandments = [
+      commandment(4, { replyTo: 2 }),
+      commandment(1),
+      commandment(2, { replyTo: 1 }),
+      commandment(3, { replyTo: 1 }),
+      commandment(5),
+    ];
+
+    const { threads, total } = await commandmentService.getCommandmentThreadsBySeed(7);
+
+    expect(total).to.equal(5);
+    expect(threads.map((node) => node.id)).to.deep.equal([1, 5]);
+    expect(threads[0].replies.map((node) => node.id)).to.deep.equal([2, 3]);
+    expect(threads[0].replies[0].replies.map((node) => node.id)).to.deep.equal([4]);
+    expect(threads.map((node) => node.replyCount)).to.deep.equal([3, 0]);
+    expect(threads[0].replies[0].replyCount).to.equal(1);
+  });
+
+  it("keeps quotes in the metadata without moving the quoting commandment", async function () {
+    commandments = [commandment(1), commandment(2, { quotes: [1] })];
+
+    const { threads } = await commandmentService.getCommandmentThreadsBySeed(7);
+
+    expect(threads.map((node) => node.id)).to.deep.equal([1, 2]);
+    expect(threads[1].metadata?.quotes).to.deep.equal([1]);
+  });
+
+  it("treats replies to missing or newer commandments as roots", async function () {
+    commandments = [commandment(1, { replyTo: 2 }), commandment(2, { replyTo: 1 }), commandment(3, { replyTo: 99 })];
+
+    const { threads } = await commandmentService.getCommandmentThreadsBySeed(7);
+
+    // 1 can't reply to the newer 2, so only 2 nests and nothing forms a cycle
+    expect(threads.map((node) => node.id)).to.deep.equal([1, 3]);
+    expect(threads[0].replies.map((node) => node.id)).to.deep.equal([2]);
+  });
+
+  it("attaches off-chain reaction counts", async function () {
+    commandments = [commandment(1), commandment(2, { replyTo: 1 })];
+    reactions = new Map([[2, { "🔥": 2, "🙏": 1 }]]);
+
+    const { threads } = await commandmentService.getCommandmentThreadsBySeed(7);
+
+    expect(threads[0].reactions).to.deep.equal({});
+    expect(threads[0].replies[0].reactions).to.deep.equal({ "🔥": 2, "🙏": 1 });
+  });
+});
+
+describe("commandmentService thread references", function () {
+  const service = commandmentService as any;
+  const indexer = indexerService as any;
+  const originals = {
+    store: indexer.store,
+    ensureSynced: indexer.ensureSynced,
+    getBlockNumber: contractService.getBlockNumber,
+    getSeedsContractEvents: contractService.getSeedsContractEvents,
+  };
+
+  function event(id: number, blockNumber: bigint) {
+    return {
+      type: "commandment" as const,
+      id: BigInt(id),
+      seedId: 7n,
+      author: "0x00000000000000000000000000000000000000aa" as const,
+      ipfsHash: `Qm${id}`,
+      createdAt: 0n,
+      blockNumber,
+      logIndex: 0,
+      transactionHash: `0x${id.toString(16).padStart(64, "0")}` as const,
+    };
+  }
+
+  before(async function () {
+    // Commandment 1 is indexed (confirmed up to block 10); 2 was posted in block 12
+    const store = new MemoryIndexerStore();
+    await store.commit([event(1, 5n)], { lastProcessedBlock: 10n, lastProcessedHash: "0x01" });
+    Object.assign(indexer, { store, ensureSynced: async () => {} });
+    Object.assign(contractService, {
+      getBlockNumber: async () => 12n,
+      getSeedsContractEvents: async (fromBlock: bigint, toBlock: bigint) =>
+        fromBlock <= 12n && toBlock >= 12n ? [event(2, 12n)] : [],
+    });
+  });
+
+  after(function () {
+    Object.assign(indexer, { store: originals.store, ensureSynced: originals.ensureSynced });
+    Object.assign(contractService, {
+      getBlockNumber: originals.getBlockNumber,
+      getSeedsContractEvents: originals.getSeedsContractEvents,
+    });
+  });
+
+  it("finds a parent posted above the confirmed head", async function () {
+    expect(await service.validateThreadReferences(7, { replyTo: 2, quotes: [1] })).to.equal(null);
+  });
+
+  it("still rejects commandments that don't exist or are on another seed", async function () {
+    expect(await service.validateThreadReferences(7, { replyTo: 3 })).to.equal(
+      "Parent commandment 3 not found on seed 7"
+    );
+    expect(await service.validateThreadReferences(8, { replyTo: 2 })).to.equal(
+      "Parent commandment 2 not found on seed 8"
+    );
+    expect(await service.validateThreadReferences(7, { quotes: [1, 4] })).to.equal(
+      "Quoted commandment(s) not found: 4"
+    );
+  });
+});
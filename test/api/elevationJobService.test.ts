@@ -0,0 +1,176 @@
+import { expect } from "chai";
+
+process.env.STATE_STORE = "memory";
+const { abrahamService } = await import("../../src/services/abrahamService.js");
+const { elevationJobService } = await import("../../src/services/elevationJobService.js");
+const { webhookService } = await import("../../src/services/webhookService.js");
+
+const seed = {
+  ipfsHash: "QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o",
+  creator: "0x0000000000000000000000000000000000000001" as const,
+  blessings: 3,
+};
+
+describe("elevationJobService", function () {
+  it("returns the existing job when a round is created twice", async function () {
+    const first = await elevationJobService.createJob({ round: 1, seedId: 7, seed });
+    const second = await elevationJobService.createJob({ round: 1, seedId: 8, seed });
+
+    expect(second.seedId).to.equal(first.seedId);
+  });
+
+  it("resumes jobs that never ran a step", async function () {
+    await elevationJobService.createJob({ round: 2, seedId: 9, seed });
+
+    const incomplete = await elevationJobService.getIncompleteJobs();
+    expect(incomplete.map((job) => job.round)).to.include(2);
+    expect(incomplete.find((job) => job.round === 2)?.attempts).to.equal(0);
+  });
+
+  it("completes a job from manually recorded step results", async function () {
+    await elevationJobService.createJob({ round: 3, seedId: 10, seed });
+
+    const job = await elevationJobService.run(3, { tokenId: 42, auctionId: 5 });
+
+    expect(job).to.include({ state: "auction-created", tokenId: 42, auctionId: 5 });
+    expect((await elevationJobService.getIncompleteJobs()).map((j) => j.round)).to.not.include(3);
+  });
+});
+
+describe("elevationJobService steps", function () {
+  const originals = {
+    abraham: {
+      isConfigured: abrahamService.isConfigured,
+      hasCommittedToday: abrahamService.hasCommittedToday,
+      commitDailyWork: abrahamService.commitDailyWork,
+      createDailyAuction: abrahamService.createDailyAuction,
+    },
+    emit: webhookService.emit,
+  };
+
+  // Fake Abraham contracts: results of the next mint and auction calls
+  const chain = {
+    committedToday: false,
+    mint: { success: true, tokenId: 42 } as { success: boolean; tokenId?: number; error?: string },
+    auction: { success: true, auctionId: 5 } as { success: boolean; auctionId?: number; error?: string },
+    mints: [] as string[],
+    auctions: [] as number[],
+    events: [] as string[],
+  };
+
+  before(function () {
+    Object.assign(abrahamService, {
+      isConfigured: () => true,
+      hasCommittedToday: async () => chain.committedToday,
+      commitDailyWork: async (ipfsHash: string) => {
+        chain.mints.push(ipfsHash);
+        return { ...chain.mint, txHash: "0x01" };
+      },
+      createDailyAuction: async (tokenId: number) => {
+        chain.auctions.push(tokenId);
+        return { ...chain.auction, txHash: "0x02" };
+      },
+    });
+    Object.assign(webhookService, {
+      emit: async (event: string) => {
+        chain.events.push(event);
+      },
+    });
+  });
+
+  after(function () {
+    Object.assign(abrahamService, originals.abraham);
+    Object.assign(webhookService, { emit: originals.emit });
+  });
+
+  beforeEach(function () {
+    Object.assign(chain, {
+      committedToday: false,
+      mint: { success: true, tokenId: 42 },
+      auction: { success: true, auctionId: 5 },
+      mints: [],
+      auctions: [],
+      events: [],
+    });
+  });
+
+  it("stops at a failed mint and refuses to mint again if it may have landed", async function () {
+    await elevationJobService.createJob({ round: 201, seedId: 11, seed });
+    chain.mint = { success: false, error: "execution reverted" };
+
+    const failed = await elevationJobService.run(201);
+
+    expect(failed).to.include({
+      state: "failed",
+      failedAtStep: "mint",
+      lastError: "execution reverted",
+      mintTxHash: "0x01",
+    });
+    expect(chain.auctions).to.deep.equal([]);
+    expect(chain.events).to.deep.equal([]);
+
+    // The covenant shows a commit today: the failed attempt may have minted
+    chain.committedToday = true;
+    chain.mint = { success: true, tokenId: 43 };
+    const refused = await elevationJobService.run(201);
+
+    expect(refused).to.include({ state: "failed", failedAtStep: "mint" });
+    expect(refused.lastError).to.match(/resume with the minted tokenId/);
+    expect(chain.mints).to.have.length(1);
+
+    const resumed = await elevationJobService.run(201, { tokenId: 43 });
+
+    expect(resumed).to.include({ state: "auction-created", tokenId: 43, auctionId: 5 });
+    expect(chain.mints).to.have.length(1);
+    expect(chain.auctions).to.deep.equal([43]);
+  });
+
+  it("keeps the minted token when the auction fails and only retries the auction", async function () {
+    await elevationJobService.createJob({ round: 202, seedId: 12, seed });
+    chain.auction = { success: false, error: "insufficient funds" };
+
+    const failed = await elevationJobService.run(202);
+
+    expect(failed).to.include({
+      state: "failed",
+      failedAtStep: "auction",
+      lastError: "insufficient funds",
+      tokenId: 42,
+    });
+    expect(failed.auctionId).to.equal(undefined);
+    expect(failed.history.map((entry) => entry.state)).to.deep.equal([
+      "winner-selected",
+      "minted",
+      "failed",
+    ]);
+    expect(chain.events).to.deep.equal(["seed.elevated"]);
+
+    chain.auction = { success: true, auctionId: 6 };
+    const resumed = await elevationJobService.run(202);
+
+    expect(resumed).to.include({ state: "auction-created", tokenId: 42, auctionId: 6, attempts: 2 });
+    expect(chain.mints).to.have.length(1);
+    expect(chain.auctions).to.deep.equal([42, 42]);
+    expect(chain.events).to.deep.equal(["seed.elevated", "auction.created"]);
+  });
+
+  it("resumes a job stuck in minted without an auction", async function () {
+    // The instance running it stopped after recording the mint
+    const job = await elevationJobService.createJob({ round: 203, seedId: 13, seed });
+    await (elevationJobService as any).store.set("203", {
+      ...job,
+      state: "minted",
+      tokenId: 44,
+      mintStartedAt: new Date().toISOString(),
+    });
+
+    expect((await elevationJobService.getIncompleteJobs()).map((j) => j.round)).to.include(203);
+
+    const resumed = await elevationJobService.run(203);
+
+    expect(resumed).to.include({ state: "auction-created", tokenId: 44, auctionId: 5 });
+    expect(chain.mints).to.deep.equal([]);
+    expect(chain.auctions).to.deep.equal([44]);
+    expect((await elevationJobService.getIncompleteJobs()).map((j) => j.round)).to.not.include(203);
+  });
+});
@@ -0,0 +1,135 @@
+import { expect } from "chai";
+import type { GatingCollection } from "../../lib/snapshots/gatingCollections.js";
+
+const { FirstWorksSnapshotGenerator } = await import("../../lib/snapshots/firstWorksSnapshot.js");
+
+const ZERO = "0x0000000000000000000000000000000000000000";
+const alice = "0x00000000000000000000000000000000000000a1";
+const bob = "0x00000000000000000000000000000000000000b2";
+const carol = "0x00000000000000000000000000000000000000c3";
+
+const collection: GatingCollection = {
+  id: "firstworks",
+  name: "FirstWorks",
+  address: "0x8F814c7C75C5E9e0EDe0336F535604B1915C1985",
+  chain: "mainnet",
+  weight: 1,
+};
+
+// Ownership in the previous snapshot, taken at block 100
+const previous = {
+  blockNumber: 100,
+  holderIndex: { "0x00000000000000000000000000000000000000A1": [1, 2], [bob]: [3] },
+};
+
+function transfer(blockNumber: number, from: string, to: string, tokenId: number) {
+  return { blockNumber: BigInt(blockNumber), args: { from, to, tokenId: BigInt(tokenId) } };
+}
+
+/**
+ * Fake client: Transfer logs after block 100 and ownerOf at the target block
+ */
+function fakeClient(ownerOf: Record<number, string>) {
+  const calls = { logRanges: [] as Array<[bigint, bigint]>, ownerOf: 0 };
+  const logs = [
+    transfer(150, alice, carol, 2),
+    transfer(2500, ZERO, bob, 4), // Minted
+    transfer(2600, alice, ZERO, 1), // Burned
+    transfer(2700, bob, carol, 3),
+    transfer(2700, carol, alice, 3), // Later in the same block: wins
+  ];
+
+  const client = {
+    getLogs: async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) => {
+      calls.logRanges.push([fromBlock, toBlock]);
+      return logs.filter((log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock);
+    },
+    readContract: async ({ args }: { args: [bigint] }) => {
+      calls.ownerOf++;
+      const owner = ownerOf[Number(args[0])];
+      if (!owner) throw new Error("ERC721: invalid token ID");
+      return owner;
+    },
+  };
+  return { client, calls };
+}
+
+function createGenerator(client: unknown) {
+  const generator = new FirstWorksSnapshotGenerator() as any;
+  generator.clients.set(collection.id, client);
+  return generator;
+}
+
+describe("FirstWorksSnapshotGenerator transfer log replay", function () {
+  it("replays transfers, mints and burns onto the previous ownership", async function () {
+    const { client, calls } = fakeClient({});
+    const generator = createGenerator(client);
+
+    const holders: Map<string, number[]> = await generator.getAllOwnersViaTransferLogs(
+      collection,
+      previous.holderIndex,
+      101n,
+      3000n
+    );
+
+    expect(Object.fromEntries(holders)).to.deep.equal({
+      [alice]: [3],
+      [bob]: [4],
+      [carol]: [2],
+    });
+    // One eth_getLogs call per FIRSTWORKS_LOG_BLOCK_RANGE (2000) blocks
+    expect(calls.logRanges).to.deep.equal([
+      [101n, 2100n],
+      [2101n, 3000n],
+    ]);
+  });
+
+  it("uses the replayed ownership when it covers the total supply", async function () {
+    const { client, calls } = fakeClient({});
+    const generator = createGenerator(client);
+
+    const holders: Map<string, number[]> = await generator.getAllOwners(
+      collection,
+      3,
+      3000n,
+      previous,
+      false
+    );
+
+    expect(holders.get(alice)).to.deep.equal([3]);
+    expect(calls.logRanges[0]).to.deep.equal([101n, 2100n]);
+    expect(calls.ownerOf).to.equal(0);
+  });
+
+  it("falls back to ownerOf when the replay misses tokens", async function () {
+    // The logs missed something (token 1 still exists): four tokens, three replayed
+    const { client, calls } = fakeClient({ 1: alice, 2: carol, 3: alice, 4: bob });
+    const generator = createGenerator(client);
+
+    const holders: Map<string, number[]> = await generator.getAllOwners(
+      collection,
+      4,
+      3000n,
+      previous,
+      false
+    );
+
+    expect(calls.logRanges).to.have.length(2);
+    expect(calls.ownerOf).to.equal(4);
+    expect(Object.fromEntries(holders)).to.deep.equal({
+      [alice]: [1, 3],
+      [carol]: [2],
+      [bob]: [4],
+    });
+  });
+
+  it("does not replay onto a previous snapshot newer than the target block", async function () {
+    const { client, calls } = fakeClient({ 1: alice });
+    const generator = createGenerator(client);
+
+    await generator.getAllOwners(collection, 1, 50n, previous, true);
+
+    expect(calls.logRanges).to.deep.equal([]);
+    expect(calls.ownerOf).to.equal(1);
+  });
+});
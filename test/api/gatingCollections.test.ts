@@ -0,0 +1,61 @@
+import { expect } from "chai";
+import {
+  buildWeightedHolderIndex,
+  decodeGatingTokenId,
+  encodeGatingTokenId,
+  MAX_COLLECTION_WEIGHT,
+} from "../../lib/snapshots/gatingCollections.js";
+
+describe("weighted gating token IDs", function () {
+  it("maps the first collection's first unit to the token ID itself", function () {
+    expect(encodeGatingTokenId(0, 0, 0)).to.equal(0);
+    expect(encodeGatingTokenId(0, 0, 4242)).to.equal(4242);
+  });
+
+  it("round-trips collection, unit and token ID", function () {
+    const cases = [
+      { collectionIndex: 0, unit: 1, tokenId: 7 },
+      { collectionIndex: 3, unit: 0, tokenId: 2 ** 32 - 1 },
+      { collectionIndex: 8191, unit: MAX_COLLECTION_WEIGHT - 1, tokenId: 2 ** 32 - 1 },
+    ];
+
+    for (const { collectionIndex, unit, tokenId } of cases) {
+      const id = encodeGatingTokenId(collectionIndex, unit, tokenId);
+      expect(decodeGatingTokenId(id)).to.deep.equal({ collectionIndex, unit, tokenId });
+    }
+  });
+
+  it("keeps the largest gating token ID a safe integer", function () {
+    expect(encodeGatingTokenId(8191, MAX_COLLECTION_WEIGHT - 1, 2 ** 32 - 1)).to.equal(
+      Number.MAX_SAFE_INTEGER
+    );
+  });
+
+  it("rejects token IDs that don't fit in 32 bits", function () {
+    expect(() => encodeGatingTokenId(0, 0, 2 ** 32)).to.throw(/out of range/);
+    expect(() => encodeGatingTokenId(0, 0, -1)).to.throw(/out of range/);
+  });
+
+  it("expands each NFT into weight units and merges holders across collections", function () {
+    const index = buildWeightedHolderIndex([
+      { weight: 1, holderIndex: { "0xAA": [5, 1] } },
+      { weight: 3, holderIndex: { "0xaa": [2], "0xbb": [9] } },
+    ]);
+
+    expect(index["0xaa"]).to.deep.equal([
+      1,
+      5,
+      encodeGatingTokenId(1, 0, 2),
+      encodeGatingTokenId(1, 1, 2),
+      encodeGatingTokenId(1, 2, 2),
+    ]);
+    expect(index["0xbb"]).to.have.length(3);
+    expect(Object.keys(index)).to.have.members(["0xaa", "0xbb"]);
+  });
+
+  it("leaves a single weight-1 collection unchanged", function () {
+    const holderIndex = { "0xaa": [1, 2, 3], "0xbb": [10] };
+
+    expect(buildWeightedHolderIndex([{ weight: 1, holderIndex }])).to.deep.equal(holderIndex);
+  });
+});
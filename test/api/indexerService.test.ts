@@ -0,0 +1,154 @@
+import { expect } from "chai";
+
+process.env.INDEXER_STORE = "memory";
+const { contractService } = await import("../../src/services/contractService.js");
+const { indexerService, IndexerUnavailableError, MemoryIndexerStore } = await import(
+  "../../src/services/indexerService.js"
+);
+
+/**
+ * Fake chain: one roundStart event per block, block hashes derived from a
+ * fork number so a reorg can swap the hashes and events of recent blocks
+ */
+const chain = {
+  head: 0n,
+  forkedFrom: Infinity as number | bigint,
+  fork: 0,
+  down: false,
+  requests: [] as Array<[bigint, bigint]>,
+};
+
+function forkOf(block: bigint): number {
+  return block >= chain.forkedFrom ? chain.fork : 0;
+}
+
+function hashOf(block: bigint): `0x${string}` {
+  return `0x${forkOf(block).toString(16).padStart(2, "0")}${block.toString(16).padStart(62, "0")}`;
+}
+
+const fakes = {
+  getDeploymentBlock: () => 1n,
+  getBlockNumber: async () => {
+    if (chain.down) throw new Error("RPC unreachable");
+    return chain.head;
+  },
+  getBlockHash: async (block: bigint) => {
+    if (chain.down) throw new Error("RPC unreachable");
+    return hashOf(block);
+  },
+  getSeedsContractEvents: async (fromBlock: bigint, toBlock: bigint) => {
+    chain.requests.push([fromBlock, toBlock]);
+    const events = [];
+    for (let block = fromBlock; block <= toBlock; block++) {
+      events.push({
+        type: "roundStart" as const,
+        round: BigInt(forkOf(block) * 1000) + block,
+        blockNumber: block,
+        logIndex: 0,
+        transactionHash: hashOf(block),
+      });
+    }
+    return events;
+  },
+};
+
+async function rounds(): Promise<number[]> {
+  return (await indexerService.getRoundStarts()).map((event) => Number(event.round));
+}
+
+describe("indexerService", function () {
+  const originals: Record<string, unknown> = {};
+
+  before(function () {
+    for (const [name, fake] of Object.entries(fakes)) {
+      originals[name] = (contractService as any)[name];
+      (contractService as any)[name] = fake;
+    }
+  });
+
+  after(function () {
+    Object.assign(contractService, originals);
+  });
+
+  beforeEach(function () {
+    Object.assign(chain, { head: 0n, forkedFrom: Infinity, fork: 0, down: false, requests: [] });
+    Object.assign(indexerService as any, {
+      store: new MemoryIndexerStore(),
+      CONFIRMATIONS: 2n,
+      lastSyncedAt: null,
+      lastError: null,
+    });
+  });
+
+  it("only indexes blocks with enough confirmations", async function () {
+    chain.head = 10n;
+    await indexerService.sync();
+    expect(await rounds()).to.deep.equal([1, 2, 3, 4, 5, 6, 7, 8]);
+
+    chain.head = 12n;
+    await indexerService.sync();
+    expect(await rounds()).to.deep.equal([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(chain.requests).to.deep.equal([
+      [1n, 8n],
+      [9n, 10n],
+    ]);
+  });
+
+  it("rewinds the confirmation window when the last indexed block is reorged out", async function () {
+    chain.head = 10n;
+    await indexerService.sync();
+
+    chain.forkedFrom = 7n;
+    chain.fork = 1;
+    await indexerService.sync();
+
+    // Blocks 6-8 were re-indexed from the new fork; earlier ones are kept
+    expect(await rounds()).to.deep.equal([1, 2, 3, 4, 5, 6, 1007, 1008]);
+    expect(chain.requests[1]).to.deep.equal([6n, 8n]);
+  });
+
+  it("reports newly indexed events but not the backfill", async function () {
+    const reported: number[] = [];
+    const unsubscribe = indexerService.onEventsIndexed((events) =>
+      reported.push(...events.map((event) => Number((event as any).round)))
+    );
+
+    try {
+      chain.head = 5n;
+      await indexerService.sync();
+      chain.head = 7n;
+      await indexerService.sync();
+    } finally {
+      unsubscribe();
+    }
+
+    expect(reported).to.deep.equal([4, 5]);
+  });
+
+  it("fails queries on a cold start instead of returning an empty index", async function () {
+    chain.down = true;
+
+    let error: unknown;
+    try {
+      await indexerService.getRoundStarts();
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).to.be.instanceOf(IndexerUnavailableError);
+    expect((error as Error).message).to.include("RPC unreachable");
+  });
+
+  it("serves indexed data flagged as stale when a later sync fails", async function () {
+    chain.head = 5n;
+    await indexerService.sync();
+    expect(indexerService.isStale()).to.equal(false);
+
+    chain.down = true;
+    indexerService.invalidate();
+
+    expect(await rounds()).to.deep.equal([1, 2, 3]);
+    expect(indexerService.isStale()).to.equal(true);
+    expect((await indexerService.getStatus()).stale).to.equal(true);
+  });
+});
@@ -0,0 +1,135 @@
+import { expect } from "chai";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { decodeAbiParameters, encodeAbiParameters, keccak256, type Address } from "viem";
+import {
+  encodeProof,
+  generateMerkleTree,
+  getHolderProof,
+  getMultiProof,
+  getTreeAddresses,
+  verifyMultiProof,
+  verifyProof,
+  type MerkleProof,
+} from "../../lib/snapshots/merkleTreeGenerator.js";
+
+const holders = [
+  { address: "0x00000000000000000000000000000000000000A1", tokenIds: [1, 2] },
+  { address: "0x00000000000000000000000000000000000000a2", tokenIds: [3] },
+  { address: "0x00000000000000000000000000000000000000a3", tokenIds: [4, 5, 6] },
+  { address: "0x00000000000000000000000000000000000000a4", tokenIds: [7] },
+  { address: "0x00000000000000000000000000000000000000a5", tokenIds: [8] },
+];
+
+/**
+ * keccak256(bytes.concat(keccak256(abi.encode(owner, tokenIds)))), as the
+ * gating contracts compute it
+ */
+function contractLeaf(address: string, tokenIds: number[]): string {
+  const inner = keccak256(
+    encodeAbiParameters(
+      [{ type: "address" }, { type: "uint256[]" }],
+      [address as Address, tokenIds.map(BigInt)]
+    )
+  );
+  return keccak256(inner);
+}
+
+describe("merkleTreeGenerator", function () {
+  let dir: string;
+  let trees: Record<"legacy" | "openzeppelin", MerkleProof>;
+
+  before(function () {
+    dir = mkdtempSync(join(tmpdir(), "merkle-"));
+    const snapshotPath = join(dir, "snapshot.json");
+    writeFileSync(
+      snapshotPath,
+      JSON.stringify({
+        contractAddress: "0x8F814c7C75C5E9e0EDe0336F535604B1915C1985",
+        contractName: "FirstWorks",
+        totalSupply: 8,
+        timestamp: new Date(0).toISOString(),
+        blockNumber: 1,
+        holders: holders.map((holder) => ({ ...holder, balance: holder.tokenIds.length })),
+        totalHolders: holders.length,
+        holderIndex: {},
+      })
+    );
+    trees = {
+      legacy: generateMerkleTree(snapshotPath, "legacy"),
+      openzeppelin: generateMerkleTree(snapshotPath, "openzeppelin"),
+    };
+  });
+
+  after(function () {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  for (const format of ["legacy", "openzeppelin"] as const) {
+    describe(format, function () {
+      it("uses the contract's double-hashed leaf", function () {
+        for (const { address, tokenIds } of holders) {
+          expect(getHolderProof(trees[format], address)?.leaf).to.equal(
+            contractLeaf(address, tokenIds)
+          );
+        }
+      });
+
+      it("gives every holder a proof that verifies against the root", function () {
+        const { root } = trees[format];
+        for (const { address } of holders) {
+          const { leaf, proof } = getHolderProof(trees[format], address)!;
+          expect(verifyProof(proof, root, leaf), address).to.equal(true);
+        }
+      });
+
+      it("rejects a proof for the wrong token IDs", function () {
+        const { proof } = getHolderProof(trees[format], holders[0].address)!;
+        const forged = contractLeaf(holders[0].address, [1, 2, 3]);
+
+        expect(verifyProof(proof, trees[format].root, forged)).to.equal(false);
+      });
+
+      it("lists holders by lowercase address", function () {
+        expect(getTreeAddresses(trees[format])).to.have.members(
+          holders.map(({ address }) => address.toLowerCase())
+        );
+        expect(getHolderProof(trees[format], "0x00000000000000000000000000000000000000ff")).to.equal(
+          null
+        );
+      });
+    });
+  }
+
+  it("returns the token IDs stored in OpenZeppelin leaves", function () {
+    expect(getHolderProof(trees.openzeppelin, holders[2].address)?.tokenIds).to.deep.equal([4, 5, 6]);
+  });
+
+  it("builds multi-proofs that verify, and fail when a leaf is altered", function () {
+    const multiProof = getMultiProof(trees.openzeppelin, [holders[0].address, holders[3].address]);
+
+    expect(multiProof.leaves.map(({ address }) => address)).to.have.members([
+      holders[0].address.toLowerCase(),
+      holders[3].address.toLowerCase(),
+    ]);
+    expect(verifyMultiProof(trees.openzeppelin.root, multiProof)).to.equal(true);
+
+    const altered = {
+      ...multiProof,
+      leaves: multiProof.leaves.map((leaf) => ({ ...leaf, tokenIds: [...leaf.tokenIds, 99] })),
+    };
+    expect(verifyMultiProof(trees.openzeppelin.root, altered)).to.equal(false);
+  });
+
+  it("only builds multi-proofs for OpenZeppelin trees", function () {
+    expect(() => getMultiProof(trees.legacy, [holders[0].address])).to.throw(/openzeppelin/);
+  });
+
+  it("encodes proofs as abi.encode(bytes32[])", function () {
+    const { proof } = getHolderProof(trees.openzeppelin, holders[1].address)!;
+
+    const [decoded] = decodeAbiParameters([{ type: "bytes32[]" }], encodeProof(proof));
+    expect(decoded).to.deep.equal(proof);
+  });
+});
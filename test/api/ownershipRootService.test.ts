@@ -0,0 +1,65 @@
+import { expect } from "chai";
+
+const { contractService } = await import("../../src/services/contractService.js");
+const { ownershipRootService, ROOT_MISMATCH_ERROR } = await import(
+  "../../src/services/ownershipRootService.js"
+);
+
+const ON_CHAIN_ROOT = `0x${"11".repeat(32)}`;
+const STALE_ROOT = `0x${"22".repeat(32)}`;
+
+describe("ownershipRootService", function () {
+  const original = contractService.getOwnershipRoot;
+  let reads: number;
+  let reloads: number;
+
+  async function reload() {
+    reloads++;
+    return STALE_ROOT;
+  }
+
+  before(function () {
+    Object.assign(contractService, {
+      getOwnershipRoot: async () => {
+        reads++;
+        return { root: ON_CHAIN_ROOT, updatedAt: 0n, contract: "0x00000000000000000000000000000000000000cc" };
+      },
+    });
+  });
+
+  after(function () {
+    Object.assign(contractService, { getOwnershipRoot: original });
+  });
+
+  beforeEach(function () {
+    reads = 0;
+    reloads = 0;
+    ownershipRootService.invalidate();
+  });
+
+  it("lets requests through when the roots match", async function () {
+    expect(await ownershipRootService.assertConsistent(ON_CHAIN_ROOT, reload)).to.equal(null);
+    expect(reloads).to.equal(0);
+  });
+
+  it("reloads and re-reads at most once per cache period while the roots differ", async function () {
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => ownershipRootService.assertConsistent(STALE_ROOT, reload))
+    );
+    results.push(await ownershipRootService.assertConsistent(STALE_ROOT, reload));
+
+    expect(results).to.deep.equal(Array(6).fill(ROOT_MISMATCH_ERROR));
+    expect(reloads).to.equal(1);
+    // The cached read plus one forced re-read
+    expect(reads).to.equal(2);
+  });
+
+  it("re-checks right away after invalidate()", async function () {
+    await ownershipRootService.assertConsistent(STALE_ROOT, reload);
+    ownershipRootService.invalidate();
+
+    expect(await ownershipRootService.assertConsistent(STALE_ROOT, async () => ON_CHAIN_ROOT)).to.equal(
+      null
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import { expect } from "chai";
+import RedisMock from "ioredis-mock";
+import { selectStoreType } from "../../lib/storage/redisClient.js";
+import {
+  MemoryQuotaStore,
+  RedisQuotaStore,
+  type QuotaStore,
+} from "../../src/services/quotaStore.js";
+
+const HOUR = 60 * 60 * 1000;
+
+// One connection; every store gets its own key prefix
+const redis = new RedisMock() as any;
+
+// The same behaviour is expected from every backend; the Redis store runs its
+// Lua scripts against ioredis-mock
+const stores: Array<[string, () => QuotaStore]> = [
+  ["MemoryQuotaStore", () => new MemoryQuotaStore()],
+  ["RedisQuotaStore", () => new RedisQuotaStore(redis, `test:${Math.random()}:`)],
+];
+
+for (const [name, createStore] of stores) {
+  describe(name, function () {
+    let store: QuotaStore;
+    let resetsAt: number;
+
+    beforeEach(function () {
+      store = createStore();
+      resetsAt = Date.now() + HOUR;
+    });
+
+    it("reserves up to the limit and refuses the rest", async function () {
+      const first = await store.reserve("k", 2, 3, resetsAt, HOUR);
+      expect(first.reservation).to.not.equal(null);
+      expect(first.usage).to.include({ used: 0, reserved: 2 });
+
+      const second = await store.reserve("k", 2, 3, resetsAt, HOUR);
+      expect(second.reservation).to.equal(null);
+      expect(second.usage).to.include({ used: 0, reserved: 2 });
+
+      const third = await store.reserve("k", 1, 3, resetsAt, HOUR);
+      expect(third.reservation).to.not.equal(null);
+    });
+
+    it("turns a committed reservation into usage", async function () {
+      const { reservation } = await store.reserve("k", 2, 5, resetsAt, HOUR);
+      await store.commit(reservation!);
+
+      expect(await store.getUsage("k")).to.deep.equal({ used: 2, reserved: 0, resetsAt });
+    });
+
+    it("commits part of a reservation and releases the rest", async function () {
+      const { reservation } = await store.reserve("k", 5, 5, resetsAt, HOUR);
+      await store.commit(reservation!, 3);
+
+      expect(await store.getUsage("k")).to.include({ used: 3, reserved: 0 });
+      expect((await store.reserve("k", 2, 5, resetsAt, HOUR)).reservation).to.not.equal(null);
+    });
+
+    it("frees a released reservation", async function () {
+      const { reservation } = await store.reserve("k", 3, 3, resetsAt, HOUR);
+      await store.release(reservation!);
+
+      expect(await store.getUsage("k")).to.include({ used: 0, reserved: 0 });
+      expect((await store.reserve("k", 3, 3, resetsAt, HOUR)).reservation).to.not.equal(null);
+    });
+
+    it("ignores a commit after release", async function () {
+      const { reservation } = await store.reserve("k", 2, 5, resetsAt, HOUR);
+      await store.release(reservation!);
+      await store.commit(reservation!);
+
+      expect(await store.getUsage("k")).to.include({ used: 0, reserved: 0 });
+    });
+
+    it("drops expired reservations", async function () {
+      await store.reserve("k", 3, 3, resetsAt, -1);
+
+      expect(await store.getUsage("k")).to.include({ used: 0, reserved: 0 });
+      expect((await store.reserve("k", 3, 3, resetsAt, HOUR)).reservation).to.not.equal(null);
+    });
+
+    it("keeps the higher of stored and synced usage", async function () {
+      expect(await store.sync("k", 2, resetsAt)).to.include({ used: 2 });
+      expect(await store.sync("k", 1, resetsAt)).to.include({ used: 2 });
+      expect((await store.reserve("k", 2, 3, resetsAt, HOUR)).reservation).to.equal(null);
+    });
+
+    it("starts a new window once the old one has ended", async function () {
+      await store.sync("k", 3, Date.now() - 1);
+
+      expect(await store.getUsage("k")).to.equal(null);
+      const { usage } = await store.reserve("k", 1, 3, resetsAt, HOUR);
+      expect(usage).to.deep.equal({ used: 0, reserved: 1, resetsAt });
+    });
+
+    it("never lets parallel reservations exceed the limit", async function () {
+      const results = await Promise.all(
+        Array.from({ length: 10 }, () => store.reserve("k", 1, 4, resetsAt, HOUR))
+      );
+
+      expect(results.filter((r) => r.reservation !== null)).to.have.length(4);
+    });
+  });
+}
+
+describe("selectStoreType", function () {
+  let env: NodeJS.ProcessEnv;
+
+  beforeEach(function () {
+    env = { ...process.env };
+  });
+
+  afterEach(function () {
+    process.env = env;
+  });
+
+  it("defaults to redis when REDIS_URL is set", function () {
+    delete process.env.TEST_STORE;
+    process.env.REDIS_URL = "redis://localhost:6379";
+    expect(selectStoreType("TEST_STORE", "memory")).to.equal("redis");
+  });
+
+  it("falls back instead of throwing when redis has no REDIS_URL", function () {
+    process.env.TEST_STORE = "redis";
+    delete process.env.REDIS_URL;
+    expect(selectStoreType("TEST_STORE", "memory", "file")).to.equal("file");
+  });
+});
@@ -0,0 +1,53 @@
+import { expect } from "chai";
+import RedisMock from "ioredis-mock";
+import {
+  MemoryRecordStore,
+  RedisRecordStore,
+  type RecordStore,
+} from "../../lib/storage/recordStore.js";
+
+interface Item {
+  id: string;
+  amount: bigint;
+}
+
+// One connection; every store gets its own key prefix
+const redis = new RedisMock() as any;
+
+const stores: Array<[string, () => RecordStore<Item>]> = [
+  ["MemoryRecordStore", () => new MemoryRecordStore<Item>()],
+  [
+    "RedisRecordStore",
+    () => new RedisRecordStore<Item>(redis, "items", `test:${Math.random()}:`),
+  ],
+];
+
+for (const [name, createStore] of stores) {
+  describe(name, function () {
+    let store: RecordStore<Item>;
+
+    beforeEach(function () {
+      store = createStore();
+    });
+
+    it("stores, lists and deletes records", async function () {
+      await store.set("a", { id: "a", amount: 1n });
+      await store.set("b", { id: "b", amount: 2n ** 70n });
+
+      expect(await store.get("b")).to.deep.equal({ id: "b", amount: 2n ** 70n });
+      expect((await store.list()).map((item) => item.id).sort()).to.deep.equal(["a", "b"]);
+
+      await store.delete(["a"]);
+      expect(await store.get("a")).to.equal(null);
+      expect(await store.list()).to.have.length(1);
+    });
+
+    it("gives a claim to one worker at a time", async function () {
+      expect(await store.claim("a", 60_000)).to.equal(true);
+      expect(await store.claim("a", 60_000)).to.equal(false);
+
+      await store.unclaim("a");
+      expect(await store.claim("a", 60_000)).to.equal(true);
+    });
+  });
+}
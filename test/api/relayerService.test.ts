@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import { parseAbi } from "viem";
+
+process.env.STATE_STORE = "memory";
+const { RelayerTransactionManager } = await import("../../src/services/relayerService.js");
+
+const account = { address: "0x00000000000000000000000000000000000000aa" } as any;
+
+/**
+ * Relayer wired to a fake chain whose pending nonce lags behind broadcasts
+ * (as a load-balanced RPC can)
+ */
+function createRelayer(options: { pendingNonce: number; failAt?: number }) {
+  const nonces: number[] = [];
+  const publicClient = {
+    getTransactionCount: async () => options.pendingNonce,
+    estimateFeesPerGas: async () => ({ maxFeePerGas: 10n, maxPriorityFeePerGas: 1n }),
+    estimateContractGas: async () => 50_000n,
+  } as any;
+  const walletClient = {
+    chain: undefined,
+    sendTransaction: async ({ nonce }: { nonce: number }) => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      if (nonce === options.failAt) {
+        throw new Error("insufficient funds");
+      }
+      nonces.push(nonce);
+      return `0x${nonce.toString(16).padStart(64, "0")}`;
+    },
+  } as any;
+
+  return { relayer: new RelayerTransactionManager(publicClient, walletClient, account), nonces };
+}
+
+/**
+ * Pretend a transaction was last broadcast long ago
+ */
+async function age(relayer: any, txId: string) {
+  const tx = await relayer.getTransaction(txId);
+  tx.lastBroadcastAt = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+  await relayer.transactions.set(txId, tx);
+}
+
+const request = {
+  purpose: "bless" as const,
+  address: "0x00000000000000000000000000000000000000bb" as const,
+  abi: parseAbi(["function blessSeedFor(uint256 seedId, address blesser)"]),
+  functionName: "blessSeedFor",
+  args: [1n, account.address],
+};
+
+describe("RelayerTransactionManager", function () {
+  it("gives concurrent submissions consecutive nonces", async function () {
+    const { relayer, nonces } = createRelayer({ pendingNonce: 7 });
+
+    const txs = await Promise.all(Array.from({ length: 5 }, () => relayer.submit(request)));
+
+    expect(nonces).to.deep.equal([7, 8, 9, 10, 11]);
+    expect(txs.map((tx) => tx.nonce)).to.have.members(nonces);
+    expect(txs.map((tx) => tx.status)).to.deep.equal(Array(5).fill("pending"));
+    expect((await relayer.getTransaction(txs[0].id))?.nonce).to.equal(txs[0].nonce);
+  });
+
+  it("re-reads the chain nonce after a failed broadcast", async function () {
+    const { relayer, nonces } = createRelayer({ pendingNonce: 20, failAt: 21 });
+
+    await relayer.submit(request);
+    const failed = await relayer.submit(request).catch((error: Error) => error);
+    await relayer.submit(request);
+
+    expect(failed).to.be.instanceOf(Error);
+    expect(nonces).to.deep.equal([20, 20]);
+    const [latest] = await relayer.listTransactions({ status: "failed" });
+    expect(latest.error).to.equal("insufficient funds");
+  });
+
+  it("re-sends a transaction dropped from the mempool from its stored call", async function () {
+    const { relayer, nonces } = createRelayer({ pendingNonce: 30 });
+
+    const dropped = await relayer.submit(request);
+    // The chain never saw nonce 30, so the next nonce handed out is stuck behind it
+    await age(relayer, dropped.id);
+    const next = await relayer.submit(request);
+
+    expect(nonces).to.deep.equal([30, 30, 31]);
+    expect(next.nonce).to.equal(31);
+    const resent = await relayer.getTransaction(dropped.id);
+    expect(resent?.status).to.equal("pending");
+    expect(resent?.hashes).to.have.length(2);
+    expect(resent?.call).to.include({ to: request.address, gas: 50_000n });
+  });
+
+  it("reuses the nonce of a dropped transaction it cannot re-send", async function () {
+    const { relayer, nonces } = createRelayer({ pendingNonce: 40 });
+
+    const dropped = await relayer.submit(request);
+    await age(relayer, dropped.id);
+    // Replacements used up: the dropped transaction is given up on
+    (await relayer.getTransaction(dropped.id))!.replacements = 3;
+    const next = await relayer.submit(request);
+    const after = await relayer.submit(request);
+
+    expect(nonces).to.deep.equal([40, 40, 41]);
+    expect([next.nonce, after.nonce]).to.deep.equal([40, 41]);
+    expect((await relayer.getTransaction(dropped.id))?.status).to.equal("failed");
+  });
+});
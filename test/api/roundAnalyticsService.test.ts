@@ -0,0 +1,162 @@
+import { expect } from "chai";
+
+process.env.INDEXER_STORE = "memory";
+const { indexerService } = await import("../../src/services/indexerService.js");
+const { roundAnalyticsService } = await import("../../src/services/roundAnalyticsService.js");
+
+function location(blockNumber: number, logIndex = 0) {
+  return {
+    blockNumber: BigInt(blockNumber),
+    logIndex,
+    blockTimestamp: BigInt(blockNumber * 100),
+    transactionHash: `0x${blockNumber.toString(16).padStart(64, "0")}` as const,
+  };
+}
+
+const address = (n: number) => `0x${n.toString(16).padStart(40, "0")}` as `0x${string}`;
+
+function blessing(seedId: number, blesser: number, blockNumber: number, logIndex = 0) {
+  return {
+    type: "blessing" as const,
+    seedId: BigInt(seedId),
+    blesser: address(blesser),
+    actor: address(blesser),
+    isDelegated: false,
+    score: 0n,
+    timestamp: BigInt(blockNumber * 100),
+    ...location(blockNumber, logIndex),
+  };
+}
+
+/**
+ * Round 2 runs from block 10 until seed 1 wins at block 20 (logIndex 3);
+ * round 3 starts in the same block (logIndex 5) and is still open
+ */
+const events = {
+  roundStarts: [
+    { type: "roundStart" as const, round: 2n, ...location(10, 1) },
+    { type: "roundStart" as const, round: 3n, ...location(20, 5) },
+  ],
+  winners: [
+    { type: "winner" as const, round: 1n, seedId: 9n, ...location(10, 0) },
+    { type: "winner" as const, round: 2n, seedId: 1n, ...location(20, 3) },
+  ],
+  blessings: [
+    blessing(9, 1, 9), // Round 1
+    // Round 2
+    blessing(1, 1, 11),
+    blessing(2, 1, 12),
+    blessing(2, 2, 13),
+    blessing(1, 3, 14), // Ties seed 2: not a lead change
+    blessing(1, 4, 20, 2), // Same block as the winner selection, before it
+    // Round 3
+    blessing(2, 1, 20, 6),
+    ...Array.from({ length: 10 }, (_, i) => blessing(3, 100 + i, 21 + i)),
+    ...Array.from({ length: 10 }, (_, i) => blessing(3, 200, 31 + i)),
+  ],
+  scoreUpdates: [
+    { type: "scoreUpdate" as const, seedId: 3n, blesser: address(100), newScore: 50n, ...location(21, 1) },
+    { type: "scoreUpdate" as const, seedId: 4n, blesser: address(101), newScore: 40n, ...location(22, 1) },
+    { type: "scoreUpdate" as const, seedId: 4n, blesser: address(102), newScore: 60n, ...location(23, 1) },
+  ],
+};
+
+describe("roundAnalyticsService", function () {
+  const originals = {
+    getRoundStarts: indexerService.getRoundStarts,
+    getWinners: indexerService.getWinners,
+    getBlessings: indexerService.getBlessings,
+    getScoreUpdates: indexerService.getScoreUpdates,
+  };
+
+  before(function () {
+    Object.assign(indexerService, {
+      getRoundStarts: async () => events.roundStarts,
+      getWinners: async () => events.winners,
+      getBlessings: async () => events.blessings,
+      getScoreUpdates: async () => events.scoreUpdates,
+    });
+  });
+
+  after(function () {
+    Object.assign(indexerService, originals);
+  });
+
+  it("bounds a round by event positions, not just blocks", async function () {
+    const analytics = await roundAnalyticsService.getRoundAnalytics(2);
+
+    expect(analytics).to.include({
+      status: "closed",
+      startBlock: 10,
+      endBlock: 20,
+      startedAt: 1000,
+      endedAt: 2000,
+      scoreSource: "blessings",
+    });
+    expect(analytics?.totals).to.deep.equal({ blessings: 5, uniqueBlessers: 4, seeds: 2 });
+    expect(analytics?.winner).to.deep.equal({ seedId: 1, blessings: 3, blessingShare: 0.6 });
+    expect(analytics?.seeds.map((seed) => [seed.seedId, seed.blessings, seed.isWinner])).to.deep.equal([
+      [1, 3, true],
+      [2, 2, false],
+    ]);
+  });
+
+  it("changes the leader only when strictly overtaken", async function () {
+    const analytics = await roundAnalyticsService.getRoundAnalytics(2);
+
+    expect(
+      analytics?.leadChanges.map(({ blockNumber, seedId, previousLeader, score }) => ({
+        blockNumber,
+        seedId,
+        previousLeader,
+        score,
+      }))
+    ).to.deep.equal([
+      { blockNumber: 11, seedId: 1, previousLeader: null, score: 1 },
+      { blockNumber: 13, seedId: 2, previousLeader: 1, score: 2 },
+      { blockNumber: 20, seedId: 1, previousLeader: 2, score: 3 },
+    ]);
+  });
+
+  it("measures how concentrated the blessings are", async function () {
+    const closed = await roundAnalyticsService.getRoundAnalytics(2);
+    // Blessers 1, 1, 1, 2 and seeds 2, 3 blessings
+    expect(closed?.concentration).to.deep.equal({
+      blessers: { gini: 0.15, top10Share: 1 },
+      seeds: { gini: 0.1, top10Share: 1 },
+    });
+
+    const open = await roundAnalyticsService.getRoundAnalytics(3);
+    // Eleven blessers with 1 blessing and one with 10: the top 10 hold 19 of 21
+    expect(open?.concentration).to.deep.equal({
+      blessers: { gini: 0.3929, top10Share: 0.9048 },
+      seeds: { gini: 0.4524, top10Share: 1 },
+    });
+  });
+
+  it("uses score updates in an open round", async function () {
+    const analytics = await roundAnalyticsService.getRoundAnalytics(3);
+
+    expect(analytics).to.include({
+      status: "open",
+      startBlock: 20,
+      endBlock: null,
+      scoreSource: "scoreUpdates",
+    });
+    expect(analytics?.winner).to.equal(null);
+    expect(analytics?.totals).to.deep.equal({ blessings: 21, uniqueBlessers: 12, seeds: 3 });
+    expect(analytics?.leadChanges.map((change) => [change.seedId, change.previousLeader])).to.deep.equal([
+      [3, null],
+      [4, 3],
+    ]);
+    expect(analytics?.seeds.map((seed) => [seed.seedId, seed.finalScore])).to.deep.equal([
+      [4, 60],
+      [3, 50],
+      [2, 0],
+    ]);
+  });
+
+  it("returns null for a round that has not started", async function () {
+    expect(await roundAnalyticsService.getRoundAnalytics(4)).to.equal(null);
+  });
+});
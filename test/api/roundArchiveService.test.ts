@@ -0,0 +1,105 @@
+import { expect } from "chai";
+
+process.env.STATE_STORE = "memory";
+const { contractService } = await import("../../src/services/contractService.js");
+const { indexerService } = await import("../../src/services/indexerService.js");
+const { elevationJobService } = await import("../../src/services/elevationJobService.js");
+const { roundArchiveService } = await import("../../src/services/roundArchiveService.js");
+
+const creator = "0x00000000000000000000000000000000000000aa";
+
+/**
+ * Fake chain in round 30: even rounds were won by seed 100 + round, odd
+ * rounds closed without a winner. Counts RPC reads and the most run at once.
+ */
+const rpc = { calls: 0, active: 0, maxActive: 0 };
+
+async function read<T>(value: T): Promise<T> {
+  rpc.calls++;
+  rpc.active++;
+  rpc.maxActive = Math.max(rpc.maxActive, rpc.active);
+  await new Promise((resolve) => setTimeout(resolve, 1));
+  rpc.active--;
+  return value;
+}
+
+const fakes = {
+  getCurrentRound: () => read(30n),
+  getRoundWinner: (round: number) => read(round % 2 === 0 ? BigInt(100 + round) : 0n),
+  getSeed: (seedId: number) =>
+    read({
+      id: BigInt(seedId),
+      ipfsHash: `Qm${seedId}`,
+      creator,
+      blessings: 3n,
+      isWinner: seedId > 0,
+      winnerInRound: BigInt(seedId - 100),
+    }),
+  getSeedScoreByRound: () => read(9n),
+  getTokenIdBySeedId: () => read(0n),
+};
+
+describe("roundArchiveService", function () {
+  const service = roundArchiveService as any;
+  const originals = {
+    contract: Object.fromEntries(Object.keys(fakes).map((name) => [name, (contractService as any)[name]])),
+    getWinners: indexerService.getWinners,
+  };
+
+  before(function () {
+    Object.assign(contractService, fakes);
+    Object.assign(indexerService, { getWinners: async () => [] });
+  });
+
+  after(function () {
+    Object.assign(contractService, originals.contract);
+    Object.assign(indexerService, { getWinners: originals.getWinners });
+  });
+
+  beforeEach(function () {
+    Object.assign(rpc, { calls: 0, active: 0, maxActive: 0 });
+    service.cache.clear();
+    service.winners.clear();
+  });
+
+  it("reports past rounds without a winner as closed", async function () {
+    const [won, noWinner, current] = await Promise.all([
+      roundArchiveService.getRound(28, 30),
+      roundArchiveService.getRound(29, 30),
+      roundArchiveService.getRound(30, 30),
+    ]);
+
+    expect(won).to.deep.include({ status: "closed", elevation: null });
+    expect(won?.winner).to.include({ seedId: 128, score: 9, seedsTokenId: null });
+    expect(noWinner).to.include({ status: "closed", winner: null });
+    expect(current).to.include({ status: "open", winner: null });
+  });
+
+  it("reads the chain once for closed rounds that were never elevated", async function () {
+    await roundArchiveService.getRound(28, 30);
+    await roundArchiveService.getRound(29, 30);
+    const calls = rpc.calls;
+
+    expect(await roundArchiveService.getRound(28, 30)).to.include({ status: "closed" });
+    expect(await roundArchiveService.getRound(29, 30)).to.include({ status: "closed" });
+    expect(rpc.calls).to.equal(calls);
+  });
+
+  it("picks up an elevation job created after the winner was cached", async function () {
+    await roundArchiveService.getRound(26, 30);
+    await elevationJobService.createJob({ round: 26, seedId: 126, seed: {} as any });
+
+    expect((await roundArchiveService.getRound(26, 30))?.elevation).to.not.equal(null);
+  });
+
+  it("limits the RPC reads in flight when listing rounds", async function () {
+    const { rounds, total } = await roundArchiveService.listRounds(1, 30);
+
+    expect(total).to.equal(30);
+    expect(rounds.map((record) => record.round)).to.deep.equal(
+      Array.from({ length: 30 }, (_, i) => 30 - i)
+    );
+    // At most ROUND_FETCH_CONCURRENCY rounds, each with getScore and getTokenId in parallel
+    expect(rpc.maxActive).to.be.at.most(service.ROUND_FETCH_CONCURRENCY * 2);
+  });
+});
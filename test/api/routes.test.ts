@@ -0,0 +1,141 @@
+import { expect } from "chai";
+import { PrivyClient } from "@privy-io/server-auth";
+
+// Request and response shapes clients relied on before the routes were
+// described with schemas; these must not change
+
+process.env.STATE_STORE = "memory";
+process.env.INDEXER_STORE = "memory";
+process.env.RATE_LIMIT_STORE = "memory";
+process.env.PRIVY_APP_ID = "test-app";
+process.env.PRIVY_APP_SECRET = "test-secret";
+
+const { default: app } = await import("../../src/index.js");
+const { blessingService } = await import("../../src/services/blessingService.js");
+const { commandmentService } = await import("../../src/services/commandmentService.js");
+const { indexerService } = await import("../../src/services/indexerService.js");
+const { leaderboardService } = await import("../../src/services/leaderboardService.js");
+
+const wallet = "0x00000000000000000000000000000000000000aa";
+
+/**
+ * Replace methods for the duration of the suite
+ */
+function stub(target: any, methods: Record<string, (...args: any[]) => unknown>) {
+  const originals = Object.fromEntries(Object.keys(methods).map((name) => [name, target[name]]));
+  before(() => Object.assign(target, methods));
+  after(() => Object.assign(target, originals));
+}
+
+function post(path: string, body: unknown) {
+  return app.request(path, {
+    method: "POST",
+    headers: { Authorization: "Bearer token", "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("route contracts", function () {
+  const calls: Record<string, unknown[]> = {};
+
+  stub(PrivyClient.prototype, {
+    verifyAuthToken: async () => ({ userId: "did:privy:test" }),
+    getUser: async () => ({ linkedAccounts: [{ type: "wallet", address: wallet }] }),
+  });
+  stub(blessingService, {
+    performBlessingOnchain: async (...args: unknown[]) => {
+      calls.bless = args;
+      return {
+        success: true,
+        txHash: "0xabc",
+        blessingCount: 3,
+        remainingBlessings: 2,
+        blockExplorer: "https://sepolia.basescan.org/tx/0xabc",
+      };
+    },
+  });
+  stub(commandmentService, {
+    submitCommandment: async (...args: unknown[]) => {
+      calls.comment = args;
+      return { success: true, commandmentId: 9, ipfsHash: "QmHash", txHash: "0xdef" };
+    },
+    getCommandmentsBySeed: async () => [{ id: 9, seedId: 5, author: wallet, ipfsHash: "QmHash", createdAt: 1 }],
+  });
+  stub(indexerService, {
+    getBlessings: async () => [{}, {}, {}],
+  });
+  stub(leaderboardService, {
+    getLeaderboard: async (...args: unknown[]) => {
+      calls.leaderboard = args;
+      return [];
+    },
+  });
+
+  it("POST /api/blessings accepts a string seedId and keeps the response fields", async function () {
+    const res = await post("/api/blessings", { seedId: "5" });
+    const body = await res.json();
+
+    expect(res.status).to.equal(200);
+    expect(calls.bless).to.deep.equal([wallet, 5]);
+    expect(body.success).to.equal(true);
+    expect(body.data).to.include({
+      seedId: 5,
+      txHash: "0xabc",
+      blessingCount: 3,
+      remainingBlessings: 2,
+      blockExplorer: "https://sepolia.basescan.org/tx/0xabc",
+      message: "Blessing submitted successfully",
+    });
+  });
+
+  it("rejects invalid bodies with status 400 and the usual error shape", async function () {
+    const res = await post("/api/blessings", { seedId: -1 });
+    const body = await res.json();
+
+    expect(res.status).to.equal(400);
+    expect(body).to.have.all.keys("success", "error", "details");
+    expect(body.success).to.equal(false);
+  });
+
+  it("still answers 401 without a token", async function () {
+    const res = await app.request("/api/blessings", { method: "POST", body: "{}" });
+
+    expect(res.status).to.equal(401);
+    expect(await res.json()).to.deep.equal({ error: "Missing or invalid authorization header" });
+  });
+
+  it("POST /api/commandments accepts { seedId, message } and keeps the response fields", async function () {
+    const res = await post("/api/commandments", { seedId: 5, message: "Hello" });
+    const body = await res.json();
+
+    expect(res.status).to.equal(200);
+    expect(calls.comment).to.deep.equal([wallet, 5, "Hello", { replyTo: undefined, quotes: undefined }]);
+    expect(body.data).to.include({ commandmentId: 9, ipfsHash: "QmHash", txHash: "0xdef" });
+    expect(body.data.blockExplorer).to.equal("https://sepolia.basescan.org/tx/0xdef");
+  });
+
+  it("GET /api/commandments/seed/:seedId keeps seedId, commandments and total", async function () {
+    const res = await app.request("/api/commandments/seed/5");
+    const { data } = await res.json();
+
+    expect(res.status).to.equal(200);
+    expect(data).to.include({ seedId: 5, total: 1 });
+    expect(data.commandments).to.have.length(1);
+  });
+
+  it("GET /api/blessings/total keeps { totalBlessings }", async function () {
+    const res = await app.request("/api/blessings/total");
+
+    expect(await res.json()).to.deep.equal({ success: true, data: { totalBlessings: 3 } });
+  });
+
+  it("GET /api/leaderboard caps the limit and falls back to lifetime", async function () {
+    const res = await app.request("/api/leaderboard?limit=1000&timeframe=forever");
+    const body = await res.json();
+
+    expect(res.status).to.equal(200);
+    expect(calls.leaderboard).to.deep.equal([500, "lifetime"]);
+    expect(body).to.include.all.keys("success", "timeframe", "count", "leaderboard", "scoring");
+    expect(body.timeframe).to.equal("lifetime");
+  });
+});
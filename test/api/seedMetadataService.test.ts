@@ -0,0 +1,162 @@
+import { expect } from "chai";
+
+process.env.STATE_STORE = "memory";
+const { metadataCacheService } = await import("../../src/services/metadataCacheService.js");
+const { normalizeSeedMetadata, seedMetadataService, validateSeedMetadata } = await import(
+  "../../src/services/seedMetadataService.js"
+);
+
+const CID = "QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o";
+
+describe("normalizeSeedMetadata", function () {
+  it("maps legacy field names onto the schema", function () {
+    const { metadata, validationErrors } = normalizeSeedMetadata({
+      title: "Sunrise",
+      desc: "A seed",
+      image_url: `ipfs://ipfs/${CID}`,
+      videoUrl: CID,
+      notes: "First try",
+      properties: { edition: 1 },
+    });
+
+    expect(validationErrors).to.deep.equal([]);
+    expect(metadata).to.deep.equal({
+      schema_version: 1,
+      name: "Sunrise",
+      description: "A seed",
+      image: `ipfs://${CID}`,
+      animation_url: `ipfs://${CID}`,
+      creator_notes: "First try",
+      attributes: [],
+      properties: { edition: 1 },
+    });
+  });
+
+  it("prefers the schema field over its legacy names", function () {
+    const { metadata } = normalizeSeedMetadata({
+      name: "Sunrise",
+      title: "Old title",
+      description: "A seed",
+    });
+
+    expect(metadata).to.include({ name: "Sunrise" });
+    expect(metadata).to.not.have.property("title");
+  });
+
+  it("turns attribute maps and tags into attributes", function () {
+    const { metadata, validationErrors } = normalizeSeedMetadata({
+      name: "Sunrise",
+      description: "A seed",
+      traits: { Style: "Abstract", Edition: 1 },
+      tags: ["dawn", " ", 7, " light "],
+    });
+
+    expect(validationErrors).to.deep.equal([]);
+    expect(metadata?.attributes).to.deep.equal([
+      { trait_type: "Style", value: "Abstract" },
+      { trait_type: "Edition", value: 1 },
+      { trait_type: "Tag", value: "dawn" },
+      { trait_type: "Tag", value: "light" },
+    ]);
+    expect(metadata).to.not.have.any.keys("traits", "tags");
+  });
+
+  it("drops an invalid attribute and keeps the rest", function () {
+    const { metadata, validationErrors } = normalizeSeedMetadata({
+      name: "Sunrise",
+      description: "A seed",
+      attributes: [
+        { trait_type: "Style", value: "Abstract" },
+        { trait_type: "Palette", value: { primary: "red" } },
+        { trait_type: "Edition", value: 1 },
+      ],
+    });
+
+    expect(metadata?.attributes).to.deep.equal([
+      { trait_type: "Style", value: "Abstract" },
+      { trait_type: "Edition", value: 1 },
+    ]);
+    expect(validationErrors).to.have.length(1);
+    expect(validationErrors[0]).to.match(/^attributes\.1\.value: /);
+  });
+
+  it("returns what is valid when the name is missing", function () {
+    const { metadata, validationErrors } = normalizeSeedMetadata({
+      description: "A seed",
+      image: "not a uri",
+    });
+
+    expect(metadata).to.deep.equal({ schema_version: 1, description: "A seed", attributes: [] });
+    expect(validationErrors).to.have.length(2);
+    expect(validationErrors.some((error) => error.startsWith("name: "))).to.equal(true);
+    expect(validationErrors.some((error) => error.startsWith("image: "))).to.equal(true);
+  });
+
+  it("rejects anything but a JSON object", function () {
+    expect(normalizeSeedMetadata(["Sunrise"])).to.deep.equal({
+      metadata: null,
+      validationErrors: ["Metadata must be a JSON object"],
+    });
+  });
+});
+
+describe("validateSeedMetadata", function () {
+  const valid = { name: "Sunrise", description: "A seed", image: `ipfs://${CID}` };
+
+  it("accepts metadata with or without schema_version", function () {
+    expect(validateSeedMetadata(valid)).to.deep.equal([]);
+    expect(validateSeedMetadata({ ...valid, schema_version: 1 })).to.deep.equal([]);
+  });
+
+  it("does not map legacy fields", function () {
+    const errors = validateSeedMetadata({ title: "Sunrise", description: "A seed" });
+
+    expect(errors).to.have.length(1);
+    expect(errors[0]).to.match(/^name: /);
+  });
+
+  it("rejects an unsupported schema_version", function () {
+    expect(validateSeedMetadata({ ...valid, schema_version: 2 })).to.deep.equal([
+      "schema_version: Unsupported schema_version (expected 1)",
+    ]);
+  });
+});
+
+describe("seedMetadataService.checkForSubmission", function () {
+  const originalResolve = metadataCacheService.resolve;
+  let metadata: unknown;
+
+  before(function () {
+    Object.assign(metadataCacheService, {
+      resolve: async () => ({ metadata, metadataError: null, metadataStatus: "verified" }),
+    });
+  });
+
+  after(function () {
+    Object.assign(metadataCacheService, { resolve: originalResolve });
+  });
+
+  it("rejects metadata with an unsupported schema_version", async function () {
+    metadata = { schema_version: 2, name: "Sunrise", description: "A seed" };
+
+    const check = await seedMetadataService.checkForSubmission(CID);
+
+    expect(check).to.deep.include({
+      valid: false,
+      metadataStatus: "verified",
+      error: "Seed metadata does not match the schema",
+    });
+    expect(check.validationErrors).to.deep.equal([
+      "schema_version: Unsupported schema_version (expected 1)",
+    ]);
+  });
+
+  it("accepts metadata matching the schema", async function () {
+    metadata = { schema_version: 1, name: "Sunrise", description: "A seed" };
+
+    expect(await seedMetadataService.checkForSubmission(CID)).to.deep.include({
+      valid: true,
+      validationErrors: [],
+    });
+  });
+});
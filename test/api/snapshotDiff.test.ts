@@ -0,0 +1,112 @@
+import { expect } from "chai";
+import type { FirstWorksSnapshot } from "../../lib/snapshots/firstWorksSnapshot.js";
+import { diffSnapshots } from "../../lib/snapshots/snapshotDiff.js";
+
+const alice = "0x00000000000000000000000000000000000000a1";
+const bob = "0x00000000000000000000000000000000000000b2";
+const carol = "0x00000000000000000000000000000000000000c3";
+const dave = "0x00000000000000000000000000000000000000d4";
+// Mixed case, as in per-collection indexes and query parameters
+const bobMixedCase = "0x00000000000000000000000000000000000000B2";
+
+const firstWorksAddress = "0x9734c959A5FEC7BaD8b0b560AD94F9740B90Efd8";
+
+function snapshot(
+  blockNumber: number,
+  holderIndex: Record<string, number[]>,
+  collections?: FirstWorksSnapshot["collections"]
+): FirstWorksSnapshot {
+  return {
+    contractAddress: firstWorksAddress,
+    contractName: "AbrahamFirstWorks",
+    totalSupply: Object.values(holderIndex).flat().length,
+    timestamp: new Date(blockNumber * 1000).toISOString(),
+    blockNumber,
+    holders: [],
+    totalHolders: Object.keys(holderIndex).length,
+    holderIndex,
+    collections,
+  };
+}
+
+// Legacy snapshot: FirstWorks only, no per-collection breakdown
+const before = snapshot(100, {
+  [alice]: [1, 2],
+  [bob]: [3],
+  [carol]: [4],
+});
+
+// Token 2 moved from alice to bob, 4 was burned, 5 was minted to dave
+const afterIndex = { [alice]: [1], [bob]: [2, 3], [dave]: [5] };
+const after = snapshot(200, afterIndex, [
+  {
+    id: "firstworks",
+    name: "FirstWorks",
+    contractAddress: firstWorksAddress,
+    contractName: "AbrahamFirstWorks",
+    chain: "mainnet",
+    weight: 1,
+    totalSupply: 4,
+    blockNumber: 200,
+    totalHolders: 3,
+    holderIndex: { [alice]: [1], [bobMixedCase]: [3, 2], [dave]: [5] },
+  },
+]);
+
+describe("diffSnapshots", function () {
+  it("reports added, removed and changed holders against a legacy snapshot", function () {
+    const diff = diffSnapshots({ version: "1", snapshot: before }, { version: "2", snapshot: after });
+
+    expect(diff.from).to.include({ version: "1", blockNumber: 100, totalHolders: 3 });
+    expect(diff.to).to.include({ version: "2", blockNumber: 200, totalHolders: 3 });
+
+    expect(diff.addedHolders).to.deep.equal([{ address: dave, tokens: { firstworks: [5] } }]);
+    expect(diff.removedHolders).to.deep.equal([{ address: carol, tokens: { firstworks: [4] } }]);
+    expect(diff.changedHolders).to.deep.equal([
+      { address: alice, balanceBefore: 2, balanceAfter: 1, gained: {}, lost: { firstworks: [2] } },
+      { address: bob, balanceBefore: 1, balanceAfter: 2, gained: { firstworks: [2] }, lost: {} },
+    ]);
+    expect(diff.summary).to.deep.equal({
+      addedHolders: 1,
+      removedHolders: 1,
+      changedHolders: 2,
+      transfers: 3,
+    });
+  });
+
+  it("reports mints and burns as transfers from or to null", function () {
+    const diff = diffSnapshots({ version: "1", snapshot: before }, { version: "2", snapshot: after });
+
+    expect(diff.transfers).to.deep.equal([
+      { collection: "firstworks", tokenId: 2, from: alice, to: bob },
+      { collection: "firstworks", tokenId: 4, from: carol, to: null },
+      { collection: "firstworks", tokenId: 5, from: null, to: dave },
+    ]);
+  });
+
+  it("only reports changes involving the requested address", function () {
+    const diff = diffSnapshots(
+      { version: "1", snapshot: before },
+      { version: "2", snapshot: after },
+      bobMixedCase
+    );
+
+    expect(diff.transfers).to.deep.equal([
+      { collection: "firstworks", tokenId: 2, from: alice, to: bob },
+    ]);
+    expect(diff.changedHolders.map((holder) => holder.address)).to.deep.equal([bob]);
+    expect(diff.addedHolders).to.deep.equal([]);
+    expect(diff.removedHolders).to.deep.equal([]);
+  });
+
+  it("reports nothing between identical snapshots", function () {
+    const diff = diffSnapshots({ version: "1", snapshot: before }, { version: "1", snapshot: before });
+
+    expect(diff.summary).to.deep.equal({
+      addedHolders: 0,
+      removedHolders: 0,
+      changedHolders: 0,
+      transfers: 0,
+    });
+  });
+});
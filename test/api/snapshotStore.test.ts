@@ -0,0 +1,101 @@
+import { expect } from "chai";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { LocalSnapshotStore } from "../../lib/storage/localSnapshotStore.js";
+import { SnapshotStoreError } from "../../lib/storage/snapshotStore.js";
+
+/**
+ * Version IDs are publish timestamps in ms: keep them distinct
+ */
+async function publish(store: LocalSnapshotStore, data: unknown) {
+  await new Promise((resolve) => setTimeout(resolve, 2));
+  return store.publish("snapshot", data);
+}
+
+describe("LocalSnapshotStore", function () {
+  let dir: string;
+  let store: LocalSnapshotStore;
+
+  beforeEach(function () {
+    dir = mkdtempSync(join(tmpdir(), "snapshots-"));
+    store = new LocalSnapshotStore(dir);
+  });
+
+  afterEach(function () {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("publishes a version and loads it as the latest", async function () {
+    expect(await store.loadLatest("snapshot")).to.equal(null);
+
+    const version = await publish(store, { blockNumber: 1 });
+
+    expect(await store.loadLatest("snapshot")).to.deep.equal({ blockNumber: 1 });
+    expect(await store.getLatestPointer("snapshot")).to.include({ id: version.id, hash: version.hash });
+    expect(await store.loadVersion("snapshot", version.id)).to.deep.equal({ blockNumber: 1 });
+    // Kinds are kept apart
+    expect(await store.loadLatest("merkle")).to.equal(null);
+  });
+
+  it("creates no new version when the content is unchanged", async function () {
+    const first = await publish(store, { blockNumber: 1 });
+    const again = await publish(store, { blockNumber: 1 });
+    const changed = await publish(store, { blockNumber: 2 });
+
+    expect(again.id).to.equal(first.id);
+    expect((await store.listVersions("snapshot")).map((v) => v.id)).to.deep.equal([
+      changed.id,
+      first.id,
+    ]);
+  });
+
+  it("refuses to load a version whose content does not match its hash", async function () {
+    const version = await publish(store, { blockNumber: 1 });
+    writeFileSync(version.location, readFileSync(version.location, "utf-8").replace("1", "2"));
+
+    let error: unknown;
+    try {
+      await store.loadLatest("snapshot");
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).to.be.instanceOf(SnapshotStoreError);
+    expect((error as Error).message).to.match(/hash mismatch/);
+  });
+
+  it("always keeps the version the pointer names when pruning", async function () {
+    for (let block = 1; block <= 4; block++) {
+      await publish(store, { blockNumber: block });
+    }
+    const latest = await store.getLatestPointer("snapshot");
+
+    expect(await store.applyRetention("snapshot", { keepVersions: 2 })).to.equal(2);
+    expect(await store.applyRetention("snapshot", { keepVersions: 0, maxAgeDays: 1e-9 })).to.equal(1);
+
+    expect((await store.listVersions("snapshot")).map((v) => v.id)).to.deep.equal([latest!.id]);
+    expect(await store.loadLatest("snapshot")).to.deep.equal({ blockNumber: 4 });
+  });
+
+  it("stores point-in-time files without moving the pointer", async function () {
+    await publish(store, { blockNumber: 10 });
+    await store.saveAtBlock("snapshot", 5, { blockNumber: 5 });
+
+    expect(await store.loadAtBlock("snapshot", 5)).to.deep.equal({ blockNumber: 5 });
+    expect(await store.loadAtBlock("snapshot", 6)).to.equal(null);
+    expect(await store.loadLatest("snapshot")).to.deep.equal({ blockNumber: 10 });
+    // Not a version, so never pruned
+    expect(await store.listVersions("snapshot")).to.have.length(1);
+  });
+
+  it("falls back to the legacy latest.json when there is no pointer", async function () {
+    mkdirSync(join(dir, "snapshots"), { recursive: true });
+    writeFileSync(join(dir, "snapshots", "latest.json"), JSON.stringify({ blockNumber: 3 }));
+
+    expect(await store.loadLatest("snapshot")).to.deep.equal({ blockNumber: 3 });
+
+    await publish(store, { blockNumber: 4 });
+    expect(await store.loadLatest("snapshot")).to.deep.equal({ blockNumber: 4 });
+  });
+});
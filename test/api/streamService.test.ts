@@ -0,0 +1,54 @@
+import { expect } from "chai";
+
+const { indexerService } = await import("../../src/services/indexerService.js");
+const { streamService } = await import("../../src/services/streamService.js");
+
+function roundStart(blockNumber: bigint, logIndex = 0) {
+  return {
+    type: "roundStart" as const,
+    round: blockNumber,
+    blockNumber,
+    logIndex,
+    transactionHash: `0x${blockNumber.toString(16).padStart(64, "0")}` as const,
+  };
+}
+
+describe("streamService replay", function () {
+  const originals = {
+    getEventsAfter: indexerService.getEventsAfter,
+    getUnconfirmedEvents: indexerService.getUnconfirmedEvents,
+  };
+
+  before(function () {
+    // Indexed up to block 10; blocks 11-12 are only in the chain's logs
+    Object.assign(indexerService, {
+      getEventsAfter: async (blockNumber: bigint) =>
+        [roundStart(9n), roundStart(10n)].filter((event) => event.blockNumber > blockNumber),
+      getUnconfirmedEvents: async () => [roundStart(11n), roundStart(12n, 0), roundStart(12n, 1)],
+    });
+  });
+
+  after(function () {
+    Object.assign(indexerService, originals);
+  });
+
+  it("replays events above the indexed head, flagged as unconfirmed", async function () {
+    const events = await streamService.getEventsAfter("8-0");
+
+    expect(events.map((event) => streamService.getEventId(event))).to.deep.equal([
+      "9-0",
+      "10-0",
+      "11-0",
+      "12-0",
+      "12-1",
+    ]);
+    expect(events.map((event) => event.confirmed)).to.deep.equal([true, true, false, false, false]);
+  });
+
+  it("resumes within the unconfirmed range", async function () {
+    const events = await streamService.getEventsAfter("12-0");
+
+    expect(events.map((event) => streamService.getEventId(event))).to.deep.equal(["12-1"]);
+    expect(streamService.serializeEvent(events[0])).to.include({ blockNumber: 12, confirmed: false });
+  });
+});
@@ -0,0 +1,150 @@
+import { expect } from "chai";
+import { createHmac } from "crypto";
+import { createServer, type IncomingMessage, type Server } from "http";
+import type { AddressInfo } from "net";
+
+process.env.STATE_STORE = "memory";
+const { webhookService } = await import("../../src/services/webhookService.js");
+
+interface Received {
+  headers: IncomingMessage["headers"];
+  body: string;
+}
+
+describe("webhookService", function () {
+  let server: Server;
+  let url: string;
+  let received: Received[];
+  let respond: (res: { statusCode: number; end: () => void }) => void;
+
+  before(async function () {
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        respond(res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  after(function () {
+    server.close();
+  });
+
+  beforeEach(async function () {
+    received = [];
+    respond = (res) => res.end();
+    for (const hook of await webhookService.listWebhooks()) {
+      await webhookService.deleteWebhook(hook.id);
+    }
+  });
+
+  it("signs deliveries with HMAC-SHA256 over timestamp and body", async function () {
+    const hook = await webhookService.createWebhook({ url, events: ["winner.selected"] });
+
+    const delivery = await webhookService.sendTest(hook.id);
+    expect(delivery?.status).to.equal("succeeded");
+
+    const [{ headers, body }] = received;
+    const [, timestamp, signature] = /^t=(\d+),v1=([0-9a-f]{64})$/.exec(
+      String(headers["x-abraham-signature"])
+    )!;
+    const expected = createHmac("sha256", hook.secret).update(`${timestamp}.${body}`).digest("hex");
+
+    expect(signature).to.equal(expected);
+    expect(webhookService.sign(hook.secret, Number(timestamp), body)).to.equal(expected);
+    expect(headers["x-abraham-delivery"]).to.equal(delivery!.id);
+  });
+
+  it("records deliveries without waiting for the endpoint", async function () {
+    let release!: () => void;
+    const answered = new Promise<void>((resolve) => (release = resolve));
+    respond = (res) => answered.then(() => res.end());
+    await webhookService.createWebhook({ url, events: ["winner.selected"] });
+
+    await webhookService.emit("winner.selected", { round: 1 });
+
+    const [pending] = await webhookService.getDeliveries({ status: "pending" });
+    expect(pending?.event).to.equal("winner.selected");
+
+    release();
+    for (let i = 0; i < 50 && (await webhookService.getDeliveries({ status: "pending" })).length; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    expect((await webhookService.getDeliveries({ limit: 1 }))[0].status).to.equal("succeeded");
+  });
+
+  it("schedules a retry after a failed attempt", async function () {
+    respond = (res) => {
+      res.statusCode = 500;
+      res.end();
+    };
+    const hook = await webhookService.createWebhook({ url, events: ["winner.selected"] });
+
+    const delivery = await webhookService.sendTest(hook.id);
+
+    expect(delivery?.status).to.equal("pending");
+    expect(delivery?.attempts[0]).to.include({ statusCode: 500, error: "HTTP 500" });
+    expect(Date.parse(delivery!.nextAttemptAt!)).to.be.greaterThan(Date.now());
+
+    // Stop its retry timer
+    await webhookService.deleteWebhook(hook.id);
+  });
+
+  it("logs a retry that fails in the store instead of rejecting unhandled", async function () {
+    const service = webhookService as any;
+    const claim = service.deliveries.claim;
+    const unhandled: unknown[] = [];
+    const onUnhandled = (reason: unknown) => unhandled.push(reason);
+    process.on("unhandledRejection", onUnhandled);
+    service.deliveries.claim = async () => {
+      throw new Error("Redis connection lost");
+    };
+
+    try {
+      service.scheduleRetry({ id: "retry-1", event: "winner.selected", nextAttemptAt: null });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    } finally {
+      service.deliveries.claim = claim;
+      process.off("unhandledRejection", onUnhandled);
+    }
+
+    expect(unhandled).to.deep.equal([]);
+  });
+
+  it("backs off exponentially up to one hour", function () {
+    expect([1, 2, 3, 4].map((n) => webhookService.retryDelay(n))).to.deep.equal([
+      1000, 2000, 4000, 8000,
+    ]);
+    expect(webhookService.retryDelay(30)).to.equal(60 * 60 * 1000);
+  });
+
+  it("trims only completed deliveries from the log", async function () {
+    const service = webhookService as any;
+    const maxLog = service.MAX_DELIVERY_LOG;
+    service.MAX_DELIVERY_LOG = 2;
+
+    try {
+      const inactive = await webhookService.createWebhook({ url, events: ["auction.created"] });
+      await webhookService.updateWebhook(inactive.id, { active: false });
+      const pending = service.createDelivery(inactive, "auction.created", {});
+      pending.createdAt = new Date(0).toISOString();
+      await service.saveDelivery(pending);
+
+      const hook = await webhookService.createWebhook({ url, events: ["winner.selected"] });
+      const sent: string[] = [];
+      for (let i = 0; i < 4; i++) {
+        sent.push((await webhookService.sendTest(hook.id))!.id);
+      }
+
+      // Trimmed when the last one was recorded, before it completed
+      const ids = (await webhookService.getDeliveries({ limit: 1000 })).map((d) => d.id);
+      expect(ids).to.have.members([...sent.slice(-3), pending.id]);
+    } finally {
+      service.MAX_DELIVERY_LOG = maxLog;
+    }
+  });
+});